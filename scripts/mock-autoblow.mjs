@@ -0,0 +1,122 @@
+// ============================================
+// MOCK AUTOBLOW SERVER
+// ============================================
+// Implements the Autoblow endpoints the app calls so the device routes can
+// run with no hardware or network:
+//   GET  /autoblow/connected       -> { connected, cluster }
+//   PUT  /autoblow/oscillate       <- { speed, minY, maxY }
+//   PUT  /autoblow/oscillate/stop
+//   GET  /autoblow/state
+//   GET  /__commands               -> every command received (debug)
+//
+// Usage:
+//   node scripts/mock-autoblow.mjs
+//   AUTOBLOW_API_URL=http://localhost:4010 AUTOBLOW_DEVICE_TOKEN=dev AUTOBLOW_ENABLED=true
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.MOCK_AUTOBLOW_PORT) || 4010;
+const BASE_URL = `http://localhost:${PORT}`;
+// When set, requests must carry this x-device-token
+const EXPECTED_TOKEN = process.env.MOCK_AUTOBLOW_TOKEN || "";
+
+const state = {
+  operationalMode: "ONLINE",
+  oscillatorTargetSpeed: 0,
+  oscillatorLowPoint: 0,
+  oscillatorHighPoint: 0,
+  lastCommandAt: null,
+  commandsReceived: 0,
+};
+const commands = [];
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+    });
+    req.on("end", () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function inRange(value) {
+  return typeof value === "number" && value >= 0 && value <= 100;
+}
+
+function record(type, command) {
+  const at = Date.now();
+  commands.push({ at, type, command });
+  state.lastCommandAt = at;
+  state.commandsReceived++;
+  console.log(
+    `[MockAutoblow] ${new Date(at).toISOString()} ${type}` +
+      (command ? ` speed=${command.speed} range=${command.minY}-${command.maxY}` : "")
+  );
+}
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url || "/", BASE_URL);
+
+  if (pathname === "/__commands" && req.method === "GET") {
+    return send(res, 200, { commands });
+  }
+
+  if (EXPECTED_TOKEN && req.headers["x-device-token"] !== EXPECTED_TOKEN) {
+    return send(res, 401, { error: "Invalid device token" });
+  }
+
+  if (pathname === "/autoblow/connected" && req.method === "GET") {
+    return send(res, 200, { connected: true, cluster: BASE_URL });
+  }
+
+  if (pathname === "/autoblow/state" && req.method === "GET") {
+    return send(res, 200, state);
+  }
+
+  if (pathname === "/autoblow/oscillate/stop" && req.method === "PUT") {
+    state.operationalMode = "ONLINE";
+    state.oscillatorTargetSpeed = 0;
+    record("stop", null);
+    return send(res, 200, state);
+  }
+
+  if (pathname === "/autoblow/oscillate" && req.method === "PUT") {
+    let body;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { error: "Invalid JSON" });
+    }
+
+    const { speed, minY, maxY } = body;
+    if (!inRange(speed) || !inRange(minY) || !inRange(maxY) || minY >= maxY) {
+      return send(res, 400, { error: "speed, minY, maxY must be 0-100 with minY < maxY" });
+    }
+
+    state.operationalMode = "OSCILLATOR_PLAYING";
+    state.oscillatorTargetSpeed = speed;
+    state.oscillatorLowPoint = minY;
+    state.oscillatorHighPoint = maxY;
+    record("oscillate", { speed, minY, maxY });
+    return send(res, 200, state);
+  }
+
+  send(res, 404, { error: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`[MockAutoblow] Listening on ${BASE_URL}`);
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { AuthError, createSignInNonce } from '@/lib/server/auth';
+
+/**
+ * POST - Issue a single-use sign-in message for a wallet to sign
+ * Body: { walletAddress }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'auth_nonce_ip',
+      key: getClientIp(request),
+      limit: 20,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts from this IP', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const { walletAddress } = (await request.json()) as { walletAddress?: string };
+    try {
+      new PublicKey(walletAddress || '');
+    } catch {
+      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const { nonce, message, expiresAt } = await createSignInNonce(walletAddress as string, origin);
+    return NextResponse.json({ nonce, message, expiresAt: new Date(expiresAt).toISOString() });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Auth] Nonce error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import {
+  AuthError,
+  clearSessionCookie,
+  completeSignIn,
+  getWalletSession,
+  setSessionCookie,
+} from '@/lib/server/auth';
+
+interface SignInRequest {
+  walletAddress?: string;
+  nonce?: string;
+  signature?: string;       // base64 ed25519 signature of the nonce's message
+}
+
+/**
+ * GET - Wallet the caller is signed in as, if any
+ */
+export async function GET(request: NextRequest) {
+  const session = getWalletSession(request);
+  return NextResponse.json({
+    walletAddress: session?.walletAddress ?? null,
+    expiresAt: session ? new Date(session.expiresAt).toISOString() : null,
+  });
+}
+
+/**
+ * POST - Exchange a signed sign-in message for a session cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'auth_session_ip',
+      key: getClientIp(request),
+      limit: 20,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-in attempts from this IP', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const body = (await request.json()) as SignInRequest;
+    if (!body.walletAddress || !body.nonce || !body.signature) {
+      return NextResponse.json(
+        { error: 'Missing required fields: walletAddress, nonce, signature' },
+        { status: 400 }
+      );
+    }
+
+    const signature = Buffer.from(body.signature, 'base64');
+    const session = await completeSignIn(body.walletAddress, body.nonce, signature);
+    console.log(`[Auth] Signed in ${session.walletAddress.slice(0, 4)}...`);
+
+    const response = NextResponse.json({
+      walletAddress: session.walletAddress,
+      expiresAt: new Date(session.expiresAt).toISOString(),
+    });
+    setSessionCookie(response, session);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Auth] Sign-in error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE - Sign out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
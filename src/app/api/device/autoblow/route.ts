@@ -3,137 +3,39 @@ import {
   createSession,
   getSession,
   getActiveSessionForToken,
-  processSessionTick,
+  processSessionTickWithMotion,
   endSession,
   getSessionStatus,
   cleanupExpiredSessions,
   getAllActiveSessions,
   getModeName,
+  resolveModeChoice,
   DeviceCommand,
   COMMAND_INTERVAL_MS,
 } from '@/lib/chartSync';
-import { updateDeviceSession } from '@/lib/firebase-admin';
-
-const AUTOBLOW_LATENCY_API = 'https://latency.autoblowapi.com';
-const AUTOBLOW_DEVICE_TOKEN = process.env.AUTOBLOW_DEVICE_TOKEN || '';
-const AUTOBLOW_ENABLED = process.env.AUTOBLOW_ENABLED === 'true';
-const AUTOBLOW_CLUSTER = process.env.AUTOBLOW_CLUSTER || '';
-
-let cachedClusterUrl: string | null = null;
-let lastCommandTime = 0;
-
-interface AutoblowConnectedResponse {
-  connected: boolean;
-  cluster: string;
-}
+import { updateDeviceSession } from '@/lib/server/device-session';
+import { getAutoblowClient } from '@/lib/server/autoblow';
+import {
+  deliverSessionTick,
+  getActiveDeviceDrivers,
+  hasActiveDeviceDrivers,
+  stopAllDevices,
+  DeviceCapabilities,
+  DeviceDispatchResult,
+} from '@/lib/server/devices';
+import { AUTOBLOW_ENABLED } from '@/lib/constants';
 
 interface SessionBody {
   action?: 'start' | 'tick' | 'stop' | 'test' | 'status' | 'cleanup';
   sessionStateId?: string;
   tokenMint?: string;
+  mode?: string | number;   // 'auto' or a mode key/id to pin
   sessionId?: string;
   speed?: number;
   minY?: number;
   maxY?: number;
 }
 
-async function getClusterUrl(): Promise<string> {
-  if (cachedClusterUrl) return cachedClusterUrl;
-
-  if (AUTOBLOW_CLUSTER) {
-    cachedClusterUrl = `https://${AUTOBLOW_CLUSTER}.autoblowapi.com`;
-    return cachedClusterUrl;
-  }
-
-  const response = await fetch(`${AUTOBLOW_LATENCY_API}/autoblow/connected`, {
-    method: 'GET',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN },
-  });
-
-  if (!response.ok) {
-    throw new Error('Device not connected');
-  }
-
-  const data = (await response.json()) as AutoblowConnectedResponse;
-  if (!data.connected) {
-    throw new Error('Device not connected');
-  }
-
-  cachedClusterUrl = data.cluster;
-  return cachedClusterUrl;
-}
-
-async function getDeviceState(): Promise<Record<string, unknown>> {
-  if (!AUTOBLOW_DEVICE_TOKEN) throw new Error('Device token not configured');
-
-  const baseUrl = await getClusterUrl();
-  const response = await fetch(`${baseUrl}/autoblow/state`, {
-    method: 'GET',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to get device state: ${response.status}`);
-  }
-
-  return (await response.json()) as Record<string, unknown>;
-}
-
-async function sendDeviceCommand(command: DeviceCommand): Promise<Record<string, unknown>> {
-  if (!AUTOBLOW_DEVICE_TOKEN) throw new Error('Device token not configured');
-
-  const now = Date.now();
-  if (now - lastCommandTime < COMMAND_INTERVAL_MS - 5000) {
-    return { skipped: true, reason: 'cooldown' };
-  }
-
-  const baseUrl = await getClusterUrl();
-
-  if (command.speed === 0) {
-    const response = await fetch(`${baseUrl}/autoblow/oscillate/stop`, {
-      method: 'PUT',
-      headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN },
-    });
-
-    lastCommandTime = now;
-    return response.ok ? { stopped: true } : { error: 'Failed to stop' };
-  }
-
-  const response = await fetch(`${baseUrl}/autoblow/oscillate`, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-device-token': AUTOBLOW_DEVICE_TOKEN,
-    },
-    body: JSON.stringify({
-      speed: command.speed,
-      minY: command.minY,
-      maxY: command.maxY,
-    }),
-  });
-
-  lastCommandTime = now;
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`Device command failed: ${response.status} - ${text}`);
-  }
-
-  return (await response.json()) as Record<string, unknown>;
-}
-
-async function stopDevice(): Promise<Record<string, unknown>> {
-  if (!AUTOBLOW_DEVICE_TOKEN) return { error: 'Not configured' };
-
-  const baseUrl = await getClusterUrl();
-  const response = await fetch(`${baseUrl}/autoblow/oscillate/stop`, {
-    method: 'PUT',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN },
-  });
-
-  return response.ok ? { stopped: true } : { error: 'Failed to stop' };
-}
-
 function verifyAuth(request: NextRequest): boolean {
   const authHeader = request.headers.get('authorization');
   const cronSecret = process.env.CRON_SECRET;
@@ -171,7 +73,12 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        const existing = getActiveSessionForToken(tokenMint);
+        const pinnedModeId = resolveModeChoice(body.mode);
+        if (pinnedModeId === undefined) {
+          return NextResponse.json({ error: 'Unknown mode' }, { status: 400 });
+        }
+
+        const existing = await getActiveSessionForToken(tokenMint);
         if (existing) {
           return NextResponse.json({
             success: false,
@@ -180,17 +87,17 @@ export async function POST(request: NextRequest) {
           });
         }
 
-        const session = createSession({ sessionStateId, tokenMint });
+        const session = await createSession({ sessionStateId, tokenMint, modeId: pinnedModeId });
 
-        let deviceResult: Record<string, unknown> | null = null;
-        if (AUTOBLOW_ENABLED && AUTOBLOW_DEVICE_TOKEN) {
-          const command = await processSessionTick(session.sessionId);
-          if (command) {
-            deviceResult = await sendDeviceCommand(command);
+        let deviceResult: DeviceDispatchResult | null = null;
+        if (hasActiveDeviceDrivers()) {
+          const tick = await processSessionTickWithMotion(session.sessionId);
+          if (tick) {
+            deviceResult = await deliverSessionTick(tick);
           }
         }
 
-        const updatedSession = getSession(session.sessionId);
+        const updatedSession = await getSession(session.sessionId);
         if (updatedSession) {
           try {
             await updateDeviceSession(
@@ -212,7 +119,7 @@ export async function POST(request: NextRequest) {
           modeName: getModeName(session.modeId),
           startsAt: new Date(session.startTime).toISOString(),
           endsAt: new Date(session.endTime).toISOString(),
-          deviceEnabled: AUTOBLOW_ENABLED,
+          deviceEnabled: hasActiveDeviceDrivers(),
           deviceResult,
         });
       }
@@ -222,9 +129,9 @@ export async function POST(request: NextRequest) {
         const tokenMint = body.tokenMint;
 
         const session = sessionId
-          ? getSession(sessionId)
+          ? await getSession(sessionId)
           : tokenMint
-            ? getActiveSessionForToken(tokenMint)
+            ? await getActiveSessionForToken(tokenMint)
             : null;
 
         if (!session) {
@@ -234,20 +141,20 @@ export async function POST(request: NextRequest) {
           });
         }
 
-        const command = await processSessionTick(session.sessionId);
-        if (!command) {
+        const tick = await processSessionTickWithMotion(session.sessionId);
+        if (!tick) {
           return NextResponse.json({
             success: false,
             error: 'Failed to process tick',
           });
         }
 
-        let deviceResult: Record<string, unknown> | null = null;
-        if (AUTOBLOW_ENABLED && AUTOBLOW_DEVICE_TOKEN) {
-          deviceResult = await sendDeviceCommand(command);
+        let deviceResult: DeviceDispatchResult | null = null;
+        if (hasActiveDeviceDrivers()) {
+          deviceResult = await deliverSessionTick(tick);
         }
 
-        const updatedSession = getSession(session.sessionId);
+        const updatedSession = await getSession(session.sessionId);
         if (updatedSession) {
           try {
             await updateDeviceSession(
@@ -265,9 +172,9 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({
           success: true,
           sessionId: session.sessionId,
-          command,
-          status: getSessionStatus(session.sessionId),
-          deviceEnabled: AUTOBLOW_ENABLED,
+          command: tick.command,
+          status: await getSessionStatus(session.sessionId),
+          deviceEnabled: hasActiveDeviceDrivers(),
           deviceResult,
         });
       }
@@ -277,18 +184,18 @@ export async function POST(request: NextRequest) {
         const tokenMint = body.tokenMint;
 
         const session = sessionId
-          ? getSession(sessionId)
+          ? await getSession(sessionId)
           : tokenMint
-            ? getActiveSessionForToken(tokenMint)
+            ? await getActiveSessionForToken(tokenMint)
             : null;
 
         if (session) {
-          endSession(session.sessionId);
+          await endSession(session.sessionId);
         }
 
         const deviceResult =
-          AUTOBLOW_ENABLED && AUTOBLOW_DEVICE_TOKEN
-            ? await stopDevice()
+          hasActiveDeviceDrivers()
+            ? await stopAllDevices()
             : null;
 
         return NextResponse.json({
@@ -333,12 +240,14 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const sessionId = searchParams.get('sessionId');
     const tokenMint = searchParams.get('tokenMint');
+    const autoblow = getAutoblowClient();
 
     const response: {
       enabled: boolean;
       configured: boolean;
       commandIntervalMs: number;
-      session?: ReturnType<typeof getSessionStatus>;
+      drivers: Array<{ id: string; capabilities: DeviceCapabilities }>;
+      session?: Awaited<ReturnType<typeof getSessionStatus>>;
       activeSessions: Array<{
         sessionId: string;
         tokenMint: string;
@@ -350,21 +259,25 @@ export async function GET(request: NextRequest) {
       deviceError?: string;
     } = {
       enabled: AUTOBLOW_ENABLED,
-      configured: !!AUTOBLOW_DEVICE_TOKEN,
+      configured: autoblow.isConfigured(),
       commandIntervalMs: COMMAND_INTERVAL_MS,
+      drivers: getActiveDeviceDrivers().map((driver) => ({
+        id: driver.id,
+        capabilities: driver.capabilities,
+      })),
       activeSessions: [],
     };
 
     if (sessionId) {
-      response.session = getSessionStatus(sessionId);
+      response.session = await getSessionStatus(sessionId);
     } else if (tokenMint) {
-      const session = getActiveSessionForToken(tokenMint);
+      const session = await getActiveSessionForToken(tokenMint);
       if (session) {
-        response.session = getSessionStatus(session.sessionId);
+        response.session = await getSessionStatus(session.sessionId);
       }
     }
 
-    response.activeSessions = getAllActiveSessions().map((session) => ({
+    response.activeSessions = (await getAllActiveSessions()).map((session) => ({
       sessionId: session.sessionId,
       tokenMint: session.tokenMint,
       mode: getModeName(session.modeId),
@@ -372,9 +285,9 @@ export async function GET(request: NextRequest) {
       remaining: Math.max(0, Math.floor((session.endTime - Date.now()) / 1000)),
     }));
 
-    if (AUTOBLOW_ENABLED && AUTOBLOW_DEVICE_TOKEN) {
+    if (AUTOBLOW_ENABLED && autoblow.isConfigured()) {
       try {
-        response.deviceState = await getDeviceState();
+        response.deviceState = await autoblow.getState();
       } catch (error) {
         response.deviceError = error instanceof Error ? error.message : 'Unknown error';
       }
@@ -399,10 +312,12 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const sessions = getAllActiveSessions();
-    sessions.forEach((session) => endSession(session.sessionId));
+    const sessions = await getAllActiveSessions();
+    for (const session of sessions) {
+      await endSession(session.sessionId);
+    }
 
-    const deviceResult = AUTOBLOW_DEVICE_TOKEN ? await stopDevice() : null;
+    const deviceResult = await stopAllDevices();
 
     return NextResponse.json({
       success: true,
@@ -428,7 +343,8 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    if (!AUTOBLOW_DEVICE_TOKEN) {
+    const autoblow = getAutoblowClient();
+    if (!autoblow.isConfigured()) {
       return NextResponse.json({ error: 'Device not configured' }, { status: 400 });
     }
 
@@ -446,9 +362,9 @@ export async function PUT(request: NextRequest) {
           maxY: Math.max(0, Math.min(100, maxY || 70)),
         };
 
-        const result = await sendDeviceCommand(command);
+        const result = await autoblow.sendCommand(command);
         return NextResponse.json({
-          success: true,
+          success: result.ok,
           action: 'test',
           command,
           result,
@@ -456,16 +372,16 @@ export async function PUT(request: NextRequest) {
       }
 
       case 'stop': {
-        const result = await stopDevice();
+        const result = await autoblow.stop();
         return NextResponse.json({
-          success: true,
+          success: result.ok,
           action: 'stopped',
           result,
         });
       }
 
       case 'status': {
-        const state = await getDeviceState();
+        const state = await autoblow.getState();
         return NextResponse.json({
           success: true,
           action: 'status',
@@ -474,7 +390,7 @@ export async function PUT(request: NextRequest) {
       }
 
       case 'cleanup': {
-        const cleaned = cleanupExpiredSessions();
+        const cleaned = await cleanupExpiredSessions();
         return NextResponse.json({
           success: true,
           action: 'cleanup',
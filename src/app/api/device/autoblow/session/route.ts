@@ -1,92 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   createSession,
+  getSession,
   getActiveSessionForToken,
-  processSessionTick,
+  processSessionTickWithMotion,
   endSession,
   getSessionStatus,
   getModeName,
-  DeviceCommand
+  resolveModeChoice
 } from '@/lib/chartSync';
-import { updateDeviceSession, clearDeviceSession, getAdminDb, FieldValue } from '@/lib/firebase-admin';
 import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
 import { refreshStateSnapshot } from '@/lib/server/state-store';
-
-// Environment variables for device configuration
-const AUTOBLOW_DEVICE_TOKEN = process.env.AUTOBLOW_DEVICE_TOKEN || '';
-const AUTOBLOW_ENABLED = process.env.AUTOBLOW_ENABLED === 'true';
-const AUTOBLOW_CLUSTER = process.env.AUTOBLOW_CLUSTER || '';
-const AUTOBLOW_LATENCY_API = 'https://latency.autoblowapi.com';
-
-// Cache the cluster URL
-let cachedClusterUrl: string | null = null;
-
-async function getClusterUrl(): Promise<string> {
-  if (cachedClusterUrl) return cachedClusterUrl;
-
-  if (AUTOBLOW_CLUSTER) {
-    cachedClusterUrl = `https://${AUTOBLOW_CLUSTER}.autoblowapi.com`;
-    return cachedClusterUrl;
-  }
-
-  const response = await fetch(`${AUTOBLOW_LATENCY_API}/autoblow/connected`, {
-    method: 'GET',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-  });
-
-  if (!response.ok) throw new Error('Device not connected');
-
-  const data = await response.json();
-  if (!data.connected) throw new Error('Device not connected');
-
-  cachedClusterUrl = data.cluster;
-  return cachedClusterUrl!;
-}
-
-async function stopOscillation(): Promise<boolean> {
-  if (!AUTOBLOW_DEVICE_TOKEN) return false;
-
-  try {
-    const baseUrl = await getClusterUrl();
-    const response = await fetch(`${baseUrl}/autoblow/oscillate/stop`, {
-      method: 'PUT',
-      headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('[Session] Error stopping device:', error);
-    return false;
-  }
-}
-
-async function sendCommand(command: DeviceCommand): Promise<boolean> {
-  if (!AUTOBLOW_DEVICE_TOKEN) return false;
-
-  try {
-    const baseUrl = await getClusterUrl();
-
-    if (command.speed === 0) {
-      return await stopOscillation();
-    }
-
-    const response = await fetch(`${baseUrl}/autoblow/oscillate`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-device-token': AUTOBLOW_DEVICE_TOKEN
-      },
-      body: JSON.stringify({
-        speed: command.speed,
-        minY: command.minY,
-        maxY: command.maxY
-      })
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('[Session] Error sending command:', error);
-    return false;
-  }
-}
+import { clearDeviceSession, updateDeviceSession } from '@/lib/server/device-session';
+import { updateCurrentTokenDoc } from '@/lib/server/queue-engine';
+import { deliverSessionTick, hasActiveDeviceDrivers, stopAllDevices } from '@/lib/server/devices';
 
 /**
  * POST - Session lifecycle management
@@ -106,7 +33,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { action, tokenMint, sessionStateId } = body;
+    const { action, tokenMint, sessionStateId, mode, endsAt } = body;
     const clientIp = getClientIp(request);
 
     const ipLimit = checkRateLimit({
@@ -122,8 +49,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!AUTOBLOW_ENABLED) {
-      console.log('[Session] Device disabled, skipping action:', action);
+    if (!hasActiveDeviceDrivers()) {
+      console.log('[Session] No device drivers enabled, skipping action:', action);
       return NextResponse.json({
         success: true,
         action,
@@ -131,14 +58,6 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    if (!AUTOBLOW_DEVICE_TOKEN) {
-      console.log('[Session] No device token configured');
-      return NextResponse.json({
-        success: false,
-        error: 'Device not configured'
-      }, { status: 400 });
-    }
-
     switch (action) {
       case 'start': {
         // Start a new chart-synced session for this token
@@ -164,11 +83,20 @@ export async function POST(request: NextRequest) {
           );
         }
 
+        // Queue items carry the payer's mode choice ('auto' or a mode key/id)
+        const pinnedModeId = resolveModeChoice(mode);
+        if (pinnedModeId === undefined) {
+          return NextResponse.json({
+            success: false,
+            error: 'Unknown mode'
+          }, { status: 400 });
+        }
+
         // Check for existing session
-        const existing = getActiveSessionForToken(tokenMint);
+        const existing = await getActiveSessionForToken(tokenMint);
         if (existing) {
           // Return existing session info
-          const status = getSessionStatus(existing.sessionId);
+          const status = await getSessionStatus(existing.sessionId);
           await refreshStateSnapshot('device_session_existing', true);
           return NextResponse.json({
             success: true,
@@ -180,18 +108,25 @@ export async function POST(request: NextRequest) {
         }
 
         // Create new session
-        const session = createSession({
+        const created = await createSession({
           sessionStateId: sessionStateId || `queue-${Date.now()}`,
-          tokenMint
+          tokenMint,
+          modeId: pinnedModeId,
+          // Queue slots pass their expiry so the device session ends with them
+          endTime: typeof endsAt === 'number' && Number.isFinite(endsAt) ? endsAt : undefined
         });
 
         // Process first tick and send initial command
-        const command = await processSessionTick(session.sessionId);
+        const tick = await processSessionTickWithMotion(created.sessionId);
+        const command = tick?.command ?? null;
         let deviceResult = false;
-        if (command) {
-          deviceResult = await sendCommand(command);
+        if (tick) {
+          deviceResult = (await deliverSessionTick(tick)).ok;
         }
 
+        // Re-read the stored session to pick up the first tick's mode/speed
+        const session = (await getSession(created.sessionId)) || created;
+
         // Store mode in Firestore for cross-instance access
         const modeName = getModeName(session.modeId);
         console.log(`[Session] Storing in Firestore: mode=${modeName}, modeId=${session.modeId}, speed=${session.lastSpeed}`);
@@ -203,13 +138,7 @@ export async function POST(request: NextRequest) {
             session.lastSpeed,
             session.lastAmplitude
           );
-          await getAdminDb().doc('settings/currentToken').set(
-            {
-              sessionStarted: true,
-              updatedAt: FieldValue.serverTimestamp(),
-            },
-            { merge: true }
-          );
+          await updateCurrentTokenDoc({ sessionStarted: true });
           console.log(`[Session] Firestore update successful`);
         } catch (fsError) {
           console.error(`[Session] Firestore update failed:`, fsError);
@@ -225,6 +154,7 @@ export async function POST(request: NextRequest) {
           sessionId: session.sessionId,
           modeId: session.modeId,
           modeName: getModeName(session.modeId),
+          modePinned: session.pinnedModeId != null,
           startsAt: new Date(session.startTime).toISOString(),
           endsAt: new Date(session.endTime).toISOString(),
           initialCommand: command,
@@ -237,25 +167,19 @@ export async function POST(request: NextRequest) {
         // Called when token expires or is replaced
 
         if (tokenMint) {
-          const session = getActiveSessionForToken(tokenMint);
+          const session = await getActiveSessionForToken(tokenMint);
           if (session) {
-            endSession(session.sessionId);
+            await endSession(session.sessionId);
             console.log(`[Session] Ended session for ${tokenMint.slice(0, 8)}...`);
           }
         }
 
-        const stopped = await stopOscillation();
+        const stopped = (await stopAllDevices()).ok;
 
         // Clear the device session from Firestore
         try {
           await clearDeviceSession();
-          await getAdminDb().doc('settings/currentToken').set(
-            {
-              sessionStarted: false,
-              updatedAt: FieldValue.serverTimestamp(),
-            },
-            { merge: true }
-          );
+          await updateCurrentTokenDoc({ sessionStarted: false });
           console.log('[Session] Cleared Firestore device session');
         } catch (err) {
           console.error('[Session] Failed to clear Firestore session:', err);
@@ -281,7 +205,7 @@ export async function POST(request: NextRequest) {
           }, { status: 400 });
         }
 
-        const session = getActiveSessionForToken(tokenMint);
+        const session = await getActiveSessionForToken(tokenMint);
         if (!session) {
           return NextResponse.json({
             success: false,
@@ -289,23 +213,25 @@ export async function POST(request: NextRequest) {
           });
         }
 
-        const command = await processSessionTick(session.sessionId);
+        const tick = await processSessionTickWithMotion(session.sessionId);
+        const command = tick?.command ?? null;
         let deviceResult = false;
-        if (command) {
-          deviceResult = await sendCommand(command);
+        if (tick) {
+          deviceResult = (await deliverSessionTick(tick)).ok;
         }
 
         // Update mode in Firestore (mode may have changed based on chart conditions)
-        const modeName = getModeName(session.modeId);
+        const ticked = (await getSession(session.sessionId)) || session;
+        const modeName = getModeName(ticked.modeId);
         await updateDeviceSession(
           tokenMint,
-          session.modeId,
+          ticked.modeId,
           modeName,
-          session.lastSpeed,
-          session.lastAmplitude
+          ticked.lastSpeed,
+          ticked.lastAmplitude
         );
 
-        const status = getSessionStatus(session.sessionId);
+        const status = await getSessionStatus(session.sessionId);
 
         await refreshStateSnapshot('device_session_tick', true);
 
@@ -349,7 +275,7 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const session = getActiveSessionForToken(tokenMint);
+    const session = await getActiveSessionForToken(tokenMint);
 
     if (!session) {
       return NextResponse.json({
@@ -358,7 +284,7 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    const status = getSessionStatus(session.sessionId);
+    const status = await getSessionStatus(session.sessionId);
 
     return NextResponse.json({
       hasSession: true,
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  Candle,
+  ModeParams,
+  parseCandleCsv,
+  parseCandleJson,
+  resolveModeChoice,
+  runBacktest,
+} from '@/lib/chartSync';
+
+interface BacktestBody {
+  candles?: unknown;          // JSON candle series
+  csv?: string;               // or CSV text
+  seed?: number;
+  mode?: string | number;     // 'auto' (default) or a mode key/id to pin
+  modeParams?: Partial<ModeParams>;
+  includeTicks?: boolean;     // default true; false returns the summary only
+}
+
+function verifyAdmin(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return true;
+  return request.headers.get('authorization') === `Bearer ${adminKey}`;
+}
+
+/**
+ * POST - Backtest chart-sync modes against a historical candle series
+ * JSON body: { candles | csv, seed?, mode?, modeParams?, includeTicks? }
+ * or a raw text/csv body with ?seed=&mode=&summary=1
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    let body: BacktestBody;
+    if ((request.headers.get('content-type') || '').includes('text/csv')) {
+      body = {
+        csv: await request.text(),
+        seed: searchParams.has('seed') ? Number(searchParams.get('seed')) : undefined,
+        mode: searchParams.get('mode') || undefined,
+        includeTicks: searchParams.get('summary') !== '1',
+      };
+    } else {
+      body = (await request.json()) as BacktestBody;
+    }
+
+    let candles: Candle[];
+    if (typeof body.csv === 'string') {
+      candles = parseCandleCsv(body.csv);
+    } else if (body.candles !== undefined) {
+      candles = parseCandleJson(body.candles);
+    } else {
+      return NextResponse.json({ error: 'Missing candles or csv' }, { status: 400 });
+    }
+
+    const modeId = resolveModeChoice(body.mode);
+    if (modeId === undefined) {
+      return NextResponse.json({ error: 'Unknown mode' }, { status: 400 });
+    }
+    if (body.seed !== undefined && !Number.isFinite(body.seed)) {
+      return NextResponse.json({ error: 'Invalid seed' }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = runBacktest(candles, { seed: body.seed, modeId, modeParams: body.modeParams });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid candle series' },
+        { status: 400 }
+      );
+    }
+
+    console.log(
+      `[Backtest] ${result.candles} candles, seed=${result.seed}, ` +
+      `mode=${modeId ?? 'auto'}: avg speed ${result.summary.averageSpeed.toFixed(1)}, ` +
+      `booster ${(result.summary.boosterRate * 100).toFixed(0)}%`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      ticks: body.includeTicks === false ? undefined : result.ticks,
+    });
+  } catch (error) {
+    console.error('[Backtest] Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Backtest failed' },
+      { status: 500 }
+    );
+  }
+}
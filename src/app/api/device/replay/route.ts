@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_API_KEY } from '@/lib/constants';
+import { getAllActiveSessions, getSessionStore } from '@/lib/chartSync';
+import { getReplayStatus, startReplay, stopReplay } from '@/lib/server/replay';
+
+interface ReplayBody {
+  sessionId?: string;
+  speed?: number;
+  force?: boolean;
+}
+
+// Replays drive the real device, so there is no open mode without a key
+function verifyAdmin(request: NextRequest): boolean {
+  if (!ADMIN_API_KEY) {
+    console.error('[Replay] No admin API key configured, refusing admin request');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${ADMIN_API_KEY}`;
+}
+
+/**
+ * GET - Current replay status and recently recorded sessions
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const recent = await getSessionStore().listTimelines(20);
+    return NextResponse.json({ replay: await getReplayStatus(), recent });
+  } catch (error) {
+    console.error('[Replay] GET error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Status check failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Replay a recorded session through the device layer
+ * Body: { sessionId, speed?: multiplier (0.25-10), force?: replay over a live session }
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as ReplayBody;
+    if (!body.sessionId) {
+      return NextResponse.json({ error: 'Missing sessionId' }, { status: 400 });
+    }
+
+    // Live sessions own the device; don't fight their ticks unless asked to
+    const live = await getAllActiveSessions();
+    if (live.length > 0 && !body.force) {
+      return NextResponse.json(
+        { error: 'A live session is active', activeSessionId: live[0].sessionId },
+        { status: 409 }
+      );
+    }
+
+    const replay = await startReplay(body.sessionId, body.speed ?? 1);
+    return NextResponse.json({ success: true, action: 'replay_started', replay });
+  } catch (error) {
+    console.error('[Replay] POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Replay failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Stop the current replay
+ */
+export async function DELETE(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const replay = await stopReplay();
+  return NextResponse.json({ success: true, action: 'replay_stopped', replay });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSimulatedCommandLog,
+  getSimulatedDeviceState,
+  resetSimulatedDevice,
+} from '@/lib/server/devices';
+
+function verifyAdmin(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return true;
+  return request.headers.get('authorization') === `Bearer ${adminKey}`;
+}
+
+/**
+ * GET - Fake device state and recorded commands for the simulated driver
+ * ?since=<ms> returns only commands received after that timestamp
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const since = Number(request.nextUrl.searchParams.get('since')) || undefined;
+
+  return NextResponse.json({
+    state: getSimulatedDeviceState(),
+    commands: getSimulatedCommandLog(since),
+  });
+}
+
+/**
+ * DELETE - Clear the simulated device's state and command log
+ */
+export async function DELETE(request: NextRequest) {
+  if (!verifyAdmin(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  resetSimulatedDevice();
+  return NextResponse.json({ success: true, action: 'reset' });
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getAllActiveSessions,
-  processSessionTick,
+  processSessionTickWithMotion,
   endSession,
   isSessionExpired,
   getModeName,
@@ -9,68 +9,35 @@ import {
   getSession,
   DeviceCommand
 } from '@/lib/chartSync';
-import { updateDeviceSession } from '@/lib/firebase-admin';
+import { updateDeviceSession } from '@/lib/server/device-session';
 import { refreshStateSnapshot } from '@/lib/server/state-store';
+import { deliverSessionTick, hasActiveDeviceDrivers, stopAllDevices } from '@/lib/server/devices';
+import { settleWatchedIntents } from '@/lib/server/solana-pay';
+import { runTreasuryWatcher } from '@/lib/server/treasury-watcher';
 
-// Environment variables
-const AUTOBLOW_DEVICE_TOKEN = process.env.AUTOBLOW_DEVICE_TOKEN || '';
-const AUTOBLOW_ENABLED = process.env.AUTOBLOW_ENABLED === 'true';
-const AUTOBLOW_CLUSTER = process.env.AUTOBLOW_CLUSTER || '';
-const AUTOBLOW_LATENCY_API = 'https://latency.autoblowapi.com';
-
-let cachedClusterUrl: string | null = null;
-
-async function getClusterUrl(): Promise<string> {
-  if (cachedClusterUrl) return cachedClusterUrl;
-
-  if (AUTOBLOW_CLUSTER) {
-    cachedClusterUrl = `https://${AUTOBLOW_CLUSTER}.autoblowapi.com`;
-    return cachedClusterUrl;
+/**
+ * Claim payments nobody came back to submit. Runs after the session ticks so
+ * slow RPC calls here can't delay the device.
+ */
+async function sweepPayments(baseUrl: string): Promise<void> {
+  // Claim Solana Pay payments whose wallets never came back to the page
+  try {
+    const settled = await settleWatchedIntents(baseUrl);
+    if (settled.checked > 0) {
+      console.log(`[Tick] Solana Pay: checked ${settled.checked}, queued ${settled.queued}, failed ${settled.failed}`);
+    }
+  } catch (settleError) {
+    console.error('[Tick] Failed to settle Solana Pay payments:', settleError);
   }
 
-  const response = await fetch(`${AUTOBLOW_LATENCY_API}/autoblow/connected`, {
-    method: 'GET',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-  });
-
-  if (!response.ok) throw new Error('Device not connected');
-  const data = await response.json();
-  if (!data.connected) throw new Error('Device not connected');
-
-  cachedClusterUrl = data.cluster;
-  return cachedClusterUrl!;
-}
-
-async function sendCommand(command: DeviceCommand): Promise<boolean> {
-  if (!AUTOBLOW_DEVICE_TOKEN) return false;
-
+  // Claim payments whose pages closed before calling /api/queue/add
   try {
-    const baseUrl = await getClusterUrl();
-
-    if (command.speed === 0) {
-      const response = await fetch(`${baseUrl}/autoblow/oscillate/stop`, {
-        method: 'PUT',
-        headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-      });
-      return response.ok;
+    const watched = await runTreasuryWatcher(baseUrl);
+    if (watched.scanned > 0) {
+      console.log(`[Tick] Treasury watcher: scanned ${watched.scanned}, ${JSON.stringify(watched.counts)}`);
     }
-
-    const response = await fetch(`${baseUrl}/autoblow/oscillate`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-device-token': AUTOBLOW_DEVICE_TOKEN
-      },
-      body: JSON.stringify({
-        speed: command.speed,
-        minY: command.minY,
-        maxY: command.maxY
-      })
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('[Tick] Error sending command:', error);
-    return false;
+  } catch (watchError) {
+    console.error('[Tick] Treasury watcher failed:', watchError);
   }
 }
 
@@ -114,9 +81,11 @@ export async function GET(request: NextRequest) {
     }
 
     // Get all active sessions
-    const sessions = getAllActiveSessions();
+    const sessions = await getAllActiveSessions();
+    const deviceEnabled = hasActiveDeviceDrivers();
 
     if (sessions.length === 0) {
+      await sweepPayments(baseUrl);
       return NextResponse.json({
         success: true,
         message: 'No active sessions',
@@ -137,29 +106,31 @@ export async function GET(request: NextRequest) {
     for (const session of sessions) {
       // Check if session expired
       if (isSessionExpired(session)) {
-        endSession(session.sessionId);
+        // Extended since it was listed: tick it on the next run instead
+        if (!(await endSession(session.sessionId, { onlyIfExpired: true }))) continue;
         results.push({
           sessionId: session.sessionId,
           tokenMint: session.tokenMint,
           mode: getModeName(session.modeId),
           command: { speed: 0, minY: 50, maxY: 50 },
-          deviceResult: await sendCommand({ speed: 0, minY: 50, maxY: 50 }),
+          deviceResult: deviceEnabled ? (await stopAllDevices()).ok : false,
           expired: true
         });
         continue;
       }
 
       // Process tick
-      const command = await processSessionTick(session.sessionId);
+      const tick = await processSessionTickWithMotion(session.sessionId);
+      const command = tick?.command ?? null;
       let deviceResult = false;
 
-      if (command && AUTOBLOW_ENABLED && AUTOBLOW_DEVICE_TOKEN) {
-        deviceResult = await sendCommand(command);
+      if (tick && deviceEnabled) {
+        deviceResult = (await deliverSessionTick(tick)).ok;
       }
 
       // Update Firestore with new mode/speed/amplitude values
-      // Re-fetch session to get updated values after processSessionTick
-      const updatedSession = getSession(session.sessionId);
+      // Re-fetch session to get updated values after the tick
+      const updatedSession = await getSession(session.sessionId);
       if (updatedSession) {
         try {
           await updateDeviceSession(
@@ -178,7 +149,7 @@ export async function GET(request: NextRequest) {
       results.push({
         sessionId: session.sessionId,
         tokenMint: session.tokenMint,
-        mode: getModeName(session.modeId),
+        mode: getModeName((updatedSession || session).modeId),
         command,
         deviceResult,
         expired: false
@@ -186,16 +157,17 @@ export async function GET(request: NextRequest) {
     }
 
     // Cleanup any stale sessions
-    const cleaned = cleanupExpiredSessions();
+    const cleaned = await cleanupExpiredSessions();
 
     console.log(`[Tick] Processed ${results.length} sessions, cleaned ${cleaned} expired`);
 
+    await sweepPayments(baseUrl);
     await refreshStateSnapshot('device_tick', true);
 
     return NextResponse.json({
       success: true,
       timestamp: new Date().toISOString(),
-      deviceEnabled: AUTOBLOW_ENABLED,
+      deviceEnabled: hasActiveDeviceDrivers(),
       sessionsProcessed: results.length,
       sessionsCleaned: cleaned,
       results
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionTimeline, timelineToFunscript, timelineToJson } from '@/lib/chartSync';
+import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
+
+/**
+ * GET - Download a session's recorded timeline
+ * ?format=funscript (default) or ?format=json (includes metrics)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'timeline_export_ip',
+      key: getClientIp(request),
+      limit: 20,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many export requests', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const { sessionId } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'funscript';
+    if (format !== 'funscript' && format !== 'json') {
+      return NextResponse.json({ error: 'Invalid format. Use: funscript, json' }, { status: 400 });
+    }
+
+    const timeline = await getSessionTimeline(sessionId);
+    if (!timeline) {
+      return NextResponse.json({ error: 'Timeline not found' }, { status: 404 });
+    }
+
+    const body = format === 'funscript' ? timelineToFunscript(timeline) : timelineToJson(timeline);
+    const filename = `machinegobrrr-${timeline.tokenMint.slice(0, 8)}-${timeline.startTime}.${format === 'funscript' ? 'funscript' : 'json'}`;
+
+    return new NextResponse(JSON.stringify(body), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, max-age=60',
+      },
+    });
+  } catch (error) {
+    console.error('[Timeline] Export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Export failed' },
+      { status: 500 }
+    );
+  }
+}
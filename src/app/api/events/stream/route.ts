@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LIVE_EVENT_TYPES, LiveEvent } from '@/lib/live-events';
+import { getLiveEventsSince, getRecentLiveEvents, subscribeLiveEvents } from '@/lib/server/live-events';
+import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_BACKLOG = 50;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Last-Event-ID',
+};
+
+function encodeLiveEvent(event: LiveEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * Public live feed: `trade`, `tick` and `queue` events as they happen.
+ * `?types=trade,tick` narrows it; `?backlog=N` (max 50) starts with the last
+ * N events. Reconnecting with `Last-Event-ID` (or `?lastEventId=`) replays
+ * what was missed instead, while this instance still has it.
+ */
+export async function GET(request: NextRequest) {
+  const limit = checkRateLimit({
+    namespace: 'events_stream_ip',
+    key: getClientIp(request),
+    limit: 30,
+    windowMs: 60_000,
+  });
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many event stream connections', retryAfterMs: limit.retryAfterMs },
+      { status: 429, headers: CORS_HEADERS }
+    );
+  }
+
+  const params = request.nextUrl.searchParams;
+  const typesParam = params.get('types');
+  const types = typesParam
+    ? typesParam.split(',').map((type) => type.trim()).filter(Boolean)
+    : LIVE_EVENT_TYPES;
+  const unknown = types.filter((type) => !LIVE_EVENT_TYPES.includes(type as LiveEvent['type']));
+  if (unknown.length > 0) {
+    return NextResponse.json(
+      { error: `Unknown event type: ${unknown.join(', ')}`, types: LIVE_EVENT_TYPES },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  const backlog = Math.max(0, Math.min(MAX_BACKLOG, Math.floor(Number(params.get('backlog')) || 0)));
+  const lastEventId = request.headers.get('last-event-id') || params.get('lastEventId');
+  const wanted = (event: LiveEvent) => types.includes(event.type);
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: LiveEvent) => {
+        if (closed || !wanted(event)) return;
+        controller.enqueue(encoder.encode(encodeLiveEvent(event)));
+      };
+
+      // Tell EventSource clients how long to wait before reconnecting
+      controller.enqueue(encoder.encode('retry: 3000\n\n'));
+
+      const missed = lastEventId ? getLiveEventsSince(lastEventId) : null;
+      if (missed) {
+        missed.forEach(send);
+      } else if (backlog > 0) {
+        getRecentLiveEvents(MAX_BACKLOG * LIVE_EVENT_TYPES.length)
+          .filter(wanted)
+          .slice(-backlog)
+          .forEach(send);
+      }
+
+      const unsubscribe = subscribeLiveEvents(send);
+
+      const heartbeat = setInterval(() => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(': ping\n\n'));
+      }, 25000);
+
+      const cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // noop
+        }
+      };
+
+      request.signal.addEventListener('abort', cleanup);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      Connection: 'keep-alive',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
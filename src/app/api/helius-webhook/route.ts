@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
+  AUTOBLOW_ENABLED,
   DEVICE_API_URL,
   DEVICE_API_KEY,
   HELIUS_WEBHOOK_AUTH_TOKEN,
   HELIUS_WEBHOOK_IPS,
   VERIFY_WEBHOOK_IP,
 } from '@/lib/constants';
+import { publishTradeEvent } from '@/lib/server/live-events';
+import { recordTradeCandle, TradeEvent } from '@/lib/server/trade-candles';
+import { dispatchDeviceCommand, hasActiveDeviceDrivers, stopAllDevices } from '@/lib/server/devices';
 
 // ============================================
 // TYPES
@@ -56,16 +60,6 @@ interface TokenBalanceChange {
   };
 }
 
-interface TradeEvent {
-  type: 'BUY' | 'SELL';
-  signature: string;
-  tokenMint: string;
-  amount: number;
-  priceInSol: number;
-  wallet: string;
-  timestamp: number;
-}
-
 // ============================================
 // SECURITY FUNCTIONS
 // ============================================
@@ -144,16 +138,19 @@ function verifyAuthToken(request: NextRequest): boolean {
 // HELPER FUNCTIONS
 // ============================================
 
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
 function parseHeliusTransaction(payload: HeliusWebhookPayload): TradeEvent | null {
   try {
-    const { signature, timestamp, tokenTransfers, nativeTransfers, feePayer } = payload;
+    const { signature, slot, timestamp, tokenTransfers, nativeTransfers, feePayer } = payload;
 
     if (!tokenTransfers || tokenTransfers.length === 0) {
       return null;
     }
 
-    // Use the first token transfer (Helius webhook is already filtered to tracked token)
-    const relevantTransfer = tokenTransfers[0];
+    // Use the first non-wSOL token transfer (Helius webhook is already filtered to tracked token)
+    const relevantTransfer =
+      tokenTransfers.find((transfer) => transfer.mint !== WRAPPED_SOL_MINT) || tokenTransfers[0];
     if (!relevantTransfer) {
       return null;
     }
@@ -166,6 +163,12 @@ function parseHeliusTransaction(payload: HeliusWebhookPayload): TradeEvent | nul
       solAmount = totalSolMoved / 2 / 1e9; // Divide by 2 to avoid double counting, convert to SOL
     }
 
+    // Routed swaps often settle through wSOL token accounts instead of native transfers
+    if (solAmount === 0) {
+      const wsolTransfer = tokenTransfers.find((transfer) => transfer.mint === WRAPPED_SOL_MINT);
+      solAmount = wsolTransfer ? Math.abs(wsolTransfer.tokenAmount) : 0;
+    }
+
     // Determine if BUY or SELL based on token flow
     // If feePayer received tokens, it's a BUY; if they sent tokens, it's a SELL
     const isBuy = relevantTransfer.toUserAccount === feePayer;
@@ -173,6 +176,7 @@ function parseHeliusTransaction(payload: HeliusWebhookPayload): TradeEvent | nul
     return {
       type: isBuy ? 'BUY' : 'SELL',
       signature,
+      slot: slot || 0,
       tokenMint: relevantTransfer.mint,
       amount: relevantTransfer.tokenAmount,
       priceInSol: solAmount,
@@ -189,12 +193,6 @@ function parseHeliusTransaction(payload: HeliusWebhookPayload): TradeEvent | nul
 // AUTOBLOW DEVICE CONTROL
 // ============================================
 
-// Environment config
-const AUTOBLOW_DEVICE_TOKEN = process.env.AUTOBLOW_DEVICE_TOKEN || '';
-const AUTOBLOW_ENABLED = process.env.AUTOBLOW_ENABLED === 'true';
-const AUTOBLOW_CLUSTER = process.env.AUTOBLOW_CLUSTER || '';
-const AUTOBLOW_LATENCY_API = 'https://latency.autoblowapi.com';
-
 // Safety limits
 const MIN_SPEED = 10;
 const MAX_SPEED = 70;        // Capped at 70% for safety
@@ -214,6 +212,8 @@ const BASE_SPEED = 30;       // Starting speed
 // API calls per hour: 60 / (COMMAND_INTERVAL_MS / 60000) = 6 calls/hour (at 10min interval)
 // Over 24 hours: 144 calls (very sustainable)
 
+// Device-level pacing is enforced by the device drivers;
+// this interval only controls how long trades are batched.
 const COMMAND_INTERVAL_MS = 60000;  // 1 minute between device commands (60 calls/hour max)
 const INACTIVITY_STOP_MS = 120000;  // Stop after 2 minutes of no trades
 
@@ -225,63 +225,11 @@ let tradeBatch = { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 };
 let currentSpeed = BASE_SPEED;
 let inactivityTimeout: NodeJS.Timeout | null = null;
 
-// Cluster URL cache
-let cachedClusterUrl: string | null = null;
-
-async function getAutoblowClusterUrl(): Promise<string> {
-  if (cachedClusterUrl) return cachedClusterUrl;
-  
-  if (AUTOBLOW_CLUSTER) {
-    cachedClusterUrl = `https://${AUTOBLOW_CLUSTER}.autoblowapi.com`;
-    return cachedClusterUrl;
-  }
-
-  const response = await fetch(`${AUTOBLOW_LATENCY_API}/autoblow/connected`, {
-    method: 'GET',
-    headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-  });
-
-  if (!response.ok) throw new Error('Device not connected');
-  
-  const data = await response.json();
-  if (!data.connected) throw new Error('Device not connected');
-  
-  cachedClusterUrl = data.cluster;
-  return cachedClusterUrl!;
-}
-
-async function setAutoblowOscillation(speed: number, minY: number, maxY: number): Promise<boolean> {
-  try {
-    const baseUrl = await getAutoblowClusterUrl();
-    const response = await fetch(`${baseUrl}/autoblow/oscillate`, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-device-token': AUTOBLOW_DEVICE_TOKEN
-      },
-      body: JSON.stringify({ speed, minY, maxY })
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('[Autoblow] Error setting oscillation:', error);
-    return false;
-  }
-}
-
 async function stopAutoblow(): Promise<boolean> {
-  try {
-    const baseUrl = await getAutoblowClusterUrl();
-    const response = await fetch(`${baseUrl}/autoblow/oscillate/stop`, {
-      method: 'PUT',
-      headers: { 'x-device-token': AUTOBLOW_DEVICE_TOKEN }
-    });
-    currentSpeed = BASE_SPEED;
-    tradeBatch = { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 };
-    return response.ok;
-  } catch (error) {
-    console.error('[Autoblow] Error stopping:', error);
-    return false;
-  }
+  const result = await stopAllDevices();
+  currentSpeed = BASE_SPEED;
+  tradeBatch = { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 };
+  return result.ok;
 }
 
 function resetInactivityTimer() {
@@ -332,7 +280,7 @@ function calculateDeviceParams(batch: typeof tradeBatch): { speed: number; minY:
 }
 
 async function handleTradeForAutoblow(trade: TradeEvent): Promise<void> {
-  if (!AUTOBLOW_ENABLED || !AUTOBLOW_DEVICE_TOKEN) {
+  if (!hasActiveDeviceDrivers()) {
     return;
   }
 
@@ -364,9 +312,13 @@ async function handleTradeForAutoblow(trade: TradeEvent): Promise<void> {
   console.log(`[Autoblow] SENDING COMMAND | Token: ${shortToken} | Speed: ${params.speed}% | Range: ${params.minY}-${params.maxY}% | Batch: ${tradeBatch.buys}B/${tradeBatch.sells}S (${(tradeBatch.buyVolume + tradeBatch.sellVolume).toFixed(4)} SOL)`);
 
   // Send command
-  const success = await setAutoblowOscillation(params.speed, params.minY, params.maxY);
-  
-  if (success) {
+  const result = await dispatchDeviceCommand(params);
+
+  if (!result.ok) {
+    console.log(`[Autoblow] No device accepted the command, keeping batch`);
+  }
+
+  if (result.ok) {
     lastCommandTime = now;
     // Reset batch after successful send
     tradeBatch = { buys: 0, sells: 0, buyVolume: 0, sellVolume: 0 };
@@ -469,6 +421,19 @@ export async function POST(request: NextRequest) {
         const shortToken = `${trade.tokenMint.slice(0, 4)}...${trade.tokenMint.slice(-4)}`;
         console.log(`[Trade] ${trade.type} | Token: ${shortToken} | Amount: ${trade.amount.toFixed(2)} | Price: ${trade.priceInSol.toFixed(6)} SOL`);
 
+        // Aggregate into our own 1m candles for chart sync
+        try {
+          const recorded = await recordTradeCandle(trade);
+          if (!recorded) {
+            console.log(`[Trade] Skipped candle update for ${trade.signature.slice(0, 8)}... (duplicate or unpriced)`);
+          }
+        } catch (candleError) {
+          console.error('[Trade] Failed to record candle:', candleError);
+        }
+
+        // Overlays and bots on the public event feed
+        await publishTradeEvent(trade);
+
         // Handle Autoblow device and other alerts
         await sendDeviceAlert(trade);
         
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TREASURY_WALLET } from '@/lib/constants';
+import { formatPrice } from '@/lib/pricing';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { requireWallet } from '@/lib/server/auth';
+import {
+  createPaymentIntent,
+  PaymentIntentRequest,
+  quotePaymentIntent,
+} from '@/lib/server/payment-intents';
+
+/**
+ * POST - Quote a payment and issue the memo reference its transfer must carry.
+ * Everything that would reject the purchase is checked here, before any
+ * money moves.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'payment_intent_ip',
+      key: getClientIp(request),
+      limit: 30,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many payment requests from this IP', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const body: PaymentIntentRequest = await request.json();
+    const denied = requireWallet(request, body.walletAddress);
+    if (denied) return denied;
+
+    const quote = await quotePaymentIntent(body);
+    if (!quote.ok) {
+      return NextResponse.json({ error: quote.error, ...quote.details }, { status: quote.status });
+    }
+
+    const intent = await createPaymentIntent(quote.input);
+    console.log(
+      `[Payment] Intent ${intent.id}: ${intent.purpose} ${formatPrice(intent.currency, intent.amount)} ` +
+      `by ${intent.walletAddress.slice(0, 4)}...`
+    );
+
+    return NextResponse.json({
+      intentId: intent.id,
+      memo: intent.memo,
+      treasury: TREASURY_WALLET,
+      purpose: intent.purpose,
+      tokenMint: intent.tokenMint,
+      currency: intent.currency,
+      amount: intent.amount,
+      minutes: intent.minutes,
+      expiresAt: new Date(intent.expiresAt).toISOString(),
+    });
+  } catch (error) {
+    console.error('[Payment] Intent error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
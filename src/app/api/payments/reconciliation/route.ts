@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_API_KEY, CRON_SECRET } from '@/lib/constants';
+import { buildReconciliationReport, runTreasuryWatcher } from '@/lib/server/treasury-watcher';
+
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Reports expose payer wallets and amounts, so this never runs open
+function verifyAuth(request: NextRequest, allowCron: boolean): boolean {
+  const authHeader = request.headers.get('authorization');
+  if (allowCron && CRON_SECRET && authHeader === `Bearer ${CRON_SECRET}`) {
+    return true;
+  }
+  if (!ADMIN_API_KEY) {
+    console.error('[Treasury] No admin API key configured, refusing admin request');
+    return false;
+  }
+  return authHeader === `Bearer ${ADMIN_API_KEY}`;
+}
+
+/**
+ * GET - Treasury inflows since ?since= (ISO date, default 7 days), totalled
+ * by status, with the unmatched and pending ones listed
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyAuth(request, false)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const sinceParam = request.nextUrl.searchParams.get('since');
+    const since = sinceParam ? Date.parse(sinceParam) : Date.now() - DEFAULT_WINDOW_MS;
+    if (Number.isNaN(since)) {
+      return NextResponse.json({ error: 'Invalid since date' }, { status: 400 });
+    }
+    const limit = Math.min(2000, Math.max(1, Number(request.nextUrl.searchParams.get('limit')) || 500));
+
+    return NextResponse.json(await buildReconciliationReport(since, limit));
+  } catch (error) {
+    console.error('[Treasury] Report failed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * POST - Run one treasury watcher pass now
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyAuth(request, true)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const report = await runTreasuryWatcher(baseUrl);
+    return NextResponse.json({ success: true, ...report });
+  } catch (error) {
+    console.error('[Treasury] Watcher run failed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
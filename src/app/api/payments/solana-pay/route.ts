@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { PaymentCurrency, SOLANA_PAY_ICON_URL, SOLANA_PAY_LABEL } from '@/lib/constants';
+import { formatPrice } from '@/lib/pricing';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { buildTreasuryTransfer } from '@/lib/server/payments';
+import {
+  createPaymentIntent,
+  getPaymentIntentByReference,
+  intentTokenMints,
+  PaymentIntent,
+  quotePaymentIntent,
+} from '@/lib/server/payment-intents';
+
+// Solana Pay transaction request: https://docs.solanapay.com/spec#specification-transaction-request
+// The QR link carries the purchase (token or playlist, tier, currency,
+// minutes, mode, reserved start) and
+// a client-generated reference key; the wallet supplies the paying account.
+
+// Wallets may call from other origins
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function json(body: unknown, status: number = 200) {
+  return NextResponse.json(body, { status, headers: CORS_HEADERS });
+}
+
+function parsePublicKey(value: string | null | undefined): PublicKey | null {
+  if (!value) return null;
+  try {
+    return new PublicKey(value);
+  } catch {
+    return null;
+  }
+}
+
+function optionalNumber(value: string | null): number | undefined {
+  return value === null || value === '' ? undefined : Number(value);
+}
+
+function describeTokens(tokenMints: string[], minutes: number): string {
+  return tokenMints.length > 1
+    ? `${tokenMints.length} tokens for ${minutes} min each`
+    : `${tokenMints[0]?.slice(0, 4)}... for ${minutes} min`;
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+/**
+ * GET - Merchant label and icon shown by the wallet before it asks to pay
+ */
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+  return json({
+    label: SOLANA_PAY_LABEL,
+    icon: SOLANA_PAY_ICON_URL || `${baseUrl}/logo-fav.jpg`,
+  });
+}
+
+/**
+ * POST - Build the treasury transfer for the requested token and tier,
+ * to be signed by `account`
+ * Query: token (or tokens, comma-separated playlist), tier?, currency, minutes?,
+ * mode?, amount? (bids), at? (reserved start, ms), reference
+ * Body: { account }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'solana_pay_ip',
+      key: getClientIp(request),
+      limit: 30,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return json({ error: 'Too many payment requests from this IP', retryAfterMs: limit.retryAfterMs }, 429);
+    }
+
+    const { searchParams } = request.nextUrl;
+    const body = (await request.json().catch(() => ({}))) as { account?: string };
+    const account = parsePublicKey(body.account);
+    const reference = parsePublicKey(searchParams.get('reference'));
+    if (!account) {
+      return json({ error: 'Invalid account' }, 400);
+    }
+    if (!reference) {
+      return json({ error: 'Missing or invalid reference' }, 400);
+    }
+
+    let intent: PaymentIntent;
+    const existing = await getPaymentIntentByReference(reference.toBase58());
+    if (existing) {
+      // The same wallet rescanning an unexpired code gets the same purchase back
+      if (existing.status !== 'open' || existing.walletAddress !== account.toBase58() || existing.expiresAt <= Date.now()) {
+        return json({ error: 'This payment code was already used. Refresh it and scan again.' }, 409);
+      }
+      intent = existing;
+    } else {
+      const quote = await quotePaymentIntent({
+        purpose: 'queue',
+        walletAddress: account.toBase58(),
+        tokenMint: searchParams.get('token') || undefined,
+        tokenMints: searchParams.get('tokens')?.split(',').filter(Boolean),
+        scheduledAt: optionalNumber(searchParams.get('at')),
+        tier: searchParams.get('tier') || undefined,
+        currency: searchParams.get('currency') as PaymentCurrency,
+        minutes: optionalNumber(searchParams.get('minutes')),
+        mode: searchParams.get('mode') || undefined,
+        amount: optionalNumber(searchParams.get('amount')),
+      });
+      if (!quote.ok) {
+        return json({ error: quote.error, ...quote.details }, quote.status);
+      }
+      intent = await createPaymentIntent({ ...quote.input, reference: reference.toBase58() });
+      console.log(
+        `[SolanaPay] Intent ${intent.id}: ${formatPrice(intent.currency, intent.amount)} ` +
+        `by ${intent.walletAddress.slice(0, 4)}... ref ${intent.reference}`
+      );
+    }
+
+    const transaction = await buildTreasuryTransfer(account, intent.currency, intent.amount, intent.memo, reference);
+    const serialized = transaction.serialize({ requireAllSignatures: false, verifySignatures: false });
+
+    return json({
+      transaction: serialized.toString('base64'),
+      message: `${intent.scheduledAt ? 'Reserve' : 'Queue'} ${describeTokens(intentTokenMints(intent), intent.minutes)} ` +
+        `(${formatPrice(intent.currency, intent.amount)})` +
+        `${intent.scheduledAt ? ` from ${new Date(intent.scheduledAt).toISOString()}` : ''}`,
+    });
+  } catch (error) {
+    console.error('[SolanaPay] Transaction request error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { getPaymentIntentByReference } from '@/lib/server/payment-intents';
+import { settleReferenceIntent } from '@/lib/server/solana-pay';
+
+/**
+ * GET - Progress of a Solana Pay payment by its reference (?reference=).
+ * Polling also settles it, so the page doesn't wait for the next tick.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'solana_pay_status_ip',
+      key: getClientIp(request),
+      limit: 60,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many status requests from this IP', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const reference = request.nextUrl.searchParams.get('reference');
+    if (!reference) {
+      return NextResponse.json({ error: 'Missing reference' }, { status: 400 });
+    }
+
+    // No intent until a wallet has fetched the transaction
+    const intent = await getPaymentIntentByReference(reference);
+    if (!intent) {
+      return NextResponse.json({ status: 'waiting' });
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    return NextResponse.json(await settleReferenceIntent(intent, baseUrl));
+  } catch (error) {
+    console.error('[SolanaPay] Status error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,244 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Connection, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { PublicKey } from '@solana/web3.js';
+import { DUPLICATE_COOLDOWN_MS, PaymentCurrency } from '@/lib/constants';
 import {
-  addToQueueAdmin,
-  logTransactionAdmin,
-  isSignatureUsed,
-  checkDuplicateCooldown,
-  getAdminDb,
-} from '@/lib/firebase-admin';
-import {
-  TREASURY_WALLET,
-  STANDARD_PRICE,
-  PRIORITY_PRICE,
-  MINSTR_MINT,
-  MINSTR_STANDARD_PRICE,
-  MINSTR_PRIORITY_PRICE,
-  DISPLAY_DURATION_STANDARD,
-  DISPLAY_DURATION_PRIORITY,
-  DUPLICATE_COOLDOWN_MS,
-  PRIORITY_LEVELS,
-  HELIUS_RPC_URL,
-} from '@/lib/constants';
+  describeAcceptedPayments,
+  describeCooldownOverride,
+  formatPrice,
+  resolveQuotedPayment,
+  ResolvedPayment,
+} from '@/lib/pricing';
+import { getModeName } from '@/lib/chartSync';
 import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { internalAuthHeaders, requireWallet } from '@/lib/server/auth';
 import { refreshStateSnapshot } from '@/lib/server/state-store';
-
-type PaymentCurrency = 'SOL' | 'MINSTR';
-type PaymentTier = 'standard' | 'priority';
+import { checkDuplicateCooldown, isSignatureUsed, logTransactionAdmin } from '@/lib/server/transactions';
+import { enqueueQueueItems, getCurrentTokenDoc } from '@/lib/server/queue-engine';
+import { readTreasuryReceipt, receiptErrorStatus } from '@/lib/server/payments';
+import {
+  checkIntentReceipt,
+  consumePaymentIntent,
+  getPaymentIntent,
+  intentTokenMints,
+  PaymentIntent,
+} from '@/lib/server/payment-intents';
+import { PendingRefundInput, tryRecordPendingRefund } from '@/lib/server/refunds';
 
 interface AddToQueueRequest {
   tokenMint: string;
   walletAddress: string;
-  amount?: number;
   signature: string;
+  intentId: string;         // from /api/payments/intent; fixes tier, amount, minutes, mode, playlist and start time
   userId?: string | null;
-  paymentMethod?: PaymentCurrency;
-  paymentTier?: PaymentTier;
-}
-
-interface TokenBalanceLike {
-  accountIndex: number;
-  mint: string;
-  uiTokenAmount: {
-    amount: string;
-    decimals: number;
-  };
-}
-
-interface PaymentOption {
-  amount: number;
-  tier: PaymentTier;
 }
 
 type VerificationResult =
-  | {
-      verified: true;
-      currency: PaymentCurrency;
-      tier: PaymentTier;
-      amount: number;
-    }
+  | ({ verified: true } & ResolvedPayment)
   | {
       verified: false;
       amount: 0;
       error: string;
+      status: number;
+      retryable: boolean;   // the transaction couldn't be read yet
+      // Set only when the transaction was read and is this intent's payment,
+      // but buys nothing; only then is the signature logged and refunded
+      received?: { currency: PaymentCurrency; amount: number };
     };
 
-const SOL_PAYMENT_OPTIONS: PaymentOption[] = [
-  { amount: STANDARD_PRICE, tier: 'standard' },
-  { amount: PRIORITY_PRICE, tier: 'priority' },
-];
-
-function matchSolPayment(received: number): PaymentOption | null {
-  for (const option of SOL_PAYMENT_OPTIONS) {
-    if (Math.abs(received - option.amount) < 0.001) {
-      return option;
-    }
-  }
-  return null;
-}
-
-function getTokenAmountRaw(
-  balances: TokenBalanceLike[] | null | undefined,
-  accountIndex: number,
-  mint: string
-): bigint {
-  if (!balances) {
-    return BigInt(0);
-  }
-
-  const entry = balances.find((balance) => balance.accountIndex === accountIndex && balance.mint === mint);
-  if (!entry) {
-    return BigInt(0);
-  }
-
-  try {
-    return BigInt(entry.uiTokenAmount.amount);
-  } catch {
-    return BigInt(0);
-  }
-}
-
-function getMintDecimals(
-  preBalances: TokenBalanceLike[] | null | undefined,
-  postBalances: TokenBalanceLike[] | null | undefined,
-  accountIndex: number,
-  mint: string
-): number | null {
-  const postEntry = postBalances?.find(
-    (balance) => balance.accountIndex === accountIndex && balance.mint === mint
-  );
-  if (postEntry) {
-    return postEntry.uiTokenAmount.decimals;
-  }
-
-  const preEntry = preBalances?.find(
-    (balance) => balance.accountIndex === accountIndex && balance.mint === mint
-  );
-  if (preEntry) {
-    return preEntry.uiTokenAmount.decimals;
+async function verifyPayment(signature: string, intent: PaymentIntent): Promise<VerificationResult> {
+  const receipt = await readTreasuryReceipt(signature);
+  if (!receipt.ok) {
+    return {
+      verified: false,
+      amount: 0,
+      error: receipt.error,
+      status: receiptErrorStatus(receipt.retry),
+      retryable: receipt.retry !== null,
+    };
   }
 
-  return null;
-}
-
-async function verifyPayment(signature: string): Promise<VerificationResult> {
-  try {
-    const rpcUrl = HELIUS_RPC_URL || 'https://mainnet.helius-rpc.com';
-    const connection = new Connection(rpcUrl);
-
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-
-    const tx = await connection.getTransaction(signature, {
-      commitment: 'confirmed',
-      maxSupportedTransactionVersion: 0,
-    });
-
-    if (!tx) {
-      return {
-        verified: false,
-        amount: 0,
-        error: 'Transaction not found - please wait and try again',
-      };
-    }
-
-    if (tx.meta?.err) {
-      return {
-        verified: false,
-        amount: 0,
-        error: 'Transaction failed on-chain',
-      };
-    }
-
-    const accountKeys = tx.transaction.message.getAccountKeys();
-    const allAccounts: string[] = [];
-    for (let index = 0; index < accountKeys.length; index += 1) {
-      const key = accountKeys.get(index);
-      if (key) {
-        allAccounts.push(key.toBase58());
-      }
-    }
-
-    const treasuryIndex = allAccounts.indexOf(TREASURY_WALLET);
-    if (treasuryIndex !== -1 && tx.meta?.preBalances && tx.meta?.postBalances) {
-      const treasuryReceivedSol =
-        (tx.meta.postBalances[treasuryIndex] - tx.meta.preBalances[treasuryIndex]) / LAMPORTS_PER_SOL;
-      const matchedSol = matchSolPayment(treasuryReceivedSol);
-      if (matchedSol) {
-        return {
-          verified: true,
-          currency: 'SOL',
-          tier: matchedSol.tier,
-          amount: matchedSol.amount,
-        };
-      }
-    }
-
-    const treasuryTokenAccount = getAssociatedTokenAddressSync(
-      new PublicKey(MINSTR_MINT),
-      new PublicKey(TREASURY_WALLET)
-    );
-    const treasuryTokenAccountIndex = allAccounts.indexOf(treasuryTokenAccount.toBase58());
-
-    if (treasuryTokenAccountIndex !== -1 && tx.meta) {
-      const preTokenBalances = (tx.meta.preTokenBalances || null) as TokenBalanceLike[] | null;
-      const postTokenBalances = (tx.meta.postTokenBalances || null) as TokenBalanceLike[] | null;
-      const decimals = getMintDecimals(
-        preTokenBalances,
-        postTokenBalances,
-        treasuryTokenAccountIndex,
-        MINSTR_MINT
-      );
-
-      if (decimals !== null) {
-        const preRaw = getTokenAmountRaw(preTokenBalances, treasuryTokenAccountIndex, MINSTR_MINT);
-        const postRaw = getTokenAmountRaw(postTokenBalances, treasuryTokenAccountIndex, MINSTR_MINT);
-        const receivedRaw = postRaw - preRaw;
-        const multiplier = BigInt(10) ** BigInt(decimals);
-        const standardRaw = BigInt(MINSTR_STANDARD_PRICE) * multiplier;
-        const priorityRaw = BigInt(MINSTR_PRIORITY_PRICE) * multiplier;
-
-        if (receivedRaw === standardRaw) {
-          return {
-            verified: true,
-            currency: 'MINSTR',
-            tier: 'standard',
-            amount: MINSTR_STANDARD_PRICE,
-          };
-        }
-
-        if (receivedRaw === priorityRaw) {
-          return {
-            verified: true,
-            currency: 'MINSTR',
-            tier: 'priority',
-            amount: MINSTR_PRIORITY_PRICE,
-          };
-        }
-      }
-    }
-
+  const received = { currency: receipt.currency, amount: receipt.amount };
+  const check = checkIntentReceipt(intent, receipt);
+  if (!check.ok) {
     return {
       verified: false,
       amount: 0,
-      error:
-        `Invalid payment amount. Accepted: ${STANDARD_PRICE} SOL, ${PRIORITY_PRICE} SOL, ` +
-        `${MINSTR_STANDARD_PRICE} MINSTR, or ${MINSTR_PRIORITY_PRICE} MINSTR`,
+      error: check.error,
+      status: 400,
+      retryable: false,
+      received: check.owned ? received : undefined,
     };
-  } catch (error) {
-    console.error('[Payment] Verification error:', error);
+  }
+
+  // The amount already matches the quote; it buys the tier that quote was for.
+  // A playlist pays for each of its tokens at the same per-slot price.
+  const slots = intentTokenMints(intent).length;
+  const tierId = intent.tierId || 'standard';
+  const resolved = resolveQuotedPayment(tierId, intent.currency, intent.amount / slots, intent.minutes);
+  if (!resolved) {
     return {
       verified: false,
       amount: 0,
-      error: 'Failed to verify transaction',
+      error: tierId === 'bid'
+        ? `Invalid payment amount. Accepted: ${describeAcceptedPayments(intent.minutes)}`
+        : 'The tier this payment was quoted for is no longer offered',
+      status: 400,
+      retryable: false,
+      received,
     };
   }
+  return { verified: true, ...resolved, amount: intent.amount };
+}
+
+/**
+ * Cooldown of the first token still in duplicate cooldown, if any
+ */
+async function findCooldown(tokenMints: string[]) {
+  for (const tokenMint of tokenMints) {
+    const check = await checkDuplicateCooldown(tokenMint, DUPLICATE_COOLDOWN_MS);
+    if (check.inCooldown) return check;
+  }
+  return null;
 }
 
 export async function POST(request: NextRequest) {
+  // Set once the payment is verified and cleared once it has bought a queue
+  // slot; anything that fails in between owes the payer a refund
+  let unspentPayment: Omit<PendingRefundInput, 'reason' | 'detail'> | null = null;
+
   try {
     const body: AddToQueueRequest = await request.json();
-    const { tokenMint, walletAddress, signature, userId } = body;
+    const { tokenMint, walletAddress, signature, intentId, userId } = body;
     const clientIp = getClientIp(request);
 
     const ipLimit = checkRateLimit({
@@ -257,9 +127,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!tokenMint || !walletAddress || !signature) {
+    if (!tokenMint || !walletAddress || !signature || !intentId) {
       return NextResponse.json(
-        { error: 'Missing required fields: tokenMint, walletAddress, signature' },
+        { error: 'Missing required fields: tokenMint, walletAddress, signature, intentId' },
         { status: 400 }
       );
     }
@@ -276,6 +146,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
     }
 
+    // The page signs in with the paying wallet; server-side settlement uses internal auth
+    const denied = requireWallet(request, walletAddress);
+    if (denied) return denied;
+
+    // Rejected before the signature is consumed so the payer can retry
+    const intent = await getPaymentIntent(intentId);
+    if (!intent || intent.purpose !== 'queue') {
+      return NextResponse.json({ error: 'Unknown payment intent' }, { status: 400 });
+    }
+    if (intent.walletAddress !== walletAddress || intent.tokenMint !== tokenMint) {
+      return NextResponse.json({ error: 'Payment intent was issued for a different wallet or token' }, { status: 400 });
+    }
+    const pinnedModeId = intent.pinnedModeId;
+    const tokenMints = intentTokenMints(intent);
+    const scheduledAt = intent.scheduledAt ?? null;
+
     const walletLimit = checkRateLimit({
       namespace: 'queue_add_wallet',
       key: walletAddress,
@@ -297,31 +183,95 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Transaction signature already used' }, { status: 400 });
     }
 
-    const verification = await verifyPayment(signature);
+    // A transaction that couldn't be read, or isn't this intent's payment,
+    // is left untouched: the payer can retry and its real intent can claim it
+    const verification = await verifyPayment(signature, intent);
     if (!verification.verified) {
+      if (!verification.received) {
+        return NextResponse.json(
+          {
+            error: verification.error || 'Payment verification failed',
+            ...(verification.retryable ? { retryable: true } : {}),
+          },
+          { status: verification.status }
+        );
+      }
+
       await logTransactionAdmin(
         tokenMint,
         walletAddress,
-        0,
+        verification.received.amount,
         'standard',
         signature,
         userId || null,
-        false
+        false,
+        verification.received.currency
       );
 
+      const refundPending = await tryRecordPendingRefund({
+        signature,
+        walletAddress,
+        tokenMint,
+        ...verification.received,
+        reason: 'invalid_amount',
+        detail: verification.error,
+      });
+
       return NextResponse.json(
-        { error: verification.error || 'Payment verification failed' },
-        { status: 400 }
+        {
+          error: verification.error || 'Payment verification failed',
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: verification.status }
       );
     }
+    unspentPayment = {
+      signature,
+      walletAddress,
+      tokenMint,
+      currency: verification.currency,
+      amount: verification.amount,
+    };
 
-    const isPriority = verification.tier === 'priority';
-    const priorityLevel = isPriority ? PRIORITY_LEVELS.PRIORITY : PRIORITY_LEVELS.STANDARD;
-    const displayDuration = isPriority ? DISPLAY_DURATION_PRIORITY : DISPLAY_DURATION_STANDARD;
-    const tierType: PaymentTier = verification.tier;
+    // Intents are single use; a second payment against one buys nothing
+    const consumed = await consumePaymentIntent(intent.id, signature);
+    if (consumed === 'duplicate') {
+      unspentPayment = null;
+      return NextResponse.json({ error: 'This payment is already being processed' }, { status: 409 });
+    }
+    if (consumed === 'unavailable') {
+      await logTransactionAdmin(
+        tokenMint,
+        walletAddress,
+        verification.amount,
+        verification.tier.id,
+        signature,
+        userId || null,
+        false,
+        verification.currency
+      );
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'intent_reused',
+        detail: `Payment intent ${intent.id} was already used`,
+      });
+      return NextResponse.json(
+        {
+          error: 'This payment intent was already used',
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: 409 }
+      );
+    }
+
+    const { tier } = verification;
+    const isPriority = tier.priorityLevel > 0;
+    const priorityLevel = tier.priorityLevel;
+    const displayDuration = verification.durationMs;
+    const tierType = tier.id;
 
-    const duplicateCheck = await checkDuplicateCooldown(tokenMint, DUPLICATE_COOLDOWN_MS);
-    if (duplicateCheck.inCooldown && !isPriority) {
+    const duplicateCheck = tier.overridesCooldown ? null : await findCooldown(tokenMints);
+    if (duplicateCheck) {
       const hoursRemaining = Math.floor(duplicateCheck.remainingMs / (60 * 60 * 1000));
       const minutesRemaining = Math.ceil((duplicateCheck.remainingMs % (60 * 60 * 1000)) / (60 * 1000));
 
@@ -332,20 +282,26 @@ export async function POST(request: NextRequest) {
         tierType,
         signature,
         userId || null,
-        false
+        false,
+        verification.currency
       );
 
+      const { overrideOptions, hint } = describeCooldownOverride();
+      const message =
+        `This token was recently queued. Please wait ${hoursRemaining}h ${minutesRemaining}m` +
+        `${hint ? ` ${hint}` : ''}.`;
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'duplicate_cooldown',
+        detail: message,
+      });
       return NextResponse.json(
         {
-          error:
-            `This token was recently queued. Please wait ${hoursRemaining}h ${minutesRemaining}m ` +
-            `or use priority payment (${PRIORITY_PRICE} SOL or ${MINSTR_PRIORITY_PRICE} MINSTR).`,
+          error: message,
           code: 'DUPLICATE_COOLDOWN',
           remainingMs: duplicateCheck.remainingMs,
-          overrideOptions: {
-            sol: PRIORITY_PRICE,
-            minstr: MINSTR_PRIORITY_PRICE,
-          },
+          overrideOptions,
+          ...(refundPending ? { refund: 'pending' } : {}),
         },
         { status: 400 }
       );
@@ -358,41 +314,57 @@ export async function POST(request: NextRequest) {
       tierType,
       signature,
       userId || null,
-      true
+      true,
+      verification.currency
     );
 
-    const db = getAdminDb();
-    const currentTokenDoc = await db.doc('settings/currentToken').get();
-    const currentToken = currentTokenDoc.data();
+    const currentToken = await getCurrentTokenDoc();
     const queueEmpty = !currentToken?.queueItemId;
 
-    const queueItemId = await addToQueueAdmin(
-      tokenMint,
+    const enqueued = await enqueueQueueItems({
+      tokenMints,
+      scheduledAt,
       walletAddress,
       isPriority,
       priorityLevel,
       displayDuration,
-      signature,
-      userId || null
-    );
+      transactionSignature: signature,
+      userId: userId || null,
+      pinnedModeId,
+      tierId: tier.id,
+      paymentCurrency: verification.currency,
+      paymentAmount: verification.amount,
+      bidCreditMs: verification.bidCreditMs,
+    });
+    if (!enqueued.queued) {
+      // Someone reserved an overlapping slot between the quote and this payment
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'schedule_conflict',
+        detail: enqueued.detail,
+      });
+      unspentPayment = null;
+      return NextResponse.json(
+        {
+          error: enqueued.detail,
+          code: 'SCHEDULE_CONFLICT',
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: 409 }
+      );
+    }
+    unspentPayment = null;
+    const queueItemId = enqueued.ids[0];
 
-    if (queueEmpty) {
+    // Reserved slots wait for their start time; only the first-come line starts now
+    if (queueEmpty && scheduledAt === null) {
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
-      const internalAuthToken = process.env.ADMIN_API_KEY
-        ? `Bearer ${process.env.ADMIN_API_KEY}`
-        : process.env.CRON_SECRET
-          ? `Bearer ${process.env.CRON_SECRET}`
-          : null;
-
       try {
         await fetch(`${baseUrl}/api/queue/process`, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(internalAuthToken ? { Authorization: internalAuthToken } : {}),
-          },
+          headers: { 'Content-Type': 'application/json', ...internalAuthHeaders() },
         });
       } catch (processError) {
         console.error('[Queue Add] Failed to trigger processing:', processError);
@@ -403,37 +375,62 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: isPriority ? 'Priority token queued' : 'Added to queue',
+      message: scheduledAt !== null
+        ? `Reserved ${tokenMints.length > 1 ? `${tokenMints.length} tokens` : 'a slot'} from ${new Date(scheduledAt).toISOString()}`
+        : verification.isBid
+          ? `Bid queued (${formatPrice(verification.currency, verification.amount)})`
+          : tokenMints.length > 1
+            ? `Playlist of ${tokenMints.length} tokens queued`
+            : isPriority ? `${tier.label} token queued` : 'Added to queue',
       queueItemId,
+      queueItemIds: enqueued.ids,
+      scheduledAt: scheduledAt !== null ? new Date(scheduledAt).toISOString() : null,
       priorityLevel,
       displayDuration,
       tier: tierType,
       paymentCurrency: verification.currency,
       paymentAmount: verification.amount,
-      processedImmediately: queueEmpty,
+      isBid: verification.isBid,
+      minutes: verification.minutes,
+      mode: pinnedModeId ? getModeName(pinnedModeId) : 'auto',
+      processedImmediately: queueEmpty && scheduledAt === null,
     });
   } catch (error) {
     console.error('[Queue Add] Error:', error);
 
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorCode = (error as { code?: number })?.code;
-
-    if (
+    const quotaExceeded =
       errorCode === 8 ||
       errorMessage.includes('RESOURCE_EXHAUSTED') ||
-      errorMessage.includes('Quota exceeded')
-    ) {
+      errorMessage.includes('Quota exceeded');
+
+    const refundPending = unspentPayment
+      ? await tryRecordPendingRefund({
+          ...unspentPayment,
+          reason: quotaExceeded ? 'quota_exceeded' : 'server_error',
+          detail: errorMessage,
+        })
+      : false;
+
+    if (quotaExceeded) {
       return NextResponse.json(
         {
-          error:
-            'Service temporarily unavailable due to high demand. Your payment was received - ' +
-            'please contact support with your transaction signature for manual processing.',
+          error: refundPending
+            ? 'Service temporarily unavailable due to high demand. Your payment was received and ' +
+              'has been queued for a refund.'
+            : 'Service temporarily unavailable due to high demand. Your payment was received - ' +
+              'please contact support with your transaction signature for manual processing.',
           code: 'QUOTA_EXCEEDED',
+          ...(refundPending ? { refund: 'pending' } : {}),
         },
         { status: 503 }
       );
     }
 
-    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    return NextResponse.json(
+      { error: 'Internal server error', ...(refundPending ? { refund: 'pending' } : {}) },
+      { status: 500 }
+    );
   }
 }
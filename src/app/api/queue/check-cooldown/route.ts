@@ -1,21 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { checkDuplicateCooldown } from '@/lib/firebase-admin';
-import { DUPLICATE_COOLDOWN_MS, MINSTR_PRIORITY_PRICE, PRIORITY_PRICE } from '@/lib/constants';
+import { checkDuplicateCooldown } from '@/lib/server/transactions';
+import { DUPLICATE_COOLDOWN_MS } from '@/lib/constants';
+import { describeCooldownOverride } from '@/lib/pricing';
 import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
+import { getWalletSession } from '@/lib/server/auth';
 
 export async function POST(request: NextRequest) {
   try {
-    const ip = getClientIp(request);
+    // Signed-in wallets are limited on their own rather than sharing their IP's budget
+    const session = getWalletSession(request);
     const limit = checkRateLimit({
-      namespace: 'queue_cooldown_ip',
-      key: ip,
+      namespace: session ? 'queue_cooldown_wallet' : 'queue_cooldown_ip',
+      key: session ? session.walletAddress : getClientIp(request),
       limit: 40,
       windowMs: 60_000,
     });
     if (!limit.allowed) {
       return NextResponse.json(
         {
-          error: 'Too many cooldown checks from this IP',
+          error: session ? 'Too many cooldown checks for this wallet' : 'Too many cooldown checks from this IP',
           retryAfterMs: limit.retryAfterMs,
         },
         { status: 429 }
@@ -38,18 +41,16 @@ export async function POST(request: NextRequest) {
       const hoursRemaining = Math.floor(cooldownCheck.remainingMs / (60 * 60 * 1000));
       const minutesRemaining = Math.ceil((cooldownCheck.remainingMs % (60 * 60 * 1000)) / (60 * 1000));
 
+      const { overrideOptions, hint } = describeCooldownOverride();
       return NextResponse.json({
         inCooldown: true,
         remainingMs: cooldownCheck.remainingMs,
         remainingTime: `${hoursRemaining}h ${minutesRemaining}m`,
         lastUsedAt: cooldownCheck.lastUsedAt,
-        overrideOptions: {
-          sol: PRIORITY_PRICE,
-          minstr: MINSTR_PRIORITY_PRICE,
-        },
+        overrideOptions,
         message:
-          `This token was recently queued. Wait ${hoursRemaining}h ${minutesRemaining}m ` +
-          `or use priority payment (${PRIORITY_PRICE} SOL or ${MINSTR_PRIORITY_PRICE} MINSTR).`,
+          `This token was recently queued. Wait ${hoursRemaining}h ${minutesRemaining}m` +
+          `${hint ? ` ${hint}` : ''}.`,
       });
     }
 
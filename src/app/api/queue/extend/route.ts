@@ -0,0 +1,289 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { SESSION_MINUTE_MS } from '@/lib/constants';
+import { extendSession, getActiveSessionForToken } from '@/lib/chartSync';
+import { getClientIp, checkRateLimit } from '@/lib/server/rate-limit';
+import { requireWallet } from '@/lib/server/auth';
+import { refreshStateSnapshot } from '@/lib/server/state-store';
+import { isSignatureUsed, logTransactionAdmin } from '@/lib/server/transactions';
+import { extendCurrentToken, getCurrentTokenDoc } from '@/lib/server/queue-engine';
+import { readTreasuryReceipt, receiptErrorStatus } from '@/lib/server/payments';
+import { checkIntentReceipt, consumePaymentIntent, getPaymentIntent } from '@/lib/server/payment-intents';
+import { PendingRefundInput, tryRecordPendingRefund } from '@/lib/server/refunds';
+
+interface ExtendRequest {
+  walletAddress: string;
+  signature: string;
+  intentId: string;         // from /api/payments/intent; fixes minutes, amount and the slot being extended
+  userId?: string | null;
+}
+
+/**
+ * POST - Pay to extend the currently showing token.
+ * Anyone may extend; the on-screen slot and its chart-sync device session
+ * are pushed out together.
+ */
+export async function POST(request: NextRequest) {
+  // Verified payment not yet applied to the slot; refunded if anything fails
+  let unspentPayment: Omit<PendingRefundInput, 'reason' | 'detail'> | null = null;
+
+  try {
+    const body: ExtendRequest = await request.json();
+    const { walletAddress, signature, intentId, userId } = body;
+    const clientIp = getClientIp(request);
+
+    const ipLimit = checkRateLimit({
+      namespace: 'queue_extend_ip',
+      key: clientIp,
+      limit: 20,
+      windowMs: 60_000,
+    });
+    if (!ipLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many extend requests from this IP. Please retry shortly.',
+          retryAfterMs: ipLimit.retryAfterMs,
+        },
+        { status: 429 }
+      );
+    }
+
+    if (!walletAddress || !signature || !intentId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: walletAddress, signature, intentId' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      new PublicKey(walletAddress);
+    } catch {
+      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
+    }
+
+    // The page signs in with the paying wallet; server-side settlement uses internal auth
+    const denied = requireWallet(request, walletAddress);
+    if (denied) return denied;
+
+    // Rejected before the signature is consumed so the payer can retry elsewhere
+    const intent = await getPaymentIntent(intentId);
+    if (!intent || intent.purpose !== 'extend') {
+      return NextResponse.json({ error: 'Unknown payment intent' }, { status: 400 });
+    }
+    if (intent.walletAddress !== walletAddress) {
+      return NextResponse.json({ error: 'Payment intent was issued for a different wallet' }, { status: 400 });
+    }
+    const { minutes } = intent;
+    // Token showing when the intent was issued; logged and refunded against if nothing is showing now
+    const intentTokenMint = intent.tokenMint ?? '';
+
+    const walletLimit = checkRateLimit({
+      namespace: 'queue_extend_wallet',
+      key: walletAddress,
+      limit: 8,
+      windowMs: 60_000,
+    });
+    if (!walletLimit.allowed) {
+      return NextResponse.json(
+        {
+          error: 'Too many extend requests for this wallet. Please wait before retrying.',
+          retryAfterMs: walletLimit.retryAfterMs,
+        },
+        { status: 429 }
+      );
+    }
+
+    const signatureUsed = await isSignatureUsed(signature);
+    if (signatureUsed) {
+      return NextResponse.json({ error: 'Transaction signature already used' }, { status: 400 });
+    }
+
+    // A transaction that couldn't be read is left unused so the payer can retry
+    const receipt = await readTreasuryReceipt(signature);
+    if (!receipt.ok) {
+      return NextResponse.json(
+        { error: receipt.error, ...(receipt.retry ? { retryable: true } : {}) },
+        { status: receiptErrorStatus(receipt.retry) }
+      );
+    }
+
+    // Neither is one that isn't this intent's payment; its real intent can still claim it
+    const check = checkIntentReceipt(intent, receipt);
+    if (!check.ok && !check.owned) {
+      return NextResponse.json({ error: check.error }, { status: 400 });
+    }
+    if (!check.ok) {
+      await logTransactionAdmin(
+        intentTokenMint,
+        walletAddress,
+        receipt.amount,
+        'extension',
+        signature,
+        userId || null,
+        false,
+        receipt.currency
+      );
+
+      const refundPending = await tryRecordPendingRefund({
+        signature,
+        walletAddress,
+        tokenMint: intent.tokenMint,
+        currency: receipt.currency,
+        amount: receipt.amount,
+        reason: 'invalid_amount',
+        detail: check.error,
+      });
+      return NextResponse.json(
+        { error: check.error, ...(refundPending ? { refund: 'pending' } : {}) },
+        { status: 400 }
+      );
+    }
+
+    unspentPayment = {
+      signature,
+      walletAddress,
+      tokenMint: intent.tokenMint,
+      currency: intent.currency,
+      amount: intent.amount,
+    };
+
+    // Intents are single use; a second payment against one buys nothing
+    const consumed = await consumePaymentIntent(intent.id, signature);
+    if (consumed === 'duplicate') {
+      unspentPayment = null;
+      return NextResponse.json({ error: 'This payment is already being processed' }, { status: 409 });
+    }
+    if (consumed === 'unavailable') {
+      await logTransactionAdmin(
+        intentTokenMint,
+        walletAddress,
+        intent.amount,
+        'extension',
+        signature,
+        userId || null,
+        false,
+        intent.currency
+      );
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'intent_reused',
+        detail: `Payment intent ${intent.id} was already used`,
+      });
+      return NextResponse.json(
+        {
+          error: 'This payment intent was already used',
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Checked only once the payment is read, so a payer who paid anyway is refunded
+    const current = await getCurrentTokenDoc();
+    if (!current?.queueItemId || !current.expiresAt || current.expiresAt.toMillis() <= Date.now()) {
+      await logTransactionAdmin(
+        intentTokenMint,
+        walletAddress,
+        intent.amount,
+        'extension',
+        signature,
+        userId || null,
+        false,
+        intent.currency
+      );
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'extension_not_applied',
+        detail: 'No token is showing',
+      });
+      const error = 'Payment received, but no paid token is showing right now';
+      return NextResponse.json(
+        {
+          error: refundPending ? `${error}. A refund is pending.` : error,
+          code: 'EXTENSION_NOT_APPLIED',
+          signature,
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Consume the signature before extending so a retry can't apply it twice
+    await logTransactionAdmin(
+      current.tokenMint,
+      walletAddress,
+      intent.amount,
+      'extension',
+      signature,
+      userId || null,
+      true,
+      intent.currency
+    );
+
+    const addMs = minutes * SESSION_MINUTE_MS;
+    const result = await extendCurrentToken(addMs, intent.queueItemId ?? current.queueItemId);
+    if (!result.extended) {
+      console.error(`[Extend] Paid extension ${signature} not applied: ${result.reason}`);
+      const detail = {
+        changed: 'The token changed before the extension applied',
+        reserved: 'The extension would run into a reserved slot',
+        not_active: 'No token is showing',
+      }[result.reason];
+      const refundPending = await tryRecordPendingRefund({
+        ...unspentPayment,
+        reason: 'extension_not_applied',
+        detail,
+      });
+      const error = `Payment received, but ${detail.charAt(0).toLowerCase()}${detail.slice(1)}`;
+      return NextResponse.json(
+        {
+          error: refundPending ? `${error}. A refund is pending.` : error,
+          code: 'EXTENSION_NOT_APPLIED',
+          signature,
+          ...(refundPending ? { refund: 'pending' } : {}),
+        },
+        { status: 409 }
+      );
+    }
+    unspentPayment = null;
+
+    const tokenMint = result.current.tokenMint;
+    const session = await getActiveSessionForToken(tokenMint);
+    const extendedSession = session ? await extendSession(session.sessionId, result.expiresAt.getTime()) : null;
+    if (session && !extendedSession) {
+      console.error(`[Extend] Device session ${session.sessionId} did not take the new end time`);
+    }
+
+    console.log(
+      `[Extend] ${tokenMint.slice(0, 8)}... +${minutes}m by ${walletAddress.slice(0, 4)}..., ` +
+      `now ends ${result.expiresAt.toISOString()}`
+    );
+
+    await refreshStateSnapshot('queue_extend', true);
+
+    return NextResponse.json({
+      success: true,
+      message: `Extended by ${minutes} min`,
+      tokenMint,
+      queueItemId: result.current.queueItemId,
+      minutes,
+      paymentCurrency: intent.currency,
+      paymentAmount: intent.amount,
+      expiresAt: result.expiresAt.toISOString(),
+      sessionExtended: Boolean(extendedSession),
+    });
+  } catch (error) {
+    console.error('[Extend] Error:', error);
+    const refundPending = unspentPayment
+      ? await tryRecordPendingRefund({
+          ...unspentPayment,
+          reason: 'server_error',
+          detail: error instanceof Error ? error.message : String(error),
+        })
+      : false;
+    return NextResponse.json(
+      { error: 'Internal server error', ...(refundPending ? { refund: 'pending' } : {}) },
+      { status: 500 }
+    );
+  }
+}
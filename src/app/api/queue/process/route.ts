@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAdminDb, FieldValue, Timestamp } from '@/lib/firebase-admin';
 import { DEFAULT_TOKEN_MINT, HELIUS_API_KEY, ADMIN_API_KEY, CRON_SECRET } from '@/lib/constants';
 import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
 import { refreshStateSnapshot } from '@/lib/server/state-store';
+import { advanceQueue, getCurrentTokenDoc, listQueue, recordPlaySession } from '@/lib/server/queue-engine';
+import { getDataStore } from '@/lib/server/storage';
 
 // ============================================
 // AUTHENTICATION
@@ -35,30 +36,6 @@ function verifyAuth(request: NextRequest, requireAdmin: boolean = false): boolea
   return false;
 }
 
-// ============================================
-// TYPES
-// ============================================
-
-interface QueueItem {
-  id: string;
-  tokenMint: string;
-  walletAddress: string;
-  isPriority: boolean;
-  priorityLevel: number;
-  displayDuration: number;
-  position: number;
-}
-
-interface CurrentToken {
-  tokenMint: string;
-  queueItemId: string | null;
-  expiresAt: Timestamp | null;
-  isPriority: boolean;
-  priorityLevel: number;
-  displayDuration: number;
-  walletAddress: string | null;
-}
-
 // ============================================
 // WEBHOOK UPDATE
 // ============================================
@@ -75,10 +52,9 @@ async function updateHeliusWebhook(tokenMint: string, baseUrl: string): Promise<
     return;
   }
 
-  // Check if webhook is already tracking this token (read from Firebase)
-  const db = getAdminDb();
-  const settingsDoc = await db.doc('settings/webhook').get();
-  const lastToken = settingsDoc.exists ? settingsDoc.data()?.trackedToken : null;
+  // Check if webhook is already tracking this token
+  const webhookConfig = getDataStore().webhookConfig;
+  const lastToken = (await webhookConfig.get())?.trackedToken ?? null;
   
   if (lastToken === tokenMint) {
     console.log('[Process] Webhook already tracking:', tokenMint);
@@ -100,77 +76,14 @@ async function updateHeliusWebhook(tokenMint: string, baseUrl: string): Promise<
       console.error('[Process] Failed to update webhook:', error);
     } else {
       console.log('[Process] Webhook updated to track:', tokenMint);
-      // Save the tracked token to Firebase
-      await db.doc('settings/webhook').set({ 
-        trackedToken: tokenMint,
-        updatedAt: FieldValue.serverTimestamp() 
-      }, { merge: true });
+      // Save the tracked token
+      await webhookConfig.merge({ trackedToken: tokenMint });
     }
   } catch (error) {
     console.error('[Process] Error updating webhook:', error);
   }
 }
 
-// ============================================
-// QUEUE PROCESSING
-// ============================================
-
-async function getCurrentToken(): Promise<CurrentToken | null> {
-  const db = getAdminDb();
-  const docSnap = await db.doc('settings/currentToken').get();
-
-  if (docSnap.exists) {
-    return docSnap.data() as CurrentToken;
-  }
-  return null;
-}
-
-async function getNextQueueItem(): Promise<QueueItem | null> {
-  const db = getAdminDb();
-  const snapshot = await db
-    .collection('queue')
-    .orderBy('position', 'asc')
-    .limit(1)
-    .get();
-
-  if (snapshot.empty) {
-    return null;
-  }
-
-  const doc = snapshot.docs[0];
-  return { id: doc.id, ...doc.data() } as QueueItem;
-}
-
-async function setCurrentToken(
-  tokenMint: string,
-  queueItemId: string | null,
-  expiresAt: Date | null,
-  isPriority: boolean,
-  priorityLevel: number,
-  displayDuration: number,
-  walletAddress: string | null
-): Promise<void> {
-  const db = getAdminDb();
-
-  await db.doc('settings/currentToken').set({
-    tokenMint,
-    queueItemId,
-    expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
-    isPriority,
-    priorityLevel,
-    displayDuration,
-    walletAddress,
-    activeAt: Timestamp.fromDate(new Date()), // Track when token became active
-    sessionStarted: false, // Will be set to true when device session starts
-    updatedAt: FieldValue.serverTimestamp(),
-  });
-}
-
-async function removeFromQueue(id: string): Promise<void> {
-  const db = getAdminDb();
-  await db.collection('queue').doc(id).delete();
-}
-
 // ============================================
 // API HANDLER
 // ============================================
@@ -218,25 +131,13 @@ export async function POST(request: NextRequest) {
       ...(sessionAuthToken ? { Authorization: sessionAuthToken } : {}),
     };
 
-    // Get current token
-    const current = await getCurrentToken();
+    // Take the next item (or reset to default) in one transaction; only the
+    // caller that actually advanced runs the side effects below
     const now = Date.now();
+    const advance = await advanceQueue(now);
 
-    console.log('[Process] Current token state:', {
-      tokenMint: current?.tokenMint,
-      queueItemId: current?.queueItemId,
-      expiresAt: current?.expiresAt?.toMillis(),
-      now
-    });
-
-    // Check if current token has expired
-    const isExpired = current?.expiresAt
-      ? current.expiresAt.toMillis() < now
-      : !current?.queueItemId; // No active item means we should process
-
-    console.log('[Process] Is expired:', isExpired);
-
-    if (!isExpired && current?.queueItemId) {
+    if (!advance.advanced) {
+      const { current } = advance;
       console.log('[Process] Skipping - current token not expired');
       return NextResponse.json({
         processed: false,
@@ -247,42 +148,28 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Get next item from queue
-    const nextItem = await getNextQueueItem();
-    console.log('[Process] Next queue item:', nextItem ? { id: nextItem.id, tokenMint: nextItem.tokenMint } : 'none');
+    const { previous, next: nextItem, expiresAt } = advance;
+    console.log('[Process] Advanced queue:', {
+      previous: previous?.tokenMint,
+      next: nextItem ? { id: nextItem.id, tokenMint: nextItem.tokenMint } : 'none',
+    });
 
-    // Stop the current device session before transitioning
+    // Stop the previous token's device session
     // This clears both in-memory session and Firestore deviceSession document
-    if (current?.queueItemId && current.tokenMint !== DEFAULT_TOKEN_MINT) {
-      console.log('[Process] Stopping device session for expired token:', current.tokenMint);
+    if (previous?.queueItemId && previous.tokenMint !== DEFAULT_TOKEN_MINT) {
+      console.log('[Process] Stopping device session for expired token:', previous.tokenMint);
       try {
         await fetch(`${internalBaseUrl}/api/device/autoblow/session`, {
           method: 'POST',
           headers: sessionHeaders,
-          body: JSON.stringify({ action: 'stop', tokenMint: current.tokenMint })
+          body: JSON.stringify({ action: 'stop', tokenMint: previous.tokenMint })
         });
       } catch (err) {
         console.error('[Process] Failed to stop device session:', err);
       }
     }
 
-    if (nextItem) {
-      // Set next item as current using its own display duration
-      const expiresAt = new Date(now + nextItem.displayDuration);
-
-      await setCurrentToken(
-        nextItem.tokenMint,
-        nextItem.id,
-        expiresAt,
-        nextItem.isPriority,
-        nextItem.priorityLevel,
-        nextItem.displayDuration,
-        nextItem.walletAddress
-      );
-
-      // Remove from queue
-      await removeFromQueue(nextItem.id);
-
+    if (nextItem && expiresAt) {
       // Update webhook to track new token
       await updateHeliusWebhook(nextItem.tokenMint, publicBaseUrl);
 
@@ -296,12 +183,20 @@ export async function POST(request: NextRequest) {
             action: 'start',
             tokenMint: nextItem.tokenMint,
             sessionStateId: `queue-${nextItem.id}`,
+            mode: nextItem.pinnedModeId ?? 'auto',
+            endsAt: expiresAt.getTime(),
           }),
         });
         sessionStarted = sessionResponse.ok;
         if (!sessionResponse.ok) {
           const sessionError = await sessionResponse.text();
           console.error('[Process] Failed to start device session:', sessionError);
+        } else {
+          // Receipts show which modes drove the device, read from this session's timeline
+          const started = (await sessionResponse.json()) as { sessionId?: string };
+          if (started.sessionId) {
+            await recordPlaySession(nextItem.id, started.sessionId);
+          }
         }
       } catch (sessionError) {
         console.error('[Process] Device session start request failed:', sessionError);
@@ -319,13 +214,12 @@ export async function POST(request: NextRequest) {
         isPriority: nextItem.isPriority,
         priorityLevel: nextItem.priorityLevel,
         displayDuration: nextItem.displayDuration,
+        pinnedModeId: nextItem.pinnedModeId ?? null,
         sessionStarted,
       });
     } else {
-      // Queue empty - reset to default token
-      await setCurrentToken(DEFAULT_TOKEN_MINT, null, null, false, 0, 0, null);
-
-      // Update webhook to track default token
+      // Queue was empty - the transaction reset to the default token;
+      // update webhook to track it
       await updateHeliusWebhook(DEFAULT_TOKEN_MINT, publicBaseUrl);
 
       await refreshStateSnapshot('queue_process_default', true);
@@ -356,20 +250,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const db = getAdminDb();
-
-    // Get current token
-    const current = await getCurrentToken();
-
-    // Get queue length
-    const queueSnapshot = await db.collection('queue').get();
-    const queueLength = queueSnapshot.size;
-
-    // Get queue items
-    const queueItems = queueSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const [current, queueItems] = await Promise.all([getCurrentTokenDoc(), listQueue()]);
+    const queueLength = queueItems.length;
 
     const now = Date.now();
     const expiresAt = current?.expiresAt?.toMillis();
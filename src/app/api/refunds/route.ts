@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_API_KEY } from '@/lib/constants';
+import {
+  approveRefund,
+  executeRefund,
+  getRefund,
+  listRefunds,
+  RefundError,
+  rejectRefund,
+  RefundStatus,
+} from '@/lib/server/refunds';
+
+const REFUND_STATUSES: RefundStatus[] = ['pending', 'approved', 'sending', 'refunded', 'failed', 'rejected'];
+
+interface RefundActionBody {
+  action?: 'approve' | 'reject' | 'execute';
+  signature?: string;       // payment signature the refund is keyed by
+  note?: string;
+  actor?: string;           // who is acting, for the audit trail
+}
+
+// Refunds move money, so unlike the device admin routes this never runs open
+function verifyAdminAuth(request: NextRequest): boolean {
+  if (!ADMIN_API_KEY) {
+    console.error('[Refunds] No admin API key configured, refusing admin request');
+    return false;
+  }
+  return request.headers.get('authorization') === `Bearer ${ADMIN_API_KEY}`;
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RefundError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error(`[Refunds] ${fallback}:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET - List refunds (?status=pending&limit=50) or fetch one (?signature=)
+ */
+export async function GET(request: NextRequest) {
+  if (!verifyAdminAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const signature = searchParams.get('signature');
+    if (signature) {
+      const refund = await getRefund(signature);
+      return refund
+        ? NextResponse.json({ refund })
+        : NextResponse.json({ error: 'Refund not found' }, { status: 404 });
+    }
+
+    const status = searchParams.get('status') as RefundStatus | null;
+    if (status && !REFUND_STATUSES.includes(status)) {
+      return NextResponse.json({ error: 'Unknown status' }, { status: 400 });
+    }
+    const limit = Math.min(500, Math.max(1, Number(searchParams.get('limit')) || 100));
+
+    const refunds = await listRefunds(status || undefined, limit);
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    return errorResponse(error, 'List failed');
+  }
+}
+
+/**
+ * POST - Move a refund forward
+ * Body: { action: 'approve' | 'reject' | 'execute', signature, note?, actor? }
+ */
+export async function POST(request: NextRequest) {
+  if (!verifyAdminAuth(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = (await request.json()) as RefundActionBody;
+    if (!body.signature) {
+      return NextResponse.json({ error: 'Missing signature' }, { status: 400 });
+    }
+    const actor = body.actor?.trim() || 'admin';
+
+    switch (body.action) {
+      case 'approve':
+        return NextResponse.json({ success: true, refund: await approveRefund(body.signature, actor, body.note) });
+      case 'reject':
+        return NextResponse.json({ success: true, refund: await rejectRefund(body.signature, actor, body.note) });
+      case 'execute': {
+        const refund = await executeRefund(body.signature, actor);
+        return NextResponse.json(
+          { success: refund.status === 'refunded', refund },
+          { status: refund.status === 'refunded' ? 200 : 502 }
+        );
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+  } catch (error) {
+    return errorResponse(error, 'Action failed');
+  }
+}
@@ -1,36 +1,56 @@
 import { NextRequest } from 'next/server';
 import {
+  getStateEventsSince,
   getStateSnapshot,
   refreshStateSnapshot,
+  stateEventId,
   subscribeStateSnapshot,
 } from '@/lib/server/state-store';
-import { AppStateSnapshot } from '@/lib/state';
+import { AppStateSnapshot, StateEvent } from '@/lib/state';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
 function encodeStateEvent(snapshot: AppStateSnapshot): string {
-  return `event: state\ndata: ${JSON.stringify(snapshot)}\n\n`;
+  return `id: ${stateEventId(snapshot.version)}\nevent: state\ndata: ${JSON.stringify(snapshot)}\n\n`;
 }
 
+function encodeChangeEvent(event: StateEvent): string {
+  return `id: ${stateEventId(event.revision)}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Stream of app state: a full `state` event, then one typed event per change.
+ * Resumes after `Last-Event-ID` (or `?lastEventId=`, for clients that reconnect
+ * with a fresh EventSource) when this instance still has the events since.
+ */
 export async function GET(request: NextRequest) {
   await refreshStateSnapshot('api_state_stream_open', true);
 
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
     start(controller) {
       let closed = false;
 
-      const sendSnapshot = (snapshot: AppStateSnapshot) => {
+      const sendEvents = (events: StateEvent[]) => {
         if (closed) return;
-        controller.enqueue(encoder.encode(encodeStateEvent(snapshot)));
+        for (const event of events) {
+          controller.enqueue(encoder.encode(encodeChangeEvent(event)));
+        }
       };
 
-      sendSnapshot(getStateSnapshot());
+      const missed = lastEventId ? getStateEventsSince(lastEventId) : null;
+      if (missed) {
+        sendEvents(missed);
+      } else {
+        controller.enqueue(encoder.encode(encodeStateEvent(getStateSnapshot())));
+      }
 
-      const unsubscribe = subscribeStateSnapshot((snapshot) => {
-        sendSnapshot(snapshot);
+      const unsubscribe = subscribeStateSnapshot((_snapshot, events) => {
+        sendEvents(events);
       });
 
       const heartbeat = setInterval(() => {
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import { checkRateLimit, getClientIp } from '@/lib/server/rate-limit';
+import { requireWallet } from '@/lib/server/auth';
+import { getWalletHistory } from '@/lib/server/wallet-history';
+
+/**
+ * GET - A wallet's payment receipts: what each payment bought, when it
+ * showed, and what the device did. Only the signed-in wallet (or an admin)
+ * can read them.
+ * ?limit=N (default 50, max 200)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const limit = checkRateLimit({
+      namespace: 'wallet_history_ip',
+      key: getClientIp(request),
+      limit: 20,
+      windowMs: 60_000,
+    });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many history requests', retryAfterMs: limit.retryAfterMs },
+        { status: 429 }
+      );
+    }
+
+    const { address } = await params;
+    try {
+      new PublicKey(address);
+    } catch {
+      return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
+    }
+
+    const denied = requireWallet(request, address);
+    if (denied) return denied;
+
+    const requested = Number(request.nextUrl.searchParams.get('limit'));
+    const count = Number.isFinite(requested) && requested > 0 ? Math.min(Math.floor(requested), 200) : 50;
+
+    const history = await getWalletHistory(address, count);
+    return NextResponse.json(history, { headers: { 'Cache-Control': 'private, no-store' } });
+  } catch (error) {
+    console.error('[Wallet] History error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
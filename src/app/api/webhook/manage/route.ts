@@ -1,5 +1,4 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAdminDb, FieldValue } from '@/lib/firebase-admin';
 import {
   HELIUS_API_KEY,
   HELIUS_MAINNET_API,
@@ -7,6 +6,7 @@ import {
   ADMIN_API_KEY,
   HELIUS_WEBHOOK_AUTH_TOKEN,
 } from '@/lib/constants';
+import { getDataStore } from '@/lib/server/storage';
 
 // ============================================
 // AUTHENTICATION
@@ -148,15 +148,13 @@ async function deleteWebhook(webhookId: string): Promise<void> {
 }
 
 async function getWebhookConfig(): Promise<WebhookConfig> {
-  const db = getAdminDb();
-  const docSnap = await db.doc('settings/webhook').get();
+  const data = await getDataStore().webhookConfig.get();
 
-  if (docSnap.exists) {
-    const data = docSnap.data();
+  if (data) {
     return {
-      webhookId: data?.webhookId || null,
-      currentToken: data?.currentToken || DEFAULT_TOKEN_MINT,
-      authToken: data?.authToken,
+      webhookId: data.webhookId || null,
+      currentToken: data.currentToken || DEFAULT_TOKEN_MINT,
+      authToken: data.authToken,
     };
   }
 
@@ -164,13 +162,11 @@ async function getWebhookConfig(): Promise<WebhookConfig> {
 }
 
 async function saveWebhookConfig(webhookId: string, currentToken: string): Promise<void> {
-  const db = getAdminDb();
-  await db.doc('settings/webhook').set({
+  await getDataStore().webhookConfig.set({
     webhookId,
     currentToken,
     trackedToken: currentToken, // Also save as trackedToken for duplicate check
     network: 'mainnet', // Store network for clarity
-    updatedAt: FieldValue.serverTimestamp(),
   });
 }
 
@@ -395,8 +391,7 @@ export async function DELETE(request: NextRequest) {
       await deleteWebhook(config.webhookId);
 
       // Clear config
-      const db = getAdminDb();
-      await db.doc('settings/webhook').delete();
+      await getDataStore().webhookConfig.delete();
     }
 
     return NextResponse.json({ success: true, deleted: config.webhookId });
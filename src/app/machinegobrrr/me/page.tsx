@@ -0,0 +1,211 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import Link from 'next/link';
+import { usePhantomWallet } from '@/components/WalletProvider';
+import { PAYMENT_TIERS } from '@/lib/constants';
+import { formatPrice } from '@/lib/pricing';
+import { ensureWalletSession } from '@/lib/wallet-session';
+import type { WalletHistory, WalletPayment, WalletPaymentStatus, WalletPlay } from '@/lib/server/wallet-history';
+
+const STATUS_LABELS: Record<WalletPaymentStatus, string> = {
+  rejected: 'Rejected',
+  not_applied: 'Not applied',
+  queued: 'Waiting to play',
+  playing: 'Showing now',
+  played: 'Played',
+};
+
+function shorten(value: string): string {
+  return `${value.slice(0, 4)}...${value.slice(-4)}`;
+}
+
+function formatTime(ms: number | null): string {
+  return ms ? new Date(ms).toLocaleString() : '-';
+}
+
+function describePurchase(payment: WalletPayment): string {
+  if (payment.kind === 'extension') return 'Extension';
+  return PAYMENT_TIERS.find((tier) => tier.id === payment.tierId)?.label || payment.tierId || 'Queue slot';
+}
+
+export default function WalletReceiptsPage() {
+  const wallet = usePhantomWallet();
+  const [history, setHistory] = useState<WalletHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    if (!wallet.connected || !wallet.address) {
+      setMessage('Connect Phantom first');
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+    try {
+      await ensureWalletSession(wallet);
+      const response = await fetch(`/api/wallet/${wallet.address}/history`);
+      const result = (await response.json()) as WalletHistory & { error?: string };
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load receipts');
+      }
+      setHistory(result);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to load receipts');
+    } finally {
+      setLoading(false);
+    }
+  }, [wallet]);
+
+  const toggleWallet = async () => {
+    setHistory(null);
+    setMessage(null);
+    if (wallet.connected) {
+      await fetch('/api/auth/session', { method: 'DELETE' }).catch(() => undefined);
+      await wallet.disconnect();
+    } else {
+      await wallet.connect();
+    }
+  };
+
+  // Receipts belong to the wallet that loaded them
+  const visible = history && history.walletAddress === wallet.address ? history : null;
+
+  return (
+    <div className="dashboard">
+      <div className="bg-pattern" />
+      <main className="receipts-page">
+        <div className="section-title-row">
+          <span className="section-title">My Receipts</span>
+          <Link href="/machinegobrrr" className="receipts-back">
+            Back to the machine
+          </Link>
+        </div>
+
+        <div className="section">
+          <div className="form">
+            <button className="btn" onClick={toggleWallet} disabled={wallet.connecting || loading}>
+              {wallet.connecting
+                ? 'Connecting...'
+                : wallet.connected && wallet.address
+                  ? `Disconnect (${shorten(wallet.address)})`
+                  : 'Connect Phantom'}
+            </button>
+            <button className="btn btn-green" onClick={loadHistory} disabled={!wallet.connected || loading}>
+              {loading ? 'Loading...' : 'Show my receipts'}
+            </button>
+            {message ? <div className="msg error">{message}</div> : null}
+          </div>
+        </div>
+
+        {visible ? (
+          visible.payments.length === 0 ? (
+            <div className="queue-empty">No payments from this wallet yet</div>
+          ) : (
+            visible.payments.map((payment) => <Receipt key={payment.signature} payment={payment} />)
+          )
+        ) : null}
+      </main>
+    </div>
+  );
+}
+
+function Receipt({ payment }: { payment: WalletPayment }) {
+  const { refund } = payment;
+
+  return (
+    <div className="section">
+      <div className="token-details">
+        <div className="detail-row">
+          <span className="detail-label">{describePurchase(payment)}</span>
+          <span className="detail-value">{STATUS_LABELS[payment.status]}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Token</span>
+          <span className="detail-value mono">{payment.tokenMint}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Paid</span>
+          <span className="detail-value">
+            {payment.currency ? formatPrice(payment.currency, payment.amount) : payment.amount}
+            {' · '}
+            {formatTime(payment.paidAt)}
+          </span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Verified</span>
+          <span className="detail-value">{payment.verified ? 'Yes' : 'No'}</span>
+        </div>
+        <div className="detail-row">
+          <span className="detail-label">Signature</span>
+          <a
+            className="detail-value mono"
+            href={`https://solscan.io/tx/${payment.signature}`}
+            target="_blank"
+            rel="noreferrer"
+          >
+            {shorten(payment.signature)}
+          </a>
+        </div>
+        {refund ? (
+          <div className="detail-row">
+            <span className="detail-label">Refund</span>
+            <span className="detail-value">
+              {refund.status} ({refund.reason.replace(/_/g, ' ')})
+            </span>
+          </div>
+        ) : null}
+        {payment.plays.map((play) => (
+          <PlayDetails key={play.queueItemId} play={play} showToken={payment.plays.length > 1} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PlayDetails({ play, showToken }: { play: WalletPlay; showToken: boolean }) {
+  return (
+    <>
+      {showToken ? (
+        <div className="detail-row">
+          <span className="detail-label">Playlist token</span>
+          <span className="detail-value mono">{play.tokenMint}</span>
+        </div>
+      ) : null}
+      <div className="detail-row">
+        <span className="detail-label">{play.scheduledAt ? 'Reserved slot' : 'Showed'}</span>
+        <span className="detail-value">
+          {formatTime(play.startedAt)} - {formatTime(play.expiresAt)}
+        </span>
+      </div>
+      <div className="detail-row">
+        <span className="detail-label">Modes</span>
+        <span className="detail-value">
+          {play.modes.length > 0
+            ? play.modes.join(', ')
+            : play.pinnedMode || 'No device session recorded'}
+        </span>
+      </div>
+      {play.timeline.length > 0 && play.sessionId ? (
+        <details className="receipt-timeline">
+          <summary>
+            Command timeline ({play.timeline.length})
+            {' · '}
+            <a href={`/api/device/timeline/${play.sessionId}?format=json`}>download</a>
+          </summary>
+          {play.timeline.map((entry) => (
+            <div key={entry.at} className="detail-row">
+              <span className="detail-label">{new Date(entry.at).toLocaleTimeString()}</span>
+              <span className="detail-value">
+                {entry.mode} · {entry.speed}% · {entry.minY}-{entry.maxY}
+                {entry.booster ? ` · ${entry.booster}` : ''}
+                {entry.limited ? ' · limited' : ''}
+              </span>
+            </div>
+          ))}
+        </details>
+      ) : null}
+    </>
+  );
+}
@@ -2,12 +2,16 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import Image from 'next/image';
+import Link from 'next/link';
+import QRCode from 'qrcode';
 import {
   Connection,
+  Keypair,
   LAMPORTS_PER_SOL,
   PublicKey,
   SystemProgram,
   Transaction,
+  TransactionInstruction,
 } from '@solana/web3.js';
 import {
   TOKEN_PROGRAM_ID,
@@ -21,73 +25,232 @@ import { WelcomeModal } from '@/components/WelcomeModal';
 import { usePhantomWallet } from '@/components/WalletProvider';
 import { useAppStateStream } from '@/hooks/useAppStateStream';
 import {
+  DEFAULT_SESSION_MINUTES,
   DEFAULT_TOKEN_MINT,
+  BID_MODE_ENABLED,
   DISPLAY_DURATION_STANDARD,
   HELIUS_RPC_URL,
+  MAX_PLAYLIST_TOKENS,
   LIVESTREAM_URL,
+  MEMO_PROGRAM_ID,
   MINSTR_MINT,
-  MINSTR_PRIORITY_PRICE,
-  MINSTR_STANDARD_PRICE,
   MINSTR_SYMBOL,
-  PRIORITY_PRICE,
-  STANDARD_PRICE,
+  PAYMENT_TIERS,
+  PaymentCurrency,
   TREASURY_WALLET,
 } from '@/lib/constants';
+import {
+  getCooldownOverrideTier,
+  getFloorPrice,
+  PAYMENT_CURRENCIES,
+  quoteExtension,
+  quotePlaylist,
+  quotePrice,
+  resolvePayment,
+} from '@/lib/pricing';
 import { AppStateSnapshot, DeviceStateSnapshot } from '@/lib/state';
+import { getModeName, listModes } from '@/lib/chartSync/modes';
+import { ensureWalletSession } from '@/lib/wallet-session';
 
 const SESSION_TRANSITION_DURATION = 10000;
+const SOLANA_PAY_POLL_MS = 3000;
 const FALLBACK_MAINNET_RPC_URLS = [
   'https://api.mainnet-beta.solana.com',
   'https://solana-rpc.publicnode.com',
 ];
-
-type PaymentOptionId =
-  | 'sol_standard'
-  | 'sol_priority'
-  | 'minstr_standard'
-  | 'minstr_priority';
+const RPC_CANDIDATES = Array.from(new Set([HELIUS_RPC_URL, ...FALLBACK_MAINNET_RPC_URLS].filter(Boolean)));
+const SESSION_MINUTE_PRESETS = [5, DEFAULT_SESSION_MINUTES, 20, 30];
+const EXTEND_MINUTE_PRESETS = [1, 5, 10];
 
 interface PaymentOptionConfig {
-  id: PaymentOptionId;
-  tier: 'standard' | 'priority';
-  currency: 'SOL' | 'MINSTR';
+  id: string;
+  tierId: string;             // 'bid' for the custom bid amount
+  currency: PaymentCurrency;
   amount: number;
   label: string;
 }
 
-const PAYMENT_OPTIONS: PaymentOptionConfig[] = [
-  {
-    id: 'sol_standard',
-    tier: 'standard',
-    currency: 'SOL',
-    amount: STANDARD_PRICE,
-    label: `${STANDARD_PRICE.toFixed(2)} SOL Standard`,
-  },
-  {
-    id: 'sol_priority',
-    tier: 'priority',
-    currency: 'SOL',
-    amount: PRIORITY_PRICE,
-    label: `${PRIORITY_PRICE.toFixed(2)} SOL Priority`,
-  },
-  {
-    id: 'minstr_standard',
-    tier: 'standard',
-    currency: 'MINSTR',
-    amount: MINSTR_STANDARD_PRICE,
-    label: `${MINSTR_STANDARD_PRICE.toLocaleString()} $${MINSTR_SYMBOL} Standard`,
-  },
-  {
-    id: 'minstr_priority',
-    tier: 'priority',
-    currency: 'MINSTR',
-    amount: MINSTR_PRIORITY_PRICE,
-    label: `${MINSTR_PRIORITY_PRICE.toLocaleString()} $${MINSTR_SYMBOL} Priority`,
-  },
-];
+function currencyLabel(currency: PaymentCurrency): string {
+  return currency === 'SOL' ? 'SOL' : `$${MINSTR_SYMBOL}`;
+}
+
+function formatAmount(currency: PaymentCurrency, amount: number): string {
+  return currency === 'SOL'
+    ? `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })} SOL`
+    : `${amount.toLocaleString()} $${MINSTR_SYMBOL}`;
+}
+
+// One button per tier and currency, plus a custom bid when bid mode is on
+function buildPaymentOptions(currency: PaymentCurrency, minutes: number): PaymentOptionConfig[] {
+  const options: PaymentOptionConfig[] = PAYMENT_TIERS.map((tier) => ({
+    id: `${currency.toLowerCase()}_${tier.id}`,
+    tierId: tier.id,
+    currency,
+    amount: quotePrice(tier, currency, minutes),
+    label: `${formatAmount(currency, quotePrice(tier, currency, minutes))} ${tier.label}`,
+  }));
+  if (BID_MODE_ENABLED) {
+    options.push({
+      id: `${currency.toLowerCase()}_bid`,
+      tierId: 'bid',
+      currency,
+      amount: getFloorPrice(currency, minutes),
+      label: 'Custom Bid',
+    });
+  }
+  return options;
+}
+
+function buildPaymentOptionRows(minutes: number) {
+  return PAYMENT_CURRENCIES.map((currency) => ({
+    currency,
+    options: buildPaymentOptions(currency, minutes),
+  }));
+}
+
+// Option ids and tiers don't depend on the length picked, only amounts do
+const PAYMENT_OPTION_IDS = buildPaymentOptionRows(DEFAULT_SESSION_MINUTES).flatMap((row) => row.options);
+
+async function getWorkingConnection() {
+  let lastError: Error | null = null;
+
+  for (const rpcUrl of RPC_CANDIDATES) {
+    const candidate = new Connection(rpcUrl, 'confirmed');
+    try {
+      await candidate.getLatestBlockhash('confirmed');
+      return { connection: candidate, rpcUrl };
+    } catch (error) {
+      lastError = error as Error;
+    }
+  }
 
-const SOL_PAYMENT_OPTIONS = PAYMENT_OPTIONS.filter((option) => option.currency === 'SOL');
-const MINSTR_PAYMENT_OPTIONS = PAYMENT_OPTIONS.filter((option) => option.currency === 'MINSTR');
+  throw lastError ?? new Error('No available Solana RPC endpoint');
+}
+
+interface PaymentIntentResponse {
+  intentId: string;
+  memo: string;
+  currency: PaymentCurrency;
+  amount: number;
+}
+
+/**
+ * Ask the server to price a purchase; the returned memo must ride along with the transfer
+ */
+async function requestPaymentIntent(body: Record<string, unknown>): Promise<PaymentIntentResponse> {
+  const response = await fetch('/api/payments/intent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const result = (await response.json()) as Partial<PaymentIntentResponse> & { error?: string };
+  if (!response.ok || !result.intentId || !result.memo) {
+    throw new Error(result?.error || 'Failed to prepare payment');
+  }
+  return result as PaymentIntentResponse;
+}
+
+/**
+ * Build, sign and confirm a transfer of an intent's amount to the treasury,
+ * tagged with its memo; returns the signature
+ */
+async function sendTreasuryPayment(
+  wallet: ReturnType<typeof usePhantomWallet>,
+  { currency, amount, memo }: PaymentIntentResponse
+): Promise<string> {
+  const sender = new PublicKey(wallet.address as string);
+  const treasury = new PublicKey(TREASURY_WALLET);
+  const { connection: rpcConnection } = await getWorkingConnection();
+  const { blockhash, lastValidBlockHeight } = await rpcConnection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({
+    feePayer: sender,
+    recentBlockhash: blockhash,
+  });
+
+  if (currency === 'SOL') {
+    transaction.add(
+      SystemProgram.transfer({
+        fromPubkey: sender,
+        toPubkey: treasury,
+        lamports: Math.floor(amount * LAMPORTS_PER_SOL),
+      })
+    );
+  } else {
+    const minstrMint = new PublicKey(MINSTR_MINT);
+    const mintInfo = await getMint(rpcConnection, minstrMint, 'confirmed');
+    const senderTokenAccount = getAssociatedTokenAddressSync(minstrMint, sender);
+    const treasuryTokenAccount = getAssociatedTokenAddressSync(minstrMint, treasury);
+
+    const [senderTokenAccountInfo, treasuryTokenAccountInfo] = await Promise.all([
+      rpcConnection.getAccountInfo(senderTokenAccount, 'confirmed'),
+      rpcConnection.getAccountInfo(treasuryTokenAccount, 'confirmed'),
+    ]);
+
+    if (!senderTokenAccountInfo) {
+      throw new Error(`Connected wallet has no $${MINSTR_SYMBOL} token account`);
+    }
+
+    if (!treasuryTokenAccountInfo) {
+      transaction.add(
+        createAssociatedTokenAccountInstruction(
+          sender,
+          treasuryTokenAccount,
+          treasury,
+          minstrMint
+        )
+      );
+    }
+
+    const tokenAmountRaw = BigInt(amount) * (BigInt(10) ** BigInt(mintInfo.decimals));
+    transaction.add(
+      createTransferCheckedInstruction(
+        senderTokenAccount,
+        minstrMint,
+        treasuryTokenAccount,
+        sender,
+        tokenAmountRaw,
+        mintInfo.decimals,
+        [],
+        TOKEN_PROGRAM_ID
+      )
+    );
+  }
+
+  transaction.add(
+    new TransactionInstruction({
+      programId: new PublicKey(MEMO_PROGRAM_ID),
+      keys: [{ pubkey: sender, isSigner: true, isWritable: false }],
+      data: Buffer.from(memo, 'utf8'),
+    })
+  );
+
+  const signature = await wallet.signAndSendTransaction(transaction);
+  await rpcConnection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  return signature;
+}
+
+function withRefundNote(message: string, refund?: string): string {
+  return refund === 'pending' && !/refund/i.test(message) ? `${message} Your payment is queued for a refund.` : message;
+}
+
+function describePaymentError(error: unknown): string {
+  const rawMessage = (error as Error).message || 'Transaction failed';
+  if (
+    /recent blockhash/i.test(rawMessage) ||
+    /missing api key/i.test(rawMessage) ||
+    /access forbidden/i.test(rawMessage) ||
+    /\b401\b/.test(rawMessage) ||
+    /\b403\b/.test(rawMessage)
+  ) {
+    return 'Could not reach RPC endpoint. Switched to public Solana RPC fallback. Please try again.';
+  }
+  return rawMessage;
+}
+
+const CHART_MODE_OPTIONS = [
+  { key: 'auto', label: 'Auto', description: 'Mode follows the chart' },
+  ...listModes().map((mode) => ({ key: mode.key, label: mode.name, description: mode.description })),
+];
 
 export default function MachineGoBrrrPage() {
   const [streamEnabled, setStreamEnabled] = useState(false);
@@ -201,6 +364,7 @@ export default function MachineGoBrrrPage() {
               <DeviceStatus device={stateStream.snapshot?.device || null} streamConnected={stateStream.connected} nowMs={nowMs} />
               <PromoteForm />
               <ActiveToken currentItem={currentItem} currentToken={currentToken} nowMs={nowMs} />
+              {currentToken !== DEFAULT_TOKEN_MINT && currentItem ? <ExtendForm currentItem={currentItem} /> : null}
               <QueueList queue={queue} currentItem={currentItem} nowMs={nowMs} />
             </div>
           </div>
@@ -311,6 +475,100 @@ function ActiveToken({
   );
 }
 
+function ExtendForm({ currentItem }: { currentItem: NonNullable<AppStateSnapshot['currentItem']> }) {
+  const [minutes, setMinutes] = useState(EXTEND_MINUTE_PRESETS[0]);
+  const [currency, setCurrency] = useState<PaymentCurrency>('SOL');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const wallet = usePhantomWallet();
+  const amount = quoteExtension(currency, minutes);
+
+  const extend = async () => {
+    if (!wallet.connected || !wallet.address) {
+      setMessage('Connect Phantom first');
+      return;
+    }
+
+    setLoading(true);
+    setMessage(null);
+
+    try {
+      await ensureWalletSession(wallet);
+      const intent = await requestPaymentIntent({
+        purpose: 'extend',
+        walletAddress: wallet.address,
+        currency,
+        minutes,
+        queueItemId: currentItem.id,
+      });
+      const signature = await sendTreasuryPayment(wallet, intent);
+      const response = await fetch('/api/queue/extend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          walletAddress: wallet.address,
+          signature,
+          intentId: intent.intentId,
+        }),
+      });
+
+      const result = (await response.json()) as { error?: string; message?: string; refund?: string };
+      if (!response.ok) {
+        throw new Error(withRefundNote(result?.error || 'Failed to extend token', result?.refund));
+      }
+      setMessage(result.message || 'Extended');
+    } catch (error) {
+      setMessage(describePaymentError(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="section">
+      <div className="section-title">Keep it Going</div>
+      <div className="form">
+        <div className="payment-rows">
+          <div className="payment-row">
+            <div className="payment-row-label">Add Time</div>
+            <div className="btns">
+              {EXTEND_MINUTE_PRESETS.map((option) => (
+                <button
+                  key={option}
+                  className={minutes === option ? 'btn btn-selected-sol' : 'btn'}
+                  onClick={() => setMinutes(option)}
+                  disabled={loading}
+                >
+                  +{option} min
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="payment-row">
+            <div className="payment-row-label">Pay in</div>
+            <div className="btns">
+              {PAYMENT_CURRENCIES.map((option) => (
+                <button
+                  key={option}
+                  className={currency === option ? (option === 'SOL' ? 'btn btn-selected-sol' : 'btn btn-selected') : 'btn'}
+                  onClick={() => setCurrency(option)}
+                  disabled={loading}
+                >
+                  {currencyLabel(option)}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        {message ? <div className="msg">{message}</div> : null}
+        <button className="btn btn-green" onClick={extend} disabled={loading || !wallet.connected}>
+          {loading ? 'Processing...' : `Extend for ${formatAmount(currency, amount)}`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 function DeviceStatus({
   device,
   streamConnected,
@@ -348,51 +606,168 @@ function DeviceStatus({
   );
 }
 
+interface SolanaPayPurchase {
+  tokenMints: string[];       // more than one is a playlist
+  scheduledAt: number | null; // reserved start; null = join the line
+  tier: string;               // PAYMENT_TIERS id or 'bid'
+  currency: PaymentCurrency;
+  amount: number;
+  minutes: number;
+  mode: string;
+}
+
+/**
+ * QR code for a Solana Pay transaction request. Any wallet can scan it; the
+ * server builds the transfer and queues the token once it lands, while this
+ * polls for the outcome.
+ */
+function SolanaPayQr({
+  purchase,
+  onSettled,
+}: {
+  purchase: SolanaPayPurchase;
+  onSettled: (queued: boolean, message: string) => void;
+}) {
+  const [code, setCode] = useState<{ reference: string; image: string } | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const { tier, currency, amount, minutes, mode, scheduledAt } = purchase;
+  const tokens = purchase.tokenMints.join(',');
+
+  // A fresh reference per purchase; scanning an old code can't buy a new one
+  useEffect(() => {
+    let cancelled = false;
+    const reference = Keypair.generate().publicKey.toBase58();
+    const params = new URLSearchParams({
+      tokens,
+      tier,
+      currency,
+      minutes: String(minutes),
+      mode,
+      reference,
+    });
+    if (tier === 'bid') params.set('amount', String(amount));
+    if (scheduledAt !== null) params.set('at', String(scheduledAt));
+    const url = `${window.location.origin}/api/payments/solana-pay?${params.toString()}`;
+
+    QRCode.toDataURL(`solana:${encodeURIComponent(url)}`, { margin: 1, width: 240 })
+      .then((image) => {
+        if (!cancelled) {
+          setCode({ reference, image });
+          setStatus(null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setStatus('Could not draw the payment code');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [amount, currency, minutes, mode, scheduledAt, tier, tokens]);
+
+  useEffect(() => {
+    if (!code) return;
+    let stopped = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/payments/solana-pay/status?reference=${code.reference}`);
+        const result = (await response.json()) as { status?: string; error?: string };
+        if (stopped) return;
+        if (result.status === 'queued') {
+          stopped = true;
+          onSettled(true, 'Queued successfully');
+        } else if (result.status === 'failed') {
+          stopped = true;
+          onSettled(false, result.error || 'Payment was not accepted');
+        } else if (result.status === 'expired') {
+          stopped = true;
+          setStatus('This code expired. Close and reopen it to get a new one.');
+        }
+      } catch {
+        // Keep polling; the tick sweep settles the payment regardless
+      }
+    };
+
+    const timer = setInterval(() => {
+      if (stopped) {
+        clearInterval(timer);
+      } else {
+        void poll();
+      }
+    }, SOLANA_PAY_POLL_MS);
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [code, onSettled]);
+
+  return (
+    <div className="payment-row solana-pay-qr">
+      <div className="payment-row-label">
+        Scan with any Solana wallet to pay {formatAmount(currency, amount)}.
+        {scheduledAt !== null ? ' Your slot is reserved once it confirms.' : ' Your token joins the queue once it confirms.'}
+      </div>
+      {code ? (
+        <Image src={code.image} alt="Solana Pay QR code" width={240} height={240} unoptimized />
+      ) : null}
+      {status ? <div className="msg">{status}</div> : null}
+    </div>
+  );
+}
+
 function PromoteForm() {
   const [token, setToken] = useState('');
-  const [selectedPaymentOption, setSelectedPaymentOption] = useState<PaymentOptionId>('sol_standard');
+  const [minutes, setMinutes] = useState(DEFAULT_SESSION_MINUTES);
+  const paymentOptionRows = useMemo(() => buildPaymentOptionRows(minutes), [minutes]);
+  const paymentOptions = useMemo(() => paymentOptionRows.flatMap((row) => row.options), [paymentOptionRows]);
+  const [selectedPaymentOption, setSelectedPaymentOption] = useState(PAYMENT_OPTION_IDS[0].id);
+  const [bidAmount, setBidAmount] = useState('');
+  const [selectedMode, setSelectedMode] = useState('auto');
+  const [startAt, setStartAt] = useState('');
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [cooldownStatus, setCooldownStatus] = useState<{ inCooldown: boolean; message?: string } | null>(null);
   const [checkCooldown, setCheckCooldown] = useState(false);
   const [buttonCooldown, setButtonCooldown] = useState(0);
+  const [showQr, setShowQr] = useState(false);
 
-  const nonceSignedRef = useRef(false);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const wallet = usePhantomWallet();
-  const rpcCandidates = useMemo(
-    () => Array.from(new Set([HELIUS_RPC_URL, ...FALLBACK_MAINNET_RPC_URLS].filter(Boolean))),
-    []
-  );
-  const getWorkingConnection = useCallback(async () => {
-    let lastError: Error | null = null;
-
-    for (const rpcUrl of rpcCandidates) {
-      const candidate = new Connection(rpcUrl, 'confirmed');
-      try {
-        await candidate.getLatestBlockhash('confirmed');
-        return { connection: candidate, rpcUrl };
-      } catch (error) {
-        lastError = error as Error;
-      }
-    }
-
-    throw lastError ?? new Error('No available Solana RPC endpoint');
-  }, [rpcCandidates]);
   const selectedConfig = useMemo(
-    () => PAYMENT_OPTIONS.find((option) => option.id === selectedPaymentOption) || PAYMENT_OPTIONS[0],
-    [selectedPaymentOption]
+    () => paymentOptions.find((option) => option.id === selectedPaymentOption) || paymentOptions[0],
+    [paymentOptions, selectedPaymentOption]
   );
-  const selectedTier = selectedConfig.tier;
   const selectedCurrency = selectedConfig.currency;
-  const selectedAmount = selectedConfig.amount;
-  const selectedAmountLabel = useMemo(() => {
-    if (selectedCurrency === 'SOL') {
-      return `${selectedAmount.toFixed(2)} SOL`;
-    }
-    return `${selectedAmount.toLocaleString()} $${MINSTR_SYMBOL}`;
-  }, [selectedAmount, selectedCurrency]);
+  const isBidSelected = selectedConfig.tierId === 'bid';
+  // Several comma-separated mints make a playlist, played back-to-back
+  const tokenMints = useMemo(() => token.split(/[\s,]+/).filter(Boolean), [token]);
+  const scheduledAt = startAt ? new Date(startAt).getTime() : null;
+  const selectedAmount = isBidSelected
+    ? (selectedCurrency === 'SOL' ? Number(bidAmount) : Math.floor(Number(bidAmount)))
+    : selectedConfig.amount;
+  // What the amount buys, resolved the same way the server will
+  const selectedPayment = useMemo(
+    () => (Number.isFinite(selectedAmount) ? resolvePayment(selectedCurrency, selectedAmount, minutes) : null),
+    [minutes, selectedAmount, selectedCurrency]
+  );
+  // Playlists pay the per-token price once per token
+  const totalAmount = selectedPayment && !selectedPayment.isBid
+    ? quotePlaylist(selectedPayment.tier, selectedCurrency, minutes, Math.max(1, tokenMints.length))
+    : selectedAmount;
+  const selectedAmountLabel = useMemo(
+    () => formatAmount(selectedCurrency, Number.isFinite(totalAmount) ? totalAmount : 0),
+    [totalAmount, selectedCurrency]
+  );
+  // Bids buy seniority in the line, which playlists and reserved slots skip
+  const purchaseProblem = tokenMints.length > MAX_PLAYLIST_TOKENS
+    ? `Playlists hold at most ${MAX_PLAYLIST_TOKENS} tokens`
+    : scheduledAt !== null && !Number.isFinite(scheduledAt)
+      ? 'Pick a valid start time'
+      : selectedPayment?.isBid && (tokenMints.length > 1 || scheduledAt !== null)
+        ? 'Playlists and reserved slots are bought at tier prices, not bids'
+        : null;
 
   useEffect(() => {
     if (buttonCooldown <= 0) return;
@@ -402,23 +777,30 @@ function PromoteForm() {
 
   useEffect(() => {
     setCooldownStatus(null);
-    if (!token.trim()) return;
+    if (tokenMints.length === 0) return;
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(async () => {
       setCheckCooldown(true);
       try {
-        const response = await fetch('/api/queue/check-cooldown', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ tokenMint: token.trim() }),
-        });
-        const data = (await response.json()) as { inCooldown: boolean; message?: string };
+        const results = await Promise.all(
+          tokenMints.map(async (tokenMint) => {
+            const response = await fetch('/api/queue/check-cooldown', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ tokenMint }),
+            });
+            return (await response.json()) as { inCooldown: boolean; message?: string };
+          })
+        );
+        const data = results.find((result) => result.inCooldown) || results[0];
         setCooldownStatus(data);
         if (data.inCooldown) {
+          const overrideTier = getCooldownOverrideTier();
           setSelectedPaymentOption((current) => {
-            if (current === 'sol_standard') return 'sol_priority';
-            if (current === 'minstr_standard') return 'minstr_priority';
-            return current;
+            const option = PAYMENT_OPTION_IDS.find((candidate) => candidate.id === current);
+            const tier = PAYMENT_TIERS.find((candidate) => candidate.id === option?.tierId);
+            if (!option || !tier || tier.overridesCooldown || !overrideTier) return current;
+            return `${option.currency.toLowerCase()}_${overrideTier.id}`;
           });
         }
       } catch {
@@ -430,7 +812,7 @@ function PromoteForm() {
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [token]);
+  }, [tokenMints]);
 
   const pay = async () => {
     if (buttonCooldown > 0) return;
@@ -438,11 +820,19 @@ function PromoteForm() {
       setMessage('Connect Phantom first');
       return;
     }
-    if (!token.trim()) {
+    if (tokenMints.length === 0) {
       setMessage('Token address is required');
       return;
     }
-    if (selectedTier === 'standard' && cooldownStatus?.inCooldown) {
+    if (purchaseProblem) {
+      setMessage(purchaseProblem);
+      return;
+    }
+    if (!selectedPayment) {
+      setMessage(`Minimum bid is ${formatAmount(selectedCurrency, getFloorPrice(selectedCurrency, minutes))}`);
+      return;
+    }
+    if (!selectedPayment.tier.overridesCooldown && cooldownStatus?.inCooldown) {
       setMessage(cooldownStatus.message || 'Token is in cooldown');
       return;
     }
@@ -452,114 +842,76 @@ function PromoteForm() {
     setMessage(null);
 
     try {
-      if (!nonceSignedRef.current) {
-        await wallet.signMessage(`SessionMint.fun auth ${Date.now()}`);
-        nonceSignedRef.current = true;
-      }
-
-      const sender = new PublicKey(wallet.address);
-      const treasury = new PublicKey(TREASURY_WALLET);
-      const { connection: rpcConnection } = await getWorkingConnection();
-      const { blockhash, lastValidBlockHeight } = await rpcConnection.getLatestBlockhash('confirmed');
-      const transaction = new Transaction({
-        feePayer: sender,
-        recentBlockhash: blockhash,
+      await ensureWalletSession(wallet);
+      const intent = await requestPaymentIntent({
+        purpose: 'queue',
+        walletAddress: wallet.address,
+        tokenMints,
+        scheduledAt: scheduledAt ?? undefined,
+        currency: selectedCurrency,
+        tier: selectedPayment.isBid ? 'bid' : selectedPayment.tier.id,
+        amount: selectedAmount,
+        mode: selectedMode,
+        minutes,
       });
-
-      if (selectedCurrency === 'SOL') {
-        transaction.add(
-          SystemProgram.transfer({
-            fromPubkey: sender,
-            toPubkey: treasury,
-            lamports: Math.floor(selectedAmount * LAMPORTS_PER_SOL),
-          })
-        );
-      } else {
-        const minstrMint = new PublicKey(MINSTR_MINT);
-        const mintInfo = await getMint(rpcConnection, minstrMint, 'confirmed');
-        const senderTokenAccount = getAssociatedTokenAddressSync(minstrMint, sender);
-        const treasuryTokenAccount = getAssociatedTokenAddressSync(minstrMint, treasury);
-
-        const [senderTokenAccountInfo, treasuryTokenAccountInfo] = await Promise.all([
-          rpcConnection.getAccountInfo(senderTokenAccount, 'confirmed'),
-          rpcConnection.getAccountInfo(treasuryTokenAccount, 'confirmed'),
-        ]);
-
-        if (!senderTokenAccountInfo) {
-          throw new Error(`Connected wallet has no $${MINSTR_SYMBOL} token account`);
-        }
-
-        if (!treasuryTokenAccountInfo) {
-          transaction.add(
-            createAssociatedTokenAccountInstruction(
-              sender,
-              treasuryTokenAccount,
-              treasury,
-              minstrMint
-            )
-          );
-        }
-
-        const tokenAmountRaw = BigInt(selectedAmount) * (BigInt(10) ** BigInt(mintInfo.decimals));
-        transaction.add(
-          createTransferCheckedInstruction(
-            senderTokenAccount,
-            minstrMint,
-            treasuryTokenAccount,
-            sender,
-            tokenAmountRaw,
-            mintInfo.decimals,
-            [],
-            TOKEN_PROGRAM_ID
-          )
-        );
-      }
-
-      const signature = await wallet.signAndSendTransaction(transaction);
-      await rpcConnection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+      const signature = await sendTreasuryPayment(wallet, intent);
       const queueResponse = await fetch('/api/queue/add', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          tokenMint: token.trim(),
+          tokenMint: tokenMints[0],
           walletAddress: wallet.address,
-          amount: selectedAmount,
           signature,
-          paymentMethod: selectedCurrency,
-          paymentTier: selectedTier,
+          intentId: intent.intentId,
         }),
       });
 
-      const queueResult = (await queueResponse.json()) as { error?: string };
+      const queueResult = (await queueResponse.json()) as { error?: string; message?: string; refund?: string };
       if (!queueResponse.ok) {
-        throw new Error(queueResult?.error || 'Failed to queue token');
+        throw new Error(withRefundNote(queueResult?.error || 'Failed to queue token', queueResult?.refund));
       }
 
       setToken('');
+      setStartAt('');
       setCooldownStatus(null);
-      setMessage('Queued successfully');
+      setMessage(queueResult.message || 'Queued successfully');
     } catch (error) {
-      const rawMessage = (error as Error).message || 'Transaction failed';
-      if (
-        /recent blockhash/i.test(rawMessage) ||
-        /missing api key/i.test(rawMessage) ||
-        /access forbidden/i.test(rawMessage) ||
-        /\b401\b/.test(rawMessage) ||
-        /\b403\b/.test(rawMessage)
-      ) {
-        setMessage('Could not reach RPC endpoint. Switched to public Solana RPC fallback. Please try again.');
-      } else {
-        setMessage(rawMessage);
-      }
+      setMessage(describePaymentError(error));
     } finally {
       setLoading(false);
     }
   };
 
+  const onQrSettled = useCallback((queued: boolean, result: string) => {
+    setShowQr(false);
+    setMessage(result);
+    if (queued) {
+      setToken('');
+      setStartAt('');
+      setCooldownStatus(null);
+    }
+  }, []);
+
+  // Same checks as paying with Phantom, minus the wallet
+  const qrPurchase: SolanaPayPurchase | null =
+    showQr && tokenMints.length > 0 && selectedPayment && !purchaseProblem &&
+    !(!selectedPayment.tier.overridesCooldown && cooldownStatus?.inCooldown)
+      ? {
+          tokenMints,
+          scheduledAt,
+          tier: selectedPayment.isBid ? 'bid' : selectedPayment.tier.id,
+          currency: selectedCurrency,
+          amount: totalAmount,
+          minutes,
+          mode: selectedMode,
+        }
+      : null;
+
   const onWalletButtonClick = async () => {
     try {
       if (wallet.connected) {
         await wallet.disconnect();
+        await fetch('/api/auth/session', { method: 'DELETE' });
       } else {
         await wallet.connect();
       }
@@ -577,50 +929,130 @@ function PromoteForm() {
           <p className="panel-flow-line">Session State will Sync to Machine</p>
           <p className="panel-flow-line">Watch Machine Go Brrrrr</p>
         </div>
-        <input className="input" value={token} onChange={(event) => setToken(event.target.value)} placeholder="Token mint or contract address..." />
+        <input className="input" value={token} onChange={(event) => setToken(event.target.value)} placeholder="Token mint or contract address (comma-separate several for a playlist)..." />
         {message ? <div className="msg">{message}</div> : null}
         {checkCooldown ? <div className="msg">Checking cooldown...</div> : null}
         <button className="btn" onClick={onWalletButtonClick}>
           {wallet.connecting ? 'Connecting...' : wallet.connected ? `Disconnect (${wallet.address?.slice(0, 4)}...${wallet.address?.slice(-4)})` : 'Connect Phantom'}
         </button>
+        {wallet.connected ? (
+          <Link href="/machinegobrrr/me" className="form-hint">
+            My receipts
+          </Link>
+        ) : null}
 
         <div className="payment-rows">
           <div className="payment-row">
-            <div className="payment-row-label">Pay in SOL</div>
+            <div className="payment-row-label">Session Length</div>
             <div className="btns">
-              {SOL_PAYMENT_OPTIONS.map((option) => (
+              {SESSION_MINUTE_PRESETS.map((option) => (
                 <button
-                  key={option.id}
-                  className={selectedPaymentOption === option.id ? 'btn btn-selected-sol' : 'btn'}
-                  onClick={() => setSelectedPaymentOption(option.id)}
+                  key={option}
+                  className={minutes === option ? 'btn btn-selected-sol' : 'btn'}
+                  onClick={() => {
+                    setMinutes(option);
+                    if (isBidSelected) setBidAmount(String(getFloorPrice(selectedCurrency, option)));
+                  }}
                   disabled={loading}
                 >
-                  {option.label}
+                  {option} min
                 </button>
               ))}
             </div>
           </div>
+        </div>
 
+        <div className="payment-rows">
+          {paymentOptionRows.map((row) => (
+            <div className="payment-row" key={row.currency}>
+              <div className="payment-row-label">Pay in {currencyLabel(row.currency)}</div>
+              <div className="btns">
+                {row.options.map((option) => (
+                  <button
+                    key={option.id}
+                    className={selectedPaymentOption === option.id ? (row.currency === 'SOL' ? 'btn btn-selected-sol' : 'btn btn-selected') : 'btn'}
+                    onClick={() => {
+                      setSelectedPaymentOption(option.id);
+                      if (option.tierId === 'bid') setBidAmount(String(option.amount));
+                    }}
+                    disabled={loading}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {isBidSelected ? (
+            <div className="payment-row">
+              <div className="payment-row-label">
+                Bid in {currencyLabel(selectedCurrency)} (min {formatAmount(selectedCurrency, getFloorPrice(selectedCurrency, minutes))})
+              </div>
+              <input
+                className="input"
+                type="number"
+                min={getFloorPrice(selectedCurrency, minutes)}
+                step={selectedCurrency === 'SOL' ? 0.01 : 1}
+                value={bidAmount}
+                onChange={(event) => setBidAmount(event.target.value)}
+                disabled={loading}
+              />
+              {selectedPayment?.isBid ? (
+                <div className="msg">
+                  {selectedPayment.tier.label} slot, jumps ~{Math.round(selectedPayment.bidCreditMs / 60000)} min of queue
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+
+        <div className="payment-rows">
           <div className="payment-row">
-            <div className="payment-row-label">Pay in ${MINSTR_SYMBOL}</div>
+            <div className="payment-row-label">Chart Mode</div>
             <div className="btns">
-              {MINSTR_PAYMENT_OPTIONS.map((option) => (
+              {CHART_MODE_OPTIONS.map((option) => (
                 <button
-                  key={option.id}
-                  className={selectedPaymentOption === option.id ? 'btn btn-selected' : 'btn'}
-                  onClick={() => setSelectedPaymentOption(option.id)}
+                  key={option.key}
+                  className={selectedMode === option.key ? 'btn btn-selected-sol' : 'btn'}
+                  onClick={() => setSelectedMode(option.key)}
+                  title={option.description}
                   disabled={loading}
                 >
-                  {option.label}
+                  {option.key === 'auto' ? option.label : `${option.label} only`}
                 </button>
               ))}
             </div>
           </div>
         </div>
 
+        <div className="payment-rows">
+          <div className="payment-row">
+            <div className="payment-row-label">Start At (optional, reserves the slot)</div>
+            <input
+              className="input"
+              type="datetime-local"
+              value={startAt}
+              onChange={(event) => setStartAt(event.target.value)}
+              disabled={loading}
+            />
+            {tokenMints.length > 1 ? (
+              <div className="form-hint">
+                Playlist: {tokenMints.length} tokens, {minutes} min each, back-to-back
+              </div>
+            ) : null}
+          </div>
+        </div>
+
         <button className="btn btn-green" onClick={pay} disabled={loading || !wallet.connected || buttonCooldown > 0}>
           {loading ? 'Processing...' : buttonCooldown > 0 ? `Wait ${buttonCooldown}s` : `Pay ${selectedAmountLabel}`}
         </button>
+        <button className="btn" onClick={() => setShowQr((shown) => !shown)} disabled={loading}>
+          {showQr ? 'Hide QR code' : 'Pay from any wallet (QR)'}
+        </button>
+        {qrPurchase ? <SolanaPayQr purchase={qrPurchase} onSettled={onQrSettled} /> : null}
+        {showQr && !qrPurchase ? (
+          <div className="msg">Enter a token and pick an amount that can be queued to get a payment code</div>
+        ) : null}
       </div>
     </div>
   );
@@ -635,11 +1067,11 @@ function QueueList({
   currentItem: AppStateSnapshot['currentItem'];
   nowMs: number;
 }) {
-  const waitTime = (index: number) => {
-    const remaining = currentItem?.expiresAt ? Math.max(0, currentItem.expiresAt - nowMs) : 0;
-    let total = remaining;
-    for (let i = 0; i < index; i += 1) total += queue[i].displayDuration || DISPLAY_DURATION_STANDARD;
-    const totalMins = Math.floor(total / 60000);
+  // Reserved slots keep their start time; only the first-come line waits its turn
+  const line = queue.filter((item) => item.scheduledAt === null);
+  const reserved = queue.filter((item) => item.scheduledAt !== null);
+
+  const formatMinutes = (totalMins: number) => {
     if (totalMins >= 60) {
       const hours = Math.floor(totalMins / 60);
       const mins = totalMins % 60;
@@ -648,30 +1080,66 @@ function QueueList({
     return `${totalMins}m`;
   };
 
+  const waitTime = (index: number) => {
+    const remaining = currentItem?.expiresAt ? Math.max(0, currentItem.expiresAt - nowMs) : 0;
+    let total = remaining;
+    for (let i = 0; i < index; i += 1) total += line[i].displayDuration || DISPLAY_DURATION_STANDARD;
+    return formatMinutes(Math.floor(total / 60000));
+  };
+
   const tierLabel = (priorityLevel: number) => {
     if (priorityLevel >= 1) return 'Priority';
     return 'Standard';
   };
 
+  const details = (item: AppStateSnapshot['queue'][number]) => (
+    <span className="wait">
+      {tierLabel(item.priorityLevel)}
+      {item.playlistId ? ` · ${item.playlistIndex + 1}/${item.playlistSize}` : ''}
+      {item.pinnedModeId ? ` · ${getModeName(item.pinnedModeId)}` : ''}
+    </span>
+  );
+
   return (
     <div className="section">
-      <div className="section-title">Queue ({queue.length})</div>
-      {queue.length === 0 ? (
+      <div className="section-title">Queue ({line.length})</div>
+      {line.length === 0 ? (
         <div className="queue-empty">No tokens waiting</div>
       ) : (
         <div className="queue-list">
-          {queue.map((item, index) => (
+          {line.map((item, index) => (
             <div key={item.id} className="queue-item">
               <span className="n">#{index + 1}</span>
               <div className="queue-item-info">
                 <span className="a">{item.tokenMint.slice(0, 4)}...{item.tokenMint.slice(-4)}</span>
                 <span className="wait">~{waitTime(index)}</span>
               </div>
-              <span className="wait">{tierLabel(item.priorityLevel)}</span>
+              {details(item)}
             </div>
           ))}
         </div>
       )}
+      {reserved.length > 0 ? (
+        <>
+          <div className="section-title queue-reserved-title">Reserved ({reserved.length})</div>
+          <div className="queue-list">
+            {reserved.map((item) => (
+              <div key={item.id} className="queue-item queue-item-reserved">
+                <span className="n">
+                  {new Date(item.scheduledAt || 0).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <div className="queue-item-info">
+                  <span className="a">{item.tokenMint.slice(0, 4)}...{item.tokenMint.slice(-4)}</span>
+                  <span className="wait">
+                    {new Date(item.scheduledAt || 0).toLocaleDateString()} · {formatMinutes(Math.round(item.displayDuration / 60000))}
+                  </span>
+                </div>
+                {details(item)}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,16 @@
+import { DeviceMeterOverlay, OverlayFrame } from '@/components/Overlays';
+import { OverlaySearchParams, parseOverlayTheme } from '@/lib/overlay-theme';
+
+export default async function DeviceMeterOverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<OverlaySearchParams>;
+}) {
+  const params = await searchParams;
+
+  return (
+    <OverlayFrame theme={parseOverlayTheme(params)}>
+      <DeviceMeterOverlay />
+    </OverlayFrame>
+  );
+}
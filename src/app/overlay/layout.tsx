@@ -0,0 +1,19 @@
+import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+
+export const metadata: Metadata = {
+  title: 'Overlay',
+  robots: { index: false, follow: false },
+};
+
+// OBS composites browser sources over the scene, so nothing may paint a background
+const TRANSPARENT_PAGE_CSS = 'html, body { background: transparent !important; overflow: hidden; }';
+
+export default function OverlayLayout({ children }: { children: ReactNode }) {
+  return (
+    <>
+      <style>{TRANSPARENT_PAGE_CSS}</style>
+      {children}
+    </>
+  );
+}
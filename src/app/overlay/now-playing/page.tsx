@@ -0,0 +1,16 @@
+import { NowPlayingOverlay, OverlayFrame } from '@/components/Overlays';
+import { OverlaySearchParams, parseOverlayTheme } from '@/lib/overlay-theme';
+
+export default async function NowPlayingOverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<OverlaySearchParams>;
+}) {
+  const params = await searchParams;
+
+  return (
+    <OverlayFrame theme={parseOverlayTheme(params)}>
+      <NowPlayingOverlay fullMint={params.mint === 'full'} />
+    </OverlayFrame>
+  );
+}
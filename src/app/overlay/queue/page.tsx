@@ -0,0 +1,16 @@
+import { OverlayFrame, QueueOverlay } from '@/components/Overlays';
+import { OverlaySearchParams, parseOverlayInt, parseOverlayTheme } from '@/lib/overlay-theme';
+
+export default async function QueueOverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<OverlaySearchParams>;
+}) {
+  const params = await searchParams;
+
+  return (
+    <OverlayFrame theme={parseOverlayTheme(params)}>
+      <QueueOverlay limit={parseOverlayInt(params, 'limit', 5, 1, 20)} />
+    </OverlayFrame>
+  );
+}
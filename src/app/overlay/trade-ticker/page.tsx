@@ -0,0 +1,24 @@
+import { OverlayFrame, TradeTickerOverlay } from '@/components/Overlays';
+import {
+  OverlaySearchParams,
+  parseOverlayInt,
+  parseOverlayNumber,
+  parseOverlayTheme,
+} from '@/lib/overlay-theme';
+
+export default async function TradeTickerOverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<OverlaySearchParams>;
+}) {
+  const params = await searchParams;
+
+  return (
+    <OverlayFrame theme={parseOverlayTheme(params)}>
+      <TradeTickerOverlay
+        limit={parseOverlayInt(params, 'limit', 6, 1, 20)}
+        minSol={parseOverlayNumber(params, 'minSol', 0, 0, 1000)}
+      />
+    </OverlayFrame>
+  );
+}
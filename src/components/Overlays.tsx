@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState, type CSSProperties, type ReactNode } from 'react';
+import { useAppStateStream } from '@/hooks/useAppStateStream';
+import { useLiveEvents } from '@/hooks/useLiveEvents';
+import { DEFAULT_TOKEN_MINT } from '@/lib/constants';
+import { shortenWallet, type TickLiveEvent, type TradeLiveEvent } from '@/lib/live-events';
+
+// ============================================
+// STREAM OVERLAYS
+// ============================================
+// Transparent widgets for OBS browser sources, fed by the state stream and
+// the public live event feed. Read-only: no wallet, no payments.
+
+function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+}
+
+function percent(value: number, max: number): string {
+  return `${Math.round(Math.min(1, Math.max(0, value / max)) * 100)}%`;
+}
+
+export function OverlayFrame({ theme, children }: { theme: Record<string, string>; children: ReactNode }) {
+  return (
+    <div className="overlay-root" style={theme as CSSProperties}>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Token showing now, time left and the device mode
+ */
+export function NowPlayingOverlay({ fullMint }: { fullMint: boolean }) {
+  const { snapshot } = useAppStateStream();
+  const now = useNow(1000);
+  if (!snapshot) return null;
+
+  const { currentToken, currentItem, device } = snapshot;
+  const paid = currentToken !== DEFAULT_TOKEN_MINT && currentItem !== null;
+  const leftMs = paid && currentItem.expiresAt ? Math.max(0, currentItem.expiresAt - now) : null;
+
+  return (
+    <div className="overlay-panel">
+      <div className="overlay-label">
+        {paid && currentItem.priorityLevel >= 1 ? 'Now showing · Priority' : 'Now showing'}
+      </div>
+      <div className="overlay-token">{fullMint ? currentToken : shortenWallet(currentToken)}</div>
+      <div className="overlay-row">
+        {leftMs !== null ? <span className="overlay-timer">{formatClock(leftMs)}</span> : null}
+        {device.session ? <span>{device.session.mode}</span> : null}
+        {paid && currentItem.playlistSize > 1 ? (
+          <span>
+            {currentItem.playlistIndex + 1}/{currentItem.playlistSize}
+          </span>
+        ) : null}
+      </div>
+      {leftMs !== null && currentItem?.displayDuration ? (
+        <div className="overlay-bar">
+          <div className="overlay-bar-fill" style={{ width: percent(leftMs, currentItem.displayDuration) }} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * The next `limit` tokens in play order
+ */
+export function QueueOverlay({ limit }: { limit: number }) {
+  const { snapshot } = useAppStateStream();
+  if (!snapshot) return null;
+
+  const upcoming = snapshot.queue.slice(0, limit);
+
+  return (
+    <div className="overlay-panel">
+      <div className="overlay-label">Queue{snapshot.queue.length > 0 ? ` · ${snapshot.queue.length}` : ''}</div>
+      {upcoming.length === 0 ? (
+        <div className="overlay-muted">Queue is empty</div>
+      ) : (
+        upcoming.map((item, index) => (
+          <div key={item.id} className="overlay-row overlay-list-row">
+            <span className="overlay-muted">{index + 1}.</span>
+            <span className="overlay-mono">{shortenWallet(item.tokenMint)}</span>
+            <span className="overlay-muted">
+              {item.scheduledAt
+                ? new Date(item.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                : formatClock(item.displayDuration)}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Device state, mode and the latest tick's intensity and speed
+ */
+export function DeviceMeterOverlay() {
+  const { snapshot } = useAppStateStream();
+  const { events } = useLiveEvents(['tick'], 1);
+  if (!snapshot) return null;
+
+  const { device, currentToken } = snapshot;
+  const latest = events[events.length - 1] as TickLiveEvent | undefined;
+  const tick = latest?.tokenMint === currentToken ? latest : undefined;
+  const mode = tick?.mode ?? device.session?.mode ?? null;
+  const speed = tick?.command.speed ?? device.session?.speed ?? 0;
+  const intensity = tick?.intensity ?? 0;
+
+  return (
+    <div className="overlay-panel">
+      <div className="overlay-label">
+        Device · {device.state}
+        {device.cooldown?.active ? ` · ${Math.ceil(device.cooldown.remainingMs / 1000)}s` : ''}
+      </div>
+      {mode ? <div className="overlay-token">{mode}</div> : null}
+      {tick?.booster ? <div className="overlay-muted">Booster: {tick.booster}</div> : null}
+      <div className="overlay-meter">
+        <span className="overlay-muted">Intensity</span>
+        <div className="overlay-bar">
+          <div className="overlay-bar-fill" style={{ width: percent(intensity, 1) }} />
+        </div>
+      </div>
+      <div className="overlay-meter">
+        <span className="overlay-muted">Speed</span>
+        <div className="overlay-bar">
+          <div className="overlay-bar-fill" style={{ width: percent(speed, 100) }} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Latest buys and sells on the tracked token, newest first
+ */
+export function TradeTickerOverlay({ limit, minSol }: { limit: number; minSol: number }) {
+  const { events } = useLiveEvents(['trade'], 50);
+  const trades = (events as TradeLiveEvent[])
+    .filter((trade) => trade.priceInSol >= minSol)
+    .slice(-limit)
+    .reverse();
+
+  return (
+    <div className="overlay-ticker">
+      {trades.map((trade) => (
+        <div key={trade.id} className={`overlay-trade ${trade.side === 'BUY' ? 'buy' : 'sell'}`}>
+          <span className="overlay-trade-side">{trade.side}</span>
+          <span>{trade.priceInSol.toFixed(3)} SOL</span>
+          <span className="overlay-muted overlay-mono">{trade.wallet}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { AppStateSnapshot } from '@/lib/state';
+import {
+  AppStateSnapshot,
+  applyStateEvent,
+  parseStateEventId,
+  STATE_EVENT_TYPES,
+  StateEvent,
+} from '@/lib/state';
 
 const RECONNECT_BASE_DELAY_MS = 1000;
 const RECONNECT_MAX_DELAY_MS = 10000;
@@ -16,11 +22,18 @@ function reconnectDelay(attempt: number): number {
   return Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
 }
 
+/**
+ * Live app state from /api/state/stream. Applies change events to the last
+ * snapshot and, after a reconnect, asks to resume from the last event seen;
+ * a gap in revisions drops the local copy and starts over from a full `state`.
+ */
 export function useAppStateStream(enabled: boolean = true): StreamState {
   const [snapshot, setSnapshot] = useState<AppStateSnapshot | null>(null);
   const [connected, setConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const reconnectAttempts = useRef(0);
+  const latest = useRef<AppStateSnapshot | null>(null);
+  const lastEventId = useRef<string | null>(null);
 
   useEffect(() => {
     if (!enabled) return;
@@ -29,23 +42,51 @@ export function useAppStateStream(enabled: boolean = true): StreamState {
     let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
     let closed = false;
 
-    const loadInitialState = async () => {
+    const accept = (next: AppStateSnapshot, eventId: string) => {
+      latest.current = next;
+      lastEventId.current = eventId;
+      setSnapshot(next);
+    };
+
+    const resync = () => {
+      lastEventId.current = null;
+      if (source) {
+        source.close();
+        source = null;
+      }
+      connect();
+    };
+
+    const applyChange = (event: Event) => {
+      const message = event as MessageEvent<string>;
+      const position = parseStateEventId(message.lastEventId);
+      const last = parseStateEventId(lastEventId.current);
+      if (
+        !latest.current ||
+        !position ||
+        !last ||
+        position.epoch !== last.epoch ||
+        position.revision !== last.revision + 1
+      ) {
+        resync();
+        return;
+      }
+
       try {
-        const response = await fetch('/api/state', { cache: 'default' });
-        if (!response.ok) return;
-        const next = (await response.json()) as AppStateSnapshot;
-        if (!closed) {
-          setSnapshot(next);
-        }
+        const change = JSON.parse(message.data) as StateEvent;
+        accept(applyStateEvent(latest.current, change), message.lastEventId);
       } catch {
-        // noop
+        resync();
       }
     };
 
     const connect = () => {
       if (closed) return;
 
-      source = new EventSource('/api/state/stream');
+      const resumeFrom = lastEventId.current;
+      source = new EventSource(
+        resumeFrom ? `/api/state/stream?lastEventId=${encodeURIComponent(resumeFrom)}` : '/api/state/stream'
+      );
 
       source.addEventListener('open', () => {
         reconnectAttempts.current = 0;
@@ -57,12 +98,16 @@ export function useAppStateStream(enabled: boolean = true): StreamState {
         const message = event as MessageEvent<string>;
         try {
           const next = JSON.parse(message.data) as AppStateSnapshot;
-          setSnapshot(next);
+          accept(next, message.lastEventId);
         } catch {
           // noop
         }
       });
 
+      for (const type of STATE_EVENT_TYPES) {
+        source.addEventListener(type, applyChange);
+      }
+
       source.addEventListener('error', () => {
         setConnected(false);
         setError('State stream disconnected');
@@ -78,7 +123,6 @@ export function useAppStateStream(enabled: boolean = true): StreamState {
       });
     };
 
-    void loadInitialState();
     connect();
 
     return () => {
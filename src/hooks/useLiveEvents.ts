@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LIVE_EVENT_TYPES, LiveEvent } from '@/lib/live-events';
+
+interface LiveEventsState {
+  connected: boolean;
+  events: LiveEvent[];   // oldest first, at most `keep`
+}
+
+/**
+ * Public live events from /api/events/stream. EventSource reconnects by
+ * itself and sends Last-Event-ID, so the server replays what was missed.
+ */
+export function useLiveEvents(
+  types: LiveEvent['type'][] = LIVE_EVENT_TYPES,
+  keep: number = 50,
+  enabled: boolean = true
+): LiveEventsState {
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+  const [connected, setConnected] = useState(false);
+  const typesKey = types.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const wanted = typesKey.split(',') as LiveEvent['type'][];
+    const source = new EventSource(
+      `/api/events/stream?types=${encodeURIComponent(typesKey)}&backlog=${Math.min(keep, 50)}`
+    );
+
+    const onEvent = (event: Event) => {
+      const message = event as MessageEvent<string>;
+      try {
+        const next = JSON.parse(message.data) as LiveEvent;
+        setEvents((previous) =>
+          previous.some((existing) => existing.id === next.id) ? previous : [...previous, next].slice(-keep)
+        );
+      } catch {
+        // noop
+      }
+    };
+
+    source.addEventListener('open', () => setConnected(true));
+    source.addEventListener('error', () => setConnected(false));
+    for (const type of wanted) {
+      source.addEventListener(type, onEvent);
+    }
+
+    return () => {
+      source.close();
+    };
+  }, [typesKey, keep, enabled]);
+
+  return { connected, events };
+}
@@ -0,0 +1,258 @@
+// ============================================
+// BACKTEST RUNNER
+// ============================================
+// Feeds a historical 1m candle series through the same tick pipeline live
+// sessions use (runTickPipeline), with a fixed seed so parameter draws are
+// reproducible. The first BUFFER_SIZE candles backfill the buffer like
+// createSession does; every candle after that is one tick. Session expiry is
+// ignored so long series can be scored in one run.
+
+import { BUFFER_SIZE, Candle, DeviceCommand, ModeParams } from './types';
+import { computeMetrics, mergeCandles } from './data';
+import { getModeName } from './modes';
+import { initSession, runTickPipeline } from './session';
+
+export const MAX_BACKTEST_CANDLES = 5000;
+
+export interface BacktestOptions {
+  seed?: number;                        // fixed seed for generateModeParams (default 1)
+  modeId?: number | null;               // pin one mode; null/absent = auto selection
+  modeParams?: Partial<ModeParams>;     // override the seeded parameter draw
+  tokenMint?: string;                   // label only; no data is fetched
+}
+
+export interface BacktestTick {
+  at: number;                 // candle timestamp
+  modeId: number;
+  mode: string;
+  style?: string;
+  intensity: number;
+  booster: string | null;
+  limited: boolean;           // rate-of-change cap hit
+  clamped: boolean;           // hard clamp hit
+  command: DeviceCommand;
+}
+
+export interface BacktestSummary {
+  ticks: number;
+  modes: Record<string, { ticks: number; share: number }>;
+  modeSwitches: number;
+  averageSpeed: number;
+  averageAmplitude: number;
+  averageIntensity: number;
+  boosterFired: number;
+  boosterRate: number;
+  boosterPatterns: Record<string, number>;
+  limitedTicks: number;
+  clampHits: number;
+  stops: number;              // ticks that sent speed 0
+}
+
+export interface BacktestResult {
+  seed: number;
+  modeParams: ModeParams;
+  pinnedModeId: number | null;
+  candles: number;
+  ticks: BacktestTick[];
+  summary: BacktestSummary;
+}
+
+// ============================================
+// CANDLE FILE PARSING
+// ============================================
+
+// Accept both seconds and milliseconds
+function toMs(timestamp: number): number {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+function toCandle(values: {
+  timestamp: unknown;
+  open: unknown;
+  high: unknown;
+  low: unknown;
+  close: unknown;
+  volume?: unknown;
+}): Candle | null {
+  const timestamp = typeof values.timestamp === 'string' && isNaN(Number(values.timestamp))
+    ? Date.parse(values.timestamp)
+    : Number(values.timestamp);
+  const candle: Candle = {
+    timestamp: toMs(timestamp),
+    open: Number(values.open),
+    high: Number(values.high),
+    low: Number(values.low),
+    close: Number(values.close),
+    volume: Number(values.volume ?? 0),
+    source: 'backtest'
+  };
+  const numbers = [candle.timestamp, candle.open, candle.high, candle.low, candle.close, candle.volume];
+  return numbers.every(Number.isFinite) && candle.open > 0 ? candle : null;
+}
+
+const CSV_COLUMNS: Record<string, keyof Candle> = {
+  timestamp: 'timestamp',
+  time: 'timestamp',
+  date: 'timestamp',
+  t: 'timestamp',
+  open: 'open',
+  o: 'open',
+  high: 'high',
+  h: 'high',
+  low: 'low',
+  l: 'low',
+  close: 'close',
+  c: 'close',
+  volume: 'volume',
+  v: 'volume'
+};
+
+/**
+ * Parse CSV candles. With a header row, columns are matched by name
+ * (timestamp/time, open, high, low, close, volume); without one the order
+ * is timestamp,open,high,low,close,volume.
+ */
+export function parseCandleCsv(text: string): Candle[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.split(',').map(cell => cell.trim().replace(/^"|"$/g, '')));
+  if (rows.length === 0) return [];
+
+  let order: Array<keyof Candle | undefined> = ['timestamp', 'open', 'high', 'low', 'close', 'volume'];
+  if (rows[0].some(cell => isNaN(Number(cell)) && CSV_COLUMNS[cell.toLowerCase()])) {
+    order = rows.shift()!.map(cell => CSV_COLUMNS[cell.toLowerCase()]);
+  }
+
+  const candles: Candle[] = [];
+  for (const row of rows) {
+    const values: Record<string, string> = {};
+    order.forEach((column, i) => {
+      if (column) values[column] = row[i];
+    });
+    const candle = toCandle(values as Parameters<typeof toCandle>[0]);
+    if (candle) candles.push(candle);
+  }
+  return candles;
+}
+
+/**
+ * Parse JSON candles: an array (or `{ candles: [...] }`) of candle objects,
+ * or of GeckoTerminal-style [timestamp, open, high, low, close, volume] rows
+ */
+export function parseCandleJson(value: unknown): Candle[] {
+  const list = Array.isArray(value)
+    ? value
+    : (value as { candles?: unknown })?.candles;
+  if (!Array.isArray(list)) return [];
+
+  const candles: Candle[] = [];
+  for (const item of list) {
+    const candle = Array.isArray(item)
+      ? toCandle({ timestamp: item[0], open: item[1], high: item[2], low: item[3], close: item[4], volume: item[5] })
+      : toCandle({ timestamp: item?.timestamp ?? item?.time, ...item });
+    if (candle) candles.push(candle);
+  }
+  return candles;
+}
+
+// ============================================
+// RUNNER
+// ============================================
+
+/**
+ * Run a candle series through the session pipeline
+ */
+export function runBacktest(input: Candle[], options: BacktestOptions = {}): BacktestResult {
+  // Oldest first, one candle per minute
+  const candles = mergeCandles([], input, Infinity);
+  if (candles.length > MAX_BACKTEST_CANDLES) {
+    throw new Error(`Too many candles (max ${MAX_BACKTEST_CANDLES})`);
+  }
+  if (candles.length <= BUFFER_SIZE) {
+    throw new Error(`Need more than ${BUFFER_SIZE} candles (${BUFFER_SIZE} backfill + at least one tick)`);
+  }
+
+  const seed = options.seed ?? 1;
+  const session = initSession(
+    {
+      sessionStateId: 'backtest',
+      tokenMint: options.tokenMint || 'backtest',
+      startTime: candles[BUFFER_SIZE].timestamp,
+      modeId: options.modeId ?? null
+    },
+    candles.slice(0, BUFFER_SIZE),
+    seed
+  );
+  if (options.modeParams) {
+    session.modeParams = { ...session.modeParams, ...options.modeParams };
+  }
+
+  const ticks: BacktestTick[] = [];
+  for (const candle of candles.slice(BUFFER_SIZE)) {
+    session.candleBuffer = mergeCandles(session.candleBuffer, [candle], BUFFER_SIZE);
+    const prevVolume = session.candleBuffer[session.candleBuffer.length - 2].volume;
+    const metrics = computeMetrics(session.candleBuffer, prevVolume);
+
+    const result = runTickPipeline(session, metrics, candle.timestamp, false);
+    ticks.push({
+      at: candle.timestamp,
+      modeId: result.modeId,
+      mode: getModeName(result.modeId),
+      style: result.modeResult.style,
+      intensity: result.modeResult.intensity,
+      booster: result.booster,
+      limited: result.safety.wasLimited,
+      clamped: result.safety.wasClamped,
+      command: result.command
+    });
+  }
+
+  return {
+    seed,
+    modeParams: session.modeParams,
+    pinnedModeId: session.pinnedModeId ?? null,
+    candles: candles.length,
+    ticks,
+    summary: summarizeBacktest(ticks)
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+export function summarizeBacktest(ticks: BacktestTick[]): BacktestSummary {
+  const modes: BacktestSummary['modes'] = {};
+  const boosterPatterns: Record<string, number> = {};
+  let modeSwitches = 0;
+
+  ticks.forEach((tick, i) => {
+    modes[tick.mode] = modes[tick.mode] || { ticks: 0, share: 0 };
+    modes[tick.mode].ticks++;
+    if (tick.booster) {
+      boosterPatterns[tick.booster] = (boosterPatterns[tick.booster] || 0) + 1;
+    }
+    if (i > 0 && ticks[i - 1].modeId !== tick.modeId) modeSwitches++;
+  });
+  for (const entry of Object.values(modes)) {
+    entry.share = ticks.length > 0 ? entry.ticks / ticks.length : 0;
+  }
+
+  const boosterFired = ticks.filter(tick => tick.booster).length;
+  return {
+    ticks: ticks.length,
+    modes,
+    modeSwitches,
+    averageSpeed: average(ticks.map(tick => tick.command.speed)),
+    averageAmplitude: average(ticks.map(tick => (tick.command.maxY - tick.command.minY) / 2)),
+    averageIntensity: average(ticks.map(tick => tick.intensity)),
+    boosterFired,
+    boosterRate: ticks.length > 0 ? boosterFired / ticks.length : 0,
+    boosterPatterns,
+    limitedTicks: ticks.filter(tick => tick.limited).length,
+    clampHits: ticks.filter(tick => tick.clamped).length,
+    stops: ticks.filter(tick => tick.command.speed === 0).length
+  };
+}
@@ -1,60 +1,9 @@
 // ============================================
-// CHART DATA FETCHING & PROCESSING
+// CHART DATA PROCESSING
 // ============================================
 
 import { Candle, DerivedMetrics, BUFFER_SIZE } from './types';
 
-// Fetch 1m candles from DexScreener
-export async function fetchCandles(tokenMint: string): Promise<Candle[]> {
-  try {
-    // DexScreener API for Solana pairs
-    const response = await fetch(
-      `https://api.dexscreener.com/latest/dex/tokens/${tokenMint}`,
-      { next: { revalidate: 30 } }
-    );
-
-    if (!response.ok) {
-      console.error('[ChartSync] DexScreener API error:', response.status);
-      return [];
-    }
-
-    const data = await response.json();
-    const pair = data.pairs?.[0];
-
-    if (!pair) {
-      console.error('[ChartSync] No pair found for token:', tokenMint);
-      return [];
-    }
-
-    // DexScreener doesn't provide direct candle data in the token endpoint
-    // We'll use price changes to simulate candle-like data
-    // For production, consider using Birdeye or Jupiter API for actual OHLCV
-
-    const priceUsd = parseFloat(pair.priceUsd) || 0;
-    const priceChange1m = pair.priceChange?.m5 ? parseFloat(pair.priceChange.m5) / 5 : 0; // Approximate 1m from 5m
-    const volume = parseFloat(pair.volume?.h1) / 60 || 0; // Approximate 1m volume from hourly
-
-    // Create a synthetic candle from current data
-    const now = Date.now();
-    const open = priceUsd / (1 + priceChange1m / 100);
-    const volatility = Math.abs(priceChange1m) / 100;
-
-    const candle: Candle = {
-      open: open,
-      high: priceUsd * (1 + volatility * 0.5),
-      low: open * (1 - volatility * 0.5),
-      close: priceUsd,
-      volume: volume,
-      timestamp: now
-    };
-
-    return [candle];
-  } catch (error) {
-    console.error('[ChartSync] Error fetching candles:', error);
-    return [];
-  }
-}
-
 // Compute EMA
 export function ema(values: number[], n: number): number {
   if (values.length === 0) return 0;
@@ -173,3 +122,18 @@ export function updateBuffer(buffer: Candle[], newCandle: Candle, maxSize: numbe
   }
   return updated;
 }
+
+// Merge fetched candles into the buffer by candle time.
+// A candle with the same timestamp replaces the buffered one (the provider's
+// in-progress minute gets finalized on the next fetch).
+export function mergeCandles(buffer: Candle[], incoming: Candle[], maxSize: number = BUFFER_SIZE): Candle[] {
+  const byTime = new Map<number, Candle>();
+  for (const candle of buffer) byTime.set(candle.timestamp, candle);
+  for (const candle of incoming) byTime.set(candle.timestamp, candle);
+
+  const merged = Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+  if (merged.length > maxSize) {
+    return merged.slice(-maxSize);
+  }
+  return merged;
+}
@@ -4,7 +4,12 @@
 
 export * from './types';
 export * from './data';
+export * from './providers';
 export * from './modes';
 export * from './booster';
 export * from './safety';
 export * from './session';
+export * from './store';
+export * from './timeline';
+export * from './motion';
+export * from './backtest';
@@ -1,8 +1,12 @@
 // ============================================
-// 5 CHART SYNC MODES
+// CHART SYNC MODES
 // ============================================
+// Each mode declares how it maps metrics to device output and how strongly
+// it claims the current chart, then registers itself. The dispatcher and the
+// selector only ever walk the registry, so adding a mode is one
+// registerMode() call.
 
-import { DerivedMetrics, ModeParams, ModeResult } from './types';
+import { DerivedMetrics, ModeDefinition, ModeParams, ModeResult, ModeScores } from './types';
 import { clamp01 } from './data';
 
 // MODE 1 — Trend Rider (slope-driven, clean chart sync)
@@ -152,79 +156,179 @@ export function modeLiquidityPanic(metrics: DerivedMetrics, params: ModeParams):
   };
 }
 
+// ============================================
+// MODE REGISTRY
+// ============================================
+
+export const DEFAULT_MODE_ID = 1;
+
+// Minimum weighted score before a mode is picked over the default
+const MIN_SELECTION_SCORE = 0.05;
+
+const modes = new Map<number, ModeDefinition>();
+
+export function registerMode(mode: ModeDefinition): void {
+  modes.set(mode.id, mode);
+}
+
+export function getMode(modeId: number): ModeDefinition | undefined {
+  return modes.get(modeId);
+}
+
+/**
+ * Registered modes in id order
+ */
+export function listModes(): ModeDefinition[] {
+  return [...modes.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Parse a payer's mode choice: 'auto' (or empty) means dynamic selection and
+ * resolves to null; otherwise a mode key or numeric id. Returns undefined when
+ * the value doesn't name a registered mode.
+ */
+export function resolveModeChoice(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '' || value === 'auto') {
+    return null;
+  }
+  const byId = modes.get(Number(value));
+  if (byId) return byId.id;
+  if (typeof value === 'string') {
+    const key = value.trim().toLowerCase();
+    return listModes().find(mode => mode.key === key)?.id;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize raw metrics against the session's caps (all 0-1)
+ */
+export function scoreMetrics(metrics: DerivedMetrics, params: ModeParams): ModeScores {
+  return {
+    trend: clamp01(Math.abs(metrics.trend) / params.trendCap),
+    chop: clamp01(metrics.chop / params.chopCap),
+    accel: clamp01(metrics.accel / params.accelCap),
+    deviation: clamp01(Math.abs(metrics.deviation) / params.devCap),
+    liqDrop: clamp01(metrics.liqDrop / params.liqDropCap),
+    volume: clamp01(metrics.volNorm)
+  };
+}
+
+registerMode({
+  id: 1,
+  key: 'trend-rider',
+  name: 'Trend Rider',
+  description: 'Follows the slope: faster the harder the chart trends',
+  selection: { score: s => s.trend, weight: 1.0 },        // Strong directional move
+  compute: modeTrendRider
+});
+
+registerMode({
+  id: 2,
+  key: 'chop-monster',
+  name: 'Chop Monster',
+  description: 'Sideways volatility turned into depth',
+  selection: { score: s => s.chop, weight: 1.1 },         // Sideways volatility (boosted)
+  tuneParams: (params, range) => {
+    // Lower chop cap for more sensitivity
+    params.chopCap = range(0.004, 0.015);
+  },
+  compute: modeChopMonster
+});
+
+registerMode({
+  id: 3,
+  key: 'momentum-bursts',
+  name: 'Momentum Bursts',
+  description: 'Acceleration spikes played as bursts',
+  selection: { score: s => s.accel, weight: 1.2 },        // Acceleration spikes (boosted more)
+  tuneParams: (params, range) => {
+    params.accelCap = range(0.002, 0.008);
+  },
+  compute: modeMomentumBursts
+});
+
+registerMode({
+  id: 4,
+  key: 'mean-reverter',
+  name: 'Mean Reverter',
+  description: 'Tense when overbought, slow grind when oversold',
+  selection: { score: s => s.deviation, weight: 1.05 },   // Overextended price
+  compute: modeMeanReverter
+});
+
+registerMode({
+  id: 5,
+  key: 'liquidity-panic',
+  name: 'Liquidity Panic',
+  description: 'Fast and tight on liquidity drops, stops on a rug',
+  // Never ranked; takes over outright on a significant liquidity drop
+  selection: { score: s => s.liqDrop, weight: 1.0, takeoverAt: 0.35, ranked: false },
+  tuneParams: (params, range) => {
+    params.liqDropCap = range(0.03, 0.12);
+  },
+  compute: modeLiquidityPanic
+});
+
+// ============================================
+// DISPATCH & SELECTION
+// ============================================
+
 // Mode dispatcher
 export function computeMode(modeId: number, metrics: DerivedMetrics, params: ModeParams): ModeResult {
-  switch (modeId) {
-    case 1:
-      return modeTrendRider(metrics, params);
-    case 2:
-      return modeChopMonster(metrics, params);
-    case 3:
-      return modeMomentumBursts(metrics, params);
-    case 4:
-      return modeMeanReverter(metrics, params);
-    case 5:
-      return modeLiquidityPanic(metrics, params);
-    default:
-      return modeTrendRider(metrics, params); // Default fallback
-  }
+  const mode = modes.get(modeId) || modes.get(DEFAULT_MODE_ID)!;  // Default fallback
+  return mode.compute(metrics, params);
 }
 
 // Get mode name for logging
 export function getModeName(modeId: number): string {
-  const names: Record<number, string> = {
-    1: 'Trend Rider',
-    2: 'Chop Monster',
-    3: 'Momentum Bursts',
-    4: 'Mean Reverter',
-    5: 'Liquidity Panic'
-  };
-  return names[modeId] || 'Unknown';
+  return modes.get(modeId)?.name || 'Unknown';
 }
 
 // Dynamically select the best mode based on current chart conditions
-export function selectModeFromMetrics(metrics: DerivedMetrics, params: ModeParams): number {
-  // Normalize each metric to 0-1 scale
-  const trendScore = clamp01(Math.abs(metrics.trend) / params.trendCap);
-  const chopScore = clamp01(metrics.chop / params.chopCap);
-  const accelScore = clamp01(metrics.accel / params.accelCap);
-  const devScore = clamp01(Math.abs(metrics.deviation) / params.devCap);
-  const liqDropScore = clamp01(metrics.liqDrop / params.liqDropCap);
+// (verbose=false silences the per-tick logging, e.g. for backtests)
+export function selectModeFromMetrics(metrics: DerivedMetrics, params: ModeParams, verbose: boolean = true): number {
+  const scores = scoreMetrics(metrics, params);
+  const log = verbose ? console.log : () => {};
 
   // Log scores for debugging
-  console.log('[ModeSelect] Scores:', {
-    trend: trendScore.toFixed(3),
-    chop: chopScore.toFixed(3),
-    accel: accelScore.toFixed(3),
-    dev: devScore.toFixed(3),
-    liqDrop: liqDropScore.toFixed(3)
+  log('[ModeSelect] Scores:', {
+    trend: scores.trend.toFixed(3),
+    chop: scores.chop.toFixed(3),
+    accel: scores.accel.toFixed(3),
+    dev: scores.deviation.toFixed(3),
+    liqDrop: scores.liqDrop.toFixed(3)
   });
 
-  // Priority check: Liquidity Panic takes precedence if there's a significant drop
-  if (liqDropScore >= 0.35) {
-    console.log('[ModeSelect] -> Liquidity Panic (liqDrop >= 0.35)');
-    return 5; // Liquidity Panic
+  const registered = listModes();
+
+  // Priority check: a mode past its takeover threshold wins outright
+  for (const mode of registered) {
+    const { takeoverAt } = mode.selection;
+    if (takeoverAt !== undefined && mode.selection.score(scores) >= takeoverAt) {
+      log(`[ModeSelect] -> ${mode.name} (takeover >= ${takeoverAt})`);
+      return mode.id;
+    }
   }
 
   // Find the dominant market condition
-  const scores = [
-    { mode: 1, score: trendScore * 1.0, name: 'Trend Rider' },      // Strong directional move
-    { mode: 2, score: chopScore * 1.1, name: 'Chop Monster' },      // Sideways volatility (boosted)
-    { mode: 3, score: accelScore * 1.2, name: 'Momentum Bursts' },  // Acceleration spikes (boosted more)
-    { mode: 4, score: devScore * 1.05, name: 'Mean Reverter' },     // Overextended price
-  ];
-
-  // Sort by score descending and pick the highest
-  scores.sort((a, b) => b.score - a.score);
-
-  console.log('[ModeSelect] Top 2:', scores.slice(0, 2).map(s => `${s.name}:${s.score.toFixed(3)}`).join(', '));
-
-  // Lower threshold - only default to Trend Rider if ALL scores are very low
-  if (scores[0].score < 0.05) {
-    console.log('[ModeSelect] -> Trend Rider (all scores < 0.05)');
-    return 1; // Trend Rider (default)
+  const ranked = registered
+    .filter(mode => mode.selection.ranked !== false)
+    .map(mode => ({ mode, score: mode.selection.score(scores) * mode.selection.weight }))
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) {
+    return DEFAULT_MODE_ID;
+  }
+
+  log('[ModeSelect] Top 2:', ranked.slice(0, 2).map(r => `${r.mode.name}:${r.score.toFixed(3)}`).join(', '));
+
+  // Only fall back to the default if ALL scores are very low
+  if (ranked[0].score < MIN_SELECTION_SCORE) {
+    log(`[ModeSelect] -> ${getModeName(DEFAULT_MODE_ID)} (all scores < ${MIN_SELECTION_SCORE})`);
+    return DEFAULT_MODE_ID;
   }
 
-  console.log('[ModeSelect] -> ' + scores[0].name);
-  return scores[0].mode;
+  log('[ModeSelect] -> ' + ranked[0].mode.name);
+  return ranked[0].mode.id;
 }
@@ -0,0 +1,195 @@
+// ============================================
+// MOTION PLANNER
+// ============================================
+// Ticks only arrive every COMMAND_INTERVAL_MS, so on their own the device
+// holds one speed/range for a minute and then jumps. The planner fills the
+// minute between ticks: it eases from the previous output to the new
+// target, then layers a per-style waveform (bursts, stutter, breathing...)
+// or, while the booster is active, plays the booster pattern as an actual
+// sequence instead of a minimum clamp.
+//
+// Plans are pure data sampled every MOTION_STEP_MS; delivery (streaming
+// within a device's rate budget, or script upload) happens in the device layer.
+
+import { COMMAND_INTERVAL_MS, DeviceCommand, MAX_AMP, MAX_SPEED, MIN_AMP, MIN_SPEED } from './types';
+import { amplitudeToRange } from './safety';
+import { expandStrokes, Funscript } from './timeline';
+
+export const MOTION_STEP_MS = 1000;
+const RAMP_MS = 8000;  // ease into the new target over the first 8s
+
+export interface MotionFrame {
+  offsetMs: number;        // from plan start
+  command: DeviceCommand;
+}
+
+export interface MotionPlan {
+  startAt: number;
+  durationMs: number;
+  style: string;
+  booster: string | null;
+  frames: MotionFrame[];
+}
+
+export interface MotionPlanInput {
+  from: { speed: number; amplitude: number };
+  to: { speed: number; amplitude: number };
+  style?: string;
+  booster?: string | null;     // booster pattern name when the booster fired
+  startAt?: number;
+  durationMs?: number;
+}
+
+// Multipliers applied on top of the eased base at time t (ms into the plan)
+type Waveform = (t: number) => { speed: number; amplitude: number };
+
+const FLAT: Waveform = () => ({ speed: 1, amplitude: 1 });
+
+function pulse(t: number, periodMs: number, onMs: number): boolean {
+  return t % periodMs < onMs;
+}
+
+const STYLE_WAVEFORMS: Record<string, Waveform> = {
+  // Slow breathing around the target
+  'trend-rider': (t) => ({ speed: 1 + 0.1 * Math.sin((t / 20000) * Math.PI * 2), amplitude: 1 }),
+  // Range snaps wide/narrow like the candles it's reading
+  'chop-monster': (t) => ({ speed: 1, amplitude: pulse(t, 6000, 3000) ? 1.25 : 0.75 }),
+  'momentum-bursts': (t) => (pulse(t, 15000, 4000) ? { speed: 1.3, amplitude: 1.1 } : { speed: 0.9, amplitude: 1 }),
+  'momentum-burst-spike': (t) => (pulse(t, 8000, 3000) ? { speed: 1.5, amplitude: 1.25 } : { speed: 0.85, amplitude: 0.9 }),
+  // Pendulum swinging the depth back and forth
+  'mean-reverter': (t) => ({ speed: 1, amplitude: 1 + 0.2 * Math.sin((t / 30000) * Math.PI * 2) }),
+  'mean-reverter-overbought': (t) => ({ speed: 1 + 0.15 * Math.sin((t / 30000) * Math.PI * 2), amplitude: 1 }),
+  'mean-reverter-oversold': (t) => ({ speed: 1 - 0.15 * Math.sin((t / 30000) * Math.PI * 2), amplitude: 1 }),
+  // Stutter: hard on/off in 2s chunks
+  'liquidity-panic-active': (t) => (pulse(t, 4000, 2000) ? { speed: 1.35, amplitude: 1.15 } : { speed: 0.4, amplitude: 0.7 }),
+  'liquidity-panic': FLAT,
+  'liquidity-panic-stop': FLAT
+};
+
+// Booster patterns as sequences (absolute speed/amplitude, not multipliers)
+type BoosterSequence = (t: number) => { speed: number; amplitude: number };
+
+const BOOSTER_SEQUENCES: Record<string, BoosterSequence> = {
+  // Double beat every 6s: two short pushes, then rest
+  heartbeat: (t) => {
+    const phase = t % 6000;
+    const beat = phase < 800 || (phase >= 1400 && phase < 2200);
+    return beat ? { speed: 42, amplitude: 24 } : { speed: 24, amplitude: 14 };
+  },
+  // Sawtooth build over 10s, then release
+  pump: (t) => {
+    const progress = (t % 10000) / 10000;
+    return { speed: 30 + progress * 30, amplitude: 18 + progress * 16 };
+  },
+  // Long 20s tease build, sudden drop, slow rebuild
+  'tease-reset': (t) => {
+    const phase = t % 30000;
+    if (phase < 20000) {
+      const progress = phase / 20000;
+      return { speed: 25 + progress * 25, amplitude: 10 + progress * 14 };
+    }
+    return { speed: 20, amplitude: 8 };
+  }
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function easeInOut(x: number): number {
+  return x < 0.5 ? 2 * x * x : 1 - Math.pow(-2 * x + 2, 2) / 2;
+}
+
+function toCommand(speed: number, amplitude: number): DeviceCommand {
+  const safeSpeed = Math.round(clamp(speed, MIN_SPEED, MAX_SPEED));
+  const range = amplitudeToRange(clamp(amplitude, MIN_AMP, MAX_AMP));
+  return { speed: safeSpeed, minY: range.minY, maxY: range.maxY };
+}
+
+/**
+ * Build the intra-tick motion plan for one tick
+ */
+export function planMotion(input: MotionPlanInput): MotionPlan {
+  const durationMs = input.durationMs ?? COMMAND_INTERVAL_MS;
+  const style = input.style || 'default';
+  const booster = input.booster || null;
+  const waveform = STYLE_WAVEFORMS[style] || FLAT;
+  const sequence = booster ? BOOSTER_SEQUENCES[booster] : undefined;
+
+  const frames: MotionFrame[] = [];
+  for (let t = 0; t < durationMs; t += MOTION_STEP_MS) {
+    let speed: number;
+    let amplitude: number;
+
+    if (input.to.speed === 0) {
+      speed = 0;
+      amplitude = 0;
+    } else if (sequence) {
+      ({ speed, amplitude } = sequence(t));
+    } else {
+      const ramp = easeInOut(Math.min(1, t / RAMP_MS));
+      const baseSpeed = input.from.speed + (input.to.speed - input.from.speed) * ramp;
+      const baseAmp = input.from.amplitude + (input.to.amplitude - input.from.amplitude) * ramp;
+      // Let the waveform in gradually so the ramp itself stays smooth
+      const shape = waveform(t);
+      speed = baseSpeed * (1 + (shape.speed - 1) * ramp);
+      amplitude = baseAmp * (1 + (shape.amplitude - 1) * ramp);
+    }
+
+    frames.push({ offsetMs: t, command: toCommand(speed, amplitude) });
+  }
+
+  return {
+    startAt: input.startAt ?? Date.now(),
+    durationMs,
+    style,
+    booster,
+    frames
+  };
+}
+
+/**
+ * Thin a plan to what a device can take: frames at least `minIntervalMs`
+ * apart, dropping frames that barely differ from the last one kept.
+ * The first frame is always kept, and so is a stop (stops aren't paced).
+ */
+export function decimatePlan(plan: MotionPlan, minIntervalMs: number): MotionFrame[] {
+  const kept: MotionFrame[] = [];
+  for (const frame of plan.frames) {
+    const last = kept[kept.length - 1];
+    if (!last) {
+      kept.push(frame);
+      continue;
+    }
+    const stops = frame.command.speed === 0 && last.command.speed !== 0;
+    if (!stops && frame.offsetMs - last.offsetMs < minIntervalMs) continue;
+
+    const changed =
+      stops ||
+      Math.abs(frame.command.speed - last.command.speed) >= 2 ||
+      frame.command.minY !== last.command.minY ||
+      frame.command.maxY !== last.command.maxY;
+    if (changed) kept.push(frame);
+  }
+  return kept;
+}
+
+/**
+ * Render a plan as a funscript for drivers that play uploaded scripts
+ */
+export function planToFunscript(plan: MotionPlan): Funscript {
+  const actions = expandStrokes(plan.frames, plan.durationMs);
+  return {
+    version: '1.0',
+    inverted: false,
+    range: 100,
+    actions,
+    metadata: {
+      title: `machinegobrrr motion ${new Date(plan.startAt).toISOString()}`,
+      creator: 'machinegobrrr',
+      description: `Planned motion (${plan.style}${plan.booster ? `, booster ${plan.booster}` : ''})`,
+      duration: Math.ceil(plan.durationMs / 1000),
+      notes: ''
+    }
+  };
+}
@@ -0,0 +1,347 @@
+// ============================================
+// CANDLE PROVIDERS
+// ============================================
+// Pluggable 1m OHLCV sources. Each deployment picks an ordered chain via
+// CHART_CANDLE_PROVIDERS; the first provider that returns data wins.
+
+import { BIRDEYE_API_KEY, CHART_CANDLE_PROVIDERS } from '@/lib/constants';
+import { getTradeCandles } from '@/lib/server/trade-candles';
+import { Candle, CandleProvider } from './types';
+
+const CANDLE_INTERVAL_MS = 60000;
+const PROVIDER_TIMEOUT_MS = 8000;
+
+const BIRDEYE_API = 'https://public-api.birdeye.so';
+const GECKOTERMINAL_API = 'https://api.geckoterminal.com/api/v2';
+const DEXSCREENER_API = 'https://api.dexscreener.com/latest/dex';
+
+const providers: Map<string, CandleProvider> = new Map();
+
+/**
+ * Floor a millisecond timestamp to the start of its 1m candle
+ */
+export function toCandleTime(timestampMs: number): number {
+  return Math.floor(timestampMs / CANDLE_INTERVAL_MS) * CANDLE_INTERVAL_MS;
+}
+
+function isValidCandle(candle: Candle): boolean {
+  return (
+    Number.isFinite(candle.open) && candle.open > 0 &&
+    Number.isFinite(candle.high) &&
+    Number.isFinite(candle.low) &&
+    Number.isFinite(candle.close) && candle.close > 0 &&
+    Number.isFinite(candle.volume) &&
+    Number.isFinite(candle.timestamp)
+  );
+}
+
+// ============================================
+// HELIUS (OUR OWN SWAP STREAM)
+// ============================================
+
+// Candles aggregated from /api/helius-webhook swaps. Prices are in SOL,
+// so a session should not mix these with USD candles from other providers.
+const heliusProvider: CandleProvider = {
+  id: 'helius',
+  async fetchCandles(tokenMint: string, limit: number): Promise<Candle[]> {
+    const candles = await getTradeCandles(tokenMint, limit);
+    return candles.map(({ open, high, low, close, volume, timestamp }) => ({
+      open,
+      high,
+      low,
+      close,
+      volume,
+      timestamp
+    }));
+  }
+};
+
+// ============================================
+// BIRDEYE
+// ============================================
+
+interface BirdeyeOhlcvItem {
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+  unixTime: number;
+}
+
+const birdeyeProvider: CandleProvider = {
+  id: 'birdeye',
+  async fetchCandles(tokenMint: string, limit: number): Promise<Candle[]> {
+    if (!BIRDEYE_API_KEY) {
+      return [];
+    }
+
+    const timeTo = Math.floor(Date.now() / 1000);
+    const timeFrom = timeTo - (limit + 1) * (CANDLE_INTERVAL_MS / 1000);
+    const response = await fetch(
+      `${BIRDEYE_API}/defi/ohlcv?address=${tokenMint}&type=1m&time_from=${timeFrom}&time_to=${timeTo}`,
+      {
+        headers: {
+          accept: 'application/json',
+          'x-chain': 'solana',
+          'X-API-KEY': BIRDEYE_API_KEY
+        },
+        cache: 'no-store',
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+      }
+    );
+
+    if (!response.ok) {
+      console.error('[ChartSync] Birdeye API error:', response.status);
+      return [];
+    }
+
+    const data = await response.json() as { data?: { items?: BirdeyeOhlcvItem[] } };
+    const items = data.data?.items || [];
+
+    return items.map((item) => ({
+      open: item.o,
+      high: item.h,
+      low: item.l,
+      close: item.c,
+      volume: item.v,
+      timestamp: toCandleTime(item.unixTime * 1000)
+    }));
+  }
+};
+
+// ============================================
+// GECKOTERMINAL
+// ============================================
+
+// Pool lookups rarely change for a token, so cache them per instance
+const geckoPoolCache: Map<string, string> = new Map();
+
+async function resolveGeckoPool(tokenMint: string): Promise<string | null> {
+  const cached = geckoPoolCache.get(tokenMint);
+  if (cached) return cached;
+
+  const response = await fetch(
+    `${GECKOTERMINAL_API}/networks/solana/tokens/${tokenMint}/pools?page=1`,
+    {
+      headers: { accept: 'application/json;version=20230302' },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+    }
+  );
+
+  if (!response.ok) {
+    console.error('[ChartSync] GeckoTerminal pool lookup error:', response.status);
+    return null;
+  }
+
+  const data = await response.json() as { data?: Array<{ attributes?: { address?: string } }> };
+  const poolAddress = data.data?.[0]?.attributes?.address;
+  if (!poolAddress) {
+    console.error('[ChartSync] No GeckoTerminal pool found for token:', tokenMint);
+    return null;
+  }
+
+  geckoPoolCache.set(tokenMint, poolAddress);
+  return poolAddress;
+}
+
+const geckoTerminalProvider: CandleProvider = {
+  id: 'geckoterminal',
+  async fetchCandles(tokenMint: string, limit: number): Promise<Candle[]> {
+    const poolAddress = await resolveGeckoPool(tokenMint);
+    if (!poolAddress) {
+      return [];
+    }
+
+    const response = await fetch(
+      `${GECKOTERMINAL_API}/networks/solana/pools/${poolAddress}/ohlcv/minute?aggregate=1&limit=${limit}&currency=usd&token=${tokenMint}`,
+      {
+        headers: { accept: 'application/json;version=20230302' },
+        cache: 'no-store',
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS)
+      }
+    );
+
+    if (!response.ok) {
+      console.error('[ChartSync] GeckoTerminal OHLCV error:', response.status);
+      return [];
+    }
+
+    // ohlcv_list rows are [timestamp, open, high, low, close, volume], newest first
+    const data = await response.json() as {
+      data?: { attributes?: { ohlcv_list?: number[][] } };
+    };
+    const rows = data.data?.attributes?.ohlcv_list || [];
+
+    return rows
+      .map(([timestamp, open, high, low, close, volume]) => ({
+        open,
+        high,
+        low,
+        close,
+        volume,
+        timestamp: toCandleTime(timestamp * 1000)
+      }))
+      .reverse();
+  }
+};
+
+// ============================================
+// DEXSCREENER (SYNTHETIC FALLBACK)
+// ============================================
+
+const dexScreenerProvider: CandleProvider = {
+  id: 'dexscreener',
+  async fetchCandles(tokenMint: string): Promise<Candle[]> {
+    const response = await fetch(
+      `${DEXSCREENER_API}/tokens/${tokenMint}`,
+      { next: { revalidate: 30 }, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) }
+    );
+
+    if (!response.ok) {
+      console.error('[ChartSync] DexScreener API error:', response.status);
+      return [];
+    }
+
+    const data = await response.json();
+    const pair = data.pairs?.[0];
+
+    if (!pair) {
+      console.error('[ChartSync] No pair found for token:', tokenMint);
+      return [];
+    }
+
+    // DexScreener doesn't provide candle data in the token endpoint, so we
+    // synthesize a single candle from the live price changes. Only used when
+    // no real OHLCV provider returned data.
+    const priceUsd = parseFloat(pair.priceUsd) || 0;
+    const priceChange1m = pair.priceChange?.m5 ? parseFloat(pair.priceChange.m5) / 5 : 0; // Approximate 1m from 5m
+    const volume = parseFloat(pair.volume?.h1) / 60 || 0; // Approximate 1m volume from hourly
+
+    const open = priceUsd / (1 + priceChange1m / 100);
+    const volatility = Math.abs(priceChange1m) / 100;
+
+    return [{
+      open: open,
+      high: priceUsd * (1 + volatility * 0.5),
+      low: open * (1 - volatility * 0.5),
+      close: priceUsd,
+      volume: volume,
+      timestamp: toCandleTime(Date.now())
+    }];
+  }
+};
+
+// ============================================
+// SIMULATED (OFFLINE DEV)
+// ============================================
+
+// Deterministic per-mint price wave so chart sync runs with no network.
+// Each minute's candle is a pure function of (mint, minute), so repeated
+// fetches agree and the buffer behaves like a real feed.
+function hashUnit(input: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0) / 0xffffffff;
+}
+
+function simulatedClose(tokenMint: string, minute: number): number {
+  const base = 0.0001 + hashUnit(tokenMint) * 0.01;
+  const phase = hashUnit(`${tokenMint}:phase`) * Math.PI * 2;
+  const noise = hashUnit(`${tokenMint}:${minute}`) - 0.5;
+  return base * (1 + 0.04 * Math.sin(minute / 7 + phase) + 0.015 * Math.sin(minute / 2.3) + 0.02 * noise);
+}
+
+const simulatedProvider: CandleProvider = {
+  id: 'simulated',
+  async fetchCandles(tokenMint: string, limit: number): Promise<Candle[]> {
+    const currentMinute = Math.floor(Date.now() / CANDLE_INTERVAL_MS);
+    const candles: Candle[] = [];
+
+    for (let minute = currentMinute - limit + 1; minute <= currentMinute; minute++) {
+      const open = simulatedClose(tokenMint, minute - 1);
+      const close = simulatedClose(tokenMint, minute);
+      const wick = 1 + hashUnit(`${tokenMint}:${minute}:wick`) * 0.01;
+      candles.push({
+        open,
+        high: Math.max(open, close) * wick,
+        low: Math.min(open, close) / wick,
+        close,
+        volume: 100 + hashUnit(`${tokenMint}:${minute}:vol`) * 5000,
+        timestamp: minute * CANDLE_INTERVAL_MS
+      });
+    }
+
+    return candles;
+  }
+};
+
+// ============================================
+// REGISTRY
+// ============================================
+
+/**
+ * Register (or replace) a candle provider by id
+ */
+export function registerCandleProvider(provider: CandleProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Get a registered candle provider by id
+ */
+export function getCandleProvider(id: string): CandleProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Resolve the configured provider chain for this deployment
+ */
+export function getConfiguredCandleProviders(): CandleProvider[] {
+  const chain: CandleProvider[] = [];
+  for (const id of CHART_CANDLE_PROVIDERS) {
+    const provider = providers.get(id);
+    if (provider) {
+      chain.push(provider);
+    } else {
+      console.warn(`[ChartSync] Unknown candle provider "${id}" - skipping`);
+    }
+  }
+
+  // Never end up with an empty chain; the synthesizer needs no credentials
+  if (chain.length === 0) {
+    chain.push(dexScreenerProvider);
+  }
+
+  return chain;
+}
+
+/**
+ * Fetch up to `limit` of the most recent 1m candles for a token,
+ * oldest first, walking the configured provider chain until one returns data
+ */
+export async function fetchCandles(tokenMint: string, limit: number = 1): Promise<Candle[]> {
+  for (const provider of getConfiguredCandleProviders()) {
+    try {
+      const candles = (await provider.fetchCandles(tokenMint, limit)).filter(isValidCandle);
+      if (candles.length > 0) {
+        return candles.slice(-limit).map((candle) => ({ ...candle, source: provider.id }));
+      }
+    } catch (error) {
+      console.error(`[ChartSync] Candle provider ${provider.id} failed:`, error);
+    }
+  }
+
+  console.error('[ChartSync] No candle provider returned data for token:', tokenMint);
+  return [];
+}
+
+registerCandleProvider(heliusProvider);
+registerCandleProvider(birdeyeProvider);
+registerCandleProvider(geckoTerminalProvider);
+registerCandleProvider(dexScreenerProvider);
+registerCandleProvider(simulatedProvider);
@@ -21,6 +21,7 @@ export interface SafetyResult {
   minY: number;
   maxY: number;
   wasLimited: boolean;
+  wasClamped: boolean;   // hard clamps cut the rate-limited value
   limitDetails?: string;
 }
 
@@ -131,6 +132,9 @@ export function applySafetyPipeline(
     minY: range.minY,
     maxY: range.maxY,
     wasLimited: rateLimited.wasLimited,
+    wasClamped:
+      clamped.speed !== Math.round(rateLimited.speed) ||
+      clamped.amplitude !== Math.round(rateLimited.amplitude),
     limitDetails: rateLimited.details.join('; ')
   };
 }
@@ -2,21 +2,37 @@
 // CHART SYNC SESSION MANAGEMENT
 // ============================================
 
+import { publishTickEvent } from '@/lib/server/live-events';
 import {
+  Candle,
   ChartSyncSession,
   SessionConfig,
   ModeParams,
+  ModeResult,
+  DerivedMetrics,
   DeviceCommand,
+  TimelineEntry,
   SESSION_DURATION_MS,
-  BUFFER_SIZE
+  BUFFER_SIZE,
+  COMMAND_INTERVAL_MS
 } from './types';
-import { fetchCandles, computeMetrics, updateBuffer } from './data';
-import { computeMode, getModeName, selectModeFromMetrics } from './modes';
+import { computeMetrics, mergeCandles } from './data';
+import { fetchCandles } from './providers';
+import { computeMode, DEFAULT_MODE_ID, getMode, getModeName, selectModeFromMetrics } from './modes';
 import { applyBooster, getBoosterPatternName } from './booster';
-import { applySafetyPipeline, createDeviceCommand } from './safety';
-
-// In-memory session store (use Redis/Firestore for production)
-const sessions: Map<string, ChartSyncSession> = new Map();
+import { applySafetyPipeline, createDeviceCommand, SafetyResult } from './safety';
+import { getSessionStore } from './store';
+import { recordTimelineEntry } from './timeline';
+import { MotionPlan, planMotion } from './motion';
+
+// Lease held while ticking so only one instance advances a session at a time
+const TICK_LEASE_MS = 30000;
+// How long an extension or end waits for an in-flight tick to release the lease
+const EXTEND_LEASE_ATTEMPTS = 10;
+const EXTEND_LEASE_RETRY_MS = 500;
+// Scheduler jitter allowed when deciding whether a tick interval has elapsed
+const TICK_JITTER_MS = 5000;
+const INSTANCE_ID = `${process.env.K_REVISION || 'local'}-${Math.random().toString(36).slice(2, 10)}`;
 
 // Seeded random number generator (deterministic)
 class SeededRandom {
@@ -77,17 +93,7 @@ function generateModeParams(rng: SeededRandom, modeId: number): ModeParams {
   params.weightChop = 1 - params.weightTrend;
 
   // Mode-specific adjustments
-  switch (modeId) {
-    case 2: // Chop Monster - lower chop cap for more sensitivity
-      params.chopCap = rng.range(0.004, 0.015);
-      break;
-    case 3: // Momentum Bursts - tune accel cap
-      params.accelCap = rng.range(0.002, 0.008);
-      break;
-    case 5: // Liquidity Panic - tune liq drop cap
-      params.liqDropCap = rng.range(0.03, 0.12);
-      break;
-  }
+  getMode(modeId)?.tuneParams?.(params, (min, max) => rng.range(min, max));
 
   console.log('[ModeParams] Generated:', {
     trendCap: params.trendCap.toFixed(4),
@@ -100,43 +106,60 @@ function generateModeParams(rng: SeededRandom, modeId: number): ModeParams {
 }
 
 /**
- * Create a new chart sync session
+ * Build a session in memory from an already-fetched candle buffer.
+ * `seed` overrides the one derived from the session identifiers
+ * (backtests use it to reproduce a parameter draw).
  */
-export function createSession(config: SessionConfig): ChartSyncSession {
+export function initSession(config: SessionConfig, candleBuffer: Candle[], seedOverride?: number): ChartSyncSession {
   const startTime = config.startTime || Date.now();
-  const seed = generateSeed(config.sessionStateId, config.tokenMint, startTime);
+  const seed = seedOverride ?? generateSeed(config.sessionStateId, config.tokenMint, startTime);
   const rng = new SeededRandom(seed);
 
-  // Start with Trend Rider as default - will be dynamically updated based on chart data
-  const modeId = 1;
+  // A pinned mode holds for the whole session; otherwise start on the default
+  // and let it adapt dynamically to chart data
+  const pinnedModeId = config.modeId != null && getMode(config.modeId) ? config.modeId : null;
+  const modeId = pinnedModeId ?? DEFAULT_MODE_ID;
 
   // Generate mode parameters (randomized thresholds for variety)
   const modeParams = generateModeParams(rng, modeId);
 
-  const session: ChartSyncSession = {
+  return {
     sessionId: `${config.sessionStateId}-${startTime}`,
     tokenMint: config.tokenMint,
     startTime,
-    endTime: startTime + SESSION_DURATION_MS,
+    endTime: config.endTime && config.endTime > startTime ? config.endTime : startTime + SESSION_DURATION_MS,
     modeId,
+    pinnedModeId,
     modeParams,
     seed,
     lastSpeed: 40,      // Starting defaults - higher for immediate activity
     lastAmplitude: 25,
     boosterStep: 0,
-    candleBuffer: [],
-    isActive: true
+    candleBuffer,
+    isActive: true,
+    lastTickAt: null
   };
+}
+
+/**
+ * Create a new chart sync session
+ * Backfills the candle buffer so the first ticks run on real history
+ */
+export async function createSession(config: SessionConfig): Promise<ChartSyncSession> {
+  // Backfill BUFFER_SIZE candles of history
+  const candleBuffer = await fetchCandles(config.tokenMint, BUFFER_SIZE);
+  const session = initSession(config, candleBuffer);
 
   // Store session
-  sessions.set(session.sessionId, session);
+  await getSessionStore().save(session);
 
   console.log(`[ChartSync] Session created:`, {
     sessionId: session.sessionId,
-    initialMode: getModeName(modeId),
-    note: 'Mode will adapt dynamically based on chart conditions',
-    duration: '10 minutes',
-    seed
+    initialMode: getModeName(session.modeId),
+    note: session.pinnedModeId ? 'Mode pinned by payer' : 'Mode will adapt dynamically based on chart conditions',
+    duration: `${Math.round((session.endTime - session.startTime) / 60000)} minutes`,
+    backfilledCandles: candleBuffer.length,
+    seed: session.seed
   });
 
   return session;
@@ -145,20 +168,16 @@ export function createSession(config: SessionConfig): ChartSyncSession {
 /**
  * Get session by ID
  */
-export function getSession(sessionId: string): ChartSyncSession | undefined {
-  return sessions.get(sessionId);
+export async function getSession(sessionId: string): Promise<ChartSyncSession | undefined> {
+  return (await getSessionStore().get(sessionId)) || undefined;
 }
 
 /**
  * Get active session for a token
  */
-export function getActiveSessionForToken(tokenMint: string): ChartSyncSession | undefined {
-  for (const session of sessions.values()) {
-    if (session.tokenMint === tokenMint && session.isActive) {
-      return session;
-    }
-  }
-  return undefined;
+export async function getActiveSessionForToken(tokenMint: string): Promise<ChartSyncSession | undefined> {
+  const sessions = await getSessionStore().listActive();
+  return sessions.find(session => session.tokenMint === tokenMint);
 }
 
 /**
@@ -169,22 +188,207 @@ export function isSessionExpired(session: ChartSyncSession): boolean {
 }
 
 /**
- * End a session
+ * Push a session's end time out (never pulls it in). Takes the tick lease so
+ * a tick in flight can't save its copy over the new end time. Returns the
+ * updated session, or null when it is missing or the lease stayed busy or lapsed.
+ */
+export async function extendSession(sessionId: string, endTime: number): Promise<ChartSyncSession | null> {
+  const store = getSessionStore();
+
+  if (!(await waitForLease(sessionId))) {
+    console.error(`[ChartSync] Could not lease ${sessionId} to extend it`);
+    return null;
+  }
+
+  try {
+    const session = await store.get(sessionId);
+    if (!session) return null;
+
+    session.endTime = Math.max(session.endTime, endTime);
+    if (!(await store.saveLeased(session, INSTANCE_ID))) {
+      console.error(`[ChartSync] Lease on ${sessionId} expired before the extension was saved`);
+      return null;
+    }
+    console.log(`[ChartSync] Session ${sessionId} extended to ${new Date(session.endTime).toISOString()}`);
+    return session;
+  } finally {
+    try {
+      await store.releaseLease(sessionId, INSTANCE_ID);
+    } catch (error) {
+      console.error(`[ChartSync] Failed to release lease for ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Take the tick lease, waiting out a tick in flight
+ */
+async function waitForLease(sessionId: string): Promise<boolean> {
+  const store = getSessionStore();
+  for (let attempt = 0; attempt < EXTEND_LEASE_ATTEMPTS; attempt++) {
+    if (attempt > 0) await new Promise(resolve => setTimeout(resolve, EXTEND_LEASE_RETRY_MS));
+    if (await store.acquireLease(sessionId, INSTANCE_ID, TICK_LEASE_MS)) return true;
+  }
+  return false;
+}
+
+/**
+ * End a session. Takes the tick lease and re-reads the session, so it can't
+ * save a stale copy over an extension. With `onlyIfExpired` a session whose
+ * end time was pushed out meanwhile is left running. Returns whether it ended.
  */
-export function endSession(sessionId: string): void {
-  const session = sessions.get(sessionId);
-  if (session) {
+export async function endSession(
+  sessionId: string,
+  options: { onlyIfExpired?: boolean } = {}
+): Promise<boolean> {
+  const store = getSessionStore();
+
+  if (!(await waitForLease(sessionId))) {
+    console.error(`[ChartSync] Could not lease ${sessionId} to end it`);
+    return false;
+  }
+
+  try {
+    const session = await store.get(sessionId);
+    if (!session) return false;
+    if (options.onlyIfExpired && !isSessionExpired(session)) {
+      console.log(`[ChartSync] Session ${sessionId} was extended, not ending it`);
+      return false;
+    }
+
     session.isActive = false;
+    if (!(await store.saveLeased(session, INSTANCE_ID))) {
+      console.error(`[ChartSync] Lease on ${sessionId} expired before the end was saved`);
+      return false;
+    }
     console.log(`[ChartSync] Session ended: ${sessionId}`);
+    return true;
+  } finally {
+    try {
+      await store.releaseLease(sessionId, INSTANCE_ID);
+    } catch (error) {
+      console.error(`[ChartSync] Failed to release lease for ${sessionId}:`, error);
+    }
   }
 }
 
+export interface TickPipelineResult {
+  modeId: number;
+  modeResult: ModeResult;
+  booster: string | null;   // booster pattern name when it fired
+  safety: SafetyResult;
+  command: DeviceCommand;
+  plan: MotionPlan;
+}
+
+/**
+ * One tick of the chart -> device pipeline on an in-memory session:
+ * mode selection, mode output, booster, safety rails and motion plan.
+ * Advances the session's mode/booster/last-output state; no I/O, so live
+ * ticks and backtests run exactly the same code.
+ */
+export function runTickPipeline(
+  session: ChartSyncSession,
+  metrics: DerivedMetrics,
+  now: number = Date.now(),
+  verbose: boolean = true
+): TickPipelineResult {
+  // 3. Use the pinned mode, or select one based on current chart conditions
+  const selectedModeId = session.pinnedModeId ?? selectModeFromMetrics(metrics, session.modeParams, verbose);
+  session.modeId = selectedModeId; // Update session's current mode
+
+  // 4. Compute mode output using the selected mode
+  const modeResult = computeMode(selectedModeId, metrics, session.modeParams);
+
+  // 5. Apply booster if needed
+  const boosterStep = session.boosterStep;
+  const boosterResult = applyBooster(
+    modeResult.intensity,
+    modeResult.speed,
+    modeResult.amplitude,
+    session.boosterStep
+  );
+  session.boosterStep = boosterResult.newStep;
+
+  // 6. Apply safety pipeline
+  const safetyResult = applySafetyPipeline(
+    boosterResult.speed,
+    boosterResult.amplitude,
+    session.lastSpeed,
+    session.lastAmplitude,
+    false // anti-bored floor disabled (booster handles this)
+  );
+
+  // 7. Plan the motion until the next tick, easing from the previous output
+  const booster = boosterResult.wasApplied ? getBoosterPatternName(boosterStep) : null;
+  const plan = planMotion({
+    from: { speed: session.lastSpeed, amplitude: session.lastAmplitude },
+    to: { speed: safetyResult.speed, amplitude: safetyResult.amplitude },
+    style: modeResult.style,
+    booster,
+    startAt: now
+  });
+
+  // 8. Update session state
+  session.lastSpeed = safetyResult.speed;
+  session.lastAmplitude = safetyResult.amplitude;
+
+  // 9. Create device command
+  const command = createDeviceCommand(safetyResult);
+
+  return { modeId: selectedModeId, modeResult, booster, safety: safetyResult, command, plan };
+}
+
+export interface SessionTickResult {
+  command: DeviceCommand;
+  plan: MotionPlan | null;   // intra-minute motion; null for stop/fallback commands
+}
+
 /**
  * Process a session tick - the main computation loop
- * Called every 60 seconds
+ * Called every 60 seconds. Returns null when the session doesn't exist,
+ * another instance currently holds its tick lease, it already ticked
+ * within the last COMMAND_INTERVAL_MS, or the tick outlived its lease.
  */
 export async function processSessionTick(sessionId: string): Promise<DeviceCommand | null> {
-  const session = sessions.get(sessionId);
+  const result = await processSessionTickWithMotion(sessionId);
+  return result ? result.command : null;
+}
+
+/**
+ * Same as processSessionTick, plus the motion plan for the coming minute
+ */
+export async function processSessionTickWithMotion(sessionId: string): Promise<SessionTickResult | null> {
+  const store = getSessionStore();
+
+  const leased = await store.acquireLease(sessionId, INSTANCE_ID, TICK_LEASE_MS);
+  if (!leased) {
+    console.log(`[ChartSync] Session ${sessionId} not found or being ticked by another instance`);
+    return null;
+  }
+
+  try {
+    return await runSessionTick(sessionId);
+  } finally {
+    try {
+      await store.releaseLease(sessionId, INSTANCE_ID);
+    } catch (error) {
+      console.error(`[ChartSync] Failed to release lease for ${sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Record a live tick in the session timeline and on the public event feed
+ */
+async function recordTick(session: ChartSyncSession, entry: TimelineEntry): Promise<void> {
+  await recordTimelineEntry(session, entry);
+  await publishTickEvent(session, entry);
+}
+
+async function runSessionTick(sessionId: string): Promise<SessionTickResult | null> {
+  const store = getSessionStore();
+  const session = await store.get(sessionId);
 
   if (!session) {
     console.error(`[ChartSync] Session not found: ${sessionId}`);
@@ -194,17 +398,49 @@ export async function processSessionTick(sessionId: string): Promise<DeviceComma
   // Check if session has expired
   if (isSessionExpired(session)) {
     console.log(`[ChartSync] Session expired: ${sessionId}`);
-    endSession(sessionId);
-    return { speed: 0, minY: 50, maxY: 50 }; // Stop command
+    session.isActive = false;
+    if (!(await store.saveLeased(session, INSTANCE_ID))) {
+      console.warn(`[ChartSync] Lease on ${sessionId} expired before the tick saved, dropping it`);
+      return null;
+    }
+
+    const stop: DeviceCommand = { speed: 0, minY: 50, maxY: 50 }; // Stop command
+    await recordTick(session, {
+      at: Date.now(),
+      elapsedMs: Date.now() - session.startTime,
+      modeId: session.modeId,
+      mode: getModeName(session.modeId),
+      intensity: 0,
+      booster: null,
+      limited: false,
+      command: stop,
+      metrics: null
+    });
+    return { command: stop, plan: null };
+  }
+
+  // A second scheduler call (retries, a manual trigger) within the interval ticks nothing
+  if (session.lastTickAt && Date.now() - session.lastTickAt < COMMAND_INTERVAL_MS - TICK_JITTER_MS) {
+    console.log(`[ChartSync] Session ${sessionId} ticked ${Date.now() - session.lastTickAt}ms ago, skipping`);
+    return null;
   }
 
   try {
-    // 1. Fetch latest candle data
-    const newCandles = await fetchCandles(session.tokenMint);
+    // 1. Fetch latest candle data (previous minute is re-fetched so its final values replace the partial one)
+    let newCandles = await fetchCandles(session.tokenMint, 2);
+
+    // Prices from different providers aren't comparable (SOL vs USD), so when
+    // the chain falls over to another provider, rebuild the buffer from it
+    const bufferSource = session.candleBuffer[session.candleBuffer.length - 1]?.source;
+    if (newCandles.length > 0 && bufferSource && newCandles[0].source !== bufferSource) {
+      console.log(`[ChartSync] Candle source changed ${bufferSource} -> ${newCandles[0].source}, rebuilding buffer`);
+      newCandles = await fetchCandles(session.tokenMint, BUFFER_SIZE);
+      session.candleBuffer = [];
+    }
 
     if (newCandles.length > 0) {
       // Update buffer
-      session.candleBuffer = updateBuffer(session.candleBuffer, newCandles[0], BUFFER_SIZE);
+      session.candleBuffer = mergeCandles(session.candleBuffer, newCandles, BUFFER_SIZE);
     }
 
     // 2. Compute derived metrics
@@ -223,58 +459,56 @@ export async function processSessionTick(sessionId: string): Promise<DeviceComma
       bufferSize: session.candleBuffer.length
     });
 
-    // 3. Dynamically select mode based on current chart conditions
-    const selectedModeId = selectModeFromMetrics(metrics, session.modeParams);
-    session.modeId = selectedModeId; // Update session's current mode
-
-    // 4. Compute mode output using the dynamically selected mode
-    const modeResult = computeMode(selectedModeId, metrics, session.modeParams);
-
-    // 5. Apply booster if needed
-    const boosterResult = applyBooster(
-      modeResult.intensity,
-      modeResult.speed,
-      modeResult.amplitude,
-      session.boosterStep
-    );
-    session.boosterStep = boosterResult.newStep;
-
-    // 6. Apply safety pipeline
-    const safetyResult = applySafetyPipeline(
-      boosterResult.speed,
-      boosterResult.amplitude,
-      session.lastSpeed,
-      session.lastAmplitude,
-      false // anti-bored floor disabled (booster handles this)
-    );
-
-    // 7. Update session state
-    session.lastSpeed = safetyResult.speed;
-    session.lastAmplitude = safetyResult.amplitude;
-
-    // 8. Create device command
-    const command = createDeviceCommand(safetyResult);
+    // 3-9. Mode, booster, safety rails, motion plan, device command
+    const now = Date.now();
+    const { modeId: selectedModeId, modeResult, booster, safety: safetyResult, command, plan } =
+      runTickPipeline(session, metrics, now);
+    session.lastTickAt = now;
+    // A slow tick (provider timeouts, a buffer rebuild) can outlive its lease;
+    // its state and command are dropped rather than saved over newer changes
+    if (!(await store.saveLeased(session, INSTANCE_ID))) {
+      console.warn(`[ChartSync] Lease on ${sessionId} expired before the tick saved, dropping it`);
+      return null;
+    }
 
     // Log tick details
-    const elapsed = Math.floor((Date.now() - session.startTime) / 1000);
+    const elapsed = Math.floor((now - session.startTime) / 1000);
     console.log(`[ChartSync] Tick @ ${elapsed}s:`, {
       mode: getModeName(selectedModeId),
       style: modeResult.style,
       intensity: modeResult.intensity.toFixed(3),
-      booster: boosterResult.wasApplied ? getBoosterPatternName(session.boosterStep) : 'off',
+      booster: booster || 'off',
       limited: safetyResult.wasLimited,
       command
     });
 
-    return command;
+    // 10. Record the tick for export/replay and the live feed
+    await recordTick(session, {
+      at: now,
+      elapsedMs: now - session.startTime,
+      modeId: selectedModeId,
+      mode: getModeName(selectedModeId),
+      style: modeResult.style,
+      intensity: modeResult.intensity,
+      booster,
+      limited: safetyResult.wasLimited,
+      command,
+      metrics,
+      motion: plan.frames
+    });
+
+    return { command, plan };
 
   } catch (error) {
     console.error(`[ChartSync] Tick error:`, error);
     // Return safe default on error
     return {
-      speed: Math.max(20, session.lastSpeed - 10),
-      minY: 40,
-      maxY: 60
+      command: {
+        speed: Math.max(20, session.lastSpeed - 10),
+        minY: 40,
+        maxY: 60
+      },
+      plan: null
     };
   }
 }
@@ -282,15 +516,16 @@ export async function processSessionTick(sessionId: string): Promise<DeviceComma
 /**
  * Get session status
  */
-export function getSessionStatus(sessionId: string): {
+export async function getSessionStatus(sessionId: string): Promise<{
   exists: boolean;
   isActive: boolean;
   elapsed?: number;
   remaining?: number;
   mode?: string;
+  modePinned?: boolean;
   lastCommand?: { speed: number; amplitude: number };
-} {
-  const session = sessions.get(sessionId);
+}> {
+  const session = await getSessionStore().get(sessionId);
 
   if (!session) {
     return { exists: false, isActive: false };
@@ -306,6 +541,7 @@ export function getSessionStatus(sessionId: string): {
     elapsed,
     remaining,
     mode: getModeName(session.modeId),
+    modePinned: session.pinnedModeId != null,
     lastCommand: {
       speed: session.lastSpeed,
       amplitude: session.lastAmplitude
@@ -316,20 +552,19 @@ export function getSessionStatus(sessionId: string): {
 /**
  * Clean up expired sessions
  */
-export function cleanupExpiredSessions(): number {
-  let cleaned = 0;
-  for (const [sessionId, session] of sessions) {
-    if (!session.isActive || isSessionExpired(session)) {
-      sessions.delete(sessionId);
-      cleaned++;
-    }
+export async function cleanupExpiredSessions(): Promise<number> {
+  const store = getSessionStore();
+  const stale = await store.listStale(Date.now());
+  for (const session of stale) {
+    await store.delete(session.sessionId);
   }
-  return cleaned;
+  return stale.length;
 }
 
 /**
  * Get all active sessions (for debugging)
  */
-export function getAllActiveSessions(): ChartSyncSession[] {
-  return Array.from(sessions.values()).filter(s => s.isActive && !isSessionExpired(s));
+export async function getAllActiveSessions(): Promise<ChartSyncSession[]> {
+  const sessions = await getSessionStore().listActive();
+  return sessions.filter(s => !isSessionExpired(s));
 }
@@ -0,0 +1,354 @@
+// ============================================
+// CHART SYNC SESSION STORE
+// ============================================
+// Sessions must survive cold starts and be visible to every instance, so
+// they live behind a store. Firestore in production, in-memory for dev/tests.
+// A short lease guarantees only one instance ticks a session at a time, and
+// saves made under it land only while it is still held, so a tick that
+// outlived its lease can't overwrite an extension or end made meanwhile.
+// Tick timelines are stored separately so session cleanup doesn't drop them,
+// next to the one replay that may be playing them back.
+
+import { getAdminDb, FieldValue } from '@/lib/firebase-admin';
+import { CHART_SESSION_STORE } from '@/lib/constants';
+import { ChartSyncSession, ReplayRecord, SessionTimeline, TimelineEntry } from './types';
+
+export interface SessionStore {
+  get(sessionId: string): Promise<ChartSyncSession | null>;
+  save(session: ChartSyncSession): Promise<void>;
+  saveLeased(session: ChartSyncSession, owner: string): Promise<boolean>;   // false once `owner` lost the lease
+  delete(sessionId: string): Promise<void>;
+  listActive(): Promise<ChartSyncSession[]>;
+  listStale(now: number): Promise<ChartSyncSession[]>;   // inactive or past endTime
+  acquireLease(sessionId: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLease(sessionId: string, owner: string): Promise<void>;
+  appendTimelineEntry(session: ChartSyncSession, entry: TimelineEntry): Promise<void>;
+  getTimeline(sessionId: string): Promise<SessionTimeline | null>;
+  listTimelines(limit: number): Promise<Array<Omit<SessionTimeline, 'entries'>>>;   // newest first
+  getReplay(): Promise<ReplayRecord | null>;
+  setReplay(replay: ReplayRecord | null): Promise<void>;   // null clears it
+}
+
+// Firestore rejects undefined fields; sessions are plain data so a JSON round-trip is enough
+function toPlainSession(session: ChartSyncSession): ChartSyncSession {
+  return JSON.parse(JSON.stringify(session)) as ChartSyncSession;
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, ChartSyncSession> = new Map();
+  private leases: Map<string, { owner: string; expiresAt: number }> = new Map();
+  private timelines: Map<string, SessionTimeline> = new Map();
+  private replay: ReplayRecord | null = null;
+
+  async get(sessionId: string): Promise<ChartSyncSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? toPlainSession(session) : null;
+  }
+
+  async save(session: ChartSyncSession): Promise<void> {
+    this.sessions.set(session.sessionId, toPlainSession(session));
+  }
+
+  async saveLeased(session: ChartSyncSession, owner: string): Promise<boolean> {
+    const lease = this.leases.get(session.sessionId);
+    if (!this.sessions.has(session.sessionId) || lease?.owner !== owner || lease.expiresAt <= Date.now()) {
+      return false;
+    }
+    this.sessions.set(session.sessionId, toPlainSession(session));
+    return true;
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+    this.leases.delete(sessionId);
+  }
+
+  async listActive(): Promise<ChartSyncSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(s => s.isActive)
+      .map(toPlainSession);
+  }
+
+  async listStale(now: number): Promise<ChartSyncSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(s => !s.isActive || now >= s.endTime)
+      .map(toPlainSession);
+  }
+
+  async acquireLease(sessionId: string, owner: string, ttlMs: number): Promise<boolean> {
+    if (!this.sessions.has(sessionId)) return false;
+
+    const now = Date.now();
+    const lease = this.leases.get(sessionId);
+    if (lease && lease.owner !== owner && lease.expiresAt > now) {
+      return false;
+    }
+    this.leases.set(sessionId, { owner, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async releaseLease(sessionId: string, owner: string): Promise<void> {
+    if (this.leases.get(sessionId)?.owner === owner) {
+      this.leases.delete(sessionId);
+    }
+  }
+
+  async appendTimelineEntry(session: ChartSyncSession, entry: TimelineEntry): Promise<void> {
+    let timeline = this.timelines.get(session.sessionId);
+    if (!timeline) {
+      timeline = {
+        sessionId: session.sessionId,
+        tokenMint: session.tokenMint,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        entries: []
+      };
+      this.timelines.set(session.sessionId, timeline);
+    }
+    timeline.endTime = session.endTime;
+    timeline.entries.push(JSON.parse(JSON.stringify(entry)) as TimelineEntry);
+  }
+
+  async getTimeline(sessionId: string): Promise<SessionTimeline | null> {
+    const timeline = this.timelines.get(sessionId);
+    return timeline ? (JSON.parse(JSON.stringify(timeline)) as SessionTimeline) : null;
+  }
+
+  async listTimelines(limit: number): Promise<Array<Omit<SessionTimeline, 'entries'>>> {
+    return Array.from(this.timelines.values())
+      .sort((a, b) => b.startTime - a.startTime)
+      .slice(0, limit)
+      .map(({ sessionId, tokenMint, startTime, endTime }) => ({ sessionId, tokenMint, startTime, endTime }));
+  }
+
+  async getReplay(): Promise<ReplayRecord | null> {
+    return this.replay ? (JSON.parse(JSON.stringify(this.replay)) as ReplayRecord) : null;
+  }
+
+  async setReplay(replay: ReplayRecord | null): Promise<void> {
+    this.replay = replay ? (JSON.parse(JSON.stringify(replay)) as ReplayRecord) : null;
+  }
+}
+
+// ============================================
+// FIRESTORE STORE
+// ============================================
+
+const SESSIONS_COLLECTION = 'chartSyncSessions';
+const TIMELINES_COLLECTION = 'chartSyncTimelines';
+const REPLAY_DOC = 'chartSyncReplay/current';
+
+export class FirestoreSessionStore implements SessionStore {
+  private collection() {
+    return getAdminDb().collection(SESSIONS_COLLECTION);
+  }
+
+  private fromDoc(doc: FirebaseFirestore.DocumentSnapshot): ChartSyncSession | null {
+    const data = doc.data();
+    if (!data) return null;
+
+    // Strip store-only fields (lease, timestamps) back to the session shape
+    const session = { ...data };
+    delete session.leaseOwner;
+    delete session.leaseExpiresAt;
+    delete session.updatedAt;
+    return session as ChartSyncSession;
+  }
+
+  async get(sessionId: string): Promise<ChartSyncSession | null> {
+    const doc = await this.collection().doc(sessionId).get();
+    return doc.exists ? this.fromDoc(doc) : null;
+  }
+
+  async save(session: ChartSyncSession): Promise<void> {
+    // merge keeps the lease fields owned by acquireLease/releaseLease intact
+    await this.collection().doc(session.sessionId).set(
+      {
+        ...toPlainSession(session),
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+
+  async saveLeased(session: ChartSyncSession, owner: string): Promise<boolean> {
+    const db = getAdminDb();
+    const ref = this.collection().doc(session.sessionId);
+
+    return db.runTransaction(async (tx) => {
+      const data = (await tx.get(ref)).data();
+      const held =
+        data?.leaseOwner === owner &&
+        typeof data.leaseExpiresAt === 'number' &&
+        data.leaseExpiresAt > Date.now();
+      if (!held) return false;
+
+      tx.set(ref, { ...toPlainSession(session), updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+      return true;
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.collection().doc(sessionId).delete();
+  }
+
+  async listActive(): Promise<ChartSyncSession[]> {
+    const snapshot = await this.collection().where('isActive', '==', true).get();
+    return snapshot.docs
+      .map(doc => this.fromDoc(doc))
+      .filter((s): s is ChartSyncSession => s !== null);
+  }
+
+  async listStale(now: number): Promise<ChartSyncSession[]> {
+    const [inactive, expired] = await Promise.all([
+      this.collection().where('isActive', '==', false).get(),
+      this.collection().where('endTime', '<=', now).get(),
+    ]);
+
+    const byId = new Map<string, ChartSyncSession>();
+    for (const doc of [...inactive.docs, ...expired.docs]) {
+      const session = this.fromDoc(doc);
+      if (session) byId.set(session.sessionId, session);
+    }
+    return Array.from(byId.values());
+  }
+
+  async acquireLease(sessionId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const db = getAdminDb();
+    const ref = this.collection().doc(sessionId);
+
+    return db.runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!doc.exists) return false;
+
+      const now = Date.now();
+      const data = doc.data() || {};
+      const heldByOther =
+        data.leaseOwner &&
+        data.leaseOwner !== owner &&
+        typeof data.leaseExpiresAt === 'number' &&
+        data.leaseExpiresAt > now;
+
+      if (heldByOther) return false;
+
+      tx.update(ref, { leaseOwner: owner, leaseExpiresAt: now + ttlMs });
+      return true;
+    });
+  }
+
+  async releaseLease(sessionId: string, owner: string): Promise<void> {
+    const db = getAdminDb();
+    const ref = this.collection().doc(sessionId);
+
+    await db.runTransaction(async (tx) => {
+      const doc = await tx.get(ref);
+      if (!doc.exists || doc.data()?.leaseOwner !== owner) return;
+      tx.update(ref, { leaseOwner: null, leaseExpiresAt: 0 });
+    });
+  }
+
+  // chartSyncTimelines/{sessionId} holds session metadata, entries/{at} one doc per tick
+  async appendTimelineEntry(session: ChartSyncSession, entry: TimelineEntry): Promise<void> {
+    const ref = getAdminDb().collection(TIMELINES_COLLECTION).doc(session.sessionId);
+    const batch = getAdminDb().batch();
+    batch.set(
+      ref,
+      {
+        sessionId: session.sessionId,
+        tokenMint: session.tokenMint,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    batch.set(ref.collection('entries').doc(String(entry.at)), JSON.parse(JSON.stringify(entry)));
+    await batch.commit();
+  }
+
+  async getTimeline(sessionId: string): Promise<SessionTimeline | null> {
+    const ref = getAdminDb().collection(TIMELINES_COLLECTION).doc(sessionId);
+    const [meta, entries] = await Promise.all([
+      ref.get(),
+      ref.collection('entries').orderBy('at', 'asc').get(),
+    ]);
+    const data = meta.data();
+    if (!data) return null;
+
+    return {
+      sessionId,
+      tokenMint: data.tokenMint,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      entries: entries.docs.map(doc => doc.data() as TimelineEntry),
+    };
+  }
+
+  async listTimelines(limit: number): Promise<Array<Omit<SessionTimeline, 'entries'>>> {
+    const snapshot = await getAdminDb()
+      .collection(TIMELINES_COLLECTION)
+      .orderBy('startTime', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        sessionId: doc.id,
+        tokenMint: data.tokenMint,
+        startTime: data.startTime,
+        endTime: data.endTime,
+      };
+    });
+  }
+
+  async getReplay(): Promise<ReplayRecord | null> {
+    const data = (await getAdminDb().doc(REPLAY_DOC).get()).data();
+    if (!data) return null;
+
+    const replay = { ...data };
+    delete replay.updatedAt;
+    return replay as ReplayRecord;
+  }
+
+  async setReplay(replay: ReplayRecord | null): Promise<void> {
+    const ref = getAdminDb().doc(REPLAY_DOC);
+    if (!replay) {
+      await ref.delete();
+      return;
+    }
+    await ref.set({ ...replay, updatedAt: FieldValue.serverTimestamp() });
+  }
+}
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+declare global {
+  var __machineGoBrrrSessionStore: SessionStore | undefined;
+}
+
+/**
+ * Get the session store for this deployment (CHART_SESSION_STORE)
+ * Kept on global so dev reloads and separate route bundles share one store
+ */
+export function getSessionStore(): SessionStore {
+  if (!global.__machineGoBrrrSessionStore) {
+    global.__machineGoBrrrSessionStore = CHART_SESSION_STORE === 'memory'
+      ? new MemorySessionStore()
+      : new FirestoreSessionStore();
+  }
+  return global.__machineGoBrrrSessionStore;
+}
+
+/**
+ * Override the session store (dev tooling / tests)
+ */
+export function setSessionStore(store: SessionStore): void {
+  global.__machineGoBrrrSessionStore = store;
+}
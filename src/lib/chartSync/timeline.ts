@@ -0,0 +1,150 @@
+// ============================================
+// SESSION TIMELINE EXPORT
+// ============================================
+// Turns a recorded session timeline into a .funscript (position/time
+// actions, the de-facto format for stroker scripts) or a JSON dump that
+// keeps the underlying metrics.
+
+import { ChartSyncSession, COMMAND_INTERVAL_MS, DeviceCommand, SessionTimeline, TimelineEntry } from './types';
+import { getSessionStore } from './store';
+
+const MIN_STROKE_MS = 250;     // full stroke at speed 100
+const MAX_STROKE_MS = 1500;    // full stroke at speed 1
+
+export interface FunscriptAction {
+  at: number;   // ms from script start
+  pos: number;  // 0-100
+}
+
+export interface Funscript {
+  version: string;
+  inverted: boolean;
+  range: number;
+  actions: FunscriptAction[];
+  metadata: {
+    title: string;
+    creator: string;
+    description: string;
+    duration: number;  // seconds
+    notes: string;
+  };
+}
+
+/**
+ * Duration of one half-stroke (minY -> maxY) for an oscillation speed
+ * Shared by exports and drivers that have to synthesize strokes themselves
+ */
+export function strokeDurationMs(speed: number): number {
+  const t = Math.max(0, Math.min(100, speed)) / 100;
+  return Math.round(MAX_STROKE_MS - t * (MAX_STROKE_MS - MIN_STROKE_MS));
+}
+
+/**
+ * Get the recorded timeline for a session
+ */
+export async function getSessionTimeline(sessionId: string): Promise<SessionTimeline | null> {
+  return getSessionStore().getTimeline(sessionId);
+}
+
+/**
+ * Record one tick; failures are logged and never break the tick
+ */
+export async function recordTimelineEntry(session: ChartSyncSession, entry: TimelineEntry): Promise<void> {
+  try {
+    await getSessionStore().appendTimelineEntry(session, entry);
+  } catch (error) {
+    console.error(`[ChartSync] Failed to record timeline for ${session.sessionId}:`, error);
+  }
+}
+
+/**
+ * Expand timed oscillation commands into stroke-by-stroke funscript actions.
+ * Each command runs until the next segment starts (or `durationMs` for the last).
+ */
+export function expandStrokes(
+  segments: Array<{ offsetMs: number; command: DeviceCommand }>,
+  durationMs: number
+): FunscriptAction[] {
+  const actions: FunscriptAction[] = [];
+  const sorted = [...segments].sort((a, b) => a.offsetMs - b.offsetMs);
+  let lastPos = 50;
+
+  const push = (at: number, pos: number) => {
+    const last = actions[actions.length - 1];
+    if (last && at <= last.at) return;
+    actions.push({ at: Math.round(at), pos: Math.round(pos) });
+    lastPos = pos;
+  };
+
+  sorted.forEach((segment, index) => {
+    const windowStart = Math.max(0, segment.offsetMs);
+    const next = sorted[index + 1];
+    const windowEnd = next ? next.offsetMs : durationMs;
+
+    const { speed, minY, maxY } = segment.command;
+    if (speed === 0 || maxY <= minY) {
+      // Stopped: settle at the centre and hold
+      push(windowStart, lastPos);
+      push(Math.min(windowStart + MAX_STROKE_MS, windowEnd), 50);
+      return;
+    }
+
+    const stroke = strokeDurationMs(speed);
+    let at = windowStart;
+    let up = Math.abs(lastPos - minY) <= Math.abs(lastPos - maxY);
+    push(at, lastPos);
+    while (at + stroke <= windowEnd) {
+      at += stroke;
+      push(at, up ? maxY : minY);
+      up = !up;
+    }
+  });
+
+  return actions;
+}
+
+/**
+ * Convert a recorded timeline into a funscript.
+ * The last command runs for one command interval (bounded by session end).
+ */
+export function timelineToFunscript(timeline: SessionTimeline): Funscript {
+  const entries = [...timeline.entries].sort((a, b) => a.at - b.at);
+  // Prefer the planned intra-minute frames over the single tick target
+  const segments = entries.flatMap((entry) => {
+    const offsetMs = entry.at - timeline.startTime;
+    return entry.motion && entry.motion.length > 0
+      ? entry.motion.map((frame) => ({ offsetMs: offsetMs + frame.offsetMs, command: frame.command }))
+      : [{ offsetMs, command: entry.command }];
+  });
+  const lastOffset = segments.length > 0 ? segments[segments.length - 1].offsetMs : 0;
+  const actions = expandStrokes(
+    segments,
+    Math.min(lastOffset + COMMAND_INTERVAL_MS, timeline.endTime - timeline.startTime)
+  );
+
+  const durationMs = actions.length > 0 ? actions[actions.length - 1].at : 0;
+  return {
+    version: '1.0',
+    inverted: false,
+    range: 100,
+    actions,
+    metadata: {
+      title: `machinegobrrr ${timeline.tokenMint.slice(0, 8)} ${new Date(timeline.startTime).toISOString()}`,
+      creator: 'machinegobrrr',
+      description: `Chart-synced session for ${timeline.tokenMint}`,
+      duration: Math.ceil(durationMs / 1000),
+      notes: `sessionId=${timeline.sessionId}`
+    }
+  };
+}
+
+/**
+ * JSON export: the full timeline including metrics
+ */
+export function timelineToJson(timeline: SessionTimeline): SessionTimeline & { exportedAt: string } {
+  return {
+    ...timeline,
+    entries: [...timeline.entries].sort((a, b) => a.at - b.at),
+    exportedAt: new Date().toISOString()
+  };
+}
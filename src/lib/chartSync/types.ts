@@ -2,6 +2,8 @@
 // CHART SYNC TYPES
 // ============================================
 
+import { DEFAULT_SESSION_DURATION_MS } from '@/lib/constants';
+
 export interface Candle {
   open: number;
   high: number;
@@ -9,6 +11,14 @@ export interface Candle {
   close: number;
   volume: number;
   timestamp: number;
+  source?: string;       // provider id that produced the candle
+}
+
+// Source of 1m OHLCV candles. Candles are returned oldest first and
+// timestamped at the start of their minute.
+export interface CandleProvider {
+  id: string;
+  fetchCandles(tokenMint: string, limit: number): Promise<Candle[]>;
 }
 
 export interface DerivedMetrics {
@@ -40,6 +50,33 @@ export interface ModeResult {
   style?: string;
 }
 
+// Metrics normalized against the session's caps (all 0-1)
+export interface ModeScores {
+  trend: number;
+  chop: number;
+  accel: number;
+  deviation: number;
+  liqDrop: number;
+  volume: number;
+}
+
+export interface ModeDefinition {
+  id: number;            // stored on sessions/queue items; never reuse
+  key: string;           // stable slug payers pick by, e.g. 'trend-rider'
+  name: string;
+  description: string;
+  selection: {
+    score: (scores: ModeScores) => number;
+    weight: number;        // multiplier when ranked against other modes
+    takeoverAt?: number;   // raw score at which this mode wins outright
+    ranked?: boolean;      // false: only ever selected via takeover
+  };
+  // Mode-specific threshold tweaks when the mode starts a session
+  tuneParams?: (params: ModeParams, range: (min: number, max: number) => number) => void;
+  // Metrics -> intensity/speed/amplitude mapping
+  compute: (metrics: DerivedMetrics, params: ModeParams) => ModeResult;
+}
+
 export interface DeviceCommand {
   speed: number;
   minY: number;
@@ -52,6 +89,7 @@ export interface ChartSyncSession {
   startTime: number;
   endTime: number;
   modeId: number;
+  pinnedModeId?: number | null;   // payer-pinned mode; null/absent = auto
   modeParams: ModeParams;
   seed: number;
   lastSpeed: number;
@@ -59,17 +97,52 @@ export interface ChartSyncSession {
   boosterStep: number;
   candleBuffer: Candle[];
   isActive: boolean;
+  lastTickAt?: number | null;     // when the last live tick ran
+}
+
+// One recorded tick of a session, kept for export and replay
+export interface TimelineEntry {
+  at: number;                      // wall-clock ms when the command was issued
+  elapsedMs: number;               // ms since session start
+  modeId: number;
+  mode: string;
+  style?: string;
+  intensity: number;
+  booster: string | null;          // booster pattern name, null when off
+  limited: boolean;                // safety pipeline clamped the output
+  command: DeviceCommand;
+  metrics: DerivedMetrics | null;  // null for synthetic entries (e.g. expiry stop)
+  motion?: Array<{ offsetMs: number; command: DeviceCommand }>;  // planned intra-minute frames
+}
+
+export interface SessionTimeline {
+  sessionId: string;
+  tokenMint: string;
+  startTime: number;
+  endTime: number;
+  entries: TimelineEntry[];
+}
+
+// A timeline replay handed to the devices as one plan
+export interface ReplayRecord {
+  sessionId: string;
+  tokenMint: string;
+  speedMultiplier: number;
+  startedAt: number;
+  offsetsMs: number[];             // when each entry plays, from startedAt (time-scaled)
 }
 
 export interface SessionConfig {
   sessionStateId: string;
   tokenMint: string;
   startTime?: number;
+  modeId?: number | null;   // pin the session to one mode; null = auto
+  endTime?: number;         // end with the queue slot; default startTime + SESSION_DURATION_MS
 }
 
 // Constants
 export const COMMAND_INTERVAL_MS = 60000; // 1 minute
-export const SESSION_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+export const SESSION_DURATION_MS = DEFAULT_SESSION_DURATION_MS; // same length as a queue slot
 export const BOOSTER_THRESHOLD = 0.10; // 10% intensity
 export const BUFFER_SIZE = 10; // Keep last 10 candles
 
@@ -41,9 +41,18 @@ export const MINSTR_SYMBOL = "MINSTR";
 export const STANDARD_PRICE = SOL_STANDARD_PRICE;
 export const PRIORITY_PRICE = SOL_PRIORITY_PRICE;
 
+// Session length: one duration drives both the on-screen slot and the
+// chart-sync device session. Tier prices buy DEFAULT_SESSION_MINUTES; other
+// lengths are priced per minute.
+export const SESSION_MINUTE_MS = 60 * 1000;
+export const DEFAULT_SESSION_MINUTES = 10;
+export const MIN_SESSION_MINUTES = 1;
+export const MAX_SESSION_MINUTES = 60;
+export const DEFAULT_SESSION_DURATION_MS = DEFAULT_SESSION_MINUTES * SESSION_MINUTE_MS;
+
 // Display durations in milliseconds
-export const DISPLAY_DURATION_STANDARD = 10 * 60 * 1000; // 10 minutes
-export const DISPLAY_DURATION_PRIORITY = 10 * 60 * 1000; // 10 minutes
+export const DISPLAY_DURATION_STANDARD = DEFAULT_SESSION_DURATION_MS;
+export const DISPLAY_DURATION_PRIORITY = DEFAULT_SESSION_DURATION_MS;
 
 // Duplicate address cooldown (2 hours)
 export const DUPLICATE_COOLDOWN_MS = 2 * 60 * 60 * 1000;
@@ -56,6 +65,63 @@ export const PRIORITY_LEVELS = {
 
 export type PriorityLevel = typeof PRIORITY_LEVELS[keyof typeof PRIORITY_LEVELS];
 
+export type PaymentCurrency = "SOL" | "MINSTR";
+
+export interface PaymentTierConfig {
+  id: string;                                  // stored on queue items/transactions
+  label: string;
+  prices: Record<PaymentCurrency, number>;     // exact amount per currency for DEFAULT_SESSION_MINUTES
+  priorityLevel: number;                       // higher plays first (0-9)
+  displayDuration: number;                     // ms on screen at the tier price
+  overridesCooldown: boolean;                  // may queue a token still in duplicate cooldown
+}
+
+// Tier table: drives the payment buttons, payment verification and queue
+// ordering. Keep ids stable; order cheapest first.
+export const PAYMENT_TIERS: PaymentTierConfig[] = [
+  {
+    id: "standard",
+    label: "Standard",
+    prices: { SOL: SOL_STANDARD_PRICE, MINSTR: MINSTR_STANDARD_PRICE },
+    priorityLevel: PRIORITY_LEVELS.STANDARD,
+    displayDuration: DISPLAY_DURATION_STANDARD,
+    overridesCooldown: false,
+  },
+  {
+    id: "priority",
+    label: "Priority",
+    prices: { SOL: SOL_PRIORITY_PRICE, MINSTR: MINSTR_PRIORITY_PRICE },
+    priorityLevel: PRIORITY_LEVELS.PRIORITY,
+    displayDuration: DISPLAY_DURATION_PRIORITY,
+    overridesCooldown: true,
+  },
+];
+
+// Bid mode: any amount at or above the cheapest tier's price is accepted.
+// The payment lands in the best tier it covers, and every extra multiple of
+// that floor moves the item ahead as if it had been queued
+// BID_SENIORITY_MS_PER_FLOOR earlier.
+export const BID_MODE_ENABLED = process.env.NEXT_PUBLIC_BID_MODE_ENABLED === "true";
+export const BID_SENIORITY_MS_PER_FLOOR = 10 * 60 * 1000; // 10 minutes
+
+// Scheduled slots and playlists: a purchase can reserve a start time, and can
+// queue several tokens that play back-to-back under one payment
+export const MAX_PLAYLIST_TOKENS = 5;
+export const SCHEDULE_MIN_LEAD_MS = 15 * 60 * 1000; // longer than PAYMENT_INTENT_TTL_MS, so payment lands first
+export const SCHEDULE_MAX_AHEAD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Payment intents: the server quotes a payment and issues a memo reference
+// the transfer must carry, so a payment can only be claimed by its payer
+export const PAYMENT_INTENT_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const MEMO_PROGRAM_ID = "MemoSq4gqABAXKb96qnH8TysNAJ9sRXEQt6YqYt8gzV";
+export const PAYMENT_MEMO_PREFIX = "mgb:";
+
+// Solana Pay transaction requests: wallets scan a QR code, fetch the transfer
+// from the server, and the server watches the reference key to enqueue
+export const SOLANA_PAY_LABEL = "SessionMint.fun";
+export const SOLANA_PAY_ICON_URL = process.env.SOLANA_PAY_ICON_URL || ""; // absolute SVG/PNG/WebP; defaults to the site logo
+export const SOLANA_PAY_WATCH_GRACE_MS = 2 * 60 * 1000; // keep watching this long past expiry so late payments get refunded
+
 // ============================================
 // HELIUS CONFIGURATION
 // ============================================
@@ -147,6 +213,36 @@ export const HELIUS_WEBHOOK_IPS = [
   "18.223.112.194",
 ];
 
+// ============================================
+// CHART DATA CONFIGURATION
+// ============================================
+
+// Ordered 1m candle provider chain for chart sync (first with data wins)
+// Available: helius (our own swap stream), birdeye, geckoterminal,
+// dexscreener (synthetic fallback), simulated (offline dev, no network)
+export const CHART_CANDLE_PROVIDERS = (
+  process.env.CHART_CANDLE_PROVIDERS || "geckoterminal,dexscreener"
+)
+  .split(",")
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+// Server-side only Birdeye API key (required for the birdeye provider)
+export const BIRDEYE_API_KEY = process.env.BIRDEYE_API_KEY || "";
+
+// Server data (queue, payments, refunds, sessions...): "firestore" (default)
+// or "memory" (single instance, nothing persisted; runs with no network)
+export const DATA_STORE = process.env.DATA_STORE === "memory" ? "memory" : "firestore";
+
+// Chart sync session persistence: "firestore" (default, survives restarts and
+// scale-out) or "memory" (single-instance dev/tests). Follows DATA_STORE when unset.
+export const CHART_SESSION_STORE =
+  (process.env.CHART_SESSION_STORE || DATA_STORE) === "memory" ? "memory" : "firestore";
+
+// Fill the minute between chart-sync ticks with planned motion (ramps,
+// per-mode waveforms, booster sequences). "false" sends one command per tick.
+export const CHART_MOTION_SYNTHESIS = process.env.CHART_MOTION_SYNTHESIS !== "false";
+
 // ============================================
 // DEVICE API CONFIGURATION
 // ============================================
@@ -155,6 +251,37 @@ export const DEVICE_API_URL = process.env.NEXT_PUBLIC_DEVICE_API_URL || "";
 export const DEVICE_API_KEY = process.env.NEXT_PUBLIC_DEVICE_API_KEY || "";
 export const AUTOBLOW_ENABLED = process.env.AUTOBLOW_ENABLED === "true";
 
+// Server-side only Autoblow device token; cluster is optional (auto-discovered)
+export const AUTOBLOW_DEVICE_TOKEN = process.env.AUTOBLOW_DEVICE_TOKEN || "";
+export const AUTOBLOW_CLUSTER = process.env.AUTOBLOW_CLUSTER || "";
+
+// Cluster discovery endpoint; point at scripts/mock-autoblow.mjs for offline dev
+export const AUTOBLOW_API_URL =
+  process.env.AUTOBLOW_API_URL || "https://latency.autoblowapi.com";
+
+// Minimum spacing between motion commands across all callers (stop is exempt)
+export const AUTOBLOW_MIN_COMMAND_INTERVAL_MS =
+  parseInt(process.env.AUTOBLOW_MIN_COMMAND_INTERVAL_MS || "", 10) || 5000;
+export const AUTOBLOW_REQUEST_TIMEOUT_MS = 5000;
+
+// Device drivers that receive chart sync commands (all enabled ones get every command)
+// Available: autoblow, buttplug (Intiface server), http (generic JSON POST)
+export const DEVICE_DRIVERS = (process.env.DEVICE_DRIVERS || "autoblow")
+  .split(",")
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean);
+
+// Simulated driver takes motion plans as uploaded scripts instead of a command stream
+export const SIMULATED_DEVICE_SCRIPT_UPLOAD =
+  process.env.SIMULATED_DEVICE_SCRIPT_UPLOAD === "true";
+
+// Intiface Central/Engine WebSocket for the buttplug driver, e.g. ws://127.0.0.1:12345
+export const INTIFACE_WS_URL = process.env.INTIFACE_WS_URL || "";
+
+// Server-side only endpoint + bearer key for the generic http driver
+export const HTTP_DEVICE_URL = process.env.HTTP_DEVICE_URL || "";
+export const HTTP_DEVICE_API_KEY = process.env.HTTP_DEVICE_API_KEY || "";
+
 // ============================================
 // SECURITY CONFIGURATION
 // ============================================
@@ -166,6 +293,14 @@ export const ADMIN_API_KEY = process.env.ADMIN_API_KEY || "";
 // Cloud Scheduler secret for queue processing
 export const CRON_SECRET = process.env.CRON_SECRET || "";
 
+// Sign-In With Solana: wallets sign a server-issued nonce and get an
+// HMAC-signed session cookie. Production refuses sign-in without
+// SESSION_SECRET; development falls back to a per-instance random key.
+export const SESSION_SECRET = process.env.SESSION_SECRET || "";
+export const SESSION_COOKIE_NAME = "mgb_session";
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+export const SIGN_IN_NONCE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
 // Enable IP verification for webhooks (recommended for production)
 export const VERIFY_WEBHOOK_IP = process.env.VERIFY_WEBHOOK_IP === "true";
 
@@ -62,9 +62,18 @@ export interface QueueItemAdmin {
   priorityLevel: number;
   displayDuration: number;
   addedAt: Timestamp | FieldValue;
-  position: number;
+  orderKey: string;              // lexicographic play order, see queue-keys
   transactionSignature: string;
   userId: string | null;
+  pinnedModeId: number | null;   // chart-sync mode chosen at queue time; null = auto
+  tierId?: string;               // PAYMENT_TIERS id
+  paymentCurrency?: 'SOL' | 'MINSTR';
+  paymentAmount?: number;
+  bidCreditMs?: number;          // bid-mode seniority folded into orderKey
+  scheduledAt?: Timestamp | null;   // reserved start; null = first come, first served
+  playlistId?: string | null;    // items bought together in one payment play back-to-back
+  playlistIndex?: number;
+  playlistSize?: number;
 }
 
 export interface TransactionLogAdmin {
@@ -72,338 +81,12 @@ export interface TransactionLogAdmin {
   tokenMint: string;
   walletAddress: string;
   amount: number;
-  type: 'standard' | 'priority';
+  type: string;                  // PAYMENT_TIERS id
   signature: string;
   timestamp: Timestamp | FieldValue;
   userId: string | null;
   verified: boolean;
-}
-
-// ============================================
-// COLLECTION REFERENCES
-// ============================================
-
-const QUEUE_COLLECTION = 'queue';
-const TRANSACTIONS_COLLECTION = 'transactions';
-const CURRENT_TOKEN_DOC = 'settings/currentToken';
-
-// ============================================
-// QUEUE FUNCTIONS (ADMIN)
-// ============================================
-
-/**
- * Add a new item to the queue (server-side only)
- * Inserts items according to priority level:
- * - Priority 3 (1.0 SOL): Top of queue
- * - Priority 2 (0.5 SOL): After all priority 3, before priority 1
- * - Priority 1 (0.069 SOL): After all priority 2-3, before priority 0
- * - Priority 0 (0.01 SOL): End of queue
- */
-export async function addToQueueAdmin(
-  tokenMint: string,
-  walletAddress: string,
-  isPriority: boolean,
-  priorityLevel: number,
-  displayDuration: number,
-  transactionSignature: string,
-  userId: string | null
-): Promise<string> {
-  const db = getAdminDb();
-  const id = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-  // Get all queue items sorted by current position
-  const queueSnapshot = await db.collection(QUEUE_COLLECTION)
-    .orderBy('position', 'asc')
-    .get();
-
-  const queueItems = queueSnapshot.docs.map(doc => ({
-    id: doc.id,
-    ...doc.data()
-  })) as QueueItemAdmin[];
-
-  // Find insertion position based on priority level
-  let insertPosition = queueItems.length; // Default to end
-  
-  if (isPriority) {
-    // Find the first item with lower priority
-    for (let i = 0; i < queueItems.length; i++) {
-      const item = queueItems[i];
-      const itemPriority = item.priorityLevel || 0;
-      
-      if (itemPriority < priorityLevel) {
-        insertPosition = i;
-        break;
-      }
-    }
-  }
-
-  // Update positions for items after insertion point
-  const batch = db.batch();
-  for (let i = insertPosition; i < queueItems.length; i++) {
-    const item = queueItems[i];
-    batch.update(db.collection(QUEUE_COLLECTION).doc(item.id), {
-      position: i + 1
-    });
-  }
-
-  // Create the new queue item
-  const queueItem: QueueItemAdmin = {
-    id,
-    tokenMint,
-    walletAddress,
-    expiresAt: null,
-    isPriority,
-    priorityLevel,
-    displayDuration,
-    addedAt: FieldValue.serverTimestamp(),
-    position: insertPosition,
-    transactionSignature,
-    userId,
-  };
-
-  batch.set(db.collection(QUEUE_COLLECTION).doc(id), queueItem);
-  await batch.commit();
-
-  return id;
-}
-
-/**
- * Set the current token being displayed (for priority takeover)
- */
-export async function setCurrentTokenAdmin(
-  tokenMint: string,
-  queueItemId: string | null,
-  expiresAt: Date | null,
-  isPriority: boolean,
-  priorityLevel: number,
-  displayDuration: number,
-  walletAddress: string | null
-): Promise<void> {
-  const db = getAdminDb();
-
-  await db.doc(CURRENT_TOKEN_DOC).set({
-    tokenMint,
-    queueItemId,
-    expiresAt: expiresAt ? Timestamp.fromDate(expiresAt) : null,
-    isPriority,
-    priorityLevel,
-    displayDuration,
-    walletAddress,
-    updatedAt: FieldValue.serverTimestamp(),
-  });
-}
-
-/**
- * Log a verified transaction (server-side only)
- */
-export async function logTransactionAdmin(
-  tokenMint: string,
-  walletAddress: string,
-  amount: number,
-  type: 'standard' | 'priority',
-  signature: string,
-  userId: string | null,
-  verified: boolean
-): Promise<void> {
-  const db = getAdminDb();
-  const id = `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-  const transaction: TransactionLogAdmin = {
-    id,
-    tokenMint,
-    walletAddress,
-    amount,
-    type,
-    signature,
-    timestamp: FieldValue.serverTimestamp(),
-    userId,
-    verified,
-  };
-
-  await db.collection(TRANSACTIONS_COLLECTION).doc(id).set(transaction);
-}
-
-/**
- * Check if a transaction signature has already been used
- */
-export async function isSignatureUsed(signature: string): Promise<boolean> {
-  const db = getAdminDb();
-  const snapshot = await db
-    .collection(TRANSACTIONS_COLLECTION)
-    .where('signature', '==', signature)
-    .limit(1)
-    .get();
-
-  return !snapshot.empty;
-}
-
-/**
- * Check if a token address was recently used (within cooldown period)
- * Returns the time remaining in milliseconds, or 0 if not in cooldown
- */
-export async function checkDuplicateCooldown(
-  tokenMint: string,
-  cooldownMs: number
-): Promise<{ inCooldown: boolean; remainingMs: number; lastUsedAt: Date | null }> {
-  const db = getAdminDb();
-  const cutoffTime = Timestamp.fromMillis(Date.now() - cooldownMs);
-
-  // Check current token and recent queue items
-  const [currentTokenDoc, recentQueueSnapshot] = await Promise.all([
-    db.doc(CURRENT_TOKEN_DOC).get(),
-    db.collection(QUEUE_COLLECTION)
-      .where('tokenMint', '==', tokenMint)
-      .where('addedAt', '>', cutoffTime)
-      .orderBy('addedAt', 'desc')
-      .limit(1)
-      .get()
-  ]);
-
-  // Check transactions separately (may need index, handle gracefully)
-  let recentTxSnapshot: FirebaseFirestore.QuerySnapshot | null = null;
-  try {
-    recentTxSnapshot = await db.collection(TRANSACTIONS_COLLECTION)
-      .where('tokenMint', '==', tokenMint)
-      .where('verified', '==', true)
-      .where('timestamp', '>', cutoffTime)
-      .orderBy('timestamp', 'desc')
-      .limit(1)
-      .get();
-  } catch (indexError) {
-    console.warn('[Cooldown] Transaction index query failed, falling back:', indexError);
-    // Fallback: simpler query without timestamp filter
-    try {
-      const allTxForToken = await db.collection(TRANSACTIONS_COLLECTION)
-        .where('tokenMint', '==', tokenMint)
-        .where('verified', '==', true)
-        .orderBy('timestamp', 'desc')
-        .limit(1)
-        .get();
-      if (!allTxForToken.empty) {
-        const txData = allTxForToken.docs[0].data();
-        const txTime = (txData.timestamp as Timestamp)?.toMillis();
-        if (txTime && txTime > cutoffTime.toMillis()) {
-          recentTxSnapshot = allTxForToken;
-        }
-      }
-    } catch (fallbackError) {
-      console.warn('[Cooldown] Fallback query also failed:', fallbackError);
-    }
-  }
-
-  // Check if currently displaying this token
-  const currentData = currentTokenDoc.data();
-  if (currentData && currentData.tokenMint === tokenMint && currentData.queueItemId) {
-    const expiresAt = currentData.expiresAt as Timestamp | null;
-    if (expiresAt && expiresAt.toMillis() > Date.now()) {
-      const remainingMs = expiresAt.toMillis() - Date.now();
-      return {
-        inCooldown: true,
-        remainingMs: remainingMs + cooldownMs, // Add cooldown after display ends
-        lastUsedAt: new Date()
-      };
-    }
-  }
-
-  // Check recent queue items
-  if (!recentQueueSnapshot.empty) {
-    const recentItem = recentQueueSnapshot.docs[0].data();
-    const addedAt = (recentItem.addedAt as Timestamp).toMillis();
-    const timeSinceAdded = Date.now() - addedAt;
-    const remainingMs = cooldownMs - timeSinceAdded;
-
-    if (remainingMs > 0) {
-      return {
-        inCooldown: true,
-        remainingMs,
-        lastUsedAt: new Date(addedAt)
-      };
-    }
-  }
-
-  // Check recent transactions (covers tokens that were displayed and removed from queue)
-  if (recentTxSnapshot && !recentTxSnapshot.empty) {
-    const recentTx = recentTxSnapshot.docs[0].data();
-    const txTime = (recentTx.timestamp as Timestamp).toMillis();
-    const timeSinceTx = Date.now() - txTime;
-    const remainingMs = cooldownMs - timeSinceTx;
-
-    if (remainingMs > 0) {
-      return {
-        inCooldown: true,
-        remainingMs,
-        lastUsedAt: new Date(txTime)
-      };
-    }
-  }
-
-  return { inCooldown: false, remainingMs: 0, lastUsedAt: null };
-}
-
-// ============================================
-// DEVICE SESSION FUNCTIONS
-// ============================================
-
-const DEVICE_SESSION_DOC = 'settings/deviceSession';
-
-/**
- * Update the current device session/mode info
- */
-export async function updateDeviceSession(
-  tokenMint: string,
-  modeId: number,
-  modeName: string,
-  speed: number,
-  amplitude: number
-): Promise<void> {
-  const db = getAdminDb();
-
-  await db.doc(DEVICE_SESSION_DOC).set({
-    tokenMint,
-    modeId,
-    modeName,
-    speed,
-    amplitude,
-    updatedAt: FieldValue.serverTimestamp(),
-  }, { merge: true });
-}
-
-/**
- * Get the current device session info
- */
-export async function getDeviceSession(): Promise<{
-  tokenMint: string;
-  modeId: number;
-  modeName: string;
-  speed: number;
-  amplitude: number;
-  updatedAt: Date;
-} | null> {
-  const db = getAdminDb();
-  const doc = await db.doc(DEVICE_SESSION_DOC).get();
-
-  if (!doc.exists) return null;
-
-  const data = doc.data();
-  if (!data) return null;
-
-  return {
-    tokenMint: data.tokenMint,
-    modeId: data.modeId,
-    modeName: data.modeName,
-    speed: data.speed,
-    amplitude: data.amplitude,
-    updatedAt: data.updatedAt?.toDate() || new Date(),
-  };
-}
-
-/**
- * Clear the device session (when token expires or resets to default)
- */
-export async function clearDeviceSession(): Promise<void> {
-  const db = getAdminDb();
-  await db.doc(DEVICE_SESSION_DOC).delete();
-  console.log('[Firebase] Device session cleared');
+  currency?: 'SOL' | 'MINSTR' | null;   // absent on entries logged before it was stored
 }
 
 export { getAdminDb, Timestamp, FieldValue };
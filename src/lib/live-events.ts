@@ -0,0 +1,59 @@
+import type { DeviceCommand } from '@/lib/chartSync/types';
+
+// ============================================
+// LIVE EVENTS
+// ============================================
+// Public feed at /api/events/stream of what is happening as it happens:
+// trades on the tracked token, chart-sync tick results and queue
+// transitions. Anyone can read it (overlays, bots), so wallets are shortened.
+
+export interface TradeLiveEvent {
+  type: 'trade';
+  id: string;
+  at: number;
+  tokenMint: string;
+  side: 'BUY' | 'SELL';
+  amount: number;        // token amount
+  priceInSol: number;    // SOL moved by the swap
+  wallet: string;        // shortened
+  signature: string;
+}
+
+export interface TickLiveEvent {
+  type: 'tick';
+  id: string;
+  at: number;
+  tokenMint: string;
+  sessionId: string;
+  modeId: number;
+  mode: string;
+  style: string | null;
+  intensity: number;
+  booster: string | null;   // booster pattern name, null when off
+  limited: boolean;         // safety pipeline clamped the output
+  command: DeviceCommand;
+}
+
+export interface QueueLiveEvent {
+  type: 'queue';
+  id: string;
+  at: number;
+  transition: 'queued' | 'started' | 'extended';
+  tokenMint: string;
+  queueItemId: string | null;   // null when the default token starts showing
+  wallet: string | null;        // shortened
+  priorityLevel: number;
+  displayDuration: number;
+  scheduledAt: number | null;   // reserved start
+  expiresAt: number | null;     // started / extended only
+  playlistIndex: number;
+  playlistSize: number;
+}
+
+export type LiveEvent = TradeLiveEvent | TickLiveEvent | QueueLiveEvent;
+
+export const LIVE_EVENT_TYPES: LiveEvent['type'][] = ['trade', 'tick', 'queue'];
+
+export function shortenWallet(wallet: string): string {
+  return wallet.length > 8 ? `${wallet.slice(0, 4)}...${wallet.slice(-4)}` : wallet;
+}
@@ -0,0 +1,104 @@
+// ============================================
+// OVERLAY THEME
+// ============================================
+// OBS browser sources are configured by URL, so every overlay takes its
+// look from query params and turns them into CSS variables:
+//
+//   accent, text, muted, bg, buy, sell   colors: hex without '#' (39ff14),
+//                                        a CSS color name, or 'transparent'
+//   font                                 font family name
+//   scale                                size multiplier, 0.5 - 4
+//   radius                               panel corner radius in px, 0 - 48
+//   align                                left | center | right
+//
+// Anything that doesn't parse is ignored, so a bad param can't break the
+// layout or inject CSS.
+
+export type OverlaySearchParams = Record<string, string | string[] | undefined>;
+
+const COLOR_PARAMS = {
+  accent: '--overlay-accent',
+  text: '--overlay-text',
+  muted: '--overlay-muted',
+  bg: '--overlay-bg',
+  buy: '--overlay-buy',
+  sell: '--overlay-sell',
+} as const;
+
+function param(params: OverlaySearchParams, name: string): string | null {
+  const value = params[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first ? first.trim() : null;
+}
+
+function parseColor(value: string): string | null {
+  if (/^[0-9a-f]{3,8}$/i.test(value) && [3, 4, 6, 8].includes(value.length)) {
+    return `#${value}`;
+  }
+  return /^[a-z]{3,20}$/i.test(value) ? value.toLowerCase() : null;
+}
+
+function parseNumber(value: string | null, min: number, max: number): number | null {
+  if (value === null) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : null;
+}
+
+/**
+ * CSS variables for an overlay's root element
+ */
+export function parseOverlayTheme(params: OverlaySearchParams): Record<string, string> {
+  const theme: Record<string, string> = {};
+
+  for (const [name, variable] of Object.entries(COLOR_PARAMS)) {
+    const value = param(params, name);
+    const color = value ? parseColor(value) : null;
+    if (color) theme[variable] = color;
+  }
+
+  const font = param(params, 'font');
+  if (font && /^[\w -]{1,40}$/.test(font)) {
+    theme['--overlay-font'] = `'${font}', 'Inter', system-ui, sans-serif`;
+  }
+
+  const scale = parseNumber(param(params, 'scale'), 0.5, 4);
+  if (scale !== null) theme['--overlay-scale'] = String(scale);
+
+  const radius = parseNumber(param(params, 'radius'), 0, 48);
+  if (radius !== null) theme['--overlay-radius'] = `${radius}px`;
+
+  const align = param(params, 'align');
+  if (align === 'left' || align === 'center' || align === 'right') {
+    theme['--overlay-align'] = align;
+    theme['--overlay-justify'] = align === 'left' ? 'flex-start' : align === 'right' ? 'flex-end' : 'center';
+  }
+
+  return theme;
+}
+
+/**
+ * Integer query param clamped to [min, max], or `fallback`
+ */
+export function parseOverlayInt(
+  params: OverlaySearchParams,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const value = parseNumber(param(params, name), min, max);
+  return value === null ? fallback : Math.floor(value);
+}
+
+/**
+ * Number query param clamped to [min, max], or `fallback`
+ */
+export function parseOverlayNumber(
+  params: OverlaySearchParams,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  return parseNumber(param(params, name), min, max) ?? fallback;
+}
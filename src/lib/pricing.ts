@@ -0,0 +1,226 @@
+import {
+  BID_MODE_ENABLED,
+  BID_SENIORITY_MS_PER_FLOOR,
+  DEFAULT_SESSION_MINUTES,
+  MAX_SESSION_MINUTES,
+  MIN_SESSION_MINUTES,
+  PAYMENT_TIERS,
+  PaymentCurrency,
+  PaymentTierConfig,
+} from '@/lib/constants';
+
+// ============================================
+// PAYMENT TIERS
+// ============================================
+// Helpers over PAYMENT_TIERS shared by the payment UI and server-side
+// verification, so both always agree on what an amount buys. Tier prices
+// buy DEFAULT_SESSION_MINUTES; other lengths scale per minute.
+
+// Received amounts within this of a quote count as that quote. Tight enough
+// that one minute less (0.001 SOL at standard) never passes.
+const PRICE_TOLERANCE: Record<PaymentCurrency, number> = {
+  SOL: 0.00001,
+  MINSTR: 0.000001,
+};
+
+export const PAYMENT_CURRENCIES: PaymentCurrency[] = ['SOL', 'MINSTR'];
+
+export interface ResolvedPayment {
+  tier: PaymentTierConfig;
+  currency: PaymentCurrency;
+  amount: number;
+  minutes: number;
+  durationMs: number;       // display and device session length
+  isBid: boolean;
+  bidCreditMs: number;      // queue seniority bought above the tier price
+}
+
+export function getPaymentTier(id: string): PaymentTierConfig | undefined {
+  return PAYMENT_TIERS.find((tier) => tier.id === id);
+}
+
+/**
+ * Whole minutes within the purchasable range, or null
+ */
+export function parseSessionMinutes(value: unknown): number | null {
+  const minutes = value === undefined || value === null || value === '' ? DEFAULT_SESSION_MINUTES : Number(value);
+  if (!Number.isInteger(minutes) || minutes < MIN_SESSION_MINUTES || minutes > MAX_SESSION_MINUTES) {
+    return null;
+  }
+  return minutes;
+}
+
+/**
+ * Price of `minutes` in a tier. SOL rounds to micro-SOL; MINSTR is paid in
+ * whole tokens so it rounds up.
+ */
+export function quotePrice(
+  tier: PaymentTierConfig,
+  currency: PaymentCurrency,
+  minutes: number = DEFAULT_SESSION_MINUTES
+): number {
+  const raw = (tier.prices[currency] * minutes) / DEFAULT_SESSION_MINUTES;
+  return currency === 'SOL' ? Math.round(raw * 1e6) / 1e6 : Math.ceil(raw - PRICE_TOLERANCE.MINSTR);
+}
+
+/**
+ * Price of a playlist: `count` tokens, `minutes` each, bought in one payment
+ */
+export function quotePlaylist(
+  tier: PaymentTierConfig,
+  currency: PaymentCurrency,
+  minutes: number,
+  count: number
+): number {
+  const total = quotePrice(tier, currency, minutes) * count;
+  return currency === 'SOL' ? Math.round(total * 1e6) / 1e6 : total;
+}
+
+export function getTierDuration(tier: PaymentTierConfig, minutes: number = DEFAULT_SESSION_MINUTES): number {
+  return Math.round((tier.displayDuration * minutes) / DEFAULT_SESSION_MINUTES);
+}
+
+function getCheapestTier(): PaymentTierConfig {
+  return [...PAYMENT_TIERS].sort((a, b) => a.prices.SOL - b.prices.SOL)[0];
+}
+
+/**
+ * Cheapest accepted amount in a currency (the bid floor)
+ */
+export function getFloorPrice(currency: PaymentCurrency, minutes: number = DEFAULT_SESSION_MINUTES): number {
+  return quotePrice(getCheapestTier(), currency, minutes);
+}
+
+/**
+ * Extending the showing token is priced at the cheapest tier's minute rate
+ */
+export function quoteExtension(currency: PaymentCurrency, minutes: number): number {
+  return getFloorPrice(currency, minutes);
+}
+
+export function matchesQuote(currency: PaymentCurrency, amount: number, quote: number): boolean {
+  return Math.abs(amount - quote) < PRICE_TOLERANCE[currency];
+}
+
+/**
+ * Cheapest tier that may queue a token still in duplicate cooldown
+ */
+export function getCooldownOverrideTier(): PaymentTierConfig | undefined {
+  return PAYMENT_TIERS
+    .filter((tier) => tier.overridesCooldown)
+    .sort((a, b) => a.prices.SOL - b.prices.SOL)[0];
+}
+
+/**
+ * Map a received amount to what it buys. Exact tier prices always match;
+ * with bid mode on, anything at or above the floor is a bid in the best tier
+ * it covers. Returns null when the amount buys nothing.
+ */
+export function resolvePayment(
+  currency: PaymentCurrency,
+  amount: number,
+  minutes: number = DEFAULT_SESSION_MINUTES,
+  bidMode: boolean = BID_MODE_ENABLED
+): ResolvedPayment | null {
+  const tolerance = PRICE_TOLERANCE[currency];
+
+  const exact = PAYMENT_TIERS.find((tier) => matchesQuote(currency, amount, quotePrice(tier, currency, minutes)));
+  if (exact) {
+    return {
+      tier: exact,
+      currency,
+      amount: quotePrice(exact, currency, minutes),
+      minutes,
+      durationMs: getTierDuration(exact, minutes),
+      isBid: false,
+      bidCreditMs: 0,
+    };
+  }
+
+  const floor = getFloorPrice(currency, minutes);
+  if (!bidMode || amount < floor - tolerance) {
+    return null;
+  }
+
+  const covered = PAYMENT_TIERS
+    .filter((tier) => quotePrice(tier, currency, minutes) <= amount + tolerance)
+    .sort((a, b) => b.priorityLevel - a.priorityLevel)[0];
+  const surplus = Math.max(0, amount - quotePrice(covered, currency, minutes));
+
+  return {
+    tier: covered,
+    currency,
+    amount,
+    minutes,
+    durationMs: getTierDuration(covered, minutes),
+    isBid: true,
+    bidCreditMs: Math.round((surplus / floor) * BID_SENIORITY_MS_PER_FLOOR),
+  };
+}
+
+/**
+ * What a payment quoted for `tierId` buys. The tier was fixed when the price
+ * was quoted, so it isn't re-derived from the amount; bids are, as that is
+ * how they were quoted. Returns null for an unknown tier or a bid that no
+ * longer clears the floor.
+ */
+export function resolveQuotedPayment(
+  tierId: string,
+  currency: PaymentCurrency,
+  amount: number,
+  minutes: number = DEFAULT_SESSION_MINUTES
+): ResolvedPayment | null {
+  if (tierId === 'bid') {
+    return resolvePayment(currency, amount, minutes);
+  }
+  const tier = getPaymentTier(tierId);
+  if (!tier) {
+    return null;
+  }
+  return {
+    tier,
+    currency,
+    amount,
+    minutes,
+    durationMs: getTierDuration(tier, minutes),
+    isBid: false,
+    bidCreditMs: 0,
+  };
+}
+
+export function formatPrice(currency: PaymentCurrency, amount: number): string {
+  return currency === 'SOL' ? `${amount} SOL` : `${amount.toLocaleString()} ${currency}`;
+}
+
+/**
+ * Human-readable list of accepted payments for error messages
+ */
+export function describeAcceptedPayments(
+  minutes: number = DEFAULT_SESSION_MINUTES,
+  bidMode: boolean = BID_MODE_ENABLED
+): string {
+  const exact = PAYMENT_TIERS.flatMap((tier) =>
+    PAYMENT_CURRENCIES.map((currency) => formatPrice(currency, quotePrice(tier, currency, minutes)))
+  );
+  const bids = bidMode
+    ? `, or a bid of at least ${PAYMENT_CURRENCIES.map((currency) => formatPrice(currency, getFloorPrice(currency, minutes))).join(' / ')}`
+    : '';
+  return `${exact.join(', ')}${bids} for ${minutes} min`;
+}
+
+/**
+ * Cooldown-override prices for error responses, plus a sentence for messages
+ */
+export function describeCooldownOverride(): {
+  overrideOptions: { sol: number; minstr: number } | null;
+  hint: string;
+} {
+  const tier = getCooldownOverrideTier();
+  if (!tier) {
+    return { overrideOptions: null, hint: '' };
+  }
+  return {
+    overrideOptions: { sol: tier.prices.SOL, minstr: tier.prices.MINSTR },
+    hint: `or use ${tier.label.toLowerCase()} payment (${formatPrice('SOL', tier.prices.SOL)} or ${formatPrice('MINSTR', tier.prices.MINSTR)})`,
+  };
+}
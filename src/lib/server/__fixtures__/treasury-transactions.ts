@@ -0,0 +1,168 @@
+import {
+  ConfirmedTransactionMeta,
+  PublicKey,
+  SystemProgram,
+  TokenBalance,
+  Transaction,
+  TransactionError,
+  TransactionInstruction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import { createTransferCheckedInstruction, getAssociatedTokenAddressSync, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { MINSTR_MINT, TREASURY_WALLET } from '@/lib/constants';
+
+// ============================================
+// TREASURY TRANSACTION FIXTURES
+// ============================================
+// getTransaction responses for the kinds of transaction the treasury sees.
+// They are built here, not recorded from a cluster: real transfer and memo
+// instructions are compiled into a legacy message as a wallet would, and the
+// meta carries the balance changes the RPC reports for them. Signatures are
+// readable placeholders named after the fixture.
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNAJ9sRXEQt6YqYt8gzV');
+const BLOCKHASH = 'EkSnNWid2cvwEVnVx9aBqawnmiCNiDgp3gUdkDPTKN1N';
+const FEE_LAMPORTS = 5000;
+const RENT_EXEMPT_LAMPORTS = 1_461_600;   // balance of every account a fixture doesn't list
+const MINSTR_DECIMALS = 6;
+
+// Block time of every fixture, in seconds as the RPC reports it
+const FIXTURE_BLOCK_TIME = 1_760_000_000;
+
+const PAYER = new PublicKey('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU');
+const treasury = new PublicKey(TREASURY_WALLET);
+const mint = new PublicKey(MINSTR_MINT);
+const payerTokenAccount = getAssociatedTokenAddressSync(mint, PAYER);
+const treasuryTokenAccount = getAssociatedTokenAddressSync(mint, treasury);
+
+interface TransactionSpec {
+  feePayer: PublicKey;
+  instructions: TransactionInstruction[];
+  lamports: Array<[PublicKey, number, number]>;                 // account, pre and post balance
+  tokens?: Array<[PublicKey, PublicKey, number, number]>;       // MINSTR account, owner, pre and post raw amount
+  err?: TransactionError;
+}
+
+function memo(text: string): TransactionInstruction {
+  return new TransactionInstruction({ programId: MEMO_PROGRAM_ID, keys: [], data: Buffer.from(text, 'utf8') });
+}
+
+function solTransfer(from: PublicKey, to: PublicKey, lamports: number): TransactionInstruction {
+  return SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports });
+}
+
+function tokenBalance(accountIndex: number, owner: PublicKey, amount: number): TokenBalance {
+  const uiAmount = amount / 10 ** MINSTR_DECIMALS;
+  return {
+    accountIndex,
+    mint: mint.toBase58(),
+    owner: owner.toBase58(),
+    programId: TOKEN_PROGRAM_ID.toBase58(),
+    uiTokenAmount: { amount: String(amount), decimals: MINSTR_DECIMALS, uiAmount, uiAmountString: String(uiAmount) },
+  };
+}
+
+function buildTransaction(signature: string, spec: TransactionSpec): VersionedTransactionResponse {
+  const message = new Transaction({ feePayer: spec.feePayer, recentBlockhash: BLOCKHASH })
+    .add(...spec.instructions)
+    .compileMessage();
+  const keys = message.accountKeys.map((key) => key.toBase58());
+
+  const balances = (side: 1 | 2) =>
+    keys.map((key) => {
+      const listed = spec.lamports.find(([account]) => account.toBase58() === key);
+      return listed ? listed[side] : RENT_EXEMPT_LAMPORTS;
+    });
+  const tokenBalances = (side: 2 | 3) =>
+    (spec.tokens ?? []).map((entry) => tokenBalance(keys.indexOf(entry[0].toBase58()), entry[1], entry[side]));
+
+  const meta: ConfirmedTransactionMeta = {
+    fee: FEE_LAMPORTS,
+    innerInstructions: [],
+    preBalances: balances(1),
+    postBalances: balances(2),
+    logMessages: [],
+    preTokenBalances: tokenBalances(2),
+    postTokenBalances: tokenBalances(3),
+    err: spec.err ?? null,
+    loadedAddresses: { readonly: [], writable: [] },
+  };
+  return {
+    slot: 331_245_100,
+    blockTime: FIXTURE_BLOCK_TIME,
+    transaction: { message, signatures: [signature] },
+    meta,
+    version: 'legacy',
+  };
+}
+
+const FIXTURES = {
+  // 0.01 SOL for intent 5f1c2e9a7b3d4c6e8f0a1b2c
+  solPaymentWithMemo: (): TransactionSpec => ({
+    feePayer: PAYER,
+    instructions: [solTransfer(PAYER, treasury, 10_000_000), memo('mgb:5f1c2e9a7b3d4c6e8f0a1b2c')],
+    lamports: [
+      [PAYER, 2_000_000_000, 1_989_995_000],
+      [treasury, 500_000_000, 510_000_000],
+    ],
+  }),
+  // 0.04 SOL sent by hand, with no intent
+  solPaymentWithoutMemo: (): TransactionSpec => ({
+    feePayer: PAYER,
+    instructions: [solTransfer(PAYER, treasury, 40_000_000)],
+    lamports: [
+      [PAYER, 2_000_000_000, 1_959_995_000],
+      [treasury, 510_000_000, 550_000_000],
+    ],
+  }),
+  // 10,000 MINSTR for intent 0d9e8f7a6b5c4d3e2f1a0b9c
+  minstrPaymentWithMemo: (): TransactionSpec => ({
+    feePayer: PAYER,
+    instructions: [
+      createTransferCheckedInstruction(
+        payerTokenAccount,
+        mint,
+        treasuryTokenAccount,
+        PAYER,
+        10_000_000_000,
+        MINSTR_DECIMALS
+      ),
+      memo('mgb:0d9e8f7a6b5c4d3e2f1a0b9c'),
+    ],
+    lamports: [[PAYER, 2_000_000_000, 1_999_995_000]],
+    tokens: [
+      [payerTokenAccount, PAYER, 50_000_000_000, 40_000_000_000],
+      [treasuryTokenAccount, treasury, 120_000_000_000, 130_000_000_000],
+    ],
+  }),
+  // A refund paid out of the treasury
+  outgoingRefund: (): TransactionSpec => ({
+    feePayer: treasury,
+    instructions: [solTransfer(treasury, PAYER, 10_000_000)],
+    lamports: [
+      [treasury, 550_000_000, 539_995_000],
+      [PAYER, 1_959_995_000, 1_969_995_000],
+    ],
+  }),
+  // A payment that failed on-chain: only the fee moved
+  failedPayment: (): TransactionSpec => ({
+    feePayer: PAYER,
+    instructions: [solTransfer(PAYER, treasury, 10_000_000), memo('mgb:5f1c2e9a7b3d4c6e8f0a1b2c')],
+    lamports: [
+      [PAYER, 2_000_000_000, 1_999_995_000],
+      [treasury, 500_000_000, 500_000_000],
+    ],
+    err: { InstructionError: [0, { Custom: 1 }] },
+  }),
+};
+
+export type TreasuryFixture = keyof typeof FIXTURES;
+
+export function fixtureSignature(name: TreasuryFixture): string {
+  return `${name}-signature`;
+}
+
+/** A fresh getTransaction response for one fixture */
+export function treasuryTransaction(name: TreasuryFixture): VersionedTransactionResponse {
+  return buildTransaction(fixtureSignature(name), FIXTURES[name]());
+}
@@ -0,0 +1,251 @@
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { PublicKey } from '@solana/web3.js';
+import {
+  ADMIN_API_KEY,
+  CRON_SECRET,
+  SESSION_COOKIE_NAME,
+  SESSION_SECRET,
+  SESSION_TTL_MS,
+  SIGN_IN_NONCE_TTL_MS,
+} from '@/lib/constants';
+import { getDataStore } from './storage';
+
+// ============================================
+// SIGN-IN WITH SOLANA
+// ============================================
+// 1. POST /api/auth/nonce: the server stores a single-use nonce and the exact
+//    sign-in message for that wallet.
+// 2. The wallet signs the message; POST /api/auth/session checks the ed25519
+//    signature against the wallet's public key and consumes the nonce.
+// 3. The session is an HttpOnly cookie `<payload>.<hmac>`, so routes can tell
+//    who is calling without a database read.
+
+// DER prefix that turns a raw 32-byte ed25519 key into SPKI
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface WalletSession {
+  walletAddress: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface SignInNonce {
+  nonce: string;              // also the record id
+  walletAddress: string;
+  message: string;            // exactly what the wallet must sign
+  expiresAt: number;
+  used: boolean;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, readonly status: number = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+declare global {
+  var __machineGoBrrrSessionSecret: string | undefined;
+}
+
+/**
+ * Key session cookies are signed with. Without SESSION_SECRET development
+ * falls back to a per-instance random key; production has no sessions at
+ * all, as cookies from one instance would fail on the next.
+ */
+function getSessionSecret(): string | null {
+  if (SESSION_SECRET) return SESSION_SECRET;
+  if (process.env.NODE_ENV === 'production') return null;
+  if (!globalThis.__machineGoBrrrSessionSecret) {
+    console.warn('[Auth] SESSION_SECRET not set; sessions will only be valid on this instance');
+    globalThis.__machineGoBrrrSessionSecret = randomBytes(32).toString('hex');
+  }
+  return globalThis.__machineGoBrrrSessionSecret;
+}
+
+function requireSessionSecret(): string {
+  const secret = getSessionSecret();
+  if (!secret) {
+    console.error('[Auth] SESSION_SECRET not set; wallet sign-in is disabled');
+    throw new AuthError('Wallet sign-in is not configured', 503);
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Sign-in text in the Sign-In With Solana layout wallets know how to display
+ */
+export function buildSignInMessage(
+  origin: string,
+  walletAddress: string,
+  nonce: string,
+  issuedAt: number,
+  expiresAt: number
+): string {
+  const domain = new URL(origin).host;
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    walletAddress,
+    '',
+    'Sign in to SessionMint.fun. This does not move any funds.',
+    '',
+    `URI: ${origin}`,
+    'Version: 1',
+    'Chain ID: mainnet',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+    `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+export async function createSignInNonce(
+  walletAddress: string,
+  origin: string,
+  now: number = Date.now()
+): Promise<{ nonce: string; message: string; expiresAt: number }> {
+  requireSessionSecret();
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = now + SIGN_IN_NONCE_TTL_MS;
+  const message = buildSignInMessage(origin, walletAddress, nonce, now, expiresAt);
+
+  const record: SignInNonce = { nonce, walletAddress, message, expiresAt, used: false };
+  await getDataStore().signInNonces.create(record);
+  return { nonce, message, expiresAt };
+}
+
+export function verifyWalletSignature(walletAddress: string, message: string, signature: Uint8Array): boolean {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, new PublicKey(walletAddress).toBuffer()]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a signed sign-in message and consume its nonce; throws AuthError
+ */
+export async function completeSignIn(
+  walletAddress: string,
+  nonce: string,
+  signature: Uint8Array,
+  now: number = Date.now()
+): Promise<WalletSession> {
+  requireSessionSecret();
+  if (!/^[0-9a-f]{32}$/.test(nonce)) {
+    throw new AuthError('Unknown sign-in nonce', 400);
+  }
+
+  await getDataStore().signInNonces.update(nonce, (record) => {
+    if (!record || record.used || record.walletAddress !== walletAddress) {
+      throw new AuthError('Unknown sign-in nonce', 400);
+    }
+    if (record.expiresAt <= now) {
+      throw new AuthError('Sign-in request expired, please try again', 400);
+    }
+    if (!verifyWalletSignature(walletAddress, record.message, signature)) {
+      throw new AuthError('Signature does not match this wallet');
+    }
+    return { changes: { used: true }, result: undefined };
+  });
+
+  return { walletAddress, issuedAt: now, expiresAt: now + SESSION_TTL_MS };
+}
+
+// ============================================
+// SESSION COOKIE
+// ============================================
+
+export function encodeSession(session: WalletSession): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload, requireSessionSecret())}`;
+}
+
+export function decodeSession(value: string | undefined, now: number = Date.now()): WalletSession | null {
+  const secret = getSessionSecret();
+  if (!value || !secret) return null;
+  const [payload, mac] = value.split('.');
+  if (!payload || !mac) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(mac);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as WalletSession;
+    return typeof session.walletAddress === 'string' && session.expiresAt > now ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getWalletSession(request: NextRequest): WalletSession | null {
+  return decodeSession(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+export function setSessionCookie(response: NextResponse, session: WalletSession): void {
+  response.cookies.set(SESSION_COOKIE_NAME, encodeSession(session), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: new Date(session.expiresAt),
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', { httpOnly: true, path: '/', maxAge: 0 });
+}
+
+// ============================================
+// ROUTE GUARDS
+// ============================================
+
+/**
+ * Server-to-server calls (settlement, the treasury watcher) authenticate with
+ * the cron secret or admin key instead of a wallet session. With neither
+ * configured only development accepts them; production fails closed.
+ */
+export function isInternalRequest(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization');
+  if (CRON_SECRET && authHeader === `Bearer ${CRON_SECRET}`) return true;
+  if (ADMIN_API_KEY && authHeader === `Bearer ${ADMIN_API_KEY}`) return true;
+  if (ADMIN_API_KEY || CRON_SECRET) return false;
+  return process.env.NODE_ENV !== 'production' && authHeader === 'Bearer internal';
+}
+
+export function internalAuthHeaders(): Record<string, string> {
+  const token = CRON_SECRET || ADMIN_API_KEY || 'internal';
+  return { Authorization: `Bearer ${token}` };
+}
+
+/**
+ * 401 response unless the caller is signed in as `walletAddress` (or is the
+ * server itself); null when the request may proceed
+ */
+export function requireWallet(request: NextRequest, walletAddress: string): NextResponse | null {
+  if (isInternalRequest(request)) return null;
+
+  const session = getWalletSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Sign in with your wallet first', code: 'SIGN_IN_REQUIRED' }, { status: 401 });
+  }
+  if (session.walletAddress !== walletAddress) {
+    return NextResponse.json(
+      { error: 'Signed in as a different wallet', code: 'SIGN_IN_REQUIRED' },
+      { status: 403 }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,284 @@
+import {
+  AUTOBLOW_API_URL,
+  AUTOBLOW_CLUSTER,
+  AUTOBLOW_DEVICE_TOKEN,
+  AUTOBLOW_MIN_COMMAND_INTERVAL_MS,
+  AUTOBLOW_REQUEST_TIMEOUT_MS,
+} from '@/lib/constants';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AutoblowOscillateCommand {
+  speed: number;
+  minY: number;
+  maxY: number;
+}
+
+export type AutoblowResult =
+  | { ok: true; data: Record<string, unknown> }
+  | { ok: false; skipped: true; reason: 'rate_limited'; retryAfterMs: number }
+  | { ok: false; skipped: false; error: string };
+
+interface AutoblowConnectedResponse {
+  connected: boolean;
+  cluster: string;
+}
+
+interface AutoblowClientOptions {
+  deviceToken: string;
+  cluster?: string;
+  latencyApiUrl?: string;
+  timeoutMs?: number;
+  governor: CommandGovernor;
+}
+
+// ============================================
+// COMMAND GOVERNOR
+// ============================================
+
+/**
+ * Minimum spacing between motion commands, shared by every caller in the
+ * instance so webhook, tick and admin routes can't stack commands on the device.
+ * Stop commands are never throttled.
+ */
+export class CommandGovernor {
+  private lastCommandAt = 0;
+
+  constructor(private readonly minIntervalMs: number) {}
+
+  tryAcquire(now: number = Date.now()): { allowed: boolean; retryAfterMs: number } {
+    const elapsed = now - this.lastCommandAt;
+    if (elapsed < this.minIntervalMs) {
+      return { allowed: false, retryAfterMs: this.minIntervalMs - elapsed };
+    }
+    this.lastCommandAt = now;
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  record(now: number = Date.now()): void {
+    this.lastCommandAt = now;
+  }
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+class AutoblowRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'AutoblowRequestError';
+  }
+}
+
+export class AutoblowClient {
+  private cachedClusterUrl: string | null = null;
+  // Once the pinned cluster fails we fall back to latency-based discovery
+  private pinnedClusterFailed = false;
+
+  private readonly deviceToken: string;
+  private readonly cluster: string;
+  private readonly latencyApiUrl: string;
+  private readonly timeoutMs: number;
+  private readonly governor: CommandGovernor;
+
+  constructor(options: AutoblowClientOptions) {
+    this.deviceToken = options.deviceToken;
+    this.cluster = options.cluster || '';
+    this.latencyApiUrl = options.latencyApiUrl || AUTOBLOW_API_URL;
+    this.timeoutMs = options.timeoutMs || 5000;
+    this.governor = options.governor;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.deviceToken);
+  }
+
+  /**
+   * Start/update oscillation. Subject to the shared command governor.
+   */
+  async oscillate(command: AutoblowOscillateCommand): Promise<AutoblowResult> {
+    if (!this.isConfigured()) {
+      return { ok: false, skipped: false, error: 'Device token not configured' };
+    }
+
+    const slot = this.governor.tryAcquire();
+    if (!slot.allowed) {
+      return { ok: false, skipped: true, reason: 'rate_limited', retryAfterMs: slot.retryAfterMs };
+    }
+
+    return this.run('/autoblow/oscillate', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        speed: command.speed,
+        minY: command.minY,
+        maxY: command.maxY,
+      }),
+    });
+  }
+
+  /**
+   * Stop oscillation. Never throttled.
+   */
+  async stop(): Promise<AutoblowResult> {
+    if (!this.isConfigured()) {
+      return { ok: false, skipped: false, error: 'Device token not configured' };
+    }
+
+    this.governor.record();
+    return this.run('/autoblow/oscillate/stop', { method: 'PUT' });
+  }
+
+  /**
+   * Send a chart-sync style command; speed 0 means stop.
+   */
+  async sendCommand(command: AutoblowOscillateCommand): Promise<AutoblowResult> {
+    return command.speed === 0 ? this.stop() : this.oscillate(command);
+  }
+
+  /**
+   * Read the device state. Throws on failure.
+   */
+  async getState(): Promise<Record<string, unknown>> {
+    if (!this.isConfigured()) {
+      throw new Error('Device token not configured');
+    }
+
+    return this.request('/autoblow/state', { method: 'GET' });
+  }
+
+  private async run(path: string, init: RequestInit): Promise<AutoblowResult> {
+    try {
+      const data = await this.request(path, init);
+      return { ok: true, data };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Autoblow] ${init.method} ${path} failed:`, message);
+      return { ok: false, skipped: false, error: message };
+    }
+  }
+
+  /**
+   * Call the device API on the resolved cluster. When the cached cluster
+   * looks unhealthy (network error, timeout, 5xx) the cluster is re-resolved
+   * and the request retried once.
+   */
+  private async request(path: string, init: RequestInit): Promise<Record<string, unknown>> {
+    try {
+      return await this.requestOnce(path, init);
+    } catch (error) {
+      if (!(error instanceof AutoblowRequestError) || !error.retryable) {
+        throw error;
+      }
+
+      console.warn(`[Autoblow] Cluster ${this.cachedClusterUrl} failing (${error.message}), re-resolving`);
+      if (this.cluster && this.cachedClusterUrl === this.pinnedClusterUrl()) {
+        this.pinnedClusterFailed = true;
+      }
+      this.cachedClusterUrl = null;
+      return this.requestOnce(path, init);
+    }
+  }
+
+  private async requestOnce(path: string, init: RequestInit): Promise<Record<string, unknown>> {
+    const baseUrl = await this.getClusterUrl();
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          ...(init.headers as Record<string, string> | undefined),
+          'x-device-token': this.deviceToken,
+        },
+        cache: 'no-store',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Network error';
+      throw new AutoblowRequestError(message, true);
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new AutoblowRequestError(
+        `Device request failed: ${response.status}${text ? ` - ${text}` : ''}`,
+        response.status >= 500
+      );
+    }
+
+    const text = await response.text();
+    if (!text) return {};
+    try {
+      return JSON.parse(text) as Record<string, unknown>;
+    } catch {
+      return { raw: text };
+    }
+  }
+
+  private pinnedClusterUrl(): string {
+    return `https://${this.cluster}.autoblowapi.com`;
+  }
+
+  private async getClusterUrl(): Promise<string> {
+    if (this.cachedClusterUrl) return this.cachedClusterUrl;
+
+    if (this.cluster && !this.pinnedClusterFailed) {
+      this.cachedClusterUrl = this.pinnedClusterUrl();
+      return this.cachedClusterUrl;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.latencyApiUrl}/autoblow/connected`, {
+        method: 'GET',
+        headers: { 'x-device-token': this.deviceToken },
+        cache: 'no-store',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new Error(`Cluster discovery failed: ${error instanceof Error ? error.message : 'network error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error('Device not connected');
+    }
+
+    const data = (await response.json()) as AutoblowConnectedResponse;
+    if (!data.connected || !data.cluster) {
+      throw new Error('Device not connected');
+    }
+
+    // A successful discovery means the pinned cluster may be retried next time
+    this.pinnedClusterFailed = false;
+    this.cachedClusterUrl = data.cluster;
+    return this.cachedClusterUrl;
+  }
+}
+
+// ============================================
+// SHARED INSTANCE
+// ============================================
+
+declare global {
+  var __machineGoBrrrAutoblowClient: AutoblowClient | undefined;
+}
+
+/**
+ * Shared Autoblow client (one cluster cache and one governor per instance)
+ */
+export function getAutoblowClient(): AutoblowClient {
+  if (!global.__machineGoBrrrAutoblowClient) {
+    global.__machineGoBrrrAutoblowClient = new AutoblowClient({
+      deviceToken: AUTOBLOW_DEVICE_TOKEN,
+      cluster: AUTOBLOW_CLUSTER,
+      latencyApiUrl: AUTOBLOW_API_URL,
+      timeoutMs: AUTOBLOW_REQUEST_TIMEOUT_MS,
+      governor: new CommandGovernor(AUTOBLOW_MIN_COMMAND_INTERVAL_MS),
+    });
+  }
+  return global.__machineGoBrrrAutoblowClient;
+}
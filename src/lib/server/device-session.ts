@@ -0,0 +1,36 @@
+import { getDataStore } from './storage';
+import type { DeviceSessionRecord } from './storage';
+
+// ============================================
+// DEVICE SESSION
+// ============================================
+// Mode and speed of the running device session, shared across instances so
+// every page sees what the device is doing.
+
+/**
+ * Update the current device session/mode info
+ */
+export async function updateDeviceSession(
+  tokenMint: string,
+  modeId: number,
+  modeName: string,
+  speed: number,
+  amplitude: number
+): Promise<void> {
+  await getDataStore().deviceSession.merge({ tokenMint, modeId, modeName, speed, amplitude });
+}
+
+/**
+ * Get the current device session info
+ */
+export async function getDeviceSession(): Promise<DeviceSessionRecord | null> {
+  return getDataStore().deviceSession.get();
+}
+
+/**
+ * Clear the device session (when token expires or resets to default)
+ */
+export async function clearDeviceSession(): Promise<void> {
+  await getDataStore().deviceSession.clear();
+  console.log('[DeviceSession] Cleared');
+}
@@ -0,0 +1,35 @@
+import { AUTOBLOW_ENABLED, AUTOBLOW_MIN_COMMAND_INTERVAL_MS } from '@/lib/constants';
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import { getAutoblowClient } from '@/lib/server/autoblow';
+import { DeviceDriver, DeviceDriverResult } from './types';
+
+// ============================================
+// AUTOBLOW DRIVER
+// ============================================
+
+export const autoblowDriver: DeviceDriver = {
+  id: 'autoblow',
+  capabilities: {
+    strokeRange: { min: 0, max: 100 },
+    vibrationOnly: false,
+    maxUpdateRateHz: 1000 / AUTOBLOW_MIN_COMMAND_INTERVAL_MS,
+    scriptUpload: false,
+  },
+
+  isConfigured(): boolean {
+    return AUTOBLOW_ENABLED && getAutoblowClient().isConfigured();
+  },
+
+  // The client applies its own shared governor, so results pass straight through
+  async send(command: DeviceCommand): Promise<DeviceDriverResult> {
+    return getAutoblowClient().sendCommand(command);
+  },
+
+  async stop(): Promise<DeviceDriverResult> {
+    return getAutoblowClient().stop();
+  },
+
+  async getState(): Promise<Record<string, unknown>> {
+    return getAutoblowClient().getState();
+  },
+};
@@ -0,0 +1,327 @@
+import { INTIFACE_WS_URL } from '@/lib/constants';
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import { strokeDurationMs } from '@/lib/chartSync/timeline';
+import { DeviceCapabilities, DeviceDriver, DeviceDriverResult } from './types';
+
+// ============================================
+// BUTTPLUG / INTIFACE DRIVER
+// ============================================
+// Speaks Buttplug protocol v3 JSON to an Intiface Central/Engine server over
+// a WebSocket. One socket is kept per instance and reconnected lazily.
+// Scalar actuators (vibrate, oscillate, rotate...) get an intensity derived
+// from speed and stroke depth; linear (stroker) devices get a server-side
+// stroke loop between minY and maxY, since LinearCmd only moves once.
+
+const CLIENT_NAME = 'machinegobrrr';
+const MESSAGE_VERSION = 3;
+const REQUEST_TIMEOUT_MS = 5000;
+
+interface ButtplugActuator {
+  ActuatorType?: string;
+  StepCount?: number;
+}
+
+interface ButtplugDeviceInfo {
+  DeviceName: string;
+  DeviceIndex: number;
+  DeviceMessages: {
+    ScalarCmd?: ButtplugActuator[];
+    LinearCmd?: ButtplugActuator[];
+  };
+}
+
+type ButtplugMessage = Record<string, Record<string, unknown> & { Id: number }>;
+
+interface PendingRequest {
+  resolve: (message: ButtplugMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Map a chart-sync command onto a 0-1 scalar for vibration-style actuators.
+ * Speed drives intensity; a deeper stroke (wider minY/maxY) adds up to 50%.
+ */
+export function commandToScalar(command: DeviceCommand): number {
+  const depth = Math.max(0, command.maxY - command.minY) / 100;
+  const scalar = (command.speed / 100) * (0.5 + 0.5 * depth);
+  return Math.max(0, Math.min(1, scalar));
+}
+
+class ButtplugConnection {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<void> | null = null;
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private devices: Map<number, ButtplugDeviceInfo> = new Map();
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private strokeTimers: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(private readonly url: string) {}
+
+  getDevices(): ButtplugDeviceInfo[] {
+    return Array.from(this.devices.values());
+  }
+
+  async ensureConnected(): Promise<void> {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) return;
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async connect(): Promise<void> {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Intiface connection timed out')), REQUEST_TIMEOUT_MS);
+      socket.addEventListener('open', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+      socket.addEventListener('error', () => {
+        clearTimeout(timer);
+        reject(new Error(`Could not connect to Intiface at ${this.url}`));
+      }, { once: true });
+    });
+
+    socket.addEventListener('message', (event) => this.handleMessage(String(event.data)));
+    socket.addEventListener('close', () => this.handleClose(socket));
+
+    const info = await this.request('RequestServerInfo', {
+      ClientName: CLIENT_NAME,
+      MessageVersion: MESSAGE_VERSION,
+    });
+    const maxPingTime = Number(info.ServerInfo?.MaxPingTime) || 0;
+    if (maxPingTime > 0) {
+      this.pingTimer = setInterval(() => {
+        this.request('Ping', {}).catch((error) => console.error('[Device:buttplug] Ping failed:', error));
+      }, Math.max(100, Math.floor(maxPingTime / 2)));
+    }
+
+    const list = await this.request('RequestDeviceList', {});
+    const devices = (list.DeviceList?.Devices as ButtplugDeviceInfo[] | undefined) || [];
+    this.devices = new Map(devices.map((device) => [device.DeviceIndex, device]));
+    console.log(`[Device:buttplug] Connected, ${devices.length} device(s)`);
+  }
+
+  private handleClose(socket: WebSocket): void {
+    if (this.socket !== socket) return;
+
+    this.socket = null;
+    this.devices.clear();
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.clearStrokeLoops();
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Intiface connection closed'));
+      this.pending.delete(id);
+    }
+    console.warn('[Device:buttplug] Connection closed');
+  }
+
+  private handleMessage(raw: string): void {
+    let messages: ButtplugMessage[];
+    try {
+      messages = JSON.parse(raw) as ButtplugMessage[];
+    } catch {
+      console.error('[Device:buttplug] Unparseable message:', raw);
+      return;
+    }
+
+    for (const message of messages) {
+      const [type, body] = Object.entries(message)[0] || [];
+      if (!type || !body) continue;
+
+      // Server-initiated events carry Id 0
+      if (type === 'DeviceAdded') {
+        const device = body as unknown as ButtplugDeviceInfo;
+        this.devices.set(device.DeviceIndex, device);
+        console.log(`[Device:buttplug] Device added: ${device.DeviceName}`);
+        continue;
+      }
+      if (type === 'DeviceRemoved') {
+        const index = Number(body.DeviceIndex);
+        this.devices.delete(index);
+        this.stopStrokeLoop(index);
+        continue;
+      }
+
+      const pending = this.pending.get(body.Id);
+      if (!pending) continue;
+      this.pending.delete(body.Id);
+      clearTimeout(pending.timer);
+
+      if (type === 'Error') {
+        pending.reject(new Error(String(body.ErrorMessage || 'Intiface error')));
+      } else {
+        pending.resolve(message);
+      }
+    }
+  }
+
+  request(type: string, fields: Record<string, unknown>): Promise<ButtplugMessage> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Intiface not connected'));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Intiface ${type} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(JSON.stringify([{ [type]: { Id: id, ...fields } }]));
+    });
+  }
+
+  async sendCommand(command: DeviceCommand): Promise<number> {
+    const scalar = commandToScalar(command);
+    let commanded = 0;
+
+    for (const device of this.devices.values()) {
+      const scalars = (device.DeviceMessages.ScalarCmd || []).map((actuator, index) => ({
+        Index: index,
+        Scalar: scalar,
+        ActuatorType: actuator.ActuatorType || 'Vibrate',
+      }));
+      if (scalars.length > 0) {
+        await this.request('ScalarCmd', { DeviceIndex: device.DeviceIndex, Scalars: scalars });
+        commanded++;
+      }
+
+      if ((device.DeviceMessages.LinearCmd || []).length > 0) {
+        this.startStrokeLoop(device, command);
+        commanded++;
+      }
+    }
+
+    return commanded;
+  }
+
+  async stopAll(): Promise<void> {
+    this.clearStrokeLoops();
+    await this.request('StopAllDevices', {});
+  }
+
+  private startStrokeLoop(device: ButtplugDeviceInfo, command: DeviceCommand): void {
+    this.stopStrokeLoop(device.DeviceIndex);
+
+    const duration = strokeDurationMs(command.speed);
+    const positions = [command.maxY / 100, command.minY / 100];
+    const vectorCount = (device.DeviceMessages.LinearCmd || []).length;
+    let step = 0;
+
+    const stroke = () => {
+      const position = positions[step % 2];
+      step++;
+      const vectors = Array.from({ length: vectorCount }, (_, index) => ({
+        Index: index,
+        Duration: duration,
+        Position: position,
+      }));
+      this.request('LinearCmd', { DeviceIndex: device.DeviceIndex, Vectors: vectors })
+        .catch((error) => console.error('[Device:buttplug] LinearCmd failed:', error));
+      this.strokeTimers.set(device.DeviceIndex, setTimeout(stroke, duration));
+    };
+
+    stroke();
+  }
+
+  private stopStrokeLoop(deviceIndex: number): void {
+    const timer = this.strokeTimers.get(deviceIndex);
+    if (timer) clearTimeout(timer);
+    this.strokeTimers.delete(deviceIndex);
+  }
+
+  private clearStrokeLoops(): void {
+    for (const timer of this.strokeTimers.values()) clearTimeout(timer);
+    this.strokeTimers.clear();
+  }
+}
+
+declare global {
+  var __machineGoBrrrButtplugConnection: ButtplugConnection | undefined;
+}
+
+function getConnection(): ButtplugConnection {
+  if (!global.__machineGoBrrrButtplugConnection) {
+    global.__machineGoBrrrButtplugConnection = new ButtplugConnection(INTIFACE_WS_URL);
+  }
+  return global.__machineGoBrrrButtplugConnection;
+}
+
+export const buttplugDriver: DeviceDriver = {
+  id: 'buttplug',
+
+  // Reflects whatever devices Intiface currently reports
+  get capabilities(): DeviceCapabilities {
+    const devices = global.__machineGoBrrrButtplugConnection?.getDevices() || [];
+    const hasLinear = devices.some((device) => (device.DeviceMessages.LinearCmd || []).length > 0);
+    return {
+      strokeRange: hasLinear ? { min: 0, max: 100 } : null,
+      vibrationOnly: !hasLinear,
+      maxUpdateRateHz: 10,
+      scriptUpload: false,
+    };
+  },
+
+  isConfigured(): boolean {
+    return Boolean(INTIFACE_WS_URL);
+  },
+
+  async send(command: DeviceCommand): Promise<DeviceDriverResult> {
+    try {
+      const connection = getConnection();
+      await connection.ensureConnected();
+
+      if (command.speed === 0) {
+        await connection.stopAll();
+        return { ok: true };
+      }
+
+      const commanded = await connection.sendCommand(command);
+      if (commanded === 0) {
+        return { ok: false, skipped: true, reason: 'no_devices' };
+      }
+      return { ok: true, data: { devices: commanded } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Device:buttplug] Command failed:', message);
+      return { ok: false, skipped: false, error: message };
+    }
+  },
+
+  async stop(): Promise<DeviceDriverResult> {
+    try {
+      const connection = getConnection();
+      await connection.ensureConnected();
+      await connection.stopAll();
+      return { ok: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Device:buttplug] Stop failed:', message);
+      return { ok: false, skipped: false, error: message };
+    }
+  },
+
+  async getState(): Promise<Record<string, unknown>> {
+    const connection = getConnection();
+    await connection.ensureConnected();
+    return {
+      devices: connection.getDevices().map((device) => ({
+        index: device.DeviceIndex,
+        name: device.DeviceName,
+        scalarActuators: (device.DeviceMessages.ScalarCmd || []).map((a) => a.ActuatorType),
+        linearAxes: (device.DeviceMessages.LinearCmd || []).length,
+      })),
+    };
+  },
+};
@@ -0,0 +1,67 @@
+import { HTTP_DEVICE_API_KEY, HTTP_DEVICE_URL } from '@/lib/constants';
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import type { MotionFrame } from '@/lib/chartSync/motion';
+import { DeviceDriver, DeviceDriverResult } from './types';
+
+// ============================================
+// GENERIC HTTP DRIVER
+// ============================================
+// POSTs every command as JSON to HTTP_DEVICE_URL so custom hardware bridges
+// can consume chart sync without speaking a vendor protocol:
+//   { event: 'command', command: { speed, minY, maxY }, timestamp }
+//   { event: 'plan', frames: [{ offsetMs, command }], timestamp }
+//   { event: 'stop', timestamp }
+// A plan's frames play at their offsets from `timestamp`; the next command,
+// plan or stop replaces whatever is left of it.
+
+const HTTP_DEVICE_TIMEOUT_MS = 5000;
+
+async function post(payload: Record<string, unknown>): Promise<DeviceDriverResult> {
+  try {
+    const response = await fetch(HTTP_DEVICE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(HTTP_DEVICE_API_KEY && { Authorization: `Bearer ${HTTP_DEVICE_API_KEY}` }),
+      },
+      body: JSON.stringify({ ...payload, timestamp: Date.now() }),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(HTTP_DEVICE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { ok: false, skipped: false, error: `HTTP device responded ${response.status}` };
+    }
+    return { ok: true };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Network error';
+    console.error('[Device:http] Request failed:', message);
+    return { ok: false, skipped: false, error: message };
+  }
+}
+
+export const httpDriver: DeviceDriver = {
+  id: 'http',
+  capabilities: {
+    strokeRange: { min: 0, max: 100 },
+    vibrationOnly: false,
+    maxUpdateRateHz: 1,
+    scriptUpload: false,
+  },
+
+  isConfigured(): boolean {
+    return Boolean(HTTP_DEVICE_URL);
+  },
+
+  async send(command: DeviceCommand): Promise<DeviceDriverResult> {
+    return post({ event: 'command', command });
+  },
+
+  async stop(): Promise<DeviceDriverResult> {
+    return post({ event: 'stop' });
+  },
+
+  async playPlan(frames: MotionFrame[]): Promise<DeviceDriverResult> {
+    return post({ event: 'plan', frames });
+  },
+};
@@ -0,0 +1,17 @@
+// ============================================
+// DEVICES - Main Export
+// ============================================
+
+export * from './types';
+export * from './registry';
+export { autoblowDriver } from './autoblow';
+export { buttplugDriver, commandToScalar } from './buttplug';
+export { httpDriver } from './http';
+export {
+  simulatedDriver,
+  getSimulatedCommandLog,
+  getSimulatedDeviceState,
+  resetSimulatedDevice,
+} from './simulated';
+export type { SimulatedCommandEntry, SimulatedDeviceState } from './simulated';
+export { playMotionPlan, deliverSessionTick } from './motion';
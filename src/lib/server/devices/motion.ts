@@ -0,0 +1,52 @@
+import { CHART_MOTION_SYNTHESIS } from '@/lib/constants';
+import { decimatePlan, MotionPlan, planToFunscript } from '@/lib/chartSync/motion';
+import type { SessionTickResult } from '@/lib/chartSync/session';
+import { DeviceDispatchResult } from './types';
+import { dispatchDeviceCommand, fanOut, sendPlanToDriver, sendToDriver } from './registry';
+
+// ============================================
+// MOTION PLAN DELIVERY
+// ============================================
+// A plan is handed over in one call per driver and then plays on the device
+// side: script drivers get it as a funscript, plan-capable drivers get the
+// frames thinned to their rate budget. Nothing is left on timers here, so a
+// request can return (and its instance idle) without cutting the plan off.
+// Drivers that take neither only get the opening frame.
+// A new plan, command or stop replaces whatever the device is still playing.
+
+/**
+ * Play a motion plan on every active driver. With `plansOnly`, drivers that
+ * can't take the whole plan are skipped rather than sent its opening frame.
+ */
+export async function playMotionPlan(
+  plan: MotionPlan,
+  { plansOnly = false }: { plansOnly?: boolean } = {}
+): Promise<DeviceDispatchResult> {
+  if (plan.frames.length === 0) {
+    return { ok: false, results: [] };
+  }
+
+  return fanOut(async (driver) => {
+    if (driver.capabilities.scriptUpload && driver.uploadScript) {
+      return { command: plan.frames[0].command, result: await driver.uploadScript(planToFunscript(plan)) };
+    }
+    if (driver.playPlan) {
+      return sendPlanToDriver(driver, decimatePlan(plan, 1000 / driver.capabilities.maxUpdateRateHz));
+    }
+    if (plansOnly) {
+      return { command: null, result: { ok: false, skipped: true, reason: 'plans_unsupported' } };
+    }
+    return sendToDriver(driver, plan.frames[0].command);
+  });
+}
+
+/**
+ * Deliver a session tick: the motion plan when synthesis is on and the tick
+ * has one, otherwise the tick's single command
+ */
+export async function deliverSessionTick(tick: SessionTickResult): Promise<DeviceDispatchResult> {
+  if (CHART_MOTION_SYNTHESIS && tick.plan) {
+    return playMotionPlan(tick.plan);
+  }
+  return dispatchDeviceCommand(tick.command);
+}
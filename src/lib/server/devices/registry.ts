@@ -0,0 +1,179 @@
+import { DEVICE_DRIVERS } from '@/lib/constants';
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import type { MotionFrame } from '@/lib/chartSync/motion';
+import { DeviceCapabilities, DeviceDispatchResult, DeviceDriver, DeviceDriverResult } from './types';
+import { autoblowDriver } from './autoblow';
+import { buttplugDriver } from './buttplug';
+import { httpDriver } from './http';
+import { simulatedDriver } from './simulated';
+
+// ============================================
+// DEVICE DRIVER REGISTRY
+// ============================================
+// Deployments enable any number of drivers via DEVICE_DRIVERS; every
+// chart-sync command is fanned out to all of them in parallel.
+
+const drivers: Map<string, DeviceDriver> = new Map();
+
+declare global {
+  var __machineGoBrrrDriverLastSentAt: Map<string, number> | undefined;
+}
+
+function lastSentAt(): Map<string, number> {
+  if (!global.__machineGoBrrrDriverLastSentAt) {
+    global.__machineGoBrrrDriverLastSentAt = new Map();
+  }
+  return global.__machineGoBrrrDriverLastSentAt;
+}
+
+/**
+ * Register (or replace) a device driver by id
+ */
+export function registerDeviceDriver(driver: DeviceDriver): void {
+  drivers.set(driver.id, driver);
+}
+
+/**
+ * Get a registered device driver by id
+ */
+export function getDeviceDriver(id: string): DeviceDriver | undefined {
+  return drivers.get(id);
+}
+
+/**
+ * Drivers enabled for this deployment that have the config they need
+ */
+export function getActiveDeviceDrivers(): DeviceDriver[] {
+  const active: DeviceDriver[] = [];
+  for (const id of DEVICE_DRIVERS) {
+    const driver = drivers.get(id);
+    if (!driver) {
+      console.warn(`[Devices] Unknown device driver "${id}" - skipping`);
+      continue;
+    }
+    if (driver.isConfigured()) {
+      active.push(driver);
+    }
+  }
+  return active;
+}
+
+export function hasActiveDeviceDrivers(): boolean {
+  return getActiveDeviceDrivers().length > 0;
+}
+
+/**
+ * Fit a command to a driver's capabilities. The stroke window is rescaled
+ * into the device's usable range; vibration-only drivers receive it as-is
+ * and fold stroke depth into intensity themselves.
+ */
+export function adaptCommand(command: DeviceCommand, capabilities: DeviceCapabilities): DeviceCommand {
+  const range = capabilities.strokeRange;
+  if (!range || capabilities.vibrationOnly) {
+    return { ...command };
+  }
+
+  const span = range.max - range.min;
+  return {
+    speed: command.speed,
+    minY: Math.round(range.min + (command.minY / 100) * span),
+    maxY: Math.round(range.min + (command.maxY / 100) * span),
+  };
+}
+
+/**
+ * Send one command to one driver: adapts it to the driver's capabilities
+ * and paces motion to its max update rate (stops always go through)
+ */
+export async function sendToDriver(
+  driver: DeviceDriver,
+  command: DeviceCommand
+): Promise<{ command: DeviceCommand; result: DeviceDriverResult }> {
+  const adapted = adaptCommand(command, driver.capabilities);
+  const sentAt = lastSentAt();
+  const now = Date.now();
+
+  if (adapted.speed === 0) {
+    return { command: adapted, result: await driver.stop() };
+  }
+
+  const minIntervalMs = 1000 / driver.capabilities.maxUpdateRateHz;
+  const elapsed = now - (sentAt.get(driver.id) || 0);
+  if (elapsed < minIntervalMs) {
+    return {
+      command: adapted,
+      result: {
+        ok: false,
+        skipped: true,
+        reason: 'rate_limited',
+        retryAfterMs: Math.ceil(minIntervalMs - elapsed),
+      },
+    };
+  }
+
+  const result = await driver.send(adapted);
+  if (result.ok) sentAt.set(driver.id, now);
+  return { command: adapted, result };
+}
+
+/**
+ * Hand a timed command list to a driver that plays plans itself. Every
+ * frame is adapted to the driver; the plan counts as one send for pacing.
+ */
+export async function sendPlanToDriver(
+  driver: DeviceDriver,
+  frames: MotionFrame[]
+): Promise<{ command: DeviceCommand; result: DeviceDriverResult }> {
+  const adapted = frames.map((frame) => ({
+    offsetMs: frame.offsetMs,
+    command: adaptCommand(frame.command, driver.capabilities),
+  }));
+  if (!driver.playPlan) {
+    return { command: adapted[0].command, result: { ok: false, skipped: true, reason: 'plans_unsupported' } };
+  }
+
+  const now = Date.now();
+  const result = await driver.playPlan(adapted);
+  if (result.ok) lastSentAt().set(driver.id, now);
+  return { command: adapted[0].command, result };
+}
+
+/**
+ * Run `send` against every active driver in parallel and collect the results
+ */
+export async function fanOut(
+  send: (driver: DeviceDriver) => Promise<{ command: DeviceCommand | null; result: DeviceDriverResult }>
+): Promise<DeviceDispatchResult> {
+  const active = getActiveDeviceDrivers();
+  const settled = await Promise.allSettled(active.map(send));
+
+  const results = settled.map((outcome, index) => {
+    const driverId = active[index].id;
+    if (outcome.status === 'fulfilled') return { driverId, ...outcome.value };
+    const error = outcome.reason instanceof Error ? outcome.reason.message : 'Driver failed';
+    console.error(`[Devices] Driver ${driverId} threw:`, error);
+    const result: DeviceDriverResult = { ok: false, skipped: false, error };
+    return { driverId, command: null, result };
+  });
+
+  return { ok: results.some((r) => r.result.ok), results };
+}
+
+/**
+ * Send a chart-sync command to every active driver (speed 0 stops them)
+ */
+export async function dispatchDeviceCommand(command: DeviceCommand): Promise<DeviceDispatchResult> {
+  return fanOut((driver) => sendToDriver(driver, command));
+}
+
+/**
+ * Stop every active driver
+ */
+export async function stopAllDevices(): Promise<DeviceDispatchResult> {
+  return fanOut(async (driver) => ({ command: null, result: await driver.stop() }));
+}
+
+registerDeviceDriver(autoblowDriver);
+registerDeviceDriver(buttplugDriver);
+registerDeviceDriver(httpDriver);
+registerDeviceDriver(simulatedDriver);
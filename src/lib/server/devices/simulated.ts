@@ -0,0 +1,153 @@
+import { SIMULATED_DEVICE_SCRIPT_UPLOAD } from '@/lib/constants';
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import type { Funscript } from '@/lib/chartSync/timeline';
+import type { MotionFrame } from '@/lib/chartSync/motion';
+import { DeviceDriver, DeviceDriverResult } from './types';
+
+// ============================================
+// SIMULATED DRIVER
+// ============================================
+// No hardware: records every command with a timestamp and keeps a fake
+// device state shaped like Autoblow's /autoblow/state, so the session/tick
+// loop can be exercised and inspected locally.
+
+const MAX_LOG_ENTRIES = 500;
+
+export interface SimulatedCommandEntry {
+  at: number;
+  type: 'oscillate' | 'stop' | 'script' | 'plan';
+  command: DeviceCommand | null;   // a plan's opening frame
+  scriptActions?: number;   // action count for uploaded scripts
+  planFrames?: MotionFrame[];
+}
+
+export interface SimulatedDeviceState {
+  operationalMode: 'ONLINE' | 'OSCILLATOR_PLAYING' | 'SYNC_SCRIPT_PLAYING';
+  oscillatorTargetSpeed: number;
+  oscillatorLowPoint: number;
+  oscillatorHighPoint: number;
+  lastCommandAt: number | null;
+  commandsReceived: number;
+}
+
+interface SimulatedDevice {
+  state: SimulatedDeviceState;
+  log: SimulatedCommandEntry[];
+}
+
+declare global {
+  var __machineGoBrrrSimulatedDevice: SimulatedDevice | undefined;
+}
+
+function initialState(): SimulatedDeviceState {
+  return {
+    operationalMode: 'ONLINE',
+    oscillatorTargetSpeed: 0,
+    oscillatorLowPoint: 0,
+    oscillatorHighPoint: 0,
+    lastCommandAt: null,
+    commandsReceived: 0,
+  };
+}
+
+function getDevice(): SimulatedDevice {
+  if (!global.__machineGoBrrrSimulatedDevice) {
+    global.__machineGoBrrrSimulatedDevice = { state: initialState(), log: [] };
+  }
+  return global.__machineGoBrrrSimulatedDevice;
+}
+
+function record(entry: SimulatedCommandEntry): void {
+  const device = getDevice();
+  device.log.push(entry);
+  if (device.log.length > MAX_LOG_ENTRIES) {
+    device.log.splice(0, device.log.length - MAX_LOG_ENTRIES);
+  }
+  device.state.lastCommandAt = entry.at;
+  device.state.commandsReceived++;
+}
+
+/**
+ * Commands received by the simulated device, oldest first
+ */
+export function getSimulatedCommandLog(since?: number): SimulatedCommandEntry[] {
+  const log = getDevice().log;
+  return since ? log.filter((entry) => entry.at > since) : [...log];
+}
+
+export function getSimulatedDeviceState(): SimulatedDeviceState {
+  return { ...getDevice().state };
+}
+
+export function resetSimulatedDevice(): void {
+  global.__machineGoBrrrSimulatedDevice = { state: initialState(), log: [] };
+}
+
+export const simulatedDriver: DeviceDriver = {
+  id: 'simulated',
+  capabilities: {
+    strokeRange: { min: 0, max: 100 },
+    vibrationOnly: false,
+    maxUpdateRateHz: 10,
+    scriptUpload: SIMULATED_DEVICE_SCRIPT_UPLOAD,
+  },
+
+  isConfigured(): boolean {
+    return true;
+  },
+
+  async send(command: DeviceCommand): Promise<DeviceDriverResult> {
+    const at = Date.now();
+    record({ at, type: 'oscillate', command: { ...command } });
+
+    const state = getDevice().state;
+    state.operationalMode = 'OSCILLATOR_PLAYING';
+    state.oscillatorTargetSpeed = command.speed;
+    state.oscillatorLowPoint = command.minY;
+    state.oscillatorHighPoint = command.maxY;
+
+    console.log(`[Device:simulated] Oscillate speed=${command.speed} range=${command.minY}-${command.maxY}`);
+    return { ok: true, data: { ...state } };
+  },
+
+  async stop(): Promise<DeviceDriverResult> {
+    record({ at: Date.now(), type: 'stop', command: null });
+
+    const state = getDevice().state;
+    state.operationalMode = 'ONLINE';
+    state.oscillatorTargetSpeed = 0;
+
+    console.log('[Device:simulated] Stop');
+    return { ok: true, data: { ...state } };
+  },
+
+  async getState(): Promise<Record<string, unknown>> {
+    return { ...getSimulatedDeviceState() };
+  },
+
+  // Only the opening frame reaches the fake state; the log keeps the rest
+  async playPlan(frames: MotionFrame[]): Promise<DeviceDriverResult> {
+    const [first] = frames;
+    record({ at: Date.now(), type: 'plan', command: { ...first.command }, planFrames: frames });
+
+    const state = getDevice().state;
+    state.operationalMode = 'OSCILLATOR_PLAYING';
+    state.oscillatorTargetSpeed = first.command.speed;
+    state.oscillatorLowPoint = first.command.minY;
+    state.oscillatorHighPoint = first.command.maxY;
+
+    const lastOffsetMs = frames[frames.length - 1].offsetMs;
+    console.log(`[Device:simulated] Plan received: ${frames.length} frames over ${lastOffsetMs}ms`);
+    return { ok: true, data: { ...state } };
+  },
+
+  async uploadScript(script: Funscript): Promise<DeviceDriverResult> {
+    record({ at: Date.now(), type: 'script', command: null, scriptActions: script.actions.length });
+
+    const state = getDevice().state;
+    state.operationalMode = 'SYNC_SCRIPT_PLAYING';
+
+    console.log(`[Device:simulated] Script uploaded: ${script.actions.length} actions, ${script.metadata.duration}s`);
+    return { ok: true, data: { ...state } };
+  },
+};
@@ -0,0 +1,39 @@
+import type { DeviceCommand } from '@/lib/chartSync/types';
+import type { Funscript } from '@/lib/chartSync/timeline';
+import type { MotionFrame } from '@/lib/chartSync/motion';
+
+// ============================================
+// DEVICE DRIVER TYPES
+// ============================================
+
+export interface DeviceCapabilities {
+  // Usable stroke range in percent; null for devices without a position axis
+  strokeRange: { min: number; max: number } | null;
+  // Device only understands an intensity (vibrators); minY/maxY are folded into it
+  vibrationOnly: boolean;
+  // Highest command rate the device/API tolerates
+  maxUpdateRateHz: number;
+  // Driver can take a whole motion plan as a script (uploadScript) instead of a command stream
+  scriptUpload: boolean;
+}
+
+export type DeviceDriverResult =
+  | { ok: true; data?: Record<string, unknown> }
+  | { ok: false; skipped: true; reason: string; retryAfterMs?: number }
+  | { ok: false; skipped: false; error: string };
+
+export interface DeviceDriver {
+  id: string;
+  capabilities: DeviceCapabilities;
+  isConfigured(): boolean;
+  send(command: DeviceCommand): Promise<DeviceDriverResult>;
+  stop(): Promise<DeviceDriverResult>;
+  getState?(): Promise<Record<string, unknown>>;
+  uploadScript?(script: Funscript): Promise<DeviceDriverResult>;   // load and start playing now
+  playPlan?(frames: MotionFrame[]): Promise<DeviceDriverResult>;   // play timed commands device-side, starting now
+}
+
+export interface DeviceDispatchResult {
+  ok: boolean;   // at least one driver accepted the command
+  results: Array<{ driverId: string; command: DeviceCommand | null; result: DeviceDriverResult }>;
+}
@@ -0,0 +1,200 @@
+import type { ChartSyncSession, TimelineEntry } from '@/lib/chartSync/types';
+import { QueueItemAdmin, Timestamp } from '@/lib/firebase-admin';
+import { LiveEvent, QueueLiveEvent, shortenWallet } from '@/lib/live-events';
+import type { CurrentTokenDoc } from '@/lib/server/queue-engine';
+import { getDataStore } from '@/lib/server/storage';
+import type { TradeEvent } from '@/lib/server/trade-candles';
+
+// ============================================
+// LIVE EVENT FEED
+// ============================================
+// Publishing writes through the data store; each instance watches it once
+// and fans events out to its own /api/events/stream clients, so a trade the
+// webhook sees on one instance reaches overlays connected to any other.
+// Recent events are kept so a reconnecting client can resume after
+// Last-Event-ID. Publishing never throws: the feed is a side channel and
+// must not fail a payment, tick or webhook.
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+const RECENT_LIMIT = 200;
+const FEED_RETRY_MS = 5000;
+
+interface LiveEventStoreData {
+  recent: LiveEvent[];            // arrival order, at most RECENT_LIMIT
+  seen: Set<string>;              // ids in `recent`
+  seeded: boolean;                // first delivery only fills `recent`; those events are old news
+  listeners: Set<LiveEventListener>;
+  stopFeed: (() => void) | null;
+  feedRetryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+declare global {
+  var __machineGoBrrrLiveEvents: LiveEventStoreData | undefined;
+}
+
+function getStore(): LiveEventStoreData {
+  if (!global.__machineGoBrrrLiveEvents) {
+    global.__machineGoBrrrLiveEvents = {
+      recent: [],
+      seen: new Set(),
+      seeded: false,
+      listeners: new Set(),
+      stopFeed: null,
+      feedRetryTimer: null,
+    };
+  }
+  return global.__machineGoBrrrLiveEvents;
+}
+
+function accept(events: LiveEvent[]): void {
+  const store = getStore();
+  const notify = store.seeded;
+  store.seeded = true;
+
+  for (const event of events) {
+    if (store.seen.has(event.id)) continue;
+
+    store.recent.push(event);
+    store.seen.add(event.id);
+    if (store.recent.length > RECENT_LIMIT) {
+      const dropped = store.recent.shift();
+      if (dropped) store.seen.delete(dropped.id);
+    }
+
+    if (!notify) continue;
+    for (const listener of store.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[LiveEvents] Listener error:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Start watching the feed, once per instance
+ */
+function ensureLiveEventFeed(): void {
+  const store = getStore();
+  if (store.stopFeed || store.feedRetryTimer) return;
+
+  try {
+    store.stopFeed = getDataStore().liveEvents.watch(RECENT_LIMIT, accept, (error) => {
+      console.error('[LiveEvents] Feed stopped, retrying:', error);
+      store.stopFeed = null;
+      store.feedRetryTimer = setTimeout(() => {
+        store.feedRetryTimer = null;
+        ensureLiveEventFeed();
+      }, FEED_RETRY_MS);
+    });
+  } catch (error) {
+    console.error('[LiveEvents] Failed to start feed:', error);
+  }
+}
+
+async function publish(event: LiveEvent): Promise<void> {
+  try {
+    await getDataStore().liveEvents.publish(event);
+  } catch (error) {
+    console.error(`[LiveEvents] Failed to publish ${event.id}:`, error);
+  }
+}
+
+// ============================================
+// PUBLISHING
+// ============================================
+
+export async function publishTradeEvent(trade: TradeEvent): Promise<void> {
+  await publish({
+    type: 'trade',
+    id: `trade-${trade.signature}`,   // Helius retries publish nothing new
+    at: trade.timestamp || Date.now(),
+    tokenMint: trade.tokenMint,
+    side: trade.type,
+    amount: trade.amount,
+    priceInSol: trade.priceInSol,
+    wallet: shortenWallet(trade.wallet || ''),
+    signature: trade.signature,
+  });
+}
+
+/**
+ * Publish a chart-sync tick as recorded in the session timeline
+ */
+export async function publishTickEvent(session: ChartSyncSession, entry: TimelineEntry): Promise<void> {
+  await publish({
+    type: 'tick',
+    id: `tick-${session.sessionId}-${entry.at}`,
+    at: entry.at,
+    tokenMint: session.tokenMint,
+    sessionId: session.sessionId,
+    modeId: entry.modeId,
+    mode: entry.mode,
+    style: entry.style ?? null,
+    intensity: entry.intensity,
+    booster: entry.booster,
+    limited: entry.limited,
+    command: entry.command,
+  });
+}
+
+function millisOf(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+/**
+ * Publish a queue transition for a queued item or the token now showing
+ */
+export async function publishQueueEvent(
+  transition: QueueLiveEvent['transition'],
+  item: QueueItemAdmin | CurrentTokenDoc,
+  expiresAt: Date | null = null
+): Promise<void> {
+  const queueItemId = 'queueItemId' in item ? item.queueItemId : item.id;
+  const at = Date.now();
+  await publish({
+    type: 'queue',
+    id: `queue-${transition}-${queueItemId || 'default'}-${at}`,
+    at,
+    transition,
+    tokenMint: item.tokenMint,
+    queueItemId: queueItemId || null,
+    wallet: item.walletAddress ? shortenWallet(item.walletAddress) : null,
+    priorityLevel: item.priorityLevel || 0,
+    displayDuration: item.displayDuration || 0,
+    scheduledAt: millisOf(item.scheduledAt),
+    expiresAt: expiresAt ? expiresAt.getTime() : null,
+    playlistIndex: item.playlistIndex || 0,
+    playlistSize: item.playlistSize || 1,
+  });
+}
+
+// ============================================
+// READING
+// ============================================
+
+export function subscribeLiveEvents(listener: LiveEventListener): () => void {
+  const store = getStore();
+  ensureLiveEventFeed();
+  store.listeners.add(listener);
+  return () => {
+    store.listeners.delete(listener);
+  };
+}
+
+/**
+ * Events received after `lastEventId`, or null when it is no longer (or
+ * never was) among the recent events this instance keeps
+ */
+export function getLiveEventsSince(lastEventId: string): LiveEvent[] | null {
+  const recent = getStore().recent;
+  const index = recent.findIndex((event) => event.id === lastEventId);
+  return index === -1 ? null : recent.slice(index + 1);
+}
+
+export function getRecentLiveEvents(limit: number): LiveEvent[] {
+  ensureLiveEventFeed();
+  return limit > 0 ? getStore().recent.slice(-limit) : [];
+}
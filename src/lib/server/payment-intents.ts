@@ -0,0 +1,500 @@
+import { randomBytes } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import {
+  BID_MODE_ENABLED,
+  DUPLICATE_COOLDOWN_MS,
+  MAX_PLAYLIST_TOKENS,
+  MAX_SESSION_MINUTES,
+  MIN_SESSION_MINUTES,
+  PAYMENT_INTENT_TTL_MS,
+  PAYMENT_MEMO_PREFIX,
+  PaymentCurrency,
+  SCHEDULE_MAX_AHEAD_MS,
+  SCHEDULE_MIN_LEAD_MS,
+  SESSION_MINUTE_MS,
+  SOLANA_PAY_WATCH_GRACE_MS,
+} from '@/lib/constants';
+import {
+  describeCooldownOverride,
+  formatPrice,
+  getFloorPrice,
+  getPaymentTier,
+  getTierDuration,
+  matchesQuote,
+  parseSessionMinutes,
+  PAYMENT_CURRENCIES,
+  quoteExtension,
+  quotePlaylist,
+  resolvePayment,
+} from '@/lib/pricing';
+import { resolveModeChoice } from '@/lib/chartSync';
+import { checkScheduleConflict, getCurrentTokenDoc, getNextReservationStart } from './queue-engine';
+import { TreasuryReceipt } from './payments';
+import { internalAuthHeaders } from './auth';
+import { getRefund, tryRecordPendingRefund } from './refunds';
+import { getDataStore } from './storage';
+import { checkDuplicateCooldown, isSignatureVerified } from './transactions';
+
+// ============================================
+// PAYMENT INTENTS
+// ============================================
+// Before paying, the client asks for an intent: the server fixes what is
+// being bought, by whom and for how much, and issues a nonce. The transfer
+// carries `mgb:<nonce>` as an SPL Memo, so a signature can only be claimed
+// against the intent it was made for, by the wallet that paid its fee.
+// Intents are single use; consuming one is a transaction.
+//
+// Solana Pay intents also carry a `reference` key placed on the transfer, and
+// are watched until `watchUntil` so the server can claim them itself.
+
+export type PaymentIntentPurpose = 'queue' | 'extend';
+
+export interface PaymentIntent {
+  id: string;                     // the nonce; also the record id
+  memo: string;                   // exact memo the transfer must carry
+  purpose: PaymentIntentPurpose;
+  walletAddress: string;          // expected fee payer
+  tokenMint: string | null;       // queue: (first) token to show; extend: token showing at intent time
+  tokenMints?: string[] | null;   // queue playlists: every token, in play order
+  scheduledAt?: number | null;    // queue: reserved start; null = first come
+  tierId: string | null;          // queue only; PAYMENT_TIERS id or 'bid'
+  currency: PaymentCurrency;
+  amount: number;
+  minutes: number;
+  pinnedModeId: number | null;    // queue only
+  queueItemId: string | null;     // extend only: slot being extended
+  reference: string | null;       // Solana Pay reference key, when the server builds the transfer
+  status: 'open' | 'consumed' | 'failed';
+  consumedBy: string | null;      // payment signature
+  failure: string | null;         // why a watched payment was turned away
+  createdAt: number;
+  expiresAt: number;
+  watchUntil: number | null;      // Solana Pay only; see SOLANA_PAY_WATCH_GRACE_MS
+  settlingUntil: number | null;   // lease held while the server claims a watched payment
+}
+
+export type NewPaymentIntent = Omit<
+  PaymentIntent,
+  'id' | 'memo' | 'status' | 'consumedBy' | 'failure' | 'createdAt' | 'expiresAt' | 'watchUntil' | 'settlingUntil'
+>;
+
+export interface PaymentIntentRequest {
+  purpose?: PaymentIntentPurpose;
+  walletAddress: string;
+  currency: PaymentCurrency;
+  minutes?: number;
+  tokenMint?: string;       // queue
+  tokenMints?: string[];    // queue: a playlist, played back-to-back; replaces tokenMint
+  scheduledAt?: number;     // queue: reserve this start time (ms) instead of joining the line
+  tier?: string;            // queue: PAYMENT_TIERS id or 'bid'
+  amount?: number;          // queue bids only
+  mode?: string | number;   // queue: chart-sync mode, 'auto' (default) or a mode key/id
+  queueItemId?: string;     // extend: the slot the payer saw; refuse if it has changed
+}
+
+export type PaymentIntentQuote =
+  | { ok: true; input: NewPaymentIntent }
+  | { ok: false; status: number; error: string; details?: Record<string, unknown> };
+
+export function paymentMemo(nonce: string): string {
+  return `${PAYMENT_MEMO_PREFIX}${nonce}`;
+}
+
+/**
+ * Tokens a queue intent pays for, in play order
+ */
+export function intentTokenMints(intent: PaymentIntent): string[] {
+  if (intent.tokenMints?.length) return intent.tokenMints;
+  return intent.tokenMint ? [intent.tokenMint] : [];
+}
+
+function isValidAddress(value: string | undefined): value is string {
+  if (!value) return false;
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate and price a purchase before any money moves. Everything that
+ * would reject it later (bad input, no token showing, duplicate cooldown)
+ * is turned away here.
+ */
+export async function quotePaymentIntent(request: PaymentIntentRequest): Promise<PaymentIntentQuote> {
+  const purpose = request.purpose || 'queue';
+
+  if (!isValidAddress(request.walletAddress)) {
+    return { ok: false, status: 400, error: 'Invalid wallet address' };
+  }
+  if (!PAYMENT_CURRENCIES.includes(request.currency)) {
+    return { ok: false, status: 400, error: 'Unknown currency' };
+  }
+  const minutes = parseSessionMinutes(request.minutes);
+  if (minutes === null) {
+    return {
+      ok: false,
+      status: 400,
+      error: `Minutes must be a whole number from ${MIN_SESSION_MINUTES} to ${MAX_SESSION_MINUTES}`,
+    };
+  }
+
+  if (purpose === 'extend') {
+    const current = await getCurrentTokenDoc();
+    if (!current?.queueItemId || !current.expiresAt || current.expiresAt.toMillis() <= Date.now()) {
+      return { ok: false, status: 409, error: 'No paid token is showing right now' };
+    }
+    if (request.queueItemId && request.queueItemId !== current.queueItemId) {
+      return { ok: false, status: 409, error: 'The token showing has changed' };
+    }
+    const extendedUntil = current.expiresAt.toMillis() + minutes * SESSION_MINUTE_MS;
+    const reservedAt = await getNextReservationStart(Date.now());
+    if (reservedAt !== null && reservedAt < extendedUntil) {
+      return {
+        ok: false,
+        status: 409,
+        error: `A reserved slot starts at ${new Date(reservedAt).toISOString()}; extend by less`,
+      };
+    }
+    return {
+      ok: true,
+      input: {
+        purpose,
+        walletAddress: request.walletAddress,
+        tokenMint: current.tokenMint,
+        tokenMints: null,
+        scheduledAt: null,
+        tierId: null,
+        currency: request.currency,
+        amount: quoteExtension(request.currency, minutes),
+        minutes,
+        pinnedModeId: null,
+        queueItemId: current.queueItemId,
+        reference: null,
+      },
+    };
+  }
+
+  if (purpose !== 'queue') {
+    return { ok: false, status: 400, error: 'Unknown purpose' };
+  }
+  const tokenMints = Array.isArray(request.tokenMints) && request.tokenMints.length > 0
+    ? request.tokenMints
+    : [request.tokenMint];
+  if (!tokenMints.every(isValidAddress)) {
+    return { ok: false, status: 400, error: 'Invalid token mint address' };
+  }
+  if (tokenMints.length > MAX_PLAYLIST_TOKENS) {
+    return { ok: false, status: 400, error: `Playlists hold at most ${MAX_PLAYLIST_TOKENS} tokens` };
+  }
+  if (new Set(tokenMints).size !== tokenMints.length) {
+    return { ok: false, status: 400, error: 'A playlist can list each token only once' };
+  }
+  const pinnedModeId = resolveModeChoice(request.mode);
+  if (pinnedModeId === undefined) {
+    return { ok: false, status: 400, error: 'Unknown chart mode' };
+  }
+  const scheduledAt = request.scheduledAt ?? null;
+  const isPlainSlot = tokenMints.length === 1 && scheduledAt === null;
+
+  let amount: number;
+  let overridesCooldown: boolean;
+  let durationMs: number;
+  if (request.tier === 'bid') {
+    // Bids buy seniority in the first-come line, which playlists and reservations skip
+    if (!isPlainSlot) {
+      return { ok: false, status: 400, error: 'Playlists and reserved slots are bought at tier prices, not bids' };
+    }
+    const bid = BID_MODE_ENABLED && typeof request.amount === 'number'
+      ? resolvePayment(request.currency, request.amount, minutes)
+      : null;
+    if (!bid) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Bids start at ${formatPrice(request.currency, getFloorPrice(request.currency, minutes))}`,
+      };
+    }
+    amount = bid.amount;
+    overridesCooldown = bid.tier.overridesCooldown;
+    durationMs = bid.durationMs;
+  } else {
+    const tier = getPaymentTier(request.tier || 'standard');
+    if (!tier) {
+      return { ok: false, status: 400, error: 'Unknown payment tier' };
+    }
+    amount = quotePlaylist(tier, request.currency, minutes, tokenMints.length);
+    overridesCooldown = tier.overridesCooldown;
+    durationMs = getTierDuration(tier, minutes);
+  }
+
+  if (scheduledAt !== null) {
+    const now = Date.now();
+    if (!Number.isInteger(scheduledAt) || scheduledAt < now + SCHEDULE_MIN_LEAD_MS || scheduledAt > now + SCHEDULE_MAX_AHEAD_MS) {
+      return {
+        ok: false,
+        status: 400,
+        error:
+          `Reserved slots must start between ${Math.round(SCHEDULE_MIN_LEAD_MS / 60_000)} minutes ` +
+          `and ${Math.round(SCHEDULE_MAX_AHEAD_MS / 86_400_000)} days from now`,
+      };
+    }
+    const conflict = await checkScheduleConflict(scheduledAt, scheduledAt + tokenMints.length * durationMs);
+    if (conflict) {
+      return { ok: false, status: 409, error: conflict, details: { code: 'SCHEDULE_CONFLICT' } };
+    }
+  }
+
+  // Turn away cooldown hits now rather than refunding them later
+  if (!overridesCooldown) {
+    for (const tokenMint of tokenMints) {
+      const duplicateCheck = await checkDuplicateCooldown(tokenMint, DUPLICATE_COOLDOWN_MS);
+      if (!duplicateCheck.inCooldown) continue;
+      const hoursRemaining = Math.floor(duplicateCheck.remainingMs / (60 * 60 * 1000));
+      const minutesRemaining = Math.ceil((duplicateCheck.remainingMs % (60 * 60 * 1000)) / (60 * 1000));
+      const { overrideOptions, hint } = describeCooldownOverride();
+      return {
+        ok: false,
+        status: 400,
+        error:
+          `${tokenMints.length > 1 ? `${tokenMint.slice(0, 4)}...` : 'This token'} was recently queued. ` +
+          `Please wait ${hoursRemaining}h ${minutesRemaining}m${hint ? ` ${hint}` : ''}.`,
+        details: {
+          code: 'DUPLICATE_COOLDOWN',
+          remainingMs: duplicateCheck.remainingMs,
+          overrideOptions,
+        },
+      };
+    }
+  }
+
+  return {
+    ok: true,
+    input: {
+      purpose,
+      walletAddress: request.walletAddress,
+      tokenMint: tokenMints[0],
+      tokenMints: tokenMints.length > 1 ? tokenMints : null,
+      scheduledAt,
+      tierId: request.tier === 'bid' ? 'bid' : request.tier || 'standard',
+      currency: request.currency,
+      amount,
+      minutes,
+      pinnedModeId,
+      queueItemId: null,
+      reference: null,
+    },
+  };
+}
+
+export async function createPaymentIntent(input: NewPaymentIntent, now: number = Date.now()): Promise<PaymentIntent> {
+  const id = randomBytes(12).toString('hex');
+  const expiresAt = now + PAYMENT_INTENT_TTL_MS;
+  const intent: PaymentIntent = {
+    ...input,
+    id,
+    memo: paymentMemo(id),
+    status: 'open',
+    consumedBy: null,
+    failure: null,
+    createdAt: now,
+    expiresAt,
+    watchUntil: input.reference ? expiresAt + SOLANA_PAY_WATCH_GRACE_MS : null,
+    settlingUntil: null,
+  };
+
+  await getDataStore().paymentIntents.create(intent);
+  return intent;
+}
+
+export async function getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+  if (!/^[0-9a-f]{24}$/.test(id)) return null;
+  return getDataStore().paymentIntents.get(id);
+}
+
+export async function getPaymentIntentByReference(reference: string): Promise<PaymentIntent | null> {
+  return getDataStore().paymentIntents.findByReference(reference);
+}
+
+/**
+ * Open Solana Pay intents the server should still look for payments against
+ */
+export async function listWatchedIntents(now: number = Date.now(), limit: number = 50): Promise<PaymentIntent[]> {
+  const watched = await getDataStore().paymentIntents.listWatched(now, limit);
+  return watched.filter((intent) => intent.status === 'open');
+}
+
+/**
+ * Whether a receipt pays this intent. `owned` is false when the transaction
+ * isn't this intent's payment at all: another wallet paid it, or its memo
+ * names another intent. Such a transaction may not be logged against, credited
+ * or refunded to the caller; its real owner can still use it.
+ */
+export function checkIntentReceipt(
+  intent: PaymentIntent,
+  receipt: Extract<TreasuryReceipt, { ok: true }>,
+  now: number = Date.now()
+): { ok: true } | { ok: false; owned: boolean; error: string } {
+  if (receipt.feePayer !== intent.walletAddress) {
+    return { ok: false, owned: false, error: 'Transaction was not paid by this wallet' };
+  }
+  if (!receipt.memos.includes(intent.memo)) {
+    return { ok: false, owned: false, error: 'Transaction does not carry this payment\'s reference memo' };
+  }
+  if ((receipt.blockTime ?? now) > intent.expiresAt) {
+    return { ok: false, owned: true, error: 'Payment intent expired before the transaction landed' };
+  }
+  if (receipt.currency !== intent.currency || !matchesQuote(intent.currency, receipt.amount, intent.amount)) {
+    return {
+      ok: false,
+      owned: true,
+      error: `Expected ${intent.amount} ${intent.currency}, received ${receipt.amount} ${receipt.currency}`,
+    };
+  }
+  return { ok: true };
+}
+
+/**
+ * Mark an intent used by `signature`. 'duplicate' when this same payment
+ * already claimed it (two submissions racing), 'unavailable' when another
+ * payment did or it's no longer open.
+ */
+export async function consumePaymentIntent(
+  id: string,
+  signature: string
+): Promise<'consumed' | 'duplicate' | 'unavailable'> {
+  return getDataStore().paymentIntents.update(id, (intent) => {
+    if (intent?.status === 'consumed' && intent.consumedBy === signature) {
+      return { changes: null, result: 'duplicate' as const };
+    }
+    if (!intent || intent.status !== 'open') {
+      return { changes: null, result: 'unavailable' as const };
+    }
+    return { changes: { status: 'consumed', consumedBy: signature }, result: 'consumed' as const };
+  });
+}
+
+/**
+ * Lease an open intent for settlement so two watchers can't claim the same
+ * payment at once. False when it's no longer open or someone holds the lease.
+ */
+async function claimIntentSettlement(
+  id: string,
+  leaseMs: number,
+  now: number = Date.now()
+): Promise<boolean> {
+  return getDataStore().paymentIntents.update(id, (intent) => {
+    if (!intent || intent.status !== 'open' || (intent.settlingUntil ?? 0) > now) {
+      return { changes: null, result: false };
+    }
+    return { changes: { settlingUntil: now + leaseMs }, result: true };
+  });
+}
+
+async function releaseIntentSettlement(id: string): Promise<void> {
+  await getDataStore().paymentIntents.merge(id, { settlingUntil: null });
+}
+
+export type IntentSubmission =
+  | { outcome: 'accepted' }
+  | { outcome: 'busy' }                     // another watcher holds the lease, or it's no longer open
+  | { outcome: 'retry'; error: string }     // rate limited, not landed yet, auth or server error; try again later
+  | { outcome: 'rejected'; error: string }; // turned away; see ensureRejectedPaymentRefund
+
+const SETTLEMENT_LEASE_MS = 30_000;
+
+/**
+ * Claim a payment for its intent on the payer's behalf, through the same
+ * route the page calls, for payers who never came back to claim it
+ */
+export async function submitIntentPayment(
+  intent: PaymentIntent,
+  signature: string,
+  baseUrl: string
+): Promise<IntentSubmission> {
+  if (!(await claimIntentSettlement(intent.id, SETTLEMENT_LEASE_MS))) {
+    return { outcome: 'busy' };
+  }
+
+  try {
+    const path = intent.purpose === 'extend' ? '/api/queue/extend' : '/api/queue/add';
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...internalAuthHeaders() },
+      body: JSON.stringify({
+        tokenMint: intent.tokenMint,
+        walletAddress: intent.walletAddress,
+        signature,
+        intentId: intent.id,
+      }),
+    });
+    if (response.ok) {
+      return { outcome: 'accepted' };
+    }
+
+    // `retryable` marks a transaction the route couldn't read yet
+    const result = (await response.json().catch(() => ({}))) as { error?: string; retryable?: boolean };
+    const error = result.error || `${path} failed (${response.status})`;
+    if (response.status === 401 || response.status === 403) {
+      // Internal auth is misconfigured; the payment itself was never looked at
+      console.error(`[Payment] ${path} refused internal auth for intent ${intent.id}: ${error}`);
+      return { outcome: 'retry', error };
+    }
+    return response.status === 429 || response.status >= 500 || result.retryable
+      ? { outcome: 'retry', error }
+      : { outcome: 'rejected', error };
+  } finally {
+    await releaseIntentSettlement(intent.id).catch((error) => {
+      console.error(`[Payment] Failed to release settlement lease for ${intent.id}:`, error);
+    });
+  }
+}
+
+export type RejectedPaymentRefund =
+  | 'refunded'   // a refund is on record
+  | 'claimed'    // logged as verified, or a route holds the intent for it; nothing owed
+  | 'failed';    // couldn't be recorded; try again later
+
+/**
+ * Make sure a payment a queue route turned away has a refund on record.
+ * Routes record one only for payments they read, so rejections before that
+ * (a slot that changed, a mismatched wallet, a signature in use) leave none.
+ */
+export async function ensureRejectedPaymentRefund(
+  intent: PaymentIntent,
+  signature: string,
+  receipt: Extract<TreasuryReceipt, { ok: true }>,
+  detail: string
+): Promise<RejectedPaymentRefund> {
+  const [refund, verified, latest] = await Promise.all([
+    getRefund(signature),
+    isSignatureVerified(signature),
+    getPaymentIntent(intent.id),
+  ]);
+  if (refund) return 'refunded';
+  if (verified || (latest?.status === 'consumed' && latest.consumedBy === signature)) return 'claimed';
+
+  const recorded = await tryRecordPendingRefund({
+    signature,
+    walletAddress: receipt.feePayer,
+    tokenMint: intent.tokenMint,
+    currency: receipt.currency,
+    amount: receipt.amount,
+    reason: 'payment_rejected',
+    detail,
+  });
+  return recorded ? 'refunded' : 'failed';
+}
+
+/**
+ * Stop watching an intent whose payment was turned away, keeping the reason
+ * for the payer. No-op unless the intent is still open.
+ */
+export async function failPaymentIntent(id: string, signature: string, failure: string): Promise<void> {
+  await getDataStore().paymentIntents.update(id, (intent) => ({
+    changes: intent?.status === 'open' ? { status: 'failed', consumedBy: signature, failure } : null,
+    result: undefined,
+  }));
+}
@@ -0,0 +1,272 @@
+import {
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { HELIUS_RPC_URL, MEMO_PROGRAM_ID, MINSTR_MINT, PaymentCurrency, TREASURY_WALLET } from '@/lib/constants';
+
+// ============================================
+// TREASURY PAYMENT RECEIPTS
+// ============================================
+// Reads what a confirmed transaction paid into the treasury. Deciding what
+// that amount buys (a queue slot, an extension) is left to the caller.
+
+export function getPaymentConnection(): Connection {
+  return new Connection(HELIUS_RPC_URL || 'https://mainnet.helius-rpc.com', 'confirmed');
+}
+
+/**
+ * Treasury's MINSTR associated token account; token payments land here
+ */
+export function getTreasuryTokenAccount(): string {
+  return getAssociatedTokenAddressSync(new PublicKey(MINSTR_MINT), new PublicKey(TREASURY_WALLET)).toBase58();
+}
+
+export type TreasuryReceipt =
+  | {
+      ok: true;
+      currency: PaymentCurrency;
+      amount: number;
+      feePayer: string;
+      memos: string[];            // SPL Memo instruction payloads, in order
+      blockTime: number | null;   // ms
+    }
+  | {
+      ok: false;
+      error: string;
+      // Set when the transaction couldn't be read (yet); the caller should retry, not reject
+      retry: 'not_found' | 'rpc_error' | null;
+    };
+
+interface TokenBalanceLike {
+  accountIndex: number;
+  mint: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+  };
+}
+
+function getTokenAmountRaw(
+  balances: TokenBalanceLike[] | null | undefined,
+  accountIndex: number,
+  mint: string
+): bigint {
+  if (!balances) {
+    return BigInt(0);
+  }
+
+  const entry = balances.find((balance) => balance.accountIndex === accountIndex && balance.mint === mint);
+  if (!entry) {
+    return BigInt(0);
+  }
+
+  try {
+    return BigInt(entry.uiTokenAmount.amount);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+function getMintDecimals(
+  preBalances: TokenBalanceLike[] | null | undefined,
+  postBalances: TokenBalanceLike[] | null | undefined,
+  accountIndex: number,
+  mint: string
+): number | null {
+  const postEntry = postBalances?.find(
+    (balance) => balance.accountIndex === accountIndex && balance.mint === mint
+  );
+  if (postEntry) {
+    return postEntry.uiTokenAmount.decimals;
+  }
+
+  const preEntry = preBalances?.find(
+    (balance) => balance.accountIndex === accountIndex && balance.mint === mint
+  );
+  if (preEntry) {
+    return preEntry.uiTokenAmount.decimals;
+  }
+
+  return null;
+}
+
+/**
+ * Amount the treasury received in a fetched transaction: SOL if its balance
+ * went up, otherwise MINSTR into the treasury's associated token account.
+ * Pure, so recorded transactions can be replayed through it.
+ */
+export function parseTreasuryReceipt(tx: VersionedTransactionResponse): TreasuryReceipt {
+  if (tx.meta?.err) {
+    return { ok: false, error: 'Transaction failed on-chain', retry: null };
+  }
+
+  const accountKeys = tx.transaction.message.getAccountKeys();
+  const allAccounts: string[] = [];
+  for (let index = 0; index < accountKeys.length; index += 1) {
+    const key = accountKeys.get(index);
+    if (key) {
+      allAccounts.push(key.toBase58());
+    }
+  }
+
+  const feePayer = allAccounts[0];
+  const memos = tx.transaction.message.compiledInstructions
+    .filter((instruction) => allAccounts[instruction.programIdIndex] === MEMO_PROGRAM_ID)
+    .map((instruction) => Buffer.from(instruction.data).toString('utf8'));
+  const blockTime = tx.blockTime ? tx.blockTime * 1000 : null;
+  const paid = { feePayer, memos, blockTime };
+
+  const treasuryIndex = allAccounts.indexOf(TREASURY_WALLET);
+  if (treasuryIndex !== -1 && tx.meta?.preBalances && tx.meta?.postBalances) {
+    const treasuryReceivedSol =
+      (tx.meta.postBalances[treasuryIndex] - tx.meta.preBalances[treasuryIndex]) / LAMPORTS_PER_SOL;
+    if (treasuryReceivedSol > 0) {
+      return { ok: true, currency: 'SOL', amount: treasuryReceivedSol, ...paid };
+    }
+  }
+
+  const treasuryTokenAccountIndex = allAccounts.indexOf(getTreasuryTokenAccount());
+
+  if (treasuryTokenAccountIndex !== -1 && tx.meta) {
+    const preTokenBalances = (tx.meta.preTokenBalances || null) as TokenBalanceLike[] | null;
+    const postTokenBalances = (tx.meta.postTokenBalances || null) as TokenBalanceLike[] | null;
+    const decimals = getMintDecimals(
+      preTokenBalances,
+      postTokenBalances,
+      treasuryTokenAccountIndex,
+      MINSTR_MINT
+    );
+
+    if (decimals !== null) {
+      const preRaw = getTokenAmountRaw(preTokenBalances, treasuryTokenAccountIndex, MINSTR_MINT);
+      const postRaw = getTokenAmountRaw(postTokenBalances, treasuryTokenAccountIndex, MINSTR_MINT);
+      const received = Number(postRaw - preRaw) / 10 ** decimals;
+      if (received > 0) {
+        return { ok: true, currency: 'MINSTR', amount: received, ...paid };
+      }
+    }
+  }
+
+  return { ok: false, error: 'No payment to the treasury found in this transaction', retry: null };
+}
+
+export async function fetchTreasuryTransaction(signature: string): Promise<VersionedTransactionResponse | null> {
+  return getPaymentConnection().getTransaction(signature, {
+    commitment: 'confirmed',
+    maxSupportedTransactionVersion: 0,
+  });
+}
+
+/**
+ * HTTP status for a receipt that couldn't be used: 409 while the transaction
+ * hasn't landed, 503 when the RPC failed (both retryable), 400 otherwise
+ */
+export function receiptErrorStatus(retry: 'not_found' | 'rpc_error' | null): number {
+  if (retry === 'not_found') return 409;
+  if (retry === 'rpc_error') return 503;
+  return 400;
+}
+
+/**
+ * Fetch a just-submitted transaction and read what it paid the treasury
+ */
+export async function readTreasuryReceipt(signature: string): Promise<TreasuryReceipt> {
+  try {
+    await new Promise((resolve) => setTimeout(resolve, 1500));
+
+    const tx = await fetchTreasuryTransaction(signature);
+    if (!tx) {
+      return { ok: false, error: 'Transaction not found - please wait and try again', retry: 'not_found' };
+    }
+    return parseTreasuryReceipt(tx);
+  } catch (error) {
+    console.error('[Payment] Verification error:', error);
+    return { ok: false, error: 'Failed to verify transaction - please try again', retry: 'rpc_error' };
+  }
+}
+
+// ============================================
+// SOLANA PAY TRANSFERS
+// ============================================
+
+/**
+ * Unsigned transfer of `amount` from `payer` to the treasury, carrying `memo`
+ * and tagged with the Solana Pay `reference` key so it can be found later
+ */
+export async function buildTreasuryTransfer(
+  payer: PublicKey,
+  currency: PaymentCurrency,
+  amount: number,
+  memo: string,
+  reference: PublicKey
+): Promise<Transaction> {
+  const connection = getPaymentConnection();
+  const treasury = new PublicKey(TREASURY_WALLET);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight });
+
+  transaction.add(
+    new TransactionInstruction({
+      programId: new PublicKey(MEMO_PROGRAM_ID),
+      keys: [{ pubkey: payer, isSigner: true, isWritable: false }],
+      data: Buffer.from(memo, 'utf8'),
+    })
+  );
+
+  let transfer: TransactionInstruction;
+  if (currency === 'SOL') {
+    transfer = SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: treasury,
+      lamports: Math.round(amount * LAMPORTS_PER_SOL),
+    });
+  } else {
+    const mint = new PublicKey(MINSTR_MINT);
+    const mintInfo = await getMint(connection, mint, 'confirmed');
+    const source = getAssociatedTokenAddressSync(mint, payer);
+    const destination = getAssociatedTokenAddressSync(mint, treasury);
+
+    transaction.add(createAssociatedTokenAccountIdempotentInstruction(payer, destination, treasury, mint));
+    transfer = createTransferCheckedInstruction(
+      source,
+      mint,
+      destination,
+      payer,
+      BigInt(Math.round(amount * 10 ** mintInfo.decimals)),
+      mintInfo.decimals,
+      [],
+      TOKEN_PROGRAM_ID
+    );
+  }
+
+  // Solana Pay convention: the reference rides on the transfer as a read-only key
+  transfer.keys.push({ pubkey: reference, isSigner: false, isWritable: false });
+  transaction.add(transfer);
+  return transaction;
+}
+
+/**
+ * Confirmed, successful transactions that mention `reference`, oldest first.
+ * Anyone can put a reference key on a transaction, so each one still has to
+ * be checked against what it pays.
+ */
+export async function listReferenceSignatures(reference: string): Promise<string[]> {
+  const connection = getPaymentConnection();
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(reference), { limit: 10 }, 'confirmed');
+  return signatures
+    .filter((entry) => !entry.err)
+    .map((entry) => entry.signature)
+    .reverse();
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { advanceQueue, enqueueQueueItems, listQueue, NewQueueItem } from './queue-engine';
+import { MemoryDataStore, setDataStore } from './storage';
+
+function purchase(tokenMints: string[], priorityLevel: number = 0): NewQueueItem {
+  return {
+    tokenMints,
+    scheduledAt: null,
+    walletAddress: 'wallet',
+    isPriority: priorityLevel > 0,
+    priorityLevel,
+    displayDuration: 1000,
+    transactionSignature: `signature-${tokenMints.join('-')}`,
+    userId: null,
+    pinnedModeId: null,
+    tierId: priorityLevel > 0 ? 'priority' : 'standard',
+    paymentCurrency: 'SOL',
+    paymentAmount: 0.01,
+    bidCreditMs: 0,
+  };
+}
+
+beforeEach(() => {
+  setDataStore(new MemoryDataStore());
+});
+
+describe('queue engine', () => {
+  it('shows every item exactly once while enqueues and advances interleave', async () => {
+    // Each advance runs past the previous item's expiry
+    let clock = Date.now();
+    const shown: string[] = [];
+    const advance = async () => {
+      const result = await advanceQueue((clock += 1001));
+      if (result.advanced && result.next) shown.push(result.next.id);
+    };
+
+    const purchases = [
+      ...Array.from({ length: 20 }, (_, index) => purchase([`token-${index}`], index % 3 === 0 ? 1 : 0)),
+      purchase(['playlist-a', 'playlist-b', 'playlist-c']),
+    ];
+    const results = await Promise.all([
+      ...purchases.map((item) => enqueueQueueItems(item)),
+      // Two processors racing for the same expiry, several times over
+      ...Array.from({ length: 10 }, () => Promise.all([advance(), advance()]).then(() => null)),
+    ]);
+
+    for (let step = 0; step < 100 && (await listQueue()).length > 0; step += 1) {
+      await advance();
+    }
+
+    const ids = results.flatMap((result) => (result && result.queued ? result.ids : []));
+    expect(ids).toHaveLength(23);
+    expect(await listQueue()).toEqual([]);
+    expect(new Set(shown).size).toBe(shown.length);
+    expect([...shown].sort()).toEqual([...ids].sort());
+
+    // The playlist plays back to back, in order
+    const playlist = results[purchases.length - 1];
+    const start = shown.indexOf(playlist && playlist.queued ? playlist.ids[0] : '');
+    expect(shown.slice(start, start + 3)).toEqual(playlist && playlist.queued ? playlist.ids : []);
+  });
+});
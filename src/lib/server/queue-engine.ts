@@ -0,0 +1,432 @@
+import { DEFAULT_TOKEN_MINT, PaymentCurrency } from '@/lib/constants';
+import { FieldValue, QueueItemAdmin, Timestamp } from '@/lib/firebase-admin';
+import { publishQueueEvent } from './live-events';
+import { queueOrderKey, reservedOrderKey } from './queue-keys';
+import { getDataStore } from './storage';
+
+// ============================================
+// QUEUE ENGINE
+// ============================================
+// Play order comes from each item's `orderKey` (see queue-keys): the
+// first-come line sorts by priority band and time, and reserved slots (a
+// purchase for a set start time) sort after it by start. A first-come item
+// only starts if it ends before the next reservation; a reservation starts
+// as soon as it is due.
+//
+// A playlist is several items bought in one payment, sharing `playlistId`.
+// Once one of them plays, the next in the playlist follows it directly.
+//
+// Taking the head and making it the current token happens in one queue
+// transaction, so parallel /api/queue/process calls can neither show the
+// same item twice nor drop one.
+//
+// Queue items are deleted once they start showing, so the same transaction
+// copies the item into the plays record (same id) as a permanent record of
+// when it played, how long for, and which chart-sync session drove the device.
+
+export interface CurrentTokenDoc {
+  tokenMint: string;
+  queueItemId: string | null;
+  expiresAt: Timestamp | null;
+  isPriority: boolean;
+  priorityLevel: number;
+  displayDuration: number;
+  walletAddress: string | null;
+  pinnedModeId?: number | null;
+  scheduledAt?: Timestamp | null;
+  playlistId?: string | null;
+  playlistIndex?: number | null;
+  playlistSize?: number | null;
+  activeAt?: Timestamp | null;       // when it became current
+  sessionStarted?: boolean;          // device session running for it
+  updatedAt?: Timestamp | FieldValue;
+}
+
+export interface NewQueueItem {
+  tokenMints: string[];      // play order; more than one makes a playlist
+  scheduledAt: number | null;   // reserved start (ms) of the first token; null = first come
+  walletAddress: string;
+  isPriority: boolean;
+  priorityLevel: number;
+  displayDuration: number;
+  transactionSignature: string;
+  userId: string | null;
+  pinnedModeId: number | null;
+  tierId: string;
+  paymentCurrency: PaymentCurrency;
+  paymentAmount: number;
+  bidCreditMs: number;       // bid mode: sort as if added this much earlier
+}
+
+export type EnqueueResult =
+  | { queued: true; ids: string[] }
+  | { queued: false; reason: 'conflict'; detail: string };
+
+export interface QueuePlay {
+  id: string;                      // queue item id
+  tokenMint: string;
+  walletAddress: string;
+  isPriority: boolean;
+  priorityLevel: number;
+  displayDuration: number;         // ms, including paid extensions
+  transactionSignature: string;
+  userId: string | null;
+  pinnedModeId: number | null;
+  tierId: string | null;           // null for items queued before tiers were stored
+  paymentCurrency: PaymentCurrency | null;
+  paymentAmount: number | null;
+  scheduledAt: Timestamp | null;   // reserved start, when it was a reservation
+  playlistId: string | null;
+  addedAt: Timestamp | null;
+  startedAt: Timestamp;
+  expiresAt: Timestamp;            // moves out with paid extensions
+  sessionId: string | null;        // chart-sync session, once one has started
+}
+
+export type AdvanceResult =
+  | { advanced: false; current: CurrentTokenDoc }
+  | {
+      advanced: true;
+      previous: CurrentTokenDoc | null;
+      next: QueueItemAdmin | null;   // null: queue was empty, reset to the default token
+      expiresAt: Date | null;
+    };
+
+export type ExtendResult =
+  | { extended: false; reason: 'not_active' | 'changed' | 'reserved'; current: CurrentTokenDoc | null }
+  | { extended: true; current: CurrentTokenDoc; expiresAt: Date };
+
+function reservedStart(item: QueueItemAdmin): number {
+  return item.scheduledAt?.toMillis() ?? 0;
+}
+
+/**
+ * How long an item needs once it starts: itself plus the rest of its playlist
+ */
+function runLength(item: QueueItemAdmin): number {
+  const remaining = item.playlistId ? (item.playlistSize || 1) - (item.playlistIndex || 0) : 1;
+  return Math.max(1, remaining) * item.displayDuration;
+}
+
+/**
+ * Why [start, end) can't be reserved, or null when it's free. `reserved` is
+ * in start order; the showing token blocks until it expires.
+ */
+export function findScheduleConflict(
+  reserved: QueueItemAdmin[],
+  current: CurrentTokenDoc | null,
+  start: number,
+  end: number
+): string | null {
+  if (current?.queueItemId && current.expiresAt && current.expiresAt.toMillis() > start) {
+    return `The token showing now runs until ${current.expiresAt.toDate().toISOString()}`;
+  }
+  const clash = reserved.find((item) => reservedStart(item) < end && start < reservedStart(item) + item.displayDuration);
+  return clash
+    ? `Overlaps a slot reserved from ${new Date(reservedStart(clash)).toISOString()} ` +
+      `to ${new Date(reservedStart(clash) + clash.displayDuration).toISOString()}`
+    : null;
+}
+
+/**
+ * Non-transactional conflict check for quoting a reservation before payment
+ */
+export async function checkScheduleConflict(start: number, end: number): Promise<string | null> {
+  const [reserved, current] = await Promise.all([getDataStore().queue.listReserved(), getCurrentTokenDoc()]);
+  return findScheduleConflict(reserved, current, start, end);
+}
+
+/**
+ * Start of the earliest reservation after `after`, or null
+ */
+export async function getNextReservationStart(after: number): Promise<number | null> {
+  const reserved = await getDataStore().queue.listReserved();
+  const next = reserved.find((item) => reservedStart(item) > after);
+  return next ? reservedStart(next) : null;
+}
+
+/**
+ * What plays next: a reservation that is due, else the rest of the playlist
+ * that just played, else the first-come head - those two only if they end
+ * before the next reservation starts. Null when nothing may start now.
+ */
+export function pickNextItem(
+  now: number,
+  reserved: QueueItemAdmin[],
+  continuation: QueueItemAdmin | null,
+  head: QueueItemAdmin | null
+): QueueItemAdmin | null {
+  const due = reserved.find((item) => reservedStart(item) <= now);
+  if (due) return due;
+
+  const upcoming = reserved.find((item) => reservedStart(item) > now);
+  const fits = (item: QueueItemAdmin) => !upcoming || now + runLength(item) <= reservedStart(upcoming);
+  for (const candidate of [continuation, head]) {
+    if (candidate && !candidate.scheduledAt && fits(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Add a paid purchase to the queue: one item per token, sharing a playlist id
+ * when there are several. First-come purchases write only their own
+ * documents; reservations are checked against every other reservation and
+ * the showing token in the same transaction that writes them.
+ */
+export async function enqueueQueueItems(input: NewQueueItem): Promise<EnqueueResult> {
+  const queue = getDataStore().queue;
+  const now = Date.now();
+  const { tokenMints, scheduledAt, ...fields } = input;
+  const playlistId = tokenMints.length > 1 ? `pl-${now}-${Math.random().toString(36).slice(2, 11)}` : null;
+  const firstComeKey = queueOrderKey(input.priorityLevel, now - input.bidCreditMs);
+
+  const items: QueueItemAdmin[] = tokenMints.map((tokenMint, index) => {
+    const startsAt = scheduledAt === null ? null : scheduledAt + index * input.displayDuration;
+    let orderKey = startsAt === null ? firstComeKey : reservedOrderKey(startsAt);
+    if (playlistId && startsAt === null) {
+      // Keeps the playlist together, in order, within its band
+      orderKey = `${firstComeKey}-${String(index).padStart(2, '0')}`;
+    }
+    return {
+      ...fields,
+      id: `${now}-${Math.random().toString(36).slice(2, 11)}`,
+      tokenMint,
+      expiresAt: null,
+      addedAt: FieldValue.serverTimestamp(),
+      orderKey,
+      scheduledAt: startsAt === null ? null : Timestamp.fromMillis(startsAt),
+      playlistId,
+      playlistIndex: index,
+      playlistSize: tokenMints.length,
+    };
+  });
+
+  if (scheduledAt === null) {
+    await queue.createItems(items);
+    await publishQueued(items);
+    return { queued: true, ids: items.map((item) => item.id) };
+  }
+
+  const end = scheduledAt + tokenMints.length * input.displayDuration;
+  const result: EnqueueResult = await queue.runTransaction(async (tx) => {
+    const [reserved, current] = await Promise.all([tx.listReserved(), tx.getCurrentToken()]);
+    const conflict = findScheduleConflict(reserved, current, scheduledAt, end);
+    if (conflict) {
+      return { queued: false as const, reason: 'conflict' as const, detail: conflict };
+    }
+    items.forEach((item) => tx.createItem(item));
+    return { queued: true as const, ids: items.map((item) => item.id) };
+  });
+
+  if (result.queued) {
+    await publishQueued(items);
+  }
+  return result;
+}
+
+async function publishQueued(items: QueueItemAdmin[]): Promise<void> {
+  for (const item of items) {
+    await publishQueueEvent('queued', item);
+  }
+}
+
+/**
+ * Queue items in play order
+ */
+export async function listQueue(): Promise<QueueItemAdmin[]> {
+  return getDataStore().queue.list();
+}
+
+export async function getCurrentTokenDoc(): Promise<CurrentTokenDoc | null> {
+  return getDataStore().currentToken.get();
+}
+
+function isCurrentExpired(current: CurrentTokenDoc | null, now: number): boolean {
+  return current?.expiresAt
+    ? current.expiresAt.toMillis() < now
+    : !current?.queueItemId; // No active item means we should process
+}
+
+/**
+ * If the current token has expired, atomically take the queue head and make
+ * it current (or reset to the default token when the queue is empty).
+ * Exactly one of any set of concurrent callers gets `advanced: true` for a
+ * given expiry.
+ */
+function defaultCurrentToken(now: number): CurrentTokenDoc {
+  return {
+    tokenMint: DEFAULT_TOKEN_MINT,
+    queueItemId: null,
+    expiresAt: null,
+    isPriority: false,
+    priorityLevel: 0,
+    displayDuration: 0,
+    walletAddress: null,
+    pinnedModeId: null,
+    scheduledAt: null,
+    playlistId: null,
+    playlistIndex: null,
+    playlistSize: null,
+    activeAt: Timestamp.fromMillis(now),
+    sessionStarted: false,
+  };
+}
+
+export async function advanceQueue(now: number = Date.now()): Promise<AdvanceResult> {
+  const result = await getDataStore().queue.runTransaction(async (tx) => {
+    const [current, head, reserved] = await Promise.all([
+      tx.getCurrentToken(),
+      tx.getFirstComeHead(),
+      tx.listReserved(),
+    ]);
+
+    if (current && !isCurrentExpired(current, now)) {
+      return { advanced: false as const, current };
+    }
+
+    let continuation: QueueItemAdmin | null = null;
+    if (current?.playlistId) {
+      const rest = await tx.listPlaylist(current.playlistId);
+      continuation = rest.sort((a, b) => (a.playlistIndex || 0) - (b.playlistIndex || 0))[0] || null;
+    }
+
+    const next = pickNextItem(now, reserved, continuation, head);
+
+    // Queue empty, or nothing ends before the next reservation: show the default token
+    if (!next) {
+      tx.setCurrentToken(defaultCurrentToken(now));
+      return { advanced: true as const, previous: current, next: null, expiresAt: null };
+    }
+
+    const expiresAt = new Date(now + next.displayDuration);
+
+    tx.setCurrentToken({
+      tokenMint: next.tokenMint,
+      queueItemId: next.id,
+      expiresAt: Timestamp.fromDate(expiresAt),
+      isPriority: next.isPriority,
+      priorityLevel: next.priorityLevel,
+      displayDuration: next.displayDuration,
+      walletAddress: next.walletAddress,
+      pinnedModeId: next.pinnedModeId ?? null,
+      scheduledAt: next.scheduledAt ?? null,
+      playlistId: next.playlistId ?? null,
+      playlistIndex: next.playlistIndex ?? null,
+      playlistSize: next.playlistSize ?? null,
+      activeAt: Timestamp.fromMillis(now), // Track when token became active
+      sessionStarted: false, // Will be set to true when device session starts
+    });
+    tx.deleteItem(next.id);
+
+    tx.setPlay({
+      id: next.id,
+      tokenMint: next.tokenMint,
+      walletAddress: next.walletAddress,
+      isPriority: next.isPriority,
+      priorityLevel: next.priorityLevel,
+      displayDuration: next.displayDuration,
+      transactionSignature: next.transactionSignature,
+      userId: next.userId ?? null,
+      pinnedModeId: next.pinnedModeId ?? null,
+      tierId: next.tierId ?? null,
+      paymentCurrency: next.paymentCurrency ?? null,
+      paymentAmount: next.paymentAmount ?? null,
+      scheduledAt: next.scheduledAt ?? null,
+      playlistId: next.playlistId ?? null,
+      addedAt: next.addedAt instanceof Timestamp ? next.addedAt : null,
+      startedAt: Timestamp.fromMillis(now),
+      expiresAt: Timestamp.fromDate(expiresAt),
+      sessionId: null,
+    });
+
+    return { advanced: true as const, previous: current, next, expiresAt };
+  });
+
+  if (result.advanced) {
+    await publishQueueEvent('started', result.next ?? defaultCurrentToken(now), result.expiresAt);
+  }
+  return result;
+}
+
+/**
+ * Push the showing token's expiry out by `addMs`. Runs in a transaction so
+ * it can't race the queue advancing; pass the queue item the payer saw to
+ * refuse extending whatever replaced it. Refused when the new expiry would
+ * run into a reserved slot.
+ */
+export async function extendCurrentToken(
+  addMs: number,
+  expectedQueueItemId?: string | null,
+  now: number = Date.now()
+): Promise<ExtendResult> {
+  const result = await getDataStore().queue.runTransaction(async (tx) => {
+    const [current, reserved] = await Promise.all([tx.getCurrentToken(), tx.listReserved()]);
+
+    // The default token has no expiry to extend
+    if (!current?.queueItemId || !current.expiresAt || isCurrentExpired(current, now)) {
+      return { extended: false as const, reason: 'not_active' as const, current };
+    }
+    if (expectedQueueItemId && current.queueItemId !== expectedQueueItemId) {
+      return { extended: false as const, reason: 'changed' as const, current };
+    }
+
+    const expiresAt = new Date(current.expiresAt.toMillis() + addMs);
+    const displayDuration = current.displayDuration + addMs;
+    // Reserved slots keep their start time; an extension can't run into one
+    if (reserved.some((item) => reservedStart(item) < expiresAt.getTime())) {
+      return { extended: false as const, reason: 'reserved' as const, current };
+    }
+    tx.updateCurrentToken({ expiresAt: Timestamp.fromDate(expiresAt), displayDuration });
+    // merge: items that started playing before plays were recorded have no record
+    tx.mergePlay(current.queueItemId, { expiresAt: Timestamp.fromDate(expiresAt), displayDuration });
+
+    return {
+      extended: true as const,
+      current: { ...current, expiresAt: Timestamp.fromDate(expiresAt), displayDuration },
+      expiresAt,
+    };
+  });
+
+  if (result.extended) {
+    await publishQueueEvent('extended', result.current, result.expiresAt);
+  }
+  return result;
+}
+
+/**
+ * Link a play to the chart-sync session started for it
+ */
+export async function recordPlaySession(queueItemId: string, sessionId: string): Promise<void> {
+  await getDataStore().plays.merge(queueItemId, { sessionId });
+}
+
+/**
+ * Plays of items paid for by `walletAddress`, newest first
+ */
+export async function listPlaysForWallet(walletAddress: string): Promise<QueuePlay[]> {
+  const plays = await getDataStore().plays.listForWallet(walletAddress);
+  return plays.sort((a, b) => b.startedAt.toMillis() - a.startedAt.toMillis());
+}
+
+/**
+ * The play of `tokenMint` that was on screen at `at`, if any
+ */
+export async function findPlayAt(tokenMint: string, at: number): Promise<QueuePlay | null> {
+  const plays = await getDataStore().plays.listForToken(tokenMint);
+  const play = plays.find((candidate) => candidate.startedAt.toMillis() <= at && at <= candidate.expiresAt.toMillis());
+  return play || null;
+}
+
+/**
+ * Items `walletAddress` paid for that haven't started playing yet
+ */
+export async function listQueuedForWallet(walletAddress: string): Promise<QueueItemAdmin[]> {
+  return getDataStore().queue.listForWallet(walletAddress);
+}
+
+/**
+ * Merge fields into the showing token's record (device session bookkeeping)
+ */
+export async function updateCurrentTokenDoc(changes: Partial<CurrentTokenDoc>): Promise<void> {
+  await getDataStore().currentToken.merge(changes);
+}
@@ -0,0 +1,47 @@
+// ============================================
+// QUEUE ORDER KEYS
+// ============================================
+// Queue items are ordered by a lexicographic `orderKey` instead of a dense
+// `position`, so an insert writes exactly one record and never renumbers
+// the rest of the queue:
+//
+//   p<band>-<addedAtMs, 13 digits>-<random>
+//
+// band = 9 - priorityLevel, so higher priority sorts first and items within
+// a band stay first-in first-out. Bids backdate the time part by the
+// seniority they bought, which moves them ahead within their band.
+//
+// Reserved slots (a purchase for a set start time) use
+// `s-<scheduledAtMs>-<random>` keys, which sort after every first-come key,
+// so the first-come line and the reservations are two ranges of one index.
+
+const MAX_PRIORITY_LEVEL = 9;
+
+/** Every reserved key sorts at or after this; every first-come key before it */
+export const RESERVED_KEY_PREFIX = 's';
+
+function tiebreak(): string {
+  return Math.random().toString(36).slice(2, 8).padEnd(6, '0');
+}
+
+/**
+ * Ordering key for a queue item; compare as plain strings
+ */
+export function queueOrderKey(priorityLevel: number, addedAtMs: number): string {
+  const level = Math.max(0, Math.min(MAX_PRIORITY_LEVEL, Math.floor(priorityLevel || 0)));
+  const band = MAX_PRIORITY_LEVEL - level;
+  const time = String(Math.max(0, Math.floor(addedAtMs))).padStart(13, '0');
+  return `p${band}-${time}-${tiebreak()}`;
+}
+
+/**
+ * Ordering key for a reserved slot; sorts after every first-come key, by start time
+ */
+export function reservedOrderKey(scheduledAtMs: number): string {
+  const time = String(Math.max(0, Math.floor(scheduledAtMs))).padStart(13, '0');
+  return `${RESERVED_KEY_PREFIX}-${time}-${tiebreak()}`;
+}
+
+export function isReservedKey(orderKey: string): boolean {
+  return orderKey >= RESERVED_KEY_PREFIX;
+}
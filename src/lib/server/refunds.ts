@@ -0,0 +1,341 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { HELIUS_RPC_URL, MINSTR_MINT, PaymentCurrency } from '@/lib/constants';
+import { FieldValue, Timestamp } from '@/lib/firebase-admin';
+import { getDataStore } from './storage';
+
+// ============================================
+// REFUNDS
+// ============================================
+// A payment that was received but bought nothing (cooldown, bad amount or
+// memo, a reserved slot taken meanwhile, quota errors, crashes after
+// verification) becomes a refund record keyed by its payment signature, so
+// recording the same failure twice is a no-op.
+//
+//   pending -> approved -> sending -> refunded
+//                 |           \-> failed -> (retry) sending
+//                 \-> rejected (also from pending / failed)
+//
+// `sending` is claimed in a transaction before any transfer goes out, so two
+// admins executing at once can't both pay. The transfer signature and its
+// blockhash are stored before confirmation. A retry first checks whether that
+// transfer landed, and only pays again once the block height has passed the
+// blockhash's last valid height, when it no longer can. Every change is
+// appended to the record's `history`.
+
+export type RefundStatus = 'pending' | 'approved' | 'sending' | 'refunded' | 'failed' | 'rejected';
+
+export type RefundReason =
+  | 'duplicate_cooldown'
+  | 'invalid_amount'
+  | 'quota_exceeded'
+  | 'server_error'
+  | 'extension_not_applied'
+  | 'intent_reused'
+  | 'schedule_conflict'
+  | 'payment_rejected';
+
+export interface RefundAuditEntry {
+  at: number;
+  action: 'recorded' | 'approved' | 'rejected' | 'sending' | 'refunded' | 'failed';
+  actor: string;
+  note?: string;
+}
+
+export interface RefundRecord {
+  signature: string;             // payment being refunded; also the record id
+  walletAddress: string;         // refund destination (the payer)
+  tokenMint: string | null;
+  currency: PaymentCurrency;
+  amount: number;
+  reason: RefundReason;
+  detail: string;
+  status: RefundStatus;
+  refundSignature: string | null;               // latest transfer sent, confirmed or not
+  refundBlockhash?: string | null;              // blockhash that transfer was signed with
+  refundLastValidBlockHeight?: number | null;   // it can't land after this block height
+  attempts: number;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+  history: RefundAuditEntry[];
+}
+
+export interface PendingRefundInput {
+  signature: string;
+  walletAddress: string;
+  tokenMint: string | null;
+  currency: PaymentCurrency;
+  amount: number;
+  reason: RefundReason;
+  detail: string;
+}
+
+export class RefundError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+function audit(action: RefundAuditEntry['action'], actor: string, note?: string): RefundAuditEntry {
+  return note ? { at: Date.now(), action, actor, note } : { at: Date.now(), action, actor };
+}
+
+/**
+ * Record a refund owed for a payment. Idempotent per payment signature:
+ * returns the existing record when one is already there.
+ */
+export async function recordPendingRefund(input: PendingRefundInput): Promise<RefundRecord> {
+  const record: RefundRecord = {
+    ...input,
+    status: 'pending',
+    refundSignature: null,
+    refundBlockhash: null,
+    refundLastValidBlockHeight: null,
+    attempts: 0,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    history: [audit('recorded', 'system', `${input.reason}: ${input.detail}`)],
+  };
+
+  const stored = await getDataStore().refunds.create(record);
+  if (stored.created) {
+    console.log(
+      `[Refunds] Pending ${input.amount} ${input.currency} to ${input.walletAddress.slice(0, 4)}... ` +
+      `(${input.reason}) for ${input.signature}`
+    );
+  }
+  return stored.record;
+}
+
+/**
+ * Best-effort wrapper for request handlers that are already failing: a
+ * refund that can't be recorded is logged with everything needed to redo it
+ */
+export async function tryRecordPendingRefund(input: PendingRefundInput): Promise<boolean> {
+  try {
+    await recordPendingRefund(input);
+    return true;
+  } catch (error) {
+    console.error('[Refunds] Failed to record pending refund:', JSON.stringify(input), error);
+    return false;
+  }
+}
+
+export async function getRefund(signature: string): Promise<RefundRecord | null> {
+  return getDataStore().refunds.get(signature);
+}
+
+export async function listRefunds(status?: RefundStatus, limit: number = 100): Promise<RefundRecord[]> {
+  return getDataStore().refunds.list(status ?? null, limit);
+}
+
+/**
+ * Move a refund between states inside a transaction; throws RefundError when
+ * the record is missing or not in one of the `from` states
+ */
+async function transitionRefund(
+  signature: string,
+  from: RefundStatus[],
+  to: RefundStatus,
+  entry: RefundAuditEntry,
+  extra: Partial<RefundRecord> | ((record: RefundRecord) => Partial<RefundRecord>) = {}
+): Promise<RefundRecord> {
+  return getDataStore().refunds.update(signature, (record) => {
+    if (!record) {
+      throw new RefundError('Refund not found', 404);
+    }
+    if (!from.includes(record.status)) {
+      throw new RefundError(`Refund is ${record.status}, expected ${from.join(' or ')}`, 409);
+    }
+
+    const changes = typeof extra === 'function' ? extra(record) : extra;
+    const history = [...record.history, entry];
+    return {
+      changes: { ...changes, status: to, updatedAt: FieldValue.serverTimestamp(), history },
+      result: { ...record, ...changes, status: to, history },
+    };
+  });
+}
+
+export async function approveRefund(signature: string, actor: string, note?: string): Promise<RefundRecord> {
+  return transitionRefund(signature, ['pending'], 'approved', audit('approved', actor, note));
+}
+
+export async function rejectRefund(signature: string, actor: string, note?: string): Promise<RefundRecord> {
+  return transitionRefund(
+    signature,
+    ['pending', 'approved', 'failed'],
+    'rejected',
+    audit('rejected', actor, note)
+  );
+}
+
+// ============================================
+// REFUND TRANSFERS
+// ============================================
+
+/**
+ * Keypair that pays refunds, from REFUND_SIGNER_SECRET_KEY as a JSON byte
+ * array (the format `solana-keygen` writes)
+ */
+function getRefundSigner(): Keypair {
+  const raw = process.env.REFUND_SIGNER_SECRET_KEY;
+  if (!raw) {
+    throw new RefundError('Refund signer is not configured', 503);
+  }
+  try {
+    return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(raw) as number[]));
+  } catch {
+    throw new RefundError('REFUND_SIGNER_SECRET_KEY is not a valid secret key', 503);
+  }
+}
+
+function getRefundConnection(): Connection {
+  return new Connection(HELIUS_RPC_URL || 'https://mainnet.helius-rpc.com', 'confirmed');
+}
+
+async function buildRefundTransfer(
+  connection: Connection,
+  signer: Keypair,
+  currency: PaymentCurrency,
+  walletAddress: string,
+  amount: number
+): Promise<Transaction> {
+  const recipient = new PublicKey(walletAddress);
+  const transaction = new Transaction();
+
+  if (currency === 'SOL') {
+    transaction.add(
+      SystemProgram.transfer({
+        fromPubkey: signer.publicKey,
+        toPubkey: recipient,
+        lamports: Math.round(amount * LAMPORTS_PER_SOL),
+      })
+    );
+  } else {
+    const mint = new PublicKey(MINSTR_MINT);
+    const mintInfo = await getMint(connection, mint, 'confirmed');
+    const source = getAssociatedTokenAddressSync(mint, signer.publicKey);
+    const destination = getAssociatedTokenAddressSync(mint, recipient);
+
+    transaction.add(
+      createAssociatedTokenAccountIdempotentInstruction(signer.publicKey, destination, recipient, mint),
+      createTransferCheckedInstruction(
+        source,
+        mint,
+        destination,
+        signer.publicKey,
+        BigInt(Math.round(amount * 10 ** mintInfo.decimals)),
+        mintInfo.decimals,
+        [],
+        TOKEN_PROGRAM_ID
+      )
+    );
+  }
+
+  return transaction;
+}
+
+async function didTransferLand(connection: Connection, refundSignature: string): Promise<boolean> {
+  const { value } = await connection.getSignatureStatus(refundSignature, { searchTransactionHistory: true });
+  return Boolean(value && !value.err && value.confirmationStatus && value.confirmationStatus !== 'processed');
+}
+
+/**
+ * Throws unless a failed refund's earlier transfer has landed or can no longer
+ * land. Records from before blockhashes were stored can't be checked and pass.
+ */
+async function assertEarlierTransferSettled(connection: Connection, record: RefundRecord | null): Promise<void> {
+  if (record?.status !== 'failed' || !record.refundSignature || record.refundLastValidBlockHeight == null) {
+    return;
+  }
+
+  const blockHeight = await connection.getBlockHeight('confirmed');
+  if (blockHeight > record.refundLastValidBlockHeight) return;
+  if (await didTransferLand(connection, record.refundSignature)) return;
+
+  throw new RefundError(
+    `Earlier transfer ${record.refundSignature} can still land until block ${record.refundLastValidBlockHeight} ` +
+    `(now ${blockHeight}); retry after that`,
+    409
+  );
+}
+
+/**
+ * Pay out an approved (or previously failed) refund from the refund signer
+ */
+export async function executeRefund(signature: string, actor: string): Promise<RefundRecord> {
+  const signer = getRefundSigner();
+  const connection = getRefundConnection();
+
+  await assertEarlierTransferSettled(connection, await getRefund(signature));
+
+  const claimed = await transitionRefund(
+    signature,
+    ['approved', 'failed'],
+    'sending',
+    audit('sending', actor, `from ${signer.publicKey.toBase58()}`),
+    (record) => ({ attempts: (record.attempts || 0) + 1 })
+  );
+
+  let refundSignature = claimed.refundSignature;
+  try {
+    // A previous attempt may have landed after its confirmation timed out
+    if (refundSignature && (await didTransferLand(connection, refundSignature))) {
+      console.log(`[Refunds] Earlier transfer ${refundSignature} for ${signature} had landed`);
+    } else {
+      const transaction = await buildRefundTransfer(
+        connection,
+        signer,
+        claimed.currency,
+        claimed.walletAddress,
+        claimed.amount
+      );
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = signer.publicKey;
+      transaction.sign(signer);
+
+      refundSignature = await connection.sendRawTransaction(transaction.serialize());
+      await getDataStore().refunds.merge(signature, {
+        refundSignature,
+        refundBlockhash: blockhash,
+        refundLastValidBlockHeight: lastValidBlockHeight,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      const confirmation = await connection.confirmTransaction(
+        { signature: refundSignature, blockhash, lastValidBlockHeight },
+        'confirmed'
+      );
+      if (confirmation.value.err) {
+        throw new Error(`Refund transfer failed on-chain: ${JSON.stringify(confirmation.value.err)}`);
+      }
+    }
+
+    console.log(`[Refunds] Refunded ${signature} in ${refundSignature}`);
+    return transitionRefund(signature, ['sending'], 'refunded', audit('refunded', actor, refundSignature || undefined), {
+      refundSignature,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Refunds] Transfer for ${signature} failed:`, error);
+    return transitionRefund(signature, ['sending'], 'failed', audit('failed', actor, message), {
+      refundSignature,
+    });
+  }
+}
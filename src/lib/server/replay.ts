@@ -0,0 +1,134 @@
+import {
+  getSessionStore,
+  getSessionTimeline,
+  MotionFrame,
+  MotionPlan,
+  ReplayRecord,
+  TimelineEntry,
+} from '@/lib/chartSync';
+import { CHART_MOTION_SYNTHESIS } from '@/lib/constants';
+import { playMotionPlan, stopAllDevices } from '@/lib/server/devices';
+
+// ============================================
+// SESSION REPLAY
+// ============================================
+// Plays a recorded session timeline back through the device layer, keeping
+// the original spacing between ticks divided by a speed multiplier. The
+// whole replay goes to the drivers as one plan that ends in a stop, so it
+// keeps playing after the request returns; drivers that can only take single
+// commands are skipped. The replay record lives in the session store, so any
+// instance can report or stop it. One replay at a time; starting another
+// replaces it.
+
+export const MIN_REPLAY_SPEED = 0.25;
+export const MAX_REPLAY_SPEED = 10;
+
+export interface ReplayStatus {
+  sessionId: string;
+  tokenMint: string;
+  speedMultiplier: number;
+  startedAt: number;
+  position: number;     // entries played so far
+  total: number;
+  finished: boolean;
+}
+
+function toStatus(replay: ReplayRecord, now: number): ReplayStatus {
+  const elapsedMs = now - replay.startedAt;
+  const position = replay.offsetsMs.filter((offsetMs) => offsetMs <= elapsedMs).length;
+  return {
+    sessionId: replay.sessionId,
+    tokenMint: replay.tokenMint,
+    speedMultiplier: replay.speedMultiplier,
+    startedAt: replay.startedAt,
+    position,
+    total: replay.offsetsMs.length,
+    finished: position >= replay.offsetsMs.length,
+  };
+}
+
+/**
+ * Lay the timeline out as one time-scaled plan: each tick's motion frames
+ * when they were recorded and synthesis is on, otherwise its single command.
+ * The last tick stops the devices, as the live session did.
+ */
+function replayPlan(entries: TimelineEntry[], offsetsMs: number[], startedAt: number, speed: number): MotionPlan {
+  const frames: MotionFrame[] = [];
+  const last = entries.length - 1;
+
+  entries.slice(0, last).forEach((entry, index) => {
+    const gapMs = offsetsMs[index + 1] - offsetsMs[index];
+    if (!CHART_MOTION_SYNTHESIS || !entry.motion || entry.motion.length === 0 || gapMs <= 0) {
+      frames.push({ offsetMs: offsetsMs[index], command: entry.command });
+      return;
+    }
+    for (const frame of entry.motion) {
+      const offsetMs = frame.offsetMs / speed;
+      if (offsetMs < gapMs) frames.push({ offsetMs: offsetsMs[index] + offsetMs, command: frame.command });
+    }
+  });
+  frames.push({ offsetMs: offsetsMs[last], command: { speed: 0, minY: 0, maxY: 0 } });
+
+  return {
+    startAt: startedAt,
+    durationMs: offsetsMs[last],
+    style: 'replay',
+    booster: null,
+    frames,
+  };
+}
+
+/**
+ * Start replaying a session. Throws if the session has no recorded timeline
+ * or no active driver can take the replay.
+ */
+export async function startReplay(sessionId: string, speedMultiplier: number = 1): Promise<ReplayStatus> {
+  const timeline = await getSessionTimeline(sessionId);
+  if (!timeline || timeline.entries.length === 0) {
+    throw new Error('No recorded timeline for this session');
+  }
+
+  const speed = Math.max(MIN_REPLAY_SPEED, Math.min(MAX_REPLAY_SPEED, speedMultiplier || 1));
+  const entries: TimelineEntry[] = [...timeline.entries].sort((a, b) => a.at - b.at);
+  const origin = entries[0].at;
+
+  const replay: ReplayRecord = {
+    sessionId,
+    tokenMint: timeline.tokenMint,
+    speedMultiplier: speed,
+    startedAt: Date.now(),
+    offsetsMs: entries.map((entry) => (entry.at - origin) / speed),
+  };
+
+  console.log(`[Replay] Starting ${sessionId} (${entries.length} ticks from ${new Date(origin).toISOString()}) at ${speed}x`);
+  const plan = replayPlan(entries, replay.offsetsMs, replay.startedAt, speed);
+  const result = await playMotionPlan(plan, { plansOnly: true });
+  if (!result.ok) {
+    console.error(`[Replay] No driver took ${sessionId}:`, result.results);
+    throw new Error('No active device driver can play a replay');
+  }
+
+  await getSessionStore().setReplay(replay);
+  return toStatus(replay, Date.now());
+}
+
+/**
+ * Stop the current replay (and the devices) if one is running
+ */
+export async function stopReplay(): Promise<ReplayStatus | null> {
+  const store = getSessionStore();
+  const replay = await store.getReplay();
+  if (!replay) return null;
+
+  await store.setReplay(null);
+  const status = toStatus(replay, Date.now());
+  if (!status.finished) {
+    await stopAllDevices();
+  }
+  return status;
+}
+
+export async function getReplayStatus(): Promise<ReplayStatus | null> {
+  const replay = await getSessionStore().getReplay();
+  return replay ? toStatus(replay, Date.now()) : null;
+}
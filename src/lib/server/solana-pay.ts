@@ -0,0 +1,133 @@
+import { fetchTreasuryTransaction, listReferenceSignatures, parseTreasuryReceipt, TreasuryReceipt } from './payments';
+import {
+  checkIntentReceipt,
+  ensureRejectedPaymentRefund,
+  failPaymentIntent,
+  getPaymentIntent,
+  listWatchedIntents,
+  PaymentIntent,
+  submitIntentPayment,
+} from './payment-intents';
+
+// ============================================
+// SOLANA PAY SETTLEMENT
+// ============================================
+// Wallets paying through a transaction request never call back, so the
+// server finds their transfer by its reference key and claims the queue slot
+// itself through /api/queue/add, with the same checks the web client gets.
+// Submission is leased per intent so the status poll, the tick sweep and the
+// treasury watcher can't all submit the same payment.
+
+export type SolanaPayStatus =
+  | { status: 'waiting' }
+  | { status: 'queued'; signature: string | null }
+  | { status: 'failed'; signature: string | null; error: string }
+  | { status: 'expired' };
+
+function statusOf(intent: PaymentIntent): SolanaPayStatus | null {
+  if (intent.status === 'consumed') return { status: 'queued', signature: intent.consumedBy };
+  if (intent.status === 'failed') {
+    return { status: 'failed', signature: intent.consumedBy, error: intent.failure || 'Payment was not accepted' };
+  }
+  return null;
+}
+
+interface ReferencePayment {
+  signature: string;
+  receipt: Extract<TreasuryReceipt, { ok: true }>;   // kept to refund it if the queue turns it away
+}
+
+/**
+ * First landed transaction on the intent's reference that pays the intent:
+ * its wallet, memo, currency and amount, to the treasury. Others carrying
+ * the reference are ignored. `unread` is set when one couldn't be fetched
+ * yet, so a payment may still be among them.
+ */
+async function findReferencePayment(
+  intent: PaymentIntent,
+  reference: string
+): Promise<{ payment: ReferencePayment | null; unread: boolean }> {
+  let unread = false;
+
+  for (const signature of await listReferenceSignatures(reference)) {
+    const tx = await fetchTreasuryTransaction(signature).catch((error) => {
+      console.error(`[SolanaPay] Failed to fetch ${signature}:`, error);
+      return null;
+    });
+    if (!tx) {
+      unread = true;
+      continue;
+    }
+
+    const receipt = parseTreasuryReceipt(tx);
+    if (receipt.ok && checkIntentReceipt(intent, receipt).ok) {
+      return { payment: { signature, receipt }, unread };
+    }
+  }
+
+  return { payment: null, unread };
+}
+
+/**
+ * Look for a payment against a watched intent and, once one has landed,
+ * submit it to the queue
+ */
+export async function settleReferenceIntent(intent: PaymentIntent, baseUrl: string): Promise<SolanaPayStatus> {
+  const settled = statusOf(intent);
+  if (settled) return settled;
+  if (!intent.reference) return { status: 'waiting' };
+
+  const { payment, unread } = await findReferencePayment(intent, intent.reference);
+  if (!payment) {
+    const watching = unread || Date.now() <= (intent.watchUntil ?? intent.expiresAt);
+    return watching ? { status: 'waiting' } : { status: 'expired' };
+  }
+
+  const { signature, receipt } = payment;
+  const submission = await submitIntentPayment(intent, signature, baseUrl);
+  switch (submission.outcome) {
+    case 'accepted':
+      console.log(`[SolanaPay] Queued ${intent.tokenMint?.slice(0, 8)}... from ${signature}`);
+      return { status: 'queued', signature };
+    case 'busy':
+      return latestStatus(intent);
+    case 'retry':
+      console.warn(`[SolanaPay] Settling ${intent.id} will retry: ${submission.error}`);
+      return { status: 'waiting' };
+    case 'rejected': {
+      console.error(`[SolanaPay] Payment ${signature} for intent ${intent.id} rejected: ${submission.error}`);
+      // Failed only once a refund is on record, so the next poll tries again
+      const refund = await ensureRejectedPaymentRefund(intent, signature, receipt, submission.error);
+      if (refund === 'claimed') return latestStatus(intent);
+      if (refund === 'failed') return { status: 'waiting' };
+      await failPaymentIntent(intent.id, signature, submission.error);
+      return { status: 'failed', signature, error: submission.error };
+    }
+  }
+}
+
+async function latestStatus(intent: PaymentIntent): Promise<SolanaPayStatus> {
+  const latest = await getPaymentIntent(intent.id);
+  return (latest && statusOf(latest)) || { status: 'waiting' };
+}
+
+/**
+ * Settle every open Solana Pay intent; called from the device tick
+ */
+export async function settleWatchedIntents(baseUrl: string): Promise<{ checked: number; queued: number; failed: number }> {
+  const intents = await listWatchedIntents();
+  let queued = 0;
+  let failed = 0;
+
+  for (const intent of intents) {
+    try {
+      const result = await settleReferenceIntent(intent, baseUrl);
+      if (result.status === 'queued') queued += 1;
+      if (result.status === 'failed') failed += 1;
+    } catch (error) {
+      console.error(`[SolanaPay] Failed to settle intent ${intent.id}:`, error);
+    }
+  }
+
+  return { checked: intents.length, queued, failed };
+}
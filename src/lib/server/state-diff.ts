@@ -0,0 +1,62 @@
+import { AppStateSnapshot, StateChange, StateQueueItem } from '@/lib/state';
+
+// ============================================
+// STATE DIFF
+// ============================================
+// Turns two consecutive snapshots into the stream's change events. A queue
+// item that changed is removed and inserted again, so the queue only ever
+// needs insert and remove.
+
+function sameItem(a: StateQueueItem, b: StateQueueItem): boolean {
+  // Position is the index, which every insert or remove ahead of it shifts
+  return JSON.stringify({ ...a, position: 0 }) === JSON.stringify({ ...b, position: 0 });
+}
+
+function diffQueue(prev: StateQueueItem[], next: StateQueueItem[]): StateChange[] {
+  const nextById = new Map(next.map((item) => [item.id, item]));
+  const kept = new Set(
+    prev.filter((item) => {
+      const match = nextById.get(item.id);
+      return match !== undefined && sameItem(item, match);
+    }).map((item) => item.id)
+  );
+
+  // Order keys don't change, so kept items stay in order; if they ever don't, resend the whole queue
+  const keptBefore = prev.filter((item) => kept.has(item.id)).map((item) => item.id);
+  const keptAfter = next.filter((item) => kept.has(item.id)).map((item) => item.id);
+  if (JSON.stringify(keptBefore) !== JSON.stringify(keptAfter)) {
+    kept.clear();
+  }
+
+  const changes: StateChange[] = [];
+  for (const item of prev) {
+    if (!kept.has(item.id)) changes.push({ type: 'queue.remove', id: item.id });
+  }
+  // Inserting in index order lands each item where it ends up
+  next.forEach((item, index) => {
+    if (!kept.has(item.id)) changes.push({ type: 'queue.insert', index, item });
+  });
+  return changes;
+}
+
+/**
+ * Changes that turn `prev` into `next`, in the order they must be applied
+ */
+export function diffStateSnapshots(prev: AppStateSnapshot, next: AppStateSnapshot): StateChange[] {
+  const changes: StateChange[] = [];
+
+  if (
+    prev.currentToken !== next.currentToken ||
+    JSON.stringify(prev.currentItem) !== JSON.stringify(next.currentItem)
+  ) {
+    changes.push({ type: 'current.change', currentToken: next.currentToken, currentItem: next.currentItem });
+  }
+
+  changes.push(...diffQueue(prev.queue, next.queue));
+
+  if (JSON.stringify(prev.device) !== JSON.stringify(next.device)) {
+    changes.push({ type: 'device.tick', device: next.device });
+  }
+
+  return changes;
+}
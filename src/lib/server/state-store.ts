@@ -1,23 +1,39 @@
-import { FieldValue, getAdminDb } from '@/lib/firebase-admin';
 import { AUTOBLOW_ENABLED, DEFAULT_TOKEN_MINT } from '@/lib/constants';
+import { getCurrentTokenDoc, listQueue } from '@/lib/server/queue-engine';
+import { getDeviceSession } from '@/lib/server/device-session';
+import { diffStateSnapshots } from '@/lib/server/state-diff';
+import { getDataStore, StateSources } from '@/lib/server/storage';
 import {
   AppStateSnapshot,
   DeviceCooldownState,
   DeviceSessionState,
   DeviceStateSnapshot,
+  formatStateEventId,
+  parseStateEventId,
+  StateEvent,
   StateQueueItem,
 } from '@/lib/state';
 
-type StateListener = (snapshot: AppStateSnapshot) => void;
+// ============================================
+// APP STATE STORE
+// ============================================
+// Each instance watches the queue, the current token and the device session
+// through the data store's state feed and rebuilds the snapshot from what it
+// last received, so serving state costs no reads and a write on any instance
+// reaches every SSE client within about a second. Until the feed has
+// delivered (cold start, or after it fails) snapshots are read directly.
+//
+// Every change gets the next revision and is kept as stream events for a
+// while, so a reconnecting SSE client can catch up without a full snapshot.
+
+type StateListener = (snapshot: AppStateSnapshot, events: StateEvent[]) => void;
 
-const STATE_SNAPSHOT_DOC = 'settings/stateSnapshot';
-const CURRENT_TOKEN_DOC = 'settings/currentToken';
-const DEVICE_SESSION_DOC = 'settings/deviceSession';
-const QUEUE_COLLECTION = 'queue';
 const SESSION_COOLDOWN_MS = 10000;
 
 const REFRESH_THROTTLE_MS = 750;
 const DEFAULT_PERSIST_DEBOUNCE_MS = 1000;
+const FEED_RETRY_MS = 5000;
+const EVENT_HISTORY_LIMIT = 1000;
 
 function parseTimestamp(value: unknown): number | null {
   if (!value) return null;
@@ -70,7 +86,7 @@ function emptyDeviceState(): DeviceStateSnapshot {
 
 function createEmptyState(source: string): AppStateSnapshot {
   return {
-    version: 1,
+    version: 0,
     source,
     updatedAt: Date.now(),
     currentToken: DEFAULT_TOKEN_MINT,
@@ -82,11 +98,17 @@ function createEmptyState(source: string): AppStateSnapshot {
 
 interface StateStoreData {
   snapshot: AppStateSnapshot;
+  epoch: string;                      // names this instance's revisions in stream event ids
+  history: StateEvent[];              // oldest first, at most EVENT_HISTORY_LIMIT
   listeners: Set<StateListener>;
   refreshPromise: Promise<AppStateSnapshot> | null;
   lastRefreshAt: number;
   persistTimer: ReturnType<typeof setTimeout> | null;
   lastPersistedHash: string | null;
+  feedSources: StateSources | null;   // null until the feed delivers, and after it fails
+  stopFeed: (() => void) | null;
+  feedRetryTimer: ReturnType<typeof setTimeout> | null;
+  cooldownTimer: ReturnType<typeof setTimeout> | null;
 }
 
 declare global {
@@ -97,11 +119,17 @@ function getStore(): StateStoreData {
   if (!global.__machineGoBrrrStateStore) {
     global.__machineGoBrrrStateStore = {
       snapshot: createEmptyState('boot'),
+      epoch: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      history: [],
       listeners: new Set<StateListener>(),
       refreshPromise: null,
       lastRefreshAt: 0,
       persistTimer: null,
       lastPersistedHash: null,
+      feedSources: null,
+      stopFeed: null,
+      feedRetryTimer: null,
+      cooldownTimer: null,
     };
   }
 
@@ -110,7 +138,6 @@ function getStore(): StateStoreData {
 
 function stableSnapshotHash(snapshot: AppStateSnapshot): string {
   return JSON.stringify({
-    version: snapshot.version,
     currentToken: snapshot.currentToken,
     currentItem: snapshot.currentItem,
     queue: snapshot.queue,
@@ -131,14 +158,7 @@ async function persistSnapshotDebounced(snapshot: AppStateSnapshot): Promise<voi
 
   store.persistTimer = setTimeout(async () => {
     try {
-      const db = getAdminDb();
-      await db.doc(STATE_SNAPSHOT_DOC).set(
-        {
-          ...snapshot,
-          persistedAt: FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
+      await getDataStore().stateSnapshot.save(snapshot);
       store.lastPersistedHash = snapshotHash;
     } catch (error) {
       console.error('[StateStore] Failed to persist snapshot:', error);
@@ -146,61 +166,46 @@ async function persistSnapshotDebounced(snapshot: AppStateSnapshot): Promise<voi
   }, persistDebounceMs());
 }
 
-function notifyListeners(snapshot: AppStateSnapshot): void {
+function notifyListeners(snapshot: AppStateSnapshot, events: StateEvent[]): void {
   const store = getStore();
   for (const listener of store.listeners) {
     try {
-      listener(snapshot);
+      listener(snapshot, events);
     } catch (error) {
       console.error('[StateStore] Listener error:', error);
     }
   }
 }
 
-async function buildStateFromFirestore(source: string): Promise<AppStateSnapshot> {
-  const db = getAdminDb();
-  const now = Date.now();
-
-  const [currentDoc, queueSnapshot, deviceSessionDoc] = await Promise.all([
-    db.doc(CURRENT_TOKEN_DOC).get(),
-    db.collection(QUEUE_COLLECTION).orderBy('position', 'asc').get(),
-    db.doc(DEVICE_SESSION_DOC).get(),
+async function readSources(): Promise<StateSources> {
+  const [currentToken, queue, deviceSession] = await Promise.all([
+    getCurrentTokenDoc(),
+    listQueue(),
+    getDeviceSession(),
   ]);
+  return { queue, currentToken, deviceSession };
+}
 
-  const queue: StateQueueItem[] = queueSnapshot.docs.map((itemDoc) => {
-    const data = itemDoc.data() as {
-      tokenMint?: string;
-      walletAddress?: string;
-      isPriority?: boolean;
-      priorityLevel?: number;
-      displayDuration?: number;
-      position?: number;
-      expiresAt?: unknown;
-    };
-
-    return {
-      id: itemDoc.id,
-      tokenMint: data.tokenMint || '',
-      walletAddress: data.walletAddress || '',
-      isPriority: Boolean(data.isPriority),
-      priorityLevel: data.priorityLevel || 0,
-      displayDuration: data.displayDuration || 0,
-      position: data.position || 0,
-      expiresAt: parseTimestamp(data.expiresAt),
-    };
-  });
-
-  const currentData = currentDoc.data() as {
-    tokenMint?: string;
-    queueItemId?: string | null;
-    walletAddress?: string | null;
-    isPriority?: boolean;
-    priorityLevel?: number;
-    displayDuration?: number;
-    expiresAt?: unknown;
-    sessionStarted?: boolean;
-    activeAt?: unknown;
-  } | undefined;
+function buildState(sources: StateSources, source: string): AppStateSnapshot {
+  const now = Date.now();
+  const { currentToken: currentData, queue: queueItems, deviceSession: sessionData } = sources;
+
+  // Position is just the index in orderKey order
+  const queue: StateQueueItem[] = queueItems.map((item, index) => ({
+    id: item.id,
+    tokenMint: item.tokenMint || '',
+    walletAddress: item.walletAddress || '',
+    isPriority: Boolean(item.isPriority),
+    priorityLevel: item.priorityLevel || 0,
+    displayDuration: item.displayDuration || 0,
+    position: index,
+    expiresAt: parseTimestamp(item.expiresAt),
+    pinnedModeId: item.pinnedModeId ?? null,
+    scheduledAt: parseTimestamp(item.scheduledAt),
+    playlistId: item.playlistId ?? null,
+    playlistIndex: item.playlistIndex || 0,
+    playlistSize: item.playlistSize || 1,
+  }));
 
   const currentToken = currentData?.tokenMint || DEFAULT_TOKEN_MINT;
   const currentExpiresAt = parseTimestamp(currentData?.expiresAt);
@@ -214,6 +219,11 @@ async function buildStateFromFirestore(source: string): Promise<AppStateSnapshot
         displayDuration: currentData.displayDuration || 0,
         position: -1,
         expiresAt: currentExpiresAt,
+        pinnedModeId: currentData.pinnedModeId ?? null,
+        scheduledAt: parseTimestamp(currentData.scheduledAt),
+        playlistId: currentData.playlistId ?? null,
+        playlistIndex: currentData.playlistIndex || 0,
+        playlistSize: currentData.playlistSize || 1,
       }
     : null;
 
@@ -235,15 +245,6 @@ async function buildStateFromFirestore(source: string): Promise<AppStateSnapshot
     };
   }
 
-  const sessionData = deviceSessionDoc.data() as {
-    tokenMint?: string;
-    modeName?: string;
-    modeId?: number;
-    speed?: number;
-    amplitude?: number;
-    updatedAt?: unknown;
-  } | undefined;
-
   const session: DeviceSessionState | null = sessionData
     ? {
         tokenMint: sessionData.tokenMint || currentToken,
@@ -282,7 +283,7 @@ async function buildStateFromFirestore(source: string): Promise<AppStateSnapshot
   }
 
   return {
-    version: 1,
+    version: 0,   // assigned in applySnapshot
     source,
     updatedAt: now,
     currentToken,
@@ -306,14 +307,91 @@ function applySnapshot(snapshot: AppStateSnapshot): AppStateSnapshot {
     return store.snapshot;
   }
 
-  store.snapshot = snapshot;
-  void persistSnapshotDebounced(snapshot);
-  notifyListeners(snapshot);
-  return snapshot;
+  let revision = store.snapshot.version;
+  const events: StateEvent[] = diffStateSnapshots(store.snapshot, snapshot).map((change) => ({
+    ...change,
+    revision: ++revision,
+    updatedAt: snapshot.updatedAt,
+  }));
+  store.history.push(...events);
+  if (store.history.length > EVENT_HISTORY_LIMIT) {
+    store.history.splice(0, store.history.length - EVENT_HISTORY_LIMIT);
+  }
+
+  store.snapshot = { ...snapshot, version: revision };
+  scheduleCooldownEnd(store.snapshot);
+  void persistSnapshotDebounced(store.snapshot);
+  notifyListeners(store.snapshot, events);
+  return store.snapshot;
+}
+
+/**
+ * Nothing is written when a cooldown runs out, so rebuild when it does
+ */
+function scheduleCooldownEnd(snapshot: AppStateSnapshot): void {
+  const store = getStore();
+  if (store.cooldownTimer) {
+    clearTimeout(store.cooldownTimer);
+    store.cooldownTimer = null;
+  }
+
+  const cooldown = snapshot.device.cooldown;
+  if (!cooldown?.active || cooldown.endsAt === null) return;
+
+  store.cooldownTimer = setTimeout(() => {
+    store.cooldownTimer = null;
+    refreshStateSnapshot('cooldown_end', true).catch((error) => {
+      console.error('[StateStore] Cooldown refresh failed:', error);
+    });
+  }, Math.max(0, cooldown.endsAt - Date.now()) + 50);
 }
 
+// ============================================
+// STATE FEED
+// ============================================
+
+/**
+ * Start watching the state sources, once per instance
+ */
+function ensureStateFeed(): void {
+  const store = getStore();
+  if (store.stopFeed || store.feedRetryTimer) return;
+
+  try {
+    store.stopFeed = getDataStore().stateFeed.watch(
+      (sources) => {
+        store.feedSources = sources;
+        store.lastRefreshAt = Date.now();
+        applySnapshot(buildState(sources, 'state_feed'));
+      },
+      (error) => {
+        console.error('[StateStore] State feed stopped, retrying:', error);
+        store.feedSources = null;
+        store.stopFeed = null;
+        store.feedRetryTimer = setTimeout(() => {
+          store.feedRetryTimer = null;
+          ensureStateFeed();
+        }, FEED_RETRY_MS);
+      }
+    );
+  } catch (error) {
+    // Firestore not configured yet; reads below surface the same error per request
+    console.error('[StateStore] Failed to start state feed:', error);
+  }
+}
+
+/**
+ * Current snapshot, rebuilt from the state feed when it is live. Otherwise
+ * it is read from the store, at most once per REFRESH_THROTTLE_MS unless forced.
+ */
 export async function refreshStateSnapshot(source: string, force: boolean = false): Promise<AppStateSnapshot> {
   const store = getStore();
+  ensureStateFeed();
+
+  if (store.feedSources) {
+    return applySnapshot(buildState(store.feedSources, source));
+  }
+
   const now = Date.now();
 
   if (!force && now - store.lastRefreshAt < REFRESH_THROTTLE_MS) {
@@ -325,9 +403,10 @@ export async function refreshStateSnapshot(source: string, force: boolean = fals
   }
 
   store.refreshPromise = (async () => {
-    const next = await buildStateFromFirestore(source);
+    const sources = await readSources();
     store.lastRefreshAt = Date.now();
-    return applySnapshot(next);
+    // The feed may have delivered something newer while this read was in flight
+    return applySnapshot(buildState(store.feedSources || sources, source));
   })();
 
   try {
@@ -341,8 +420,34 @@ export function getStateSnapshot(): AppStateSnapshot {
   return getStore().snapshot;
 }
 
+/**
+ * SSE id for an event (or snapshot) at `revision` on this instance
+ */
+export function stateEventId(revision: number): string {
+  return formatStateEventId(getStore().epoch, revision);
+}
+
+/**
+ * Events after `lastEventId`, or null when they can't be replayed: the id is
+ * from another instance or an earlier boot, or is older than the history kept
+ */
+export function getStateEventsSince(lastEventId: string): StateEvent[] | null {
+  const store = getStore();
+  const position = parseStateEventId(lastEventId);
+  if (!position || position.epoch !== store.epoch || position.revision > store.snapshot.version) {
+    return null;
+  }
+
+  const oldest = store.history.length > 0 ? store.history[0].revision : store.snapshot.version + 1;
+  if (position.revision < oldest - 1) {
+    return null;
+  }
+  return store.history.filter((event) => event.revision > position.revision);
+}
+
 export function subscribeStateSnapshot(listener: StateListener): () => void {
   const store = getStore();
+  ensureStateFeed();
   store.listeners.add(listener);
   return () => {
     store.listeners.delete(listener);
@@ -0,0 +1,737 @@
+import { FieldValue, getAdminDb, QueueItemAdmin, Timestamp, TransactionLogAdmin } from '@/lib/firebase-admin';
+import type { LiveEvent } from '@/lib/live-events';
+import type { AppStateSnapshot } from '@/lib/state';
+import type { SignInNonce } from '../auth';
+import type { PaymentIntent } from '../payment-intents';
+import type { CurrentTokenDoc, QueuePlay } from '../queue-engine';
+import { queueOrderKey, RESERVED_KEY_PREFIX } from '../queue-keys';
+import type { RefundRecord, RefundStatus } from '../refunds';
+import type { TradeCandle } from '../trade-candles';
+import type { TreasuryInflow } from '../treasury-watcher';
+import type {
+  CurrentTokenRepository,
+  DataStore,
+  DeviceSessionRecord,
+  DeviceSessionRepository,
+  LiveEventRepository,
+  PaymentIntentRepository,
+  PlayRepository,
+  QueueRepository,
+  QueueTransaction,
+  RecordUpdate,
+  RefundRepository,
+  SignInNonceRepository,
+  StateFeedRepository,
+  StateSnapshotRepository,
+  StateSources,
+  TradeCandleRepository,
+  TradeMarker,
+  TransactionRepository,
+  TreasuryRepository,
+  TreasuryWatcherState,
+  WebhookConfigRecord,
+  WebhookConfigRepository,
+} from './types';
+
+// ============================================
+// FIRESTORE DATA STORE
+// ============================================
+
+const QUEUE_COLLECTION = 'queue';
+const PLAYS_COLLECTION = 'queuePlays';
+const TRANSACTIONS_COLLECTION = 'transactions';
+const REFUNDS_COLLECTION = 'refunds';
+const INTENTS_COLLECTION = 'paymentIntents';
+const NONCES_COLLECTION = 'authNonces';
+const INFLOWS_COLLECTION = 'treasuryInflows';
+const CURRENT_TOKEN_DOC = 'settings/currentToken';
+const DEVICE_SESSION_DOC = 'settings/deviceSession';
+const WEBHOOK_DOC = 'settings/webhook';
+const WATCHER_STATE_DOC = 'settings/treasuryWatcher';
+const STATE_SNAPSHOT_DOC = 'settings/stateSnapshot';
+
+// tradeCandles/{mint}/minutes/{minuteStartMs} - aggregated 1m OHLCV
+// tradeCandles/{mint}/trades/{signature}      - dedupe markers
+const TRADE_CANDLES_COLLECTION = 'tradeCandles';
+const LIVE_EVENTS_COLLECTION = 'liveEvents';
+const MINUTES_SUBCOLLECTION = 'minutes';
+const TRADES_SUBCOLLECTION = 'trades';
+// Dedupe markers only need to outlive Helius retries; expiresAt can drive a Firestore TTL policy
+const TRADE_MARKER_TTL_MS = 24 * 60 * 60 * 1000;
+// Live events are only replayed for a short while after they happen; same TTL arrangement
+const LIVE_EVENT_TTL_MS = 60 * 60 * 1000;
+
+declare global {
+  var __machineGoBrrrQueueKeysBackfilled: boolean | undefined;
+}
+
+function toQueueItem(doc: FirebaseFirestore.DocumentSnapshot): QueueItemAdmin {
+  return { ...doc.data(), id: doc.id } as QueueItemAdmin;
+}
+
+function dataOf<T>(doc: FirebaseFirestore.DocumentSnapshot): T | null {
+  return doc.exists ? (doc.data() as T) : null;
+}
+
+/**
+ * Read-modify-write of one document in a transaction; see RecordUpdate
+ */
+async function updateDoc<T, R>(ref: FirebaseFirestore.DocumentReference, apply: RecordUpdate<T, R>): Promise<R> {
+  return getAdminDb().runTransaction(async (tx) => {
+    const { changes, result } = apply(dataOf<T>(await tx.get(ref)));
+    if (changes) {
+      tx.set(ref, changes, { merge: true });
+    }
+    return result;
+  });
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+function firstComeQuery(db: FirebaseFirestore.Firestore) {
+  return db.collection(QUEUE_COLLECTION).where('orderKey', '<', RESERVED_KEY_PREFIX).orderBy('orderKey', 'asc');
+}
+
+function reservedQuery(db: FirebaseFirestore.Firestore) {
+  return db.collection(QUEUE_COLLECTION).where('orderKey', '>=', RESERVED_KEY_PREFIX).orderBy('orderKey', 'asc');
+}
+
+/**
+ * Items written before ordering keys existed only carry `position`, and
+ * Firestore leaves documents without the field out of orderBy('orderKey').
+ * Give them keys once per instance, walking in their old position order.
+ * Keys derive from addedAt, so two instances racing here agree on order.
+ */
+async function backfillOrderKeys(): Promise<void> {
+  if (global.__machineGoBrrrQueueKeysBackfilled) return;
+
+  const db = getAdminDb();
+  const snapshot = await db.collection(QUEUE_COLLECTION).get();
+  const legacy = snapshot.docs
+    .filter((doc) => !doc.get('orderKey'))
+    .sort((a, b) => (a.get('position') || 0) - (b.get('position') || 0));
+
+  if (legacy.length > 0) {
+    const batch = db.batch();
+    legacy.forEach((doc, index) => {
+      const addedAt = doc.get('addedAt') as Timestamp | undefined;
+      // Fall back to position so undated items keep their relative order
+      const addedAtMs = addedAt?.toMillis?.() ?? index;
+      batch.update(doc.ref, { orderKey: queueOrderKey(doc.get('priorityLevel') || 0, addedAtMs) });
+    });
+    await batch.commit();
+    console.log(`[Queue] Backfilled order keys for ${legacy.length} legacy item(s)`);
+  }
+
+  global.__machineGoBrrrQueueKeysBackfilled = true;
+}
+
+class FirestoreQueueTransaction implements QueueTransaction {
+  constructor(
+    private readonly db: FirebaseFirestore.Firestore,
+    private readonly tx: FirebaseFirestore.Transaction
+  ) {}
+
+  private currentRef() {
+    return this.db.doc(CURRENT_TOKEN_DOC);
+  }
+
+  async getCurrentToken(): Promise<CurrentTokenDoc | null> {
+    return dataOf<CurrentTokenDoc>(await this.tx.get(this.currentRef()));
+  }
+
+  async getFirstComeHead(): Promise<QueueItemAdmin | null> {
+    const snapshot = await this.tx.get(firstComeQuery(this.db).limit(1));
+    return snapshot.empty ? null : toQueueItem(snapshot.docs[0]);
+  }
+
+  async listReserved(): Promise<QueueItemAdmin[]> {
+    return (await this.tx.get(reservedQuery(this.db))).docs.map(toQueueItem);
+  }
+
+  async listPlaylist(playlistId: string): Promise<QueueItemAdmin[]> {
+    const snapshot = await this.tx.get(
+      this.db.collection(QUEUE_COLLECTION).where('playlistId', '==', playlistId)
+    );
+    return snapshot.docs.map(toQueueItem);
+  }
+
+  setCurrentToken(current: CurrentTokenDoc): void {
+    this.tx.set(this.currentRef(), { ...current, updatedAt: FieldValue.serverTimestamp() });
+  }
+
+  updateCurrentToken(changes: Partial<CurrentTokenDoc>): void {
+    this.tx.update(this.currentRef(), { ...changes, updatedAt: FieldValue.serverTimestamp() });
+  }
+
+  createItem(item: QueueItemAdmin): void {
+    this.tx.create(this.db.collection(QUEUE_COLLECTION).doc(item.id), item);
+  }
+
+  deleteItem(id: string): void {
+    this.tx.delete(this.db.collection(QUEUE_COLLECTION).doc(id));
+  }
+
+  setPlay(play: QueuePlay): void {
+    this.tx.set(this.db.collection(PLAYS_COLLECTION).doc(play.id), play);
+  }
+
+  mergePlay(id: string, changes: Partial<QueuePlay>): void {
+    this.tx.set(this.db.collection(PLAYS_COLLECTION).doc(id), changes, { merge: true });
+  }
+}
+
+class FirestoreQueueRepository implements QueueRepository {
+  async list(): Promise<QueueItemAdmin[]> {
+    await backfillOrderKeys();
+    const snapshot = await getAdminDb().collection(QUEUE_COLLECTION).orderBy('orderKey', 'asc').get();
+    return snapshot.docs.map(toQueueItem);
+  }
+
+  async listReserved(): Promise<QueueItemAdmin[]> {
+    return (await reservedQuery(getAdminDb()).get()).docs.map(toQueueItem);
+  }
+
+  async listForWallet(walletAddress: string): Promise<QueueItemAdmin[]> {
+    const snapshot = await getAdminDb()
+      .collection(QUEUE_COLLECTION)
+      .where('walletAddress', '==', walletAddress)
+      .get();
+    return snapshot.docs.map(toQueueItem);
+  }
+
+  async latestAddedAt(tokenMint: string, since: number): Promise<number | null> {
+    const snapshot = await getAdminDb()
+      .collection(QUEUE_COLLECTION)
+      .where('tokenMint', '==', tokenMint)
+      .where('addedAt', '>', Timestamp.fromMillis(since))
+      .orderBy('addedAt', 'desc')
+      .limit(1)
+      .get();
+    return snapshot.empty ? null : (snapshot.docs[0].get('addedAt') as Timestamp).toMillis();
+  }
+
+  async createItems(items: QueueItemAdmin[]): Promise<void> {
+    const db = getAdminDb();
+    // create() fails instead of overwriting if an id ever collides
+    const batch = db.batch();
+    items.forEach((item) => batch.create(db.collection(QUEUE_COLLECTION).doc(item.id), item));
+    await batch.commit();
+  }
+
+  async runTransaction<T>(run: (tx: QueueTransaction) => Promise<T>): Promise<T> {
+    await backfillOrderKeys();
+    const db = getAdminDb();
+    return db.runTransaction((tx) => run(new FirestoreQueueTransaction(db, tx)));
+  }
+}
+
+class FirestoreCurrentTokenRepository implements CurrentTokenRepository {
+  async get(): Promise<CurrentTokenDoc | null> {
+    return dataOf<CurrentTokenDoc>(await getAdminDb().doc(CURRENT_TOKEN_DOC).get());
+  }
+
+  async merge(changes: Partial<CurrentTokenDoc>): Promise<void> {
+    await getAdminDb().doc(CURRENT_TOKEN_DOC).set(
+      { ...changes, updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+  }
+}
+
+class FirestorePlayRepository implements PlayRepository {
+  private collection() {
+    return getAdminDb().collection(PLAYS_COLLECTION);
+  }
+
+  async merge(id: string, changes: Partial<QueuePlay>): Promise<void> {
+    await this.collection().doc(id).set(changes, { merge: true });
+  }
+
+  async listForWallet(walletAddress: string): Promise<QueuePlay[]> {
+    const snapshot = await this.collection().where('walletAddress', '==', walletAddress).get();
+    return snapshot.docs.map((doc) => doc.data() as QueuePlay);
+  }
+
+  async listForToken(tokenMint: string): Promise<QueuePlay[]> {
+    const snapshot = await this.collection().where('tokenMint', '==', tokenMint).get();
+    return snapshot.docs.map((doc) => doc.data() as QueuePlay);
+  }
+}
+
+// ============================================
+// DEVICE SESSION
+// ============================================
+
+function toDeviceSession(doc: FirebaseFirestore.DocumentSnapshot): DeviceSessionRecord | null {
+  const data = doc.data();
+  if (!data) return null;
+
+  return {
+    tokenMint: data.tokenMint,
+    modeId: data.modeId,
+    modeName: data.modeName,
+    speed: data.speed,
+    amplitude: data.amplitude,
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
+}
+
+class FirestoreDeviceSessionRepository implements DeviceSessionRepository {
+  async get(): Promise<DeviceSessionRecord | null> {
+    return toDeviceSession(await getAdminDb().doc(DEVICE_SESSION_DOC).get());
+  }
+
+  async merge(session: Omit<DeviceSessionRecord, 'updatedAt'>): Promise<void> {
+    await getAdminDb().doc(DEVICE_SESSION_DOC).set(
+      { ...session, updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+  }
+
+  async clear(): Promise<void> {
+    await getAdminDb().doc(DEVICE_SESSION_DOC).delete();
+  }
+}
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+class FirestoreTransactionRepository implements TransactionRepository {
+  private collection() {
+    return getAdminDb().collection(TRANSACTIONS_COLLECTION);
+  }
+
+  async log(entry: TransactionLogAdmin): Promise<void> {
+    await this.collection().doc(entry.id).set(entry);
+  }
+
+  async isSignatureUsed(signature: string): Promise<boolean> {
+    const snapshot = await this.collection().where('signature', '==', signature).limit(1).get();
+    return !snapshot.empty;
+  }
+
+  async isSignatureVerified(signature: string): Promise<boolean> {
+    const snapshot = await this.collection()
+      .where('signature', '==', signature)
+      .where('verified', '==', true)
+      .limit(1)
+      .get();
+    return !snapshot.empty;
+  }
+
+  async latestVerifiedAt(tokenMint: string, since: number): Promise<number | null> {
+    const cutoff = Timestamp.fromMillis(since);
+    const latest = (snapshot: FirebaseFirestore.QuerySnapshot) =>
+      snapshot.empty ? null : (snapshot.docs[0].get('timestamp') as Timestamp | undefined)?.toMillis() ?? null;
+
+    // May need a composite index; handled gracefully
+    try {
+      return latest(
+        await this.collection()
+          .where('tokenMint', '==', tokenMint)
+          .where('verified', '==', true)
+          .where('timestamp', '>', cutoff)
+          .orderBy('timestamp', 'desc')
+          .limit(1)
+          .get()
+      );
+    } catch (indexError) {
+      console.warn('[Cooldown] Transaction index query failed, falling back:', indexError);
+    }
+
+    // Fallback: simpler query without timestamp filter
+    try {
+      const txTime = latest(
+        await this.collection()
+          .where('tokenMint', '==', tokenMint)
+          .where('verified', '==', true)
+          .orderBy('timestamp', 'desc')
+          .limit(1)
+          .get()
+      );
+      return txTime !== null && txTime > since ? txTime : null;
+    } catch (fallbackError) {
+      console.warn('[Cooldown] Fallback query also failed:', fallbackError);
+      return null;
+    }
+  }
+
+  async listForWallet(walletAddress: string): Promise<TransactionLogAdmin[]> {
+    const snapshot = await this.collection().where('walletAddress', '==', walletAddress).get();
+    return snapshot.docs.map((doc) => doc.data() as TransactionLogAdmin);
+  }
+}
+
+// ============================================
+// WEBHOOK CONFIG
+// ============================================
+
+class FirestoreWebhookConfigRepository implements WebhookConfigRepository {
+  async get(): Promise<WebhookConfigRecord | null> {
+    return dataOf<WebhookConfigRecord>(await getAdminDb().doc(WEBHOOK_DOC).get());
+  }
+
+  async set(config: WebhookConfigRecord): Promise<void> {
+    await getAdminDb().doc(WEBHOOK_DOC).set({ ...config, updatedAt: FieldValue.serverTimestamp() });
+  }
+
+  async merge(changes: WebhookConfigRecord): Promise<void> {
+    await getAdminDb().doc(WEBHOOK_DOC).set(
+      { ...changes, updatedAt: FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+  }
+
+  async delete(): Promise<void> {
+    await getAdminDb().doc(WEBHOOK_DOC).delete();
+  }
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+class FirestoreRefundRepository implements RefundRepository {
+  private collection() {
+    return getAdminDb().collection(REFUNDS_COLLECTION);
+  }
+
+  async create(record: RefundRecord): Promise<{ created: boolean; record: RefundRecord }> {
+    const ref = this.collection().doc(record.signature);
+    try {
+      await ref.create(record);
+      return { created: true, record };
+    } catch (error) {
+      // ALREADY_EXISTS: this payment already has a refund record
+      if ((error as { code?: number })?.code === 6) {
+        return { created: false, record: (await ref.get()).data() as RefundRecord };
+      }
+      throw error;
+    }
+  }
+
+  async get(signature: string): Promise<RefundRecord | null> {
+    return dataOf<RefundRecord>(await this.collection().doc(signature).get());
+  }
+
+  async list(status: RefundStatus | null, limit: number): Promise<RefundRecord[]> {
+    const base = status ? this.collection().where('status', '==', status) : this.collection();
+    const snapshot = await base.orderBy('createdAt', 'desc').limit(limit).get();
+    return snapshot.docs.map((doc) => doc.data() as RefundRecord);
+  }
+
+  async listForWallet(walletAddress: string): Promise<RefundRecord[]> {
+    const snapshot = await this.collection().where('walletAddress', '==', walletAddress).get();
+    return snapshot.docs.map((doc) => doc.data() as RefundRecord);
+  }
+
+  async update<R>(signature: string, apply: RecordUpdate<RefundRecord, R>): Promise<R> {
+    return updateDoc(this.collection().doc(signature), apply);
+  }
+
+  async merge(signature: string, changes: Partial<RefundRecord>): Promise<void> {
+    await this.collection().doc(signature).set(changes, { merge: true });
+  }
+}
+
+// ============================================
+// PAYMENT INTENTS
+// ============================================
+
+class FirestorePaymentIntentRepository implements PaymentIntentRepository {
+  private collection() {
+    return getAdminDb().collection(INTENTS_COLLECTION);
+  }
+
+  async create(intent: PaymentIntent): Promise<void> {
+    await this.collection().doc(intent.id).create(intent);
+  }
+
+  async get(id: string): Promise<PaymentIntent | null> {
+    return dataOf<PaymentIntent>(await this.collection().doc(id).get());
+  }
+
+  async findByReference(reference: string): Promise<PaymentIntent | null> {
+    const snapshot = await this.collection().where('reference', '==', reference).limit(1).get();
+    return snapshot.empty ? null : (snapshot.docs[0].data() as PaymentIntent);
+  }
+
+  async listWatched(now: number, limit: number): Promise<PaymentIntent[]> {
+    const snapshot = await this.collection().where('watchUntil', '>=', now).limit(limit).get();
+    return snapshot.docs.map((doc) => doc.data() as PaymentIntent);
+  }
+
+  async update<R>(id: string, apply: RecordUpdate<PaymentIntent, R>): Promise<R> {
+    return updateDoc(this.collection().doc(id), apply);
+  }
+
+  async merge(id: string, changes: Partial<PaymentIntent>): Promise<void> {
+    await this.collection().doc(id).set(changes, { merge: true });
+  }
+}
+
+// ============================================
+// SIGN-IN NONCES
+// ============================================
+
+class FirestoreSignInNonceRepository implements SignInNonceRepository {
+  private collection() {
+    return getAdminDb().collection(NONCES_COLLECTION);
+  }
+
+  async create(record: SignInNonce): Promise<void> {
+    await this.collection().doc(record.nonce).create(record);
+  }
+
+  async update<R>(nonce: string, apply: RecordUpdate<SignInNonce, R>): Promise<R> {
+    return updateDoc(this.collection().doc(nonce), apply);
+  }
+}
+
+// ============================================
+// TREASURY
+// ============================================
+
+class FirestoreTreasuryRepository implements TreasuryRepository {
+  private collection() {
+    return getAdminDb().collection(INFLOWS_COLLECTION);
+  }
+
+  async getInflow(signature: string): Promise<TreasuryInflow | null> {
+    return dataOf<TreasuryInflow>(await this.collection().doc(signature).get());
+  }
+
+  async setInflow(inflow: TreasuryInflow): Promise<void> {
+    await this.collection().doc(inflow.signature).set(inflow);
+  }
+
+  async listPendingInflows(limit: number): Promise<TreasuryInflow[]> {
+    const snapshot = await this.collection().where('status', '==', 'pending').limit(limit).get();
+    return snapshot.docs.map((doc) => doc.data() as TreasuryInflow);
+  }
+
+  async listInflowsSince(since: number, limit: number): Promise<TreasuryInflow[]> {
+    const snapshot = await this.collection()
+      .where('firstSeenAt', '>=', since)
+      .orderBy('firstSeenAt', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map((doc) => doc.data() as TreasuryInflow);
+  }
+
+  async getWatcherState(): Promise<TreasuryWatcherState | null> {
+    return dataOf<TreasuryWatcherState>(await getAdminDb().doc(WATCHER_STATE_DOC).get());
+  }
+
+  async mergeWatcherState(state: TreasuryWatcherState): Promise<void> {
+    await getAdminDb().doc(WATCHER_STATE_DOC).set(state, { merge: true });
+  }
+}
+
+// ============================================
+// TRADE CANDLES
+// ============================================
+
+class FirestoreTradeCandleRepository implements TradeCandleRepository {
+  private tokenRef(tokenMint: string) {
+    return getAdminDb().collection(TRADE_CANDLES_COLLECTION).doc(tokenMint);
+  }
+
+  async addTrade(marker: TradeMarker, fold: (candle: TradeCandle | null) => TradeCandle): Promise<boolean> {
+    const tokenRef = this.tokenRef(marker.tokenMint);
+    const candleRef = tokenRef.collection(MINUTES_SUBCOLLECTION).doc(String(marker.candleTimestamp));
+    const tradeRef = tokenRef.collection(TRADES_SUBCOLLECTION).doc(marker.signature);
+
+    return getAdminDb().runTransaction(async (tx) => {
+      const [tradeDoc, candleDoc] = await Promise.all([tx.get(tradeRef), tx.get(candleRef)]);
+      if (tradeDoc.exists) {
+        return false;
+      }
+
+      tx.set(tradeRef, {
+        signature: marker.signature,
+        slot: marker.slot,
+        candleTimestamp: marker.candleTimestamp,
+        recordedAt: FieldValue.serverTimestamp(),
+        expiresAt: Timestamp.fromMillis(Date.now() + TRADE_MARKER_TTL_MS),
+      });
+      tx.set(candleRef, {
+        ...fold(dataOf<TradeCandle>(candleDoc)),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  }
+
+  async listRecent(tokenMint: string, limit: number): Promise<TradeCandle[]> {
+    const snapshot = await this.tokenRef(tokenMint)
+      .collection(MINUTES_SUBCOLLECTION)
+      .orderBy('timestamp', 'desc')
+      .limit(limit)
+      .get();
+    return snapshot.docs.map((doc) => doc.data() as TradeCandle);
+  }
+}
+
+// ============================================
+// STATE SNAPSHOT
+// ============================================
+
+class FirestoreStateSnapshotRepository implements StateSnapshotRepository {
+  async save(snapshot: AppStateSnapshot): Promise<void> {
+    await getAdminDb().doc(STATE_SNAPSHOT_DOC).set(
+      {
+        ...snapshot,
+        persistedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  }
+}
+
+// ============================================
+// STATE FEED
+// ============================================
+// One snapshot listener per source. Firestore pushes every committed write to
+// every listening instance, so no instance has to poll to see another's
+// changes.
+
+class FirestoreStateFeedRepository implements StateFeedRepository {
+  watch(onChange: (sources: StateSources) => void, onError: (error: Error) => void): () => void {
+    const db = getAdminDb();
+    // undefined until each listener's first snapshot arrives
+    let queue: QueueItemAdmin[] | undefined;
+    let currentToken: CurrentTokenDoc | null | undefined;
+    let deviceSession: DeviceSessionRecord | null | undefined;
+    let unsubscribers: Array<() => void> = [];
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      unsubscribers = [];
+    };
+
+    const emit = () => {
+      if (stopped || queue === undefined || currentToken === undefined || deviceSession === undefined) return;
+      onChange({ queue, currentToken, deviceSession });
+    };
+
+    const fail = (error: Error) => {
+      if (stopped) return;
+      stop();
+      onError(error);
+    };
+
+    // Legacy items have no orderKey and stay out of the listener until they get one
+    backfillOrderKeys().catch((error) => console.error('[Queue] Order key backfill failed:', error));
+
+    unsubscribers = [
+      db
+        .collection(QUEUE_COLLECTION)
+        .orderBy('orderKey', 'asc')
+        .onSnapshot((snapshot) => {
+          queue = snapshot.docs.map(toQueueItem);
+          emit();
+        }, fail),
+      db.doc(CURRENT_TOKEN_DOC).onSnapshot((doc) => {
+        currentToken = dataOf<CurrentTokenDoc>(doc);
+        emit();
+      }, fail),
+      db.doc(DEVICE_SESSION_DOC).onSnapshot((doc) => {
+        deviceSession = toDeviceSession(doc);
+        emit();
+      }, fail),
+    ];
+
+    return stop;
+  }
+}
+
+// ============================================
+// LIVE EVENTS
+// ============================================
+
+class FirestoreLiveEventRepository implements LiveEventRepository {
+  async publish(event: LiveEvent): Promise<boolean> {
+    try {
+      await getAdminDb()
+        .collection(LIVE_EVENTS_COLLECTION)
+        .doc(event.id)
+        .create({
+          ...event,
+          publishedAt: FieldValue.serverTimestamp(),
+          expiresAt: Timestamp.fromMillis(Date.now() + LIVE_EVENT_TTL_MS),
+        });
+      return true;
+    } catch (error) {
+      // ALREADY_EXISTS: e.g. a trade Helius delivered twice
+      if ((error as { code?: number })?.code === 6) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  watch(limit: number, onEvents: (events: LiveEvent[]) => void, onError: (error: Error) => void): () => void {
+    // A bounded window keeps the listener small; newer events push older ones
+    // out as `removed`. It is ordered by publish time, not `at`, so a trade
+    // published late still enters it. An older event can re-enter when one
+    // expires, so only events published after the newest delivered one count.
+    let first = true;
+    let newest = 0;
+    let idsAtNewest = new Set<string>();
+
+    return getAdminDb()
+      .collection(LIVE_EVENTS_COLLECTION)
+      .orderBy('publishedAt', 'desc')
+      .limit(limit)
+      .onSnapshot((snapshot) => {
+        const added = snapshot
+          .docChanges()
+          .filter((change) => change.type === 'added')
+          .map((change) => {
+            const { publishedAt, ...event } = change.doc.data();
+            delete event.expiresAt;   // storage only
+            return { event: event as LiveEvent, publishedAt: (publishedAt as Timestamp).toMillis() };
+          })
+          .filter(({ event, publishedAt }) =>
+            publishedAt > newest || (publishedAt === newest && !idsAtNewest.has(event.id))
+          )
+          .sort((a, b) => a.publishedAt - b.publishedAt);
+
+        for (const { event, publishedAt } of added) {
+          if (publishedAt > newest) {
+            newest = publishedAt;
+            idsAtNewest = new Set();
+          }
+          idsAtNewest.add(event.id);
+        }
+        if (added.length > 0 || first) {
+          first = false;
+          onEvents(added.map(({ event }) => event));
+        }
+      }, onError);
+  }
+}
+
+export class FirestoreDataStore implements DataStore {
+  readonly queue = new FirestoreQueueRepository();
+  readonly currentToken = new FirestoreCurrentTokenRepository();
+  readonly plays = new FirestorePlayRepository();
+  readonly deviceSession = new FirestoreDeviceSessionRepository();
+  readonly transactions = new FirestoreTransactionRepository();
+  readonly webhookConfig = new FirestoreWebhookConfigRepository();
+  readonly refunds = new FirestoreRefundRepository();
+  readonly paymentIntents = new FirestorePaymentIntentRepository();
+  readonly signInNonces = new FirestoreSignInNonceRepository();
+  readonly treasury = new FirestoreTreasuryRepository();
+  readonly tradeCandles = new FirestoreTradeCandleRepository();
+  readonly stateSnapshot = new FirestoreStateSnapshotRepository();
+  readonly stateFeed = new FirestoreStateFeedRepository();
+  readonly liveEvents = new FirestoreLiveEventRepository();
+}
@@ -0,0 +1,33 @@
+import { DATA_STORE } from '@/lib/constants';
+import { FirestoreDataStore } from './firestore';
+import { MemoryDataStore } from './memory';
+import type { DataStore } from './types';
+
+export type * from './types';
+export { FirestoreDataStore, MemoryDataStore };
+
+// ============================================
+// STORE SELECTION
+// ============================================
+
+declare global {
+  var __machineGoBrrrDataStore: DataStore | undefined;
+}
+
+/**
+ * Get the data store for this deployment (DATA_STORE)
+ * Kept on global so dev reloads and separate route bundles share one store
+ */
+export function getDataStore(): DataStore {
+  if (!global.__machineGoBrrrDataStore) {
+    global.__machineGoBrrrDataStore = DATA_STORE === 'memory' ? new MemoryDataStore() : new FirestoreDataStore();
+  }
+  return global.__machineGoBrrrDataStore;
+}
+
+/**
+ * Override the data store (dev tooling / tests)
+ */
+export function setDataStore(store: DataStore): void {
+  global.__machineGoBrrrDataStore = store;
+}
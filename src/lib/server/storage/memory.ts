@@ -0,0 +1,648 @@
+import { FieldValue, QueueItemAdmin, Timestamp, TransactionLogAdmin } from '@/lib/firebase-admin';
+import type { LiveEvent } from '@/lib/live-events';
+import type { SignInNonce } from '../auth';
+import type { PaymentIntent } from '../payment-intents';
+import type { CurrentTokenDoc, QueuePlay } from '../queue-engine';
+import { isReservedKey } from '../queue-keys';
+import type { RefundRecord, RefundStatus } from '../refunds';
+import type { TradeCandle } from '../trade-candles';
+import type { TreasuryInflow } from '../treasury-watcher';
+import type {
+  CurrentTokenRepository,
+  DataStore,
+  DeviceSessionRecord,
+  DeviceSessionRepository,
+  LiveEventRepository,
+  PaymentIntentRepository,
+  PlayRepository,
+  QueueRepository,
+  QueueTransaction,
+  RecordUpdate,
+  RefundRepository,
+  SignInNonceRepository,
+  StateFeedRepository,
+  StateSnapshotRepository,
+  StateSources,
+  TradeCandleRepository,
+  TradeMarker,
+  TransactionRepository,
+  TreasuryRepository,
+  TreasuryWatcherState,
+  WebhookConfigRecord,
+  WebhookConfigRepository,
+} from './types';
+
+// ============================================
+// IN-MEMORY DATA STORE
+// ============================================
+// Single instance, nothing survives a restart; for dev and tests on a
+// machine with no Firebase project or network. Records are copied in and
+// out so callers can't mutate what is stored. Single-record updates run
+// synchronously between read and write, so they're atomic as they are.
+// Queue transactions are optimistic, like Firestore's: reads aren't locked,
+// and at commit a transaction whose reads changed meanwhile is run again
+// from the start, so concurrent callers race here as they do in production.
+
+type Row = Record<string, unknown>;
+
+function copyValue(value: unknown): unknown {
+  if (Array.isArray(value)) return [...value];
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return { ...(value as Row) };
+  }
+  return value;
+}
+
+function copy<T>(record: T): T {
+  const result: Row = {};
+  for (const [key, value] of Object.entries(record as Row)) {
+    result[key] = copyValue(value);
+  }
+  return result as T;
+}
+
+/**
+ * Copy for storing: serverTimestamp() sentinels become the current time and
+ * undefined fields are dropped, as Firestore does
+ */
+function stamp<T>(record: T): T {
+  const result: Row = {};
+  for (const [key, value] of Object.entries(record as Row)) {
+    if (value === undefined) continue;
+    result[key] = value instanceof FieldValue ? Timestamp.now() : copyValue(value);
+  }
+  return result as T;
+}
+
+function millis(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : 0;
+}
+
+class MemoryTable<T> {
+  private rows: Map<string, T> = new Map();
+  // Bumped on every write, deletes included, so a row read earlier can be checked for changes
+  private versions: Map<string, number> = new Map();
+  private nextVersion = 1;
+
+  version(id: string): number {
+    return this.versions.get(id) ?? 0;
+  }
+
+  private touch(id: string): void {
+    this.versions.set(id, this.nextVersion++);
+  }
+
+  get(id: string): T | null {
+    const row = this.rows.get(id);
+    return row ? copy(row) : null;
+  }
+
+  has(id: string): boolean {
+    return this.rows.has(id);
+  }
+
+  all(): T[] {
+    return Array.from(this.rows.values(), (row) => copy(row));
+  }
+
+  set(id: string, record: T): void {
+    this.rows.set(id, stamp(record));
+    this.touch(id);
+  }
+
+  create(id: string, record: T): void {
+    if (this.rows.has(id)) {
+      throw new Error(`Record ${id} already exists`);
+    }
+    this.set(id, record);
+  }
+
+  merge(id: string, changes: Partial<T>): void {
+    this.rows.set(id, stamp({ ...this.rows.get(id), ...changes } as T));
+    this.touch(id);
+  }
+
+  update<R>(id: string, apply: RecordUpdate<T, R>): R {
+    const { changes, result } = apply(this.get(id));
+    if (changes) {
+      this.merge(id, changes);
+    }
+    return result;
+  }
+
+  delete(id: string): void {
+    this.rows.delete(id);
+    this.touch(id);
+  }
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+const CURRENT_TOKEN_ID = 'current';
+// Firestore's default before a contended transaction gives up
+const MAX_TRANSACTION_ATTEMPTS = 5;
+// Retries back off with jitter, as Firestore's do, so contenders spread out
+const TRANSACTION_BACKOFF_MS = 5;
+
+class MemoryQueueRepository implements QueueRepository {
+  constructor(
+    readonly items: MemoryTable<QueueItemAdmin>,
+    readonly current: MemoryTable<CurrentTokenDoc>,
+    readonly plays: MemoryTable<QueuePlay>,
+    readonly changed: () => void
+  ) {}
+
+  ordered(): QueueItemAdmin[] {
+    return this.items.all().sort((a, b) => (a.orderKey < b.orderKey ? -1 : a.orderKey > b.orderKey ? 1 : 0));
+  }
+
+  async list(): Promise<QueueItemAdmin[]> {
+    return this.ordered();
+  }
+
+  async listReserved(): Promise<QueueItemAdmin[]> {
+    return this.ordered().filter((item) => isReservedKey(item.orderKey));
+  }
+
+  async listForWallet(walletAddress: string): Promise<QueueItemAdmin[]> {
+    return this.items.all().filter((item) => item.walletAddress === walletAddress);
+  }
+
+  async latestAddedAt(tokenMint: string, since: number): Promise<number | null> {
+    const times = this.items
+      .all()
+      .filter((item) => item.tokenMint === tokenMint && millis(item.addedAt) > since)
+      .map((item) => millis(item.addedAt));
+    return times.length > 0 ? Math.max(...times) : null;
+  }
+
+  async createItems(items: QueueItemAdmin[]): Promise<void> {
+    if (items.some((item) => this.items.has(item.id))) {
+      throw new Error('Queue item id already exists');
+    }
+    items.forEach((item) => this.items.set(item.id, item));
+    this.changed();
+  }
+
+  async runTransaction<T>(run: (tx: QueueTransaction) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      const attemptResult = await this.attemptTransaction(run);
+      if (attemptResult.committed) return attemptResult.result;
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw new Error(`Queue transaction still contended after ${attempt} attempts`);
+      }
+      const backoffMs = Math.random() * TRANSACTION_BACKOFF_MS * 2 ** attempt;
+      await new Promise((resolve) => setTimeout(resolve, backoffMs));
+    }
+  }
+
+  /**
+   * One run of a transaction. Each read keeps a fingerprint of what it saw
+   * (row ids and versions); the writes apply only if every fingerprint still
+   * matches, checked and applied without yielding in between.
+   */
+  private async attemptTransaction<T>(
+    run: (tx: QueueTransaction) => Promise<T>
+  ): Promise<{ committed: true; result: T } | { committed: false }> {
+    const reads: Array<{ fingerprint: () => string; seen: string }> = [];
+    const watch = <R>(value: () => R, fingerprint: () => string): R => {
+      reads.push({ fingerprint, seen: fingerprint() });
+      return value();
+    };
+    const rows = (items: QueueItemAdmin[]) => items.map((item) => `${item.id}@${this.items.version(item.id)}`).join();
+    const firstComeHead = () => this.ordered().find((item) => !isReservedKey(item.orderKey)) || null;
+    const reserved = () => this.ordered().filter((item) => isReservedKey(item.orderKey));
+    const playlist = (playlistId: string) => this.items.all().filter((item) => item.playlistId === playlistId);
+
+    const writes: Array<() => void> = [];
+    const creates: string[] = [];
+    const tx: QueueTransaction = {
+      getCurrentToken: async () =>
+        watch(() => this.current.get(CURRENT_TOKEN_ID), () => String(this.current.version(CURRENT_TOKEN_ID))),
+      getFirstComeHead: async () =>
+        watch(firstComeHead, () => rows([firstComeHead()].filter((item) => item !== null))),
+      listReserved: async () => watch(reserved, () => rows(reserved())),
+      listPlaylist: async (playlistId) => watch(() => playlist(playlistId), () => rows(playlist(playlistId))),
+      setCurrentToken: (current) => {
+        writes.push(() => this.current.set(CURRENT_TOKEN_ID, { ...current, updatedAt: FieldValue.serverTimestamp() }));
+      },
+      updateCurrentToken: (changes) => {
+        writes.push(() => this.current.merge(CURRENT_TOKEN_ID, { ...changes, updatedAt: FieldValue.serverTimestamp() }));
+      },
+      createItem: (item) => {
+        creates.push(item.id);
+        writes.push(() => this.items.set(item.id, item));
+      },
+      deleteItem: (id) => {
+        writes.push(() => this.items.delete(id));
+      },
+      setPlay: (play) => {
+        writes.push(() => this.plays.set(play.id, play));
+      },
+      mergePlay: (id, changes) => {
+        writes.push(() => this.plays.merge(id, changes));
+      },
+    };
+
+    const result = await run(tx);
+    if (reads.some((read) => read.fingerprint() !== read.seen)) {
+      return { committed: false };
+    }
+    if (creates.some((id) => this.items.has(id))) {
+      throw new Error('Queue item id already exists');
+    }
+    writes.forEach((write) => write());
+    this.changed();
+    return { committed: true, result };
+  }
+}
+
+class MemoryCurrentTokenRepository implements CurrentTokenRepository {
+  constructor(private readonly queue: MemoryQueueRepository) {}
+
+  async get(): Promise<CurrentTokenDoc | null> {
+    return this.queue.current.get(CURRENT_TOKEN_ID);
+  }
+
+  async merge(changes: Partial<CurrentTokenDoc>): Promise<void> {
+    this.queue.current.merge(CURRENT_TOKEN_ID, { ...changes, updatedAt: FieldValue.serverTimestamp() });
+    this.queue.changed();
+  }
+}
+
+class MemoryPlayRepository implements PlayRepository {
+  constructor(private readonly queue: MemoryQueueRepository) {}
+
+  async merge(id: string, changes: Partial<QueuePlay>): Promise<void> {
+    this.queue.plays.merge(id, changes);
+  }
+
+  async listForWallet(walletAddress: string): Promise<QueuePlay[]> {
+    return this.queue.plays.all().filter((play) => play.walletAddress === walletAddress);
+  }
+
+  async listForToken(tokenMint: string): Promise<QueuePlay[]> {
+    return this.queue.plays.all().filter((play) => play.tokenMint === tokenMint);
+  }
+}
+
+// ============================================
+// DEVICE SESSION
+// ============================================
+
+class MemoryDeviceSessionRepository implements DeviceSessionRepository {
+  private session: DeviceSessionRecord | null = null;
+
+  constructor(private readonly changed: () => void) {}
+
+  current(): DeviceSessionRecord | null {
+    return this.session ? { ...this.session } : null;
+  }
+
+  async get(): Promise<DeviceSessionRecord | null> {
+    return this.current();
+  }
+
+  async merge(session: Omit<DeviceSessionRecord, 'updatedAt'>): Promise<void> {
+    this.session = { ...this.session, ...session, updatedAt: new Date() };
+    this.changed();
+  }
+
+  async clear(): Promise<void> {
+    this.session = null;
+    this.changed();
+  }
+}
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+class MemoryTransactionRepository implements TransactionRepository {
+  private entries = new MemoryTable<TransactionLogAdmin>();
+
+  async log(entry: TransactionLogAdmin): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async isSignatureUsed(signature: string): Promise<boolean> {
+    return this.entries.all().some((entry) => entry.signature === signature);
+  }
+
+  async isSignatureVerified(signature: string): Promise<boolean> {
+    return this.entries.all().some((entry) => entry.signature === signature && entry.verified);
+  }
+
+  async latestVerifiedAt(tokenMint: string, since: number): Promise<number | null> {
+    const times = this.entries
+      .all()
+      .filter((entry) => entry.tokenMint === tokenMint && entry.verified && millis(entry.timestamp) > since)
+      .map((entry) => millis(entry.timestamp));
+    return times.length > 0 ? Math.max(...times) : null;
+  }
+
+  async listForWallet(walletAddress: string): Promise<TransactionLogAdmin[]> {
+    return this.entries.all().filter((entry) => entry.walletAddress === walletAddress);
+  }
+}
+
+// ============================================
+// WEBHOOK CONFIG
+// ============================================
+
+class MemoryWebhookConfigRepository implements WebhookConfigRepository {
+  private config: WebhookConfigRecord | null = null;
+
+  async get(): Promise<WebhookConfigRecord | null> {
+    return this.config ? { ...this.config } : null;
+  }
+
+  async set(config: WebhookConfigRecord): Promise<void> {
+    this.config = { ...config };
+  }
+
+  async merge(changes: WebhookConfigRecord): Promise<void> {
+    this.config = { ...this.config, ...changes };
+  }
+
+  async delete(): Promise<void> {
+    this.config = null;
+  }
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+class MemoryRefundRepository implements RefundRepository {
+  private records = new MemoryTable<RefundRecord>();
+
+  async create(record: RefundRecord): Promise<{ created: boolean; record: RefundRecord }> {
+    const existing = this.records.get(record.signature);
+    if (existing) {
+      return { created: false, record: existing };
+    }
+    this.records.set(record.signature, record);
+    return { created: true, record: this.records.get(record.signature)! };
+  }
+
+  async get(signature: string): Promise<RefundRecord | null> {
+    return this.records.get(signature);
+  }
+
+  async list(status: RefundStatus | null, limit: number): Promise<RefundRecord[]> {
+    return this.records
+      .all()
+      .filter((record) => !status || record.status === status)
+      .sort((a, b) => millis(b.createdAt) - millis(a.createdAt))
+      .slice(0, limit);
+  }
+
+  async listForWallet(walletAddress: string): Promise<RefundRecord[]> {
+    return this.records.all().filter((record) => record.walletAddress === walletAddress);
+  }
+
+  async update<R>(signature: string, apply: RecordUpdate<RefundRecord, R>): Promise<R> {
+    return this.records.update(signature, apply);
+  }
+
+  async merge(signature: string, changes: Partial<RefundRecord>): Promise<void> {
+    this.records.merge(signature, changes);
+  }
+}
+
+// ============================================
+// PAYMENT INTENTS
+// ============================================
+
+class MemoryPaymentIntentRepository implements PaymentIntentRepository {
+  private intents = new MemoryTable<PaymentIntent>();
+
+  async create(intent: PaymentIntent): Promise<void> {
+    this.intents.create(intent.id, intent);
+  }
+
+  async get(id: string): Promise<PaymentIntent | null> {
+    return this.intents.get(id);
+  }
+
+  async findByReference(reference: string): Promise<PaymentIntent | null> {
+    return this.intents.all().find((intent) => intent.reference === reference) || null;
+  }
+
+  async listWatched(now: number, limit: number): Promise<PaymentIntent[]> {
+    return this.intents
+      .all()
+      .filter((intent) => intent.watchUntil !== null && intent.watchUntil >= now)
+      .slice(0, limit);
+  }
+
+  async update<R>(id: string, apply: RecordUpdate<PaymentIntent, R>): Promise<R> {
+    return this.intents.update(id, apply);
+  }
+
+  async merge(id: string, changes: Partial<PaymentIntent>): Promise<void> {
+    this.intents.merge(id, changes);
+  }
+}
+
+// ============================================
+// SIGN-IN NONCES
+// ============================================
+
+class MemorySignInNonceRepository implements SignInNonceRepository {
+  private nonces = new MemoryTable<SignInNonce>();
+
+  async create(record: SignInNonce): Promise<void> {
+    this.nonces.create(record.nonce, record);
+  }
+
+  async update<R>(nonce: string, apply: RecordUpdate<SignInNonce, R>): Promise<R> {
+    return this.nonces.update(nonce, apply);
+  }
+}
+
+// ============================================
+// TREASURY
+// ============================================
+
+class MemoryTreasuryRepository implements TreasuryRepository {
+  private inflows = new MemoryTable<TreasuryInflow>();
+  private watcherState: TreasuryWatcherState | null = null;
+
+  async getInflow(signature: string): Promise<TreasuryInflow | null> {
+    return this.inflows.get(signature);
+  }
+
+  async setInflow(inflow: TreasuryInflow): Promise<void> {
+    this.inflows.set(inflow.signature, inflow);
+  }
+
+  async listPendingInflows(limit: number): Promise<TreasuryInflow[]> {
+    return this.inflows
+      .all()
+      .filter((inflow) => inflow.status === 'pending')
+      .slice(0, limit);
+  }
+
+  async listInflowsSince(since: number, limit: number): Promise<TreasuryInflow[]> {
+    return this.inflows
+      .all()
+      .filter((inflow) => inflow.firstSeenAt >= since)
+      .sort((a, b) => b.firstSeenAt - a.firstSeenAt)
+      .slice(0, limit);
+  }
+
+  async getWatcherState(): Promise<TreasuryWatcherState | null> {
+    return this.watcherState ? copy(this.watcherState) : null;
+  }
+
+  async mergeWatcherState(state: TreasuryWatcherState): Promise<void> {
+    this.watcherState = copy({ ...this.watcherState, ...state });
+  }
+}
+
+// ============================================
+// TRADE CANDLES
+// ============================================
+
+class MemoryTradeCandleRepository implements TradeCandleRepository {
+  private markers: Set<string> = new Set();
+  private candles: Map<string, MemoryTable<TradeCandle>> = new Map();
+
+  private minutes(tokenMint: string): MemoryTable<TradeCandle> {
+    let table = this.candles.get(tokenMint);
+    if (!table) {
+      table = new MemoryTable<TradeCandle>();
+      this.candles.set(tokenMint, table);
+    }
+    return table;
+  }
+
+  async addTrade(marker: TradeMarker, fold: (candle: TradeCandle | null) => TradeCandle): Promise<boolean> {
+    const key = `${marker.tokenMint}/${marker.signature}`;
+    if (this.markers.has(key)) {
+      return false;
+    }
+
+    const minutes = this.minutes(marker.tokenMint);
+    const id = String(marker.candleTimestamp);
+    minutes.set(id, fold(minutes.get(id)));
+    this.markers.add(key);
+    return true;
+  }
+
+  async listRecent(tokenMint: string, limit: number): Promise<TradeCandle[]> {
+    return this.minutes(tokenMint)
+      .all()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+}
+
+// ============================================
+// STATE SNAPSHOT
+// ============================================
+
+class MemoryStateSnapshotRepository implements StateSnapshotRepository {
+  // The persisted snapshot is for other instances and outside readers; there are none here
+  async save(): Promise<void> {}
+}
+
+// ============================================
+// STATE FEED
+// ============================================
+
+class MemoryStateFeedRepository implements StateFeedRepository {
+  private listeners: Set<(sources: StateSources) => void> = new Set();
+  private pending = false;
+
+  constructor(private readonly read: () => StateSources) {}
+
+  /**
+   * Deliver the sources to every watcher; writes in the same tick share one delivery
+   */
+  changed(): void {
+    if (this.pending || this.listeners.size === 0) return;
+    this.pending = true;
+    queueMicrotask(() => {
+      this.pending = false;
+      this.listeners.forEach((listener) => listener(this.read()));
+    });
+  }
+
+  // Nothing can fail here, so onError is never called
+  watch(onChange: (sources: StateSources) => void): () => void {
+    this.listeners.add(onChange);
+    queueMicrotask(() => {
+      if (this.listeners.has(onChange)) onChange(this.read());
+    });
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+}
+
+// ============================================
+// LIVE EVENTS
+// ============================================
+
+const LIVE_EVENT_RETAIN = 500;
+
+class MemoryLiveEventRepository implements LiveEventRepository {
+  private events: LiveEvent[] = [];   // publish order
+  private listeners: Set<(events: LiveEvent[]) => void> = new Set();
+
+  async publish(event: LiveEvent): Promise<boolean> {
+    if (this.events.some((existing) => existing.id === event.id)) {
+      return false;
+    }
+
+    this.events.push(event);
+    if (this.events.length > LIVE_EVENT_RETAIN) {
+      this.events.splice(0, this.events.length - LIVE_EVENT_RETAIN);
+    }
+    queueMicrotask(() => this.listeners.forEach((listener) => listener([event])));
+    return true;
+  }
+
+  // Nothing can fail here, so onError is never called
+  watch(limit: number, onEvents: (events: LiveEvent[]) => void): () => void {
+    const recent = this.events.slice(-limit);
+    this.listeners.add(onEvents);
+    queueMicrotask(() => {
+      if (this.listeners.has(onEvents)) onEvents(recent);
+    });
+    return () => {
+      this.listeners.delete(onEvents);
+    };
+  }
+}
+
+export class MemoryDataStore implements DataStore {
+  readonly stateFeed: MemoryStateFeedRepository = new MemoryStateFeedRepository(() => ({
+    queue: this.queue.ordered(),
+    currentToken: this.queue.current.get(CURRENT_TOKEN_ID),
+    deviceSession: this.deviceSession.current(),
+  }));
+  readonly queue = new MemoryQueueRepository(
+    new MemoryTable<QueueItemAdmin>(),
+    new MemoryTable<CurrentTokenDoc>(),
+    new MemoryTable<QueuePlay>(),
+    () => this.stateFeed.changed()
+  );
+  readonly currentToken = new MemoryCurrentTokenRepository(this.queue);
+  readonly plays = new MemoryPlayRepository(this.queue);
+  readonly deviceSession = new MemoryDeviceSessionRepository(() => this.stateFeed.changed());
+  readonly transactions = new MemoryTransactionRepository();
+  readonly webhookConfig = new MemoryWebhookConfigRepository();
+  readonly refunds = new MemoryRefundRepository();
+  readonly paymentIntents = new MemoryPaymentIntentRepository();
+  readonly signInNonces = new MemorySignInNonceRepository();
+  readonly treasury = new MemoryTreasuryRepository();
+  readonly tradeCandles = new MemoryTradeCandleRepository();
+  readonly stateSnapshot = new MemoryStateSnapshotRepository();
+  readonly liveEvents = new MemoryLiveEventRepository();
+}
@@ -0,0 +1,209 @@
+import type { QueueItemAdmin, TransactionLogAdmin } from '@/lib/firebase-admin';
+import type { LiveEvent } from '@/lib/live-events';
+import type { AppStateSnapshot } from '@/lib/state';
+import type { SignInNonce } from '../auth';
+import type { PaymentIntent } from '../payment-intents';
+import type { CurrentTokenDoc, QueuePlay } from '../queue-engine';
+import type { RefundRecord, RefundStatus } from '../refunds';
+import type { TradeCandle } from '../trade-candles';
+import type { TreasuryInflow } from '../treasury-watcher';
+
+// ============================================
+// REPOSITORY TYPES
+// ============================================
+// Everything the server persists goes through these interfaces, so the same
+// code runs on Firestore or on the in-memory store. Records keep Firestore
+// Timestamps either way; `FieldValue.serverTimestamp()` is the only sentinel
+// a write may carry.
+
+/**
+ * Atomic read-modify-write of one record: `apply` sees what is stored (null
+ * when missing) and returns the fields to change (null for none) plus a
+ * result. Throwing from `apply` leaves the record untouched.
+ */
+export type RecordUpdate<T, R> = (record: T | null) => { changes: Partial<T> | null; result: R };
+
+/**
+ * The queue, the showing token and plays, read and written atomically.
+ * Every read must come before the first write, as in a Firestore transaction.
+ */
+export interface QueueTransaction {
+  getCurrentToken(): Promise<CurrentTokenDoc | null>;
+  getFirstComeHead(): Promise<QueueItemAdmin | null>;
+  listReserved(): Promise<QueueItemAdmin[]>;                        // start order
+  listPlaylist(playlistId: string): Promise<QueueItemAdmin[]>;      // unordered
+  setCurrentToken(current: CurrentTokenDoc): void;
+  updateCurrentToken(changes: Partial<CurrentTokenDoc>): void;
+  createItem(item: QueueItemAdmin): void;                           // fails the transaction if the id exists
+  deleteItem(id: string): void;
+  setPlay(play: QueuePlay): void;
+  mergePlay(id: string, changes: Partial<QueuePlay>): void;
+}
+
+export interface QueueRepository {
+  list(): Promise<QueueItemAdmin[]>;                                // play order
+  listReserved(): Promise<QueueItemAdmin[]>;                        // start order
+  listForWallet(walletAddress: string): Promise<QueueItemAdmin[]>;
+  latestAddedAt(tokenMint: string, since: number): Promise<number | null>;
+  createItems(items: QueueItemAdmin[]): Promise<void>;              // all or none; fails if an id exists
+  runTransaction<T>(run: (tx: QueueTransaction) => Promise<T>): Promise<T>;
+}
+
+export interface CurrentTokenRepository {
+  get(): Promise<CurrentTokenDoc | null>;
+  merge(changes: Partial<CurrentTokenDoc>): Promise<void>;
+}
+
+export interface PlayRepository {
+  merge(id: string, changes: Partial<QueuePlay>): Promise<void>;
+  listForWallet(walletAddress: string): Promise<QueuePlay[]>;      // unordered
+  listForToken(tokenMint: string): Promise<QueuePlay[]>;           // unordered
+}
+
+export interface DeviceSessionRecord {
+  tokenMint: string;
+  modeId: number;
+  modeName: string;
+  speed: number;
+  amplitude: number;
+  updatedAt: Date;
+}
+
+export interface DeviceSessionRepository {
+  get(): Promise<DeviceSessionRecord | null>;
+  merge(session: Omit<DeviceSessionRecord, 'updatedAt'>): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TransactionRepository {
+  log(entry: TransactionLogAdmin): Promise<void>;
+  isSignatureUsed(signature: string): Promise<boolean>;
+  isSignatureVerified(signature: string): Promise<boolean>;   // logged with verified: true
+  latestVerifiedAt(tokenMint: string, since: number): Promise<number | null>;
+  listForWallet(walletAddress: string): Promise<TransactionLogAdmin[]>;   // unordered
+}
+
+export interface WebhookConfigRecord {
+  webhookId?: string | null;
+  currentToken?: string | null;
+  trackedToken?: string | null;  // token the Helius webhook was last pointed at
+  authToken?: string;
+  network?: string;
+}
+
+export interface WebhookConfigRepository {
+  get(): Promise<WebhookConfigRecord | null>;
+  set(config: WebhookConfigRecord): Promise<void>;
+  merge(changes: WebhookConfigRecord): Promise<void>;
+  delete(): Promise<void>;
+}
+
+export interface RefundRepository {
+  /** Store a new record, or return the one already kept for its signature */
+  create(record: RefundRecord): Promise<{ created: boolean; record: RefundRecord }>;
+  get(signature: string): Promise<RefundRecord | null>;
+  list(status: RefundStatus | null, limit: number): Promise<RefundRecord[]>;   // newest first
+  listForWallet(walletAddress: string): Promise<RefundRecord[]>;              // unordered
+  update<R>(signature: string, apply: RecordUpdate<RefundRecord, R>): Promise<R>;
+  merge(signature: string, changes: Partial<RefundRecord>): Promise<void>;
+}
+
+export interface PaymentIntentRepository {
+  create(intent: PaymentIntent): Promise<void>;                    // fails if the id exists
+  get(id: string): Promise<PaymentIntent | null>;
+  findByReference(reference: string): Promise<PaymentIntent | null>;
+  listWatched(now: number, limit: number): Promise<PaymentIntent[]>;   // watchUntil >= now, any status
+  update<R>(id: string, apply: RecordUpdate<PaymentIntent, R>): Promise<R>;
+  merge(id: string, changes: Partial<PaymentIntent>): Promise<void>;
+}
+
+export interface SignInNonceRepository {
+  create(record: SignInNonce): Promise<void>;                      // fails if the nonce exists
+  update<R>(nonce: string, apply: RecordUpdate<SignInNonce, R>): Promise<R>;
+}
+
+/** A scan that ran out of pages before reaching the cursor, to resume next run */
+export interface TreasuryBackfill {
+  before: string;   // oldest signature scanned; everything newer up to `newest` is filed
+  newest: string;   // newest signature seen; becomes the cursor once the gap is closed
+}
+
+export interface TreasuryWatcherState {
+  cursors?: Record<string, string>;   // newest signature with everything up to it filed, per watched address
+  backfills?: Record<string, TreasuryBackfill | null>;
+  lastRunAt?: number;
+}
+
+export interface TreasuryRepository {
+  getInflow(signature: string): Promise<TreasuryInflow | null>;
+  setInflow(inflow: TreasuryInflow): Promise<void>;
+  listPendingInflows(limit: number): Promise<TreasuryInflow[]>;
+  listInflowsSince(since: number, limit: number): Promise<TreasuryInflow[]>;   // newest first
+  getWatcherState(): Promise<TreasuryWatcherState | null>;
+  mergeWatcherState(state: TreasuryWatcherState): Promise<void>;
+}
+
+export interface TradeMarker {
+  tokenMint: string;
+  signature: string;
+  slot: number;
+  candleTimestamp: number;
+}
+
+export interface TradeCandleRepository {
+  /**
+   * Fold a trade into its minute candle unless its signature was seen
+   * before; false for duplicates
+   */
+  addTrade(marker: TradeMarker, fold: (candle: TradeCandle | null) => TradeCandle): Promise<boolean>;
+  listRecent(tokenMint: string, limit: number): Promise<TradeCandle[]>;   // newest first
+}
+
+export interface StateSnapshotRepository {
+  save(snapshot: AppStateSnapshot): Promise<void>;
+}
+
+/** The records the app state is built from, as of one moment */
+export interface StateSources {
+  queue: QueueItemAdmin[];                                          // play order
+  currentToken: CurrentTokenDoc | null;
+  deviceSession: DeviceSessionRecord | null;
+}
+
+export interface StateFeedRepository {
+  /**
+   * Deliver the sources once all of them have loaded, then again after every
+   * change made by any instance. `onError` means the feed has stopped; watch
+   * again to resume. Returns the unsubscribe.
+   */
+  watch(onChange: (sources: StateSources) => void, onError: (error: Error) => void): () => void;
+}
+
+export interface LiveEventRepository {
+  /** Store an event for every instance's watchers; false when its id was published before */
+  publish(event: LiveEvent): Promise<boolean>;
+  /**
+   * Deliver the `limit` most recently published events (even when there are
+   * none), then each one published after, by any instance, once and in
+   * publish order. `onError` means the feed has stopped; watch again to
+   * resume. Returns the unsubscribe.
+   */
+  watch(limit: number, onEvents: (events: LiveEvent[]) => void, onError: (error: Error) => void): () => void;
+}
+
+export interface DataStore {
+  queue: QueueRepository;
+  currentToken: CurrentTokenRepository;
+  plays: PlayRepository;
+  deviceSession: DeviceSessionRepository;
+  transactions: TransactionRepository;
+  webhookConfig: WebhookConfigRepository;
+  refunds: RefundRepository;
+  paymentIntents: PaymentIntentRepository;
+  signInNonces: SignInNonceRepository;
+  treasury: TreasuryRepository;
+  tradeCandles: TradeCandleRepository;
+  stateSnapshot: StateSnapshotRepository;
+  stateFeed: StateFeedRepository;
+  liveEvents: LiveEventRepository;
+}
@@ -0,0 +1,184 @@
+import type { Candle } from '@/lib/chartSync/types';
+import { getDataStore } from './storage';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TradeEvent {
+  type: 'BUY' | 'SELL';
+  signature: string;
+  slot: number;
+  tokenMint: string;
+  amount: number;
+  priceInSol: number;
+  wallet: string;
+  timestamp: number;
+}
+
+export interface TradeCandle extends Candle {
+  tokenMint: string;
+  tokenVolume: number;
+  trades: number;
+  buys: number;
+  sells: number;
+  buyVolume: number;
+  sellVolume: number;
+  openSlot: number;
+  closeSlot: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const CANDLE_INTERVAL_MS = 60000;
+// If the newest candle is older than this, the token isn't being tracked - let other providers answer
+const STALE_CANDLES_MS = 30 * 60 * 1000;
+
+function minuteStart(timestampMs: number): number {
+  return Math.floor(timestampMs / CANDLE_INTERVAL_MS) * CANDLE_INTERVAL_MS;
+}
+
+function tradePrice(trade: TradeEvent): number {
+  // priceInSol carries the SOL side of the swap; price is SOL per token
+  return trade.amount > 0 ? trade.priceInSol / trade.amount : 0;
+}
+
+function toTradeCandle(data: TradeCandle): TradeCandle {
+  return {
+    tokenMint: data.tokenMint,
+    timestamp: data.timestamp,
+    open: data.open,
+    high: data.high,
+    low: data.low,
+    close: data.close,
+    volume: data.volume || 0,
+    tokenVolume: data.tokenVolume || 0,
+    trades: data.trades || 0,
+    buys: data.buys || 0,
+    sells: data.sells || 0,
+    buyVolume: data.buyVolume || 0,
+    sellVolume: data.sellVolume || 0,
+    openSlot: data.openSlot || 0,
+    closeSlot: data.closeSlot || 0,
+  };
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+/**
+ * Fold a swap into its token's 1-minute candle.
+ * Runs in a transaction so duplicate deliveries (same signature) are dropped,
+ * and uses slot order so late deliveries can't overwrite a newer open/close.
+ * Returns false when the trade was a duplicate or unpriceable.
+ */
+export async function recordTradeCandle(trade: TradeEvent): Promise<boolean> {
+  const price = tradePrice(trade);
+  if (!Number.isFinite(price) || price <= 0) {
+    return false;
+  }
+
+  const timestamp = minuteStart(trade.timestamp);
+  const isBuy = trade.type === 'BUY';
+  const marker = { tokenMint: trade.tokenMint, signature: trade.signature, slot: trade.slot, candleTimestamp: timestamp };
+
+  return getDataStore().tradeCandles.addTrade(marker, (stored) => {
+    if (!stored) {
+      return {
+        tokenMint: trade.tokenMint,
+        timestamp,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: trade.priceInSol,
+        tokenVolume: trade.amount,
+        trades: 1,
+        buys: isBuy ? 1 : 0,
+        sells: isBuy ? 0 : 1,
+        buyVolume: isBuy ? trade.priceInSol : 0,
+        sellVolume: isBuy ? 0 : trade.priceInSol,
+        openSlot: trade.slot,
+        closeSlot: trade.slot,
+      };
+    }
+
+    const current = toTradeCandle(stored);
+    const isEarliest = trade.slot < current.openSlot;
+    const isLatest = trade.slot >= current.closeSlot;
+
+    return {
+      ...current,
+      open: isEarliest ? price : current.open,
+      openSlot: isEarliest ? trade.slot : current.openSlot,
+      close: isLatest ? price : current.close,
+      closeSlot: isLatest ? trade.slot : current.closeSlot,
+      high: Math.max(current.high, price),
+      low: Math.min(current.low, price),
+      volume: current.volume + trade.priceInSol,
+      tokenVolume: current.tokenVolume + trade.amount,
+      trades: current.trades + 1,
+      buys: current.buys + (isBuy ? 1 : 0),
+      sells: current.sells + (isBuy ? 0 : 1),
+      buyVolume: current.buyVolume + (isBuy ? trade.priceInSol : 0),
+      sellVolume: current.sellVolume + (isBuy ? 0 : trade.priceInSol),
+    };
+  });
+}
+
+// ============================================
+// READS
+// ============================================
+
+/**
+ * Get the most recent `limit` 1m candles for a token, oldest first.
+ * Minutes without trades are filled forward as flat zero-volume candles
+ * up to the current minute so EMAs see real time, not just trade time.
+ */
+export async function getTradeCandles(tokenMint: string, limit: number): Promise<TradeCandle[]> {
+  const recent = await getDataStore().tradeCandles.listRecent(tokenMint, limit);
+  if (recent.length === 0) {
+    return [];
+  }
+
+  const stored = recent.map(toTradeCandle).reverse();
+  const now = Date.now();
+  const newest = stored[stored.length - 1];
+  if (now - newest.timestamp > STALE_CANDLES_MS) {
+    return [];
+  }
+
+  const filled: TradeCandle[] = [];
+  const currentMinute = minuteStart(now);
+  let index = 0;
+  let previous: TradeCandle | null = null;
+
+  for (let time = stored[0].timestamp; time <= currentMinute; time += CANDLE_INTERVAL_MS) {
+    if (index < stored.length && stored[index].timestamp === time) {
+      previous = stored[index];
+      index += 1;
+      filled.push(previous);
+    } else if (previous) {
+      filled.push({
+        ...previous,
+        timestamp: time,
+        open: previous.close,
+        high: previous.close,
+        low: previous.close,
+        volume: 0,
+        tokenVolume: 0,
+        trades: 0,
+        buys: 0,
+        sells: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        openSlot: previous.closeSlot,
+      });
+    }
+  }
+
+  return filled.slice(-limit);
+}
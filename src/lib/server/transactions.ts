@@ -0,0 +1,101 @@
+import { FieldValue, TransactionLogAdmin } from '@/lib/firebase-admin';
+import { getDataStore } from './storage';
+
+// ============================================
+// TRANSACTION LOG
+// ============================================
+// Every payment the queue routes see is logged, verified or not. A logged
+// signature is spent: it can't be claimed again.
+
+/**
+ * Log a verified transaction (server-side only)
+ */
+export async function logTransactionAdmin(
+  tokenMint: string,
+  walletAddress: string,
+  amount: number,
+  type: string,
+  signature: string,
+  userId: string | null,
+  verified: boolean,
+  currency: 'SOL' | 'MINSTR' | null = null
+): Promise<void> {
+  const id = `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const transaction: TransactionLogAdmin = {
+    id,
+    tokenMint,
+    walletAddress,
+    amount,
+    type,
+    signature,
+    timestamp: FieldValue.serverTimestamp(),
+    userId,
+    verified,
+    currency,
+  };
+
+  await getDataStore().transactions.log(transaction);
+}
+
+/**
+ * Check if a transaction signature has already been used
+ */
+export async function isSignatureUsed(signature: string): Promise<boolean> {
+  return getDataStore().transactions.isSignatureUsed(signature);
+}
+
+/**
+ * Check if a transaction signature was logged as a verified payment
+ */
+export async function isSignatureVerified(signature: string): Promise<boolean> {
+  return getDataStore().transactions.isSignatureVerified(signature);
+}
+
+/**
+ * Check if a token address was recently used (within cooldown period)
+ * Returns the time remaining in milliseconds, or 0 if not in cooldown
+ */
+export async function checkDuplicateCooldown(
+  tokenMint: string,
+  cooldownMs: number
+): Promise<{ inCooldown: boolean; remainingMs: number; lastUsedAt: Date | null }> {
+  const store = getDataStore();
+  const cutoff = Date.now() - cooldownMs;
+
+  // Check current token, recent queue items and recent verified payments
+  const [currentData, queuedAt, paidAt] = await Promise.all([
+    store.currentToken.get(),
+    store.queue.latestAddedAt(tokenMint, cutoff),
+    store.transactions.latestVerifiedAt(tokenMint, cutoff),
+  ]);
+
+  // Check if currently displaying this token
+  if (currentData && currentData.tokenMint === tokenMint && currentData.queueItemId) {
+    const expiresAt = currentData.expiresAt;
+    if (expiresAt && expiresAt.toMillis() > Date.now()) {
+      const remainingMs = expiresAt.toMillis() - Date.now();
+      return {
+        inCooldown: true,
+        remainingMs: remainingMs + cooldownMs, // Add cooldown after display ends
+        lastUsedAt: new Date()
+      };
+    }
+  }
+
+  // Recent queue items first, then transactions (covers tokens that were
+  // displayed and removed from queue)
+  for (const usedAt of [queuedAt, paidAt]) {
+    if (usedAt === null) continue;
+    const remainingMs = cooldownMs - (Date.now() - usedAt);
+    if (remainingMs > 0) {
+      return {
+        inCooldown: true,
+        remainingMs,
+        lastUsedAt: new Date(usedAt)
+      };
+    }
+  }
+
+  return { inCooldown: false, remainingMs: 0, lastUsedAt: null };
+}
@@ -0,0 +1,235 @@
+import { VersionedTransactionResponse } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TREASURY_WALLET } from '@/lib/constants';
+import { getTreasuryTokenAccount, parseTreasuryReceipt } from './payments';
+import type { PaymentIntent } from './payment-intents';
+import { MemoryDataStore, setDataStore } from './storage';
+import { decideInflow, runTreasuryWatcher, TreasuryChainSource } from './treasury-watcher';
+import {
+  fixtureSignature as signatureOf,
+  treasuryTransaction,
+  TreasuryFixture,
+} from './__fixtures__/treasury-transactions';
+
+function receiptOf(name: TreasuryFixture) {
+  const receipt = parseTreasuryReceipt(treasuryTransaction(name));
+  if (!receipt.ok) throw new Error(`${name} is not an inflow: ${receipt.error}`);
+  return receipt;
+}
+
+/**
+ * Chain source replaying a fixed signature history per address, newest
+ * first, with getSignaturesForAddress paging
+ */
+function replaySource(
+  history: Record<string, string[]>,
+  transactions: Record<string, VersionedTransactionResponse>
+): TreasuryChainSource & { fetched: string[] } {
+  const fetched: string[] = [];
+  return {
+    fetched,
+    async listSignatures(address, { until, before, limit }) {
+      const signatures = history[address] || [];
+      const start = before ? signatures.indexOf(before) + 1 : 0;
+      const end = until && signatures.includes(until) ? signatures.indexOf(until) : signatures.length;
+      return signatures.slice(start, Math.min(end, start + limit)).map((signature) => ({ signature, err: null }));
+    },
+    async getTransaction(signature) {
+      fetched.push(signature);
+      return transactions[signature] ?? null;
+    },
+  };
+}
+
+/** An open intent the fixture's payment was made for */
+function intentFor(name: TreasuryFixture, changes: Partial<PaymentIntent> = {}): PaymentIntent {
+  const receipt = receiptOf(name);
+  return {
+    id: receipt.memos[0].slice('mgb:'.length),
+    memo: receipt.memos[0],
+    purpose: 'queue',
+    walletAddress: receipt.feePayer,
+    tokenMint: 'token',
+    tokenMints: null,
+    scheduledAt: null,
+    tierId: 'standard',
+    currency: receipt.currency,
+    amount: receipt.amount,
+    minutes: 5,
+    pinnedModeId: null,
+    queueItemId: null,
+    reference: null,
+    status: 'open',
+    consumedBy: null,
+    failure: null,
+    createdAt: 1_760_000_000_000 - 60_000,
+    expiresAt: 1_760_000_000_000 + 60_000,
+    watchUntil: null,
+    settlingUntil: null,
+    ...changes,
+  };
+}
+
+const NOW = 1_760_000_000_000 + 10 * 60_000;
+const unused = (name: TreasuryFixture) => ({ signature: signatureOf(name), used: false, settled: false });
+
+let store: MemoryDataStore;
+
+beforeEach(() => {
+  store = new MemoryDataStore();
+  setDataStore(store);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseTreasuryReceipt', () => {
+  it('reads SOL and MINSTR payments with their memos', () => {
+    expect(receiptOf('solPaymentWithMemo')).toMatchObject({
+      currency: 'SOL',
+      amount: 0.01,
+      memos: ['mgb:5f1c2e9a7b3d4c6e8f0a1b2c'],
+      blockTime: 1_760_000_000_000,
+    });
+    expect(receiptOf('minstrPaymentWithMemo')).toMatchObject({ currency: 'MINSTR', amount: 10_000 });
+  });
+
+  it('does not treat refunds or failed transactions as inflows', () => {
+    expect(parseTreasuryReceipt(treasuryTransaction('outgoingRefund')).ok).toBe(false);
+    expect(parseTreasuryReceipt(treasuryTransaction('failedPayment')).ok).toBe(false);
+  });
+});
+
+describe('decideInflow', () => {
+  it('counts a signature as claimed only once it is verified or refunded', () => {
+    const receipt = receiptOf('solPaymentWithMemo');
+    const intent = intentFor('solPaymentWithMemo', { status: 'failed' });
+    const signature = signatureOf('solPaymentWithMemo');
+
+    expect(decideInflow(receipt, intent, { signature, used: true, settled: true }, NOW)).toEqual({
+      action: 'claimed',
+    });
+    expect(decideInflow(receipt, intent, { signature, used: true, settled: false }, NOW)).toMatchObject({
+      action: 'unmatched',
+    });
+  });
+
+  it('files payments without a known intent as unmatched', () => {
+    expect(decideInflow(receiptOf('solPaymentWithoutMemo'), null, unused('solPaymentWithoutMemo'), NOW)).toEqual({
+      action: 'unmatched',
+      detail: 'No payment memo',
+    });
+    expect(decideInflow(receiptOf('solPaymentWithMemo'), null, unused('solPaymentWithMemo'), NOW)).toEqual({
+      action: 'unmatched',
+      detail: 'Memo names an unknown payment intent',
+    });
+  });
+
+  it('waits on a route that consumed the intent with this payment', () => {
+    const signature = signatureOf('solPaymentWithMemo');
+    const intent = intentFor('solPaymentWithMemo', { status: 'consumed', consumedBy: signature });
+    expect(decideInflow(receiptOf('solPaymentWithMemo'), intent, unused('solPaymentWithMemo'), NOW)).toEqual({
+      action: 'wait',
+    });
+  });
+
+  it('refunds a payment against an intent another payment used', () => {
+    const intent = intentFor('solPaymentWithMemo', { status: 'consumed', consumedBy: 'other' });
+    expect(decideInflow(receiptOf('solPaymentWithMemo'), intent, unused('solPaymentWithMemo'), NOW)).toMatchObject({
+      action: 'refund',
+    });
+  });
+
+  it('gives the paying page time to claim its own payment', () => {
+    const intent = intentFor('minstrPaymentWithMemo');
+    const receipt = receiptOf('minstrPaymentWithMemo');
+    expect(decideInflow(receipt, intent, unused('minstrPaymentWithMemo'), 1_760_000_030_000)).toEqual({
+      action: 'wait',
+    });
+    expect(decideInflow(receipt, intent, unused('minstrPaymentWithMemo'), NOW)).toEqual({
+      action: 'submit',
+      intent,
+    });
+  });
+});
+
+describe('runTreasuryWatcher', () => {
+  it('files inflows and keeps the cursor below one that has not landed', async () => {
+    const pending = 'pending-signature';
+    const history = {
+      [TREASURY_WALLET]: [
+        signatureOf('solPaymentWithoutMemo'),
+        pending,
+        signatureOf('outgoingRefund'),
+        'cursor-signature',
+      ],
+    };
+    const source = replaySource(history, {
+      [signatureOf('solPaymentWithoutMemo')]: treasuryTransaction('solPaymentWithoutMemo'),
+      [signatureOf('outgoingRefund')]: treasuryTransaction('outgoingRefund'),
+    });
+    await store.treasury.mergeWatcherState({ cursors: { [TREASURY_WALLET]: 'cursor-signature' } });
+
+    const report = await runTreasuryWatcher('http://localhost', source, NOW);
+
+    expect(report.counts.unmatched).toBe(1);
+    expect(await store.treasury.getInflow(signatureOf('solPaymentWithoutMemo'))).toMatchObject({
+      status: 'unmatched',
+      amount: 0.04,
+      detail: 'No payment memo',
+    });
+    expect(await store.treasury.getInflow(signatureOf('outgoingRefund'))).toBeNull();
+    const state = await store.treasury.getWatcherState();
+    expect(state?.cursors?.[TREASURY_WALLET]).toBe(signatureOf('outgoingRefund'));
+  });
+
+  it('works through more than MAX_PAGES pages over several runs', async () => {
+    // 650 new signatures: more than the 5 pages of 100 one run looks at
+    const newSignatures = Array.from({ length: 650 }, (_, index) => `signature-${String(650 - index).padStart(4, '0')}`);
+    const history = {
+      [TREASURY_WALLET]: [...newSignatures, 'signature-0000'],
+      [getTreasuryTokenAccount()]: [],
+    };
+    const refund = treasuryTransaction('outgoingRefund');
+    const source = replaySource(history, Object.fromEntries(newSignatures.map((signature) => [signature, refund])));
+    await store.treasury.mergeWatcherState({ cursors: { [TREASURY_WALLET]: 'signature-0000' } });
+
+    await runTreasuryWatcher('http://localhost', source, NOW);
+    let state = await store.treasury.getWatcherState();
+    expect(state?.cursors?.[TREASURY_WALLET]).toBe('signature-0000');
+    expect(state?.backfills?.[TREASURY_WALLET]).toEqual({ before: 'signature-0151', newest: 'signature-0650' });
+    expect(source.fetched).toHaveLength(500);
+
+    await runTreasuryWatcher('http://localhost', source, NOW);
+    state = await store.treasury.getWatcherState();
+    expect(state?.cursors?.[TREASURY_WALLET]).toBe('signature-0650');
+    expect(state?.backfills?.[TREASURY_WALLET]).toBeNull();
+    expect(new Set(source.fetched)).toEqual(new Set(newSignatures));
+    expect(source.fetched).toHaveLength(650);
+  });
+
+  it('records a refund for a payment a route turns away before reading it', async () => {
+    const signature = signatureOf('minstrPaymentWithMemo');
+    const intent = intentFor('minstrPaymentWithMemo', { purpose: 'extend' });
+    await store.paymentIntents.create(intent);
+    const history = { [TREASURY_WALLET]: [signature], [getTreasuryTokenAccount()]: [] };
+    const source = replaySource(history, { [signature]: treasuryTransaction('minstrPaymentWithMemo') });
+
+    vi.stubGlobal('fetch', async () => Response.json({ error: 'Internal auth required' }, { status: 401 }));
+    await runTreasuryWatcher('http://localhost', source, NOW);
+    expect(await store.treasury.getInflow(signature)).toMatchObject({ status: 'pending' });
+    expect(await store.refunds.get(signature)).toBeNull();
+
+    vi.stubGlobal('fetch', async () => Response.json({ error: 'The token showing has changed' }, { status: 409 }));
+    await runTreasuryWatcher('http://localhost', source, NOW);
+    expect(await store.treasury.getInflow(signature)).toMatchObject({ status: 'rejected' });
+    expect(await store.refunds.get(signature)).toMatchObject({
+      reason: 'payment_rejected',
+      currency: 'MINSTR',
+      amount: 10_000,
+      walletAddress: intent.walletAddress,
+    });
+    expect(await store.paymentIntents.get(intent.id)).toMatchObject({ status: 'failed', consumedBy: signature });
+  });
+});
@@ -0,0 +1,412 @@
+import { PublicKey, VersionedTransactionResponse } from '@solana/web3.js';
+import { PAYMENT_MEMO_PREFIX, PaymentCurrency, TREASURY_WALLET } from '@/lib/constants';
+import {
+  getPaymentConnection,
+  getTreasuryTokenAccount,
+  parseTreasuryReceipt,
+  TreasuryReceipt,
+} from './payments';
+import {
+  ensureRejectedPaymentRefund,
+  failPaymentIntent,
+  getPaymentIntent,
+  PaymentIntent,
+  submitIntentPayment,
+} from './payment-intents';
+import { getRefund, tryRecordPendingRefund } from './refunds';
+import { getDataStore } from './storage';
+import type { TreasuryBackfill } from './storage';
+import { isSignatureUsed, isSignatureVerified } from './transactions';
+
+// ============================================
+// TREASURY WATCHER
+// ============================================
+// Payments are normally claimed by the page that sent them. If the tab closes
+// first, the money reaches the treasury but never the queue. The watcher walks
+// recent transactions on the treasury wallet and its MINSTR account, matches
+// each inflow to a payment intent by memo, and claims it through the same
+// queue routes the page uses. Every inflow it sees is filed in
+// `treasuryInflows` for reconciliation, matched or not.
+//
+// Chain access goes through a TreasuryChainSource so known transactions can
+// be replayed through the watcher in place of RPC.
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 5;
+const PENDING_BATCH = 50;
+
+/** The paying page gets this long to claim its own payment first */
+export const CLIENT_CLAIM_GRACE_MS = 60_000;
+
+export type InflowStatus =
+  | 'pending'     // waiting on the paying page, or a retryable failure
+  | 'claimed'     // already bought a slot or was refunded by the page or a Solana Pay settlement
+  | 'matched'     // claimed by the watcher for its intent
+  | 'rejected'    // matched an intent but bought nothing; refund recorded
+  | 'unmatched';  // no usable intent; needs a human
+
+export interface TreasuryInflow {
+  signature: string;              // also the record id
+  currency: PaymentCurrency;
+  amount: number;
+  feePayer: string;
+  memos: string[];
+  blockTime: number | null;
+  intentId: string | null;
+  status: InflowStatus;
+  detail: string | null;
+  attempts: number;
+  firstSeenAt: number;
+  updatedAt: number;
+}
+
+export interface TreasuryChainSource {
+  /** Newest first, like getSignaturesForAddress */
+  listSignatures(
+    address: string,
+    options: { until?: string; before?: string; limit: number }
+  ): Promise<Array<{ signature: string; err: unknown }>>;
+  getTransaction(signature: string): Promise<VersionedTransactionResponse | null>;
+}
+
+export interface WatcherReport {
+  scanned: number;
+  counts: Record<InflowStatus, number>;
+}
+
+export function rpcChainSource(): TreasuryChainSource {
+  const connection = getPaymentConnection();
+  return {
+    listSignatures: (address, options) =>
+      connection.getSignaturesForAddress(new PublicKey(address), options, 'confirmed'),
+    getTransaction: (signature) =>
+      connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }),
+  };
+}
+
+/**
+ * Payment intent id named by a `mgb:<nonce>` memo, if any
+ */
+export function intentIdFromMemos(memos: string[]): string | null {
+  for (const memo of memos) {
+    const nonce = memo.startsWith(PAYMENT_MEMO_PREFIX) ? memo.slice(PAYMENT_MEMO_PREFIX.length) : '';
+    if (/^[0-9a-f]{24}$/.test(nonce)) {
+      return nonce;
+    }
+  }
+  return null;
+}
+
+/** What the queue routes already did with an inflow's signature */
+export interface SignatureUse {
+  signature: string;
+  used: boolean;       // logged, verified or not
+  settled: boolean;    // logged as verified, or a refund is on record
+}
+
+export type InflowDecision =
+  | { action: 'claimed' }
+  | { action: 'unmatched'; detail: string }
+  | { action: 'wait' }
+  | { action: 'submit'; intent: PaymentIntent }
+  | { action: 'refund'; intent: PaymentIntent; detail: string };
+
+/**
+ * What to do with one treasury inflow. Pure; all lookups are done by the caller.
+ */
+export function decideInflow(
+  receipt: Extract<TreasuryReceipt, { ok: true }>,
+  intent: PaymentIntent | null,
+  use: SignatureUse,
+  now: number = Date.now(),
+  firstSeenAt: number = now
+): InflowDecision {
+  if (use.settled) {
+    return { action: 'claimed' };
+  }
+  // Turned away without buying anything or recording a refund
+  if (use.used) {
+    return { action: 'unmatched', detail: 'Logged as unverified with no refund on record' };
+  }
+  if (!intent) {
+    return {
+      action: 'unmatched',
+      detail: intentIdFromMemos(receipt.memos) ? 'Memo names an unknown payment intent' : 'No payment memo',
+    };
+  }
+  if (receipt.feePayer !== intent.walletAddress) {
+    return { action: 'unmatched', detail: `Paid by ${receipt.feePayer}, not the intent's wallet` };
+  }
+  if (intent.status === 'consumed' && intent.consumedBy === use.signature) {
+    // The route consumed the intent with this payment and hasn't logged it yet
+    return { action: 'wait' };
+  }
+  if (intent.status !== 'open') {
+    return { action: 'refund', intent, detail: `Payment intent ${intent.id} was already used` };
+  }
+  if (now - (receipt.blockTime ?? firstSeenAt) < CLIENT_CLAIM_GRACE_MS) {
+    return { action: 'wait' };
+  }
+  return { action: 'submit', intent };
+}
+
+interface SignatureScan {
+  signatures: string[];          // landed ones, oldest first
+  newest: string | null;         // newest signature listed, landed or not
+  resumeBefore: string | null;   // oldest one listed when pages ran out before the cursor
+}
+
+/**
+ * New signatures on `address` between `cursor` and `before`, at most
+ * MAX_PAGES of them
+ */
+async function listNewSignatures(
+  source: TreasuryChainSource,
+  address: string,
+  cursor: string | undefined,
+  before: string | undefined
+): Promise<SignatureScan> {
+  const found: string[] = [];
+  let newest: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page += 1) {
+    const batch = await source.listSignatures(address, { until: cursor, before, limit: PAGE_SIZE });
+    newest = newest ?? batch[0]?.signature ?? null;
+    found.push(...batch.filter((entry) => !entry.err).map((entry) => entry.signature));
+    // Without a cursor only the latest page is looked at
+    if (batch.length < PAGE_SIZE || !cursor) {
+      return { signatures: found.reverse(), newest, resumeBefore: null };
+    }
+    before = batch[batch.length - 1].signature;
+  }
+
+  return { signatures: found.reverse(), newest, resumeBefore: before ?? null };
+}
+
+// 'skipped': not an inflow, or already filed for good; 'retry': couldn't be filed this pass
+type SignatureOutcome = InflowStatus | 'skipped' | 'retry';
+
+async function processSignature(
+  signature: string,
+  source: TreasuryChainSource,
+  baseUrl: string,
+  now: number
+): Promise<SignatureOutcome> {
+  const treasury = getDataStore().treasury;
+  const existing = await treasury.getInflow(signature);
+  if (existing && existing.status !== 'pending') {
+    return 'skipped';
+  }
+
+  const tx = await source.getTransaction(signature);
+  if (!tx) {
+    console.warn(`[Treasury] ${signature} not found yet`);
+    return 'retry';
+  }
+  const receipt = parseTreasuryReceipt(tx);
+  if (!receipt.ok) {
+    // Outgoing transfers (refunds) and failed transactions aren't inflows
+    return 'skipped';
+  }
+
+  const intentId = intentIdFromMemos(receipt.memos);
+  const [intent, used, verified, refund] = await Promise.all([
+    intentId ? getPaymentIntent(intentId) : Promise.resolve(null),
+    isSignatureUsed(signature),
+    isSignatureVerified(signature),
+    getRefund(signature),
+  ]);
+  const use = { signature, used, settled: verified || refund !== null };
+  const decision = decideInflow(receipt, intent, use, now, existing?.firstSeenAt ?? now);
+
+  let status: InflowStatus;
+  let detail: string | null = null;
+  switch (decision.action) {
+    case 'claimed':
+      status = 'claimed';
+      break;
+    case 'unmatched':
+      status = 'unmatched';
+      detail = decision.detail;
+      break;
+    case 'wait':
+      status = 'pending';
+      detail = 'Waiting for the paying page to claim it';
+      break;
+    case 'refund': {
+      const recorded = await tryRecordPendingRefund({
+        signature,
+        walletAddress: receipt.feePayer,
+        tokenMint: decision.intent.tokenMint,
+        currency: receipt.currency,
+        amount: receipt.amount,
+        reason: 'intent_reused',
+        detail: decision.detail,
+      });
+      status = recorded ? 'rejected' : 'pending';
+      detail = decision.detail;
+      break;
+    }
+    case 'submit': {
+      const submission = await submitIntentPayment(decision.intent, signature, baseUrl);
+      if (submission.outcome === 'accepted') {
+        status = 'matched';
+        console.log(`[Treasury] Claimed ${signature} for intent ${decision.intent.id}`);
+      } else if (submission.outcome === 'rejected') {
+        const refund = await ensureRejectedPaymentRefund(decision.intent, signature, receipt, submission.error);
+        // Not rejected until a refund is on record; the next pass looks again
+        status = refund === 'refunded' ? 'rejected' : 'pending';
+        detail = refund === 'claimed' ? 'Claimed by a queue route' : submission.error;
+        if (refund === 'refunded') {
+          await failPaymentIntent(decision.intent.id, signature, submission.error);
+        }
+      } else {
+        status = 'pending';
+        detail = submission.outcome === 'busy' ? 'Being claimed elsewhere' : submission.error;
+      }
+      break;
+    }
+  }
+
+  const inflow: TreasuryInflow = {
+    signature,
+    currency: receipt.currency,
+    amount: receipt.amount,
+    feePayer: receipt.feePayer,
+    memos: receipt.memos,
+    blockTime: receipt.blockTime,
+    intentId,
+    status,
+    detail,
+    attempts: (existing?.attempts || 0) + 1,
+    firstSeenAt: existing?.firstSeenAt ?? now,
+    updatedAt: now,
+  };
+  await treasury.setInflow(inflow);
+  return status;
+}
+
+/**
+ * File one address's new signatures, oldest first, and work out where the
+ * next run starts. A cursor never moves past a signature that couldn't be
+ * filed. When the pages run out before reaching the cursor, the cursor stays
+ * put and the next run resumes below the oldest signature scanned, so a burst
+ * of more than MAX_PAGES pages is worked through over several runs instead
+ * of being skipped.
+ */
+async function scanAddress(
+  source: TreasuryChainSource,
+  address: string,
+  cursor: string | undefined,
+  backfill: TreasuryBackfill | null,
+  file: (signature: string) => Promise<SignatureOutcome>
+): Promise<{ cursor: string | undefined; backfill: TreasuryBackfill | null }> {
+  const scan = await listNewSignatures(source, address, cursor, backfill?.before);
+
+  let filedUpTo = cursor;
+  let lastRetry = -1;
+  for (const [index, signature] of scan.signatures.entries()) {
+    if ((await file(signature)) === 'retry') {
+      lastRetry = index;
+    } else if (lastRetry === -1) {
+      filedUpTo = signature;
+    }
+  }
+
+  if (scan.resumeBefore === null) {
+    // Reached the cursor: once nothing is left to retry the gap is closed
+    if (lastRetry === -1 && backfill) return { cursor: backfill.newest, backfill: null };
+    return { cursor: filedUpTo, backfill };
+  }
+
+  // Resume just above the newest signature that couldn't be filed, if any
+  const before =
+    lastRetry === -1 ? scan.resumeBefore : scan.signatures[lastRetry + 1] ?? backfill?.before ?? null;
+  const newest = backfill?.newest ?? scan.newest;
+  return { cursor, backfill: before && newest ? { before, newest } : null };
+}
+
+/**
+ * One pass over new treasury transactions plus inflows still pending
+ */
+export async function runTreasuryWatcher(
+  baseUrl: string,
+  source: TreasuryChainSource = rpcChainSource(),
+  now: number = Date.now()
+): Promise<WatcherReport> {
+  const treasury = getDataStore().treasury;
+  const state = await treasury.getWatcherState();
+  const cursors = { ...(state?.cursors || {}) };
+  const backfills = { ...(state?.backfills || {}) };
+
+  // The same transaction can show up on both addresses
+  const outcomes = new Map<string, SignatureOutcome>();
+  const fileSignature = async (signature: string): Promise<SignatureOutcome> => {
+    let outcome = outcomes.get(signature);
+    if (!outcome) {
+      try {
+        outcome = await processSignature(signature, source, baseUrl, now);
+      } catch (error) {
+        console.error(`[Treasury] Failed to process ${signature}:`, error);
+        outcome = 'retry';
+      }
+      outcomes.set(signature, outcome);
+    }
+    return outcome;
+  };
+
+  for (const address of [TREASURY_WALLET, getTreasuryTokenAccount()]) {
+    const next = await scanAddress(source, address, cursors[address], backfills[address] ?? null, fileSignature);
+    if (next.cursor) cursors[address] = next.cursor;
+    backfills[address] = next.backfill;
+  }
+
+  const pending = await treasury.listPendingInflows(PENDING_BATCH);
+  for (const inflow of pending) {
+    await fileSignature(inflow.signature);
+  }
+
+  await treasury.mergeWatcherState({ cursors, backfills, lastRunAt: now });
+
+  const counts: Record<InflowStatus, number> = { pending: 0, claimed: 0, matched: 0, rejected: 0, unmatched: 0 };
+  for (const outcome of outcomes.values()) {
+    if (outcome !== 'skipped' && outcome !== 'retry') counts[outcome] += 1;
+  }
+  return { scanned: outcomes.size, counts };
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+export interface ReconciliationReport {
+  since: number;
+  totals: Record<InflowStatus, { count: number; SOL: number; MINSTR: number }>;
+  inflows: TreasuryInflow[];      // the ones needing attention: unmatched and pending
+}
+
+/**
+ * Treasury inflows seen since `since`, totalled by status and currency
+ */
+export async function buildReconciliationReport(since: number, limit: number = 500): Promise<ReconciliationReport> {
+  const all = await getDataStore().treasury.listInflowsSince(since, limit);
+
+  const empty = () => ({ count: 0, SOL: 0, MINSTR: 0 });
+  const totals: ReconciliationReport['totals'] = {
+    pending: empty(),
+    claimed: empty(),
+    matched: empty(),
+    rejected: empty(),
+    unmatched: empty(),
+  };
+  for (const inflow of all) {
+    totals[inflow.status].count += 1;
+    totals[inflow.status][inflow.currency] += inflow.amount;
+  }
+
+  return {
+    since,
+    totals,
+    inflows: all.filter((inflow) => inflow.status === 'unmatched' || inflow.status === 'pending'),
+  };
+}
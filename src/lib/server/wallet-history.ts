@@ -0,0 +1,187 @@
+import { PaymentCurrency } from '@/lib/constants';
+import { Timestamp } from '@/lib/firebase-admin';
+import { getModeName, getSessionTimeline, TimelineEntry } from '@/lib/chartSync';
+import { findPlayAt, listPlaysForWallet, listQueuedForWallet, QueuePlay } from './queue-engine';
+import { RefundReason, RefundStatus } from './refunds';
+import { getDataStore } from './storage';
+
+// ============================================
+// WALLET HISTORY
+// ============================================
+// Receipts for one wallet: every payment it logged, joined to what the
+// payment bought. Queue payments join their plays (several for a playlist)
+// and waiting queue items by signature; extensions join whichever play of
+// their token was on screen when they were paid, which may belong to another
+// wallet. Plays link to the chart-sync session that drove the device, whose
+// timeline says which modes ran and what was sent.
+
+export type WalletPaymentStatus =
+  | 'rejected'      // payment didn't verify or bought nothing
+  | 'not_applied'   // verified, but failed afterwards; see refund
+  | 'queued'        // waiting in the queue, or for its reserved start
+  | 'playing'
+  | 'played';       // also payments from before plays were recorded
+
+export interface WalletTimelineEntry {
+  at: number;
+  elapsedMs: number;
+  mode: string;
+  intensity: number;
+  booster: string | null;
+  limited: boolean;
+  speed: number;
+  minY: number;
+  maxY: number;
+}
+
+export interface WalletPlay {
+  queueItemId: string;
+  tokenMint: string;
+  scheduledAt: number | null;      // reserved start, when it was a reservation
+  startedAt: number;
+  expiresAt: number;
+  displayDuration: number;
+  pinnedMode: string | null;       // null = chart-picked (auto)
+  sessionId: string | null;
+  modes: string[];                 // modes that ran, in the order they first ran
+  timeline: WalletTimelineEntry[];
+}
+
+export interface WalletPayment {
+  signature: string;
+  kind: 'queue' | 'extension';
+  tierId: string | null;           // PAYMENT_TIERS id; null for extensions
+  tokenMint: string;
+  currency: PaymentCurrency | null;
+  amount: number;
+  verified: boolean;
+  paidAt: number | null;
+  status: WalletPaymentStatus;
+  plays: WalletPlay[];             // slots bought (one per playlist token) or extended, in play order
+  refund: {
+    status: RefundStatus;
+    reason: RefundReason;
+    refundSignature: string | null;
+  } | null;
+}
+
+export interface WalletHistory {
+  walletAddress: string;
+  payments: WalletPayment[];       // newest first
+}
+
+function toMillis(value: unknown): number | null {
+  return value instanceof Timestamp ? value.toMillis() : null;
+}
+
+function toTimelineEntry(entry: TimelineEntry): WalletTimelineEntry {
+  return {
+    at: entry.at,
+    elapsedMs: entry.elapsedMs,
+    mode: entry.mode,
+    intensity: entry.intensity,
+    booster: entry.booster,
+    limited: entry.limited,
+    speed: entry.command.speed,
+    minY: entry.command.minY,
+    maxY: entry.command.maxY,
+  };
+}
+
+async function describePlay(play: QueuePlay): Promise<WalletPlay> {
+  const timeline = play.sessionId ? await getSessionTimeline(play.sessionId) : null;
+  const entries = timeline?.entries || [];
+
+  return {
+    queueItemId: play.id,
+    tokenMint: play.tokenMint,
+    scheduledAt: play.scheduledAt?.toMillis() ?? null,
+    startedAt: play.startedAt.toMillis(),
+    expiresAt: play.expiresAt.toMillis(),
+    displayDuration: play.displayDuration,
+    pinnedMode: play.pinnedModeId != null ? getModeName(play.pinnedModeId) : null,
+    sessionId: play.sessionId,
+    modes: Array.from(new Set(entries.map((entry) => entry.mode))),
+    timeline: entries.map(toTimelineEntry),
+  };
+}
+
+/**
+ * Build `walletAddress`'s receipts from its `limit` most recent payments
+ */
+export async function getWalletHistory(walletAddress: string, limit: number = 50): Promise<WalletHistory> {
+  const store = getDataStore();
+  // Single-field lookups; sorted and joined here so no composite index is needed
+  const [logged, walletRefunds, plays, queued] = await Promise.all([
+    store.transactions.listForWallet(walletAddress),
+    store.refunds.listForWallet(walletAddress),
+    listPlaysForWallet(walletAddress),
+    listQueuedForWallet(walletAddress),
+  ]);
+
+  const transactions = logged
+    .sort((a, b) => (toMillis(b.timestamp) ?? 0) - (toMillis(a.timestamp) ?? 0))
+    .slice(0, limit);
+  const refunds = new Map(walletRefunds.map((refund) => [refund.signature, refund] as const));
+  const queuedSignatures = new Set(queued.map((item) => item.transactionSignature));
+
+  // A session's timeline is shared by the slot's payment and its extensions
+  const described = new Map<string, Promise<WalletPlay>>();
+  const describe = (play: QueuePlay) => {
+    if (!described.has(play.id)) described.set(play.id, describePlay(play));
+    return described.get(play.id)!;
+  };
+
+  const now = Date.now();
+  const payments = await Promise.all(
+    transactions.map(async (transaction): Promise<WalletPayment> => {
+      const kind = transaction.type === 'extension' ? 'extension' : 'queue';
+      const paidAt = toMillis(transaction.timestamp);
+      let played: QueuePlay[] = [];
+      if (kind === 'queue') {
+        played = plays
+          .filter((play) => play.transactionSignature === transaction.signature)
+          .sort((a, b) => a.startedAt.toMillis() - b.startedAt.toMillis());
+      } else if (paidAt !== null && transaction.verified) {
+        const extended = await findPlayAt(transaction.tokenMint, paidAt);
+        played = extended ? [extended] : [];
+      }
+      const refund = refunds.get(transaction.signature) || null;
+
+      let status: WalletPaymentStatus;
+      if (!transaction.verified) {
+        status = 'rejected';
+      } else if (refund) {
+        status = 'not_applied';
+      } else if (played.some((play) => play.expiresAt.toMillis() > now)) {
+        status = 'playing';
+      } else if (kind === 'queue' && queuedSignatures.has(transaction.signature)) {
+        status = 'queued';
+      } else {
+        status = 'played';
+      }
+
+      return {
+        signature: transaction.signature,
+        kind,
+        tierId: kind === 'queue' ? transaction.type : null,
+        tokenMint: transaction.tokenMint,
+        currency:
+          transaction.currency ??
+          (kind === 'queue' ? played[0]?.paymentCurrency : null) ??
+          refund?.currency ??
+          null,
+        amount: transaction.amount,
+        verified: transaction.verified,
+        paidAt,
+        status,
+        plays: transaction.verified && !refund ? await Promise.all(played.map(describe)) : [],
+        refund: refund
+          ? { status: refund.status, reason: refund.reason, refundSignature: refund.refundSignature }
+          : null,
+      };
+    })
+  );
+
+  return { walletAddress, payments };
+}
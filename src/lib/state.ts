@@ -7,6 +7,11 @@ export interface StateQueueItem {
   displayDuration: number;
   position: number;
   expiresAt: number | null;
+  pinnedModeId: number | null;   // payer-pinned chart-sync mode; null = auto
+  scheduledAt: number | null;    // reserved start; null = first-come line
+  playlistId: string | null;
+  playlistIndex: number;
+  playlistSize: number;
 }
 
 export interface DeviceSessionState {
@@ -33,7 +38,7 @@ export interface DeviceStateSnapshot {
 }
 
 export interface AppStateSnapshot {
-  version: number;
+  version: number;               // revision on the serving instance; rises with every change
   source: string;
   updatedAt: number;
   currentToken: string;
@@ -42,3 +47,64 @@ export interface AppStateSnapshot {
   device: DeviceStateSnapshot;
 }
 
+
+// ============================================
+// STATE STREAM EVENTS
+// ============================================
+// /api/state/stream opens with a full `state` event, then sends one typed
+// event per change. Each event's SSE id is `<epoch>.<revision>`: the epoch
+// names one server instance's history and the revision counts its changes,
+// so a client that reconnects with the last id it saw is sent only what it
+// missed, and one that lands on another instance gets a fresh `state`.
+
+export type StateChange =
+  | { type: 'queue.insert'; index: number; item: StateQueueItem }
+  | { type: 'queue.remove'; id: string }
+  | { type: 'current.change'; currentToken: string; currentItem: StateQueueItem | null }
+  | { type: 'device.tick'; device: DeviceStateSnapshot };
+
+export type StateEvent = StateChange & { revision: number; updatedAt: number };
+
+export const STATE_EVENT_TYPES: StateEvent['type'][] = ['queue.insert', 'queue.remove', 'current.change', 'device.tick'];
+
+export function formatStateEventId(epoch: string, revision: number): string {
+  return `${epoch}.${revision}`;
+}
+
+export function parseStateEventId(id: string | null | undefined): { epoch: string; revision: number } | null {
+  if (!id) return null;
+  const split = id.lastIndexOf('.');
+  const revision = Number(id.slice(split + 1));
+  if (split <= 0 || !Number.isInteger(revision) || revision < 0) return null;
+  return { epoch: id.slice(0, split), revision };
+}
+
+/**
+ * Apply one change to a snapshot; queue positions follow queue order
+ */
+export function applyStateEvent(snapshot: AppStateSnapshot, event: StateEvent): AppStateSnapshot {
+  const next: AppStateSnapshot = { ...snapshot, version: event.revision, updatedAt: event.updatedAt };
+
+  switch (event.type) {
+    case 'queue.insert': {
+      const queue = snapshot.queue.filter((item) => item.id !== event.item.id);
+      queue.splice(event.index, 0, event.item);
+      next.queue = queue.map((item, position) => ({ ...item, position }));
+      break;
+    }
+    case 'queue.remove':
+      next.queue = snapshot.queue
+        .filter((item) => item.id !== event.id)
+        .map((item, position) => ({ ...item, position }));
+      break;
+    case 'current.change':
+      next.currentToken = event.currentToken;
+      next.currentItem = event.currentItem;
+      break;
+    case 'device.tick':
+      next.device = event.device;
+      break;
+  }
+
+  return next;
+}
@@ -0,0 +1,43 @@
+// ============================================
+// WALLET SIGN-IN (CLIENT)
+// ============================================
+// Browser half of Sign-In With Solana; the server half is lib/server/auth.ts
+
+export interface SigningWallet {
+  address: string | null;
+  signMessage: (message: string) => Promise<Uint8Array>;
+}
+
+/**
+ * Make sure the server session belongs to the connected wallet, signing a
+ * fresh Sign-In With Solana message when it doesn't
+ */
+export async function ensureWalletSession(wallet: SigningWallet): Promise<void> {
+  const current = (await (await fetch('/api/auth/session')).json()) as { walletAddress?: string | null };
+  if (current.walletAddress === wallet.address) return;
+
+  const nonceResponse = await fetch('/api/auth/nonce', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ walletAddress: wallet.address }),
+  });
+  const challenge = (await nonceResponse.json()) as { nonce?: string; message?: string; error?: string };
+  if (!nonceResponse.ok || !challenge.nonce || !challenge.message) {
+    throw new Error(challenge.error || 'Failed to start sign-in');
+  }
+
+  const signature = await wallet.signMessage(challenge.message);
+  const sessionResponse = await fetch('/api/auth/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      walletAddress: wallet.address,
+      nonce: challenge.nonce,
+      signature: Buffer.from(signature).toString('base64'),
+    }),
+  });
+  if (!sessionResponse.ok) {
+    const result = (await sessionResponse.json()) as { error?: string };
+    throw new Error(result.error || 'Sign-in failed');
+  }
+}